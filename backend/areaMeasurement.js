@@ -0,0 +1,145 @@
+// @ts-check
+// Area measurement in a projected CRS.
+// turf.area works on the sphere; here each geometry is reprojected to the UTM
+// zone of its district (or of its centroid, for unknown districts) and measured
+// in planar metres, which is what survey and revenue records use.
+
+const proj4 = require('proj4');
+const turf = require('@turf/turf');
+const { AREA_UNIT_LABELS, CLAIM_LIMITS, convertArea, sqMetersTo } = require('fra-shared');
+
+// UTM zone (northern hemisphere) covering each district
+const DISTRICT_UTM_ZONES = {
+    Kandhamal: 45,
+    Sundargarh: 45,
+    Bastar: 44,
+    Mandla: 44,
+    Gadchiroli: 44,
+    Koraput: 44
+};
+
+const utmZoneForLongitude = (lon) => Math.floor((lon + 180) / 6) + 1;
+
+/** @type {Map<number, proj4.Converter>} */
+const converters = new Map();
+
+const converterFor = (zone) => {
+    let converter = converters.get(zone);
+    if (!converter) {
+        converter = proj4('EPSG:4326', `+proj=utm +zone=${zone} +datum=WGS84 +units=m +no_defs`);
+        converters.set(zone, converter);
+    }
+    return converter;
+};
+
+/**
+ * Picks the projected CRS used to measure a geometry
+ * @param {any} feature GeoJSON Feature or geometry
+ * @param {string} [district]
+ */
+function projectionFor(feature, district) {
+    const zone = (district && DISTRICT_UTM_ZONES[district])
+        || utmZoneForLongitude(turf.centroid(feature).geometry.coordinates[0]);
+    return { zone, label: `UTM ${zone}N (EPSG:${32600 + zone})` };
+}
+
+/**
+ * Planar shoelace area of one ring, in projected units
+ * @param {number[][]} ring
+ * @param {proj4.Converter} converter
+ */
+function ringArea(ring, converter) {
+    const projected = ring.map(position => converter.forward([position[0], position[1]]));
+    let sum = 0;
+    for (let i = 0; i < projected.length - 1; i++) {
+        const [x1, y1] = projected[i];
+        const [x2, y2] = projected[i + 1];
+        sum += x1 * y2 - x2 * y1;
+    }
+    return Math.abs(sum) / 2;
+}
+
+/**
+ * Exterior ring minus holes
+ * @param {number[][][]} rings
+ * @param {proj4.Converter} converter
+ */
+const polygonArea = (rings, converter) =>
+    rings.reduce((total, ring, idx) => total + (idx === 0 ? 1 : -1) * ringArea(ring, converter), 0);
+
+/**
+ * Area of a Polygon or MultiPolygon (Feature or bare geometry) in square metres
+ * @param {any} feature
+ * @param {string} [district] District whose CRS to use
+ */
+function areaSqMeters(feature, district) {
+    const geometry = feature.type === 'Feature' ? feature.geometry : feature;
+    if (!geometry) return 0;
+    const converter = converterFor(projectionFor(feature, district).zone);
+
+    if (geometry.type === 'Polygon') return polygonArea(geometry.coordinates, converter);
+    if (geometry.type === 'MultiPolygon') {
+        return geometry.coordinates.reduce((total, rings) => total + polygonArea(rings, converter), 0);
+    }
+    return 0;
+}
+
+/**
+ * Area in acres, the unit every capacity and store field uses
+ * @param {any} feature
+ * @param {string} [district]
+ */
+const areaAcres = (feature, district) => sqMetersTo(areaSqMeters(feature, district), 'acres');
+
+/**
+ * Measures a geometry in the requested unit and names the CRS used
+ * @param {any} feature
+ * @param {string | undefined} district
+ * @param {import('fra-shared').AreaUnit} unit
+ * @returns {import('fra-shared').MeasureAreaResponse}
+ */
+function measureArea(feature, district, unit) {
+    return {
+        area: parseFloat(sqMetersTo(areaSqMeters(feature, district), unit).toFixed(4)),
+        unit,
+        crs: projectionFor(feature, district).label
+    };
+}
+
+/**
+ * Compares the declared area with the drawn boundary
+ * @param {any} feature
+ * @param {string} district
+ * @param {number} declaredAcres
+ * @returns {import('fra-shared').AreaCheck}
+ */
+function checkDeclaredArea(feature, district, declaredAcres) {
+    const drawnAcres = areaAcres(feature, district);
+    const discrepancyPct = drawnAcres > 0 ? (Math.abs(declaredAcres - drawnAcres) / drawnAcres) * 100 : 0;
+    return {
+        drawnAcres: parseFloat(drawnAcres.toFixed(2)),
+        declaredAcres: parseFloat(declaredAcres.toFixed(2)),
+        discrepancyPct: parseFloat(discrepancyPct.toFixed(1)),
+        withinTolerance: discrepancyPct <= CLAIM_LIMITS.areaTolerancePct,
+        crs: projectionFor(feature, district).label
+    };
+}
+
+/**
+ * Human-readable discrepancy warning in the citizen's unit, or null when within tolerance
+ * @param {import('fra-shared').AreaCheck} check
+ * @param {import('fra-shared').AreaUnit} unit
+ */
+function discrepancyWarning(check, unit) {
+    if (check.withinTolerance) return null;
+    const fmt = (acres) => `${parseFloat(convertArea(acres, 'acres', unit).toFixed(2))} ${AREA_UNIT_LABELS[unit]}`;
+    return `Declared area (${fmt(check.declaredAcres)}) differs from the drawn boundary (${fmt(check.drawnAcres)}) by ${check.discrepancyPct}%, more than the ${CLAIM_LIMITS.areaTolerancePct}% tolerance. The drawn boundary is used for all checks.`;
+}
+
+module.exports = {
+    areaSqMeters,
+    areaAcres,
+    measureArea,
+    checkDeclaredArea,
+    discrepancyWarning
+};
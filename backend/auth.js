@@ -0,0 +1,112 @@
+// JWT authentication and role checks for the Simulation Layer routes.
+
+const jwt = require('jsonwebtoken');
+const usersStore = require('./usersStore');
+
+const { ROLES } = usersStore;
+
+const JWT_SECRET = process.env.JWT_SECRET || 'fra-dev-secret-change-me';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '8h';
+
+if (!process.env.JWT_SECRET) {
+    console.warn("JWT_SECRET is not set; using the development secret. Do not run like this in production.");
+}
+
+/**
+ * Issues a signed token carrying the user's role and district
+ */
+const signToken = (user) => {
+    return jwt.sign(
+        { sub: user.userId, role: user.role, district: user.district },
+        JWT_SECRET,
+        { expiresIn: JWT_EXPIRES_IN }
+    );
+};
+
+/**
+ * Resolves a token to its public user, or null if the token is invalid or the account is gone
+ */
+const userFromToken = (token) => {
+    try {
+        const payload = jwt.verify(token, JWT_SECRET);
+        return usersStore.toPublicUser(usersStore.findById(payload.sub));
+    } catch (err) {
+        return null;
+    }
+};
+
+/**
+ * Express middleware: requires a valid "Authorization: Bearer <token>" header
+ * and attaches the current user to req.user
+ */
+const authenticate = (req, res, next) => {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+
+    if (!token) {
+        return res.status(401).json({ error: "Authentication required." });
+    }
+
+    const user = userFromToken(token);
+    if (!user) {
+        return res.status(401).json({ error: "Invalid or expired session. Please log in again." });
+    }
+    req.user = user;
+    next();
+};
+
+/**
+ * Express middleware for EventSource streams, which cannot send headers:
+ * reads an optional ?token= and sets req.user to the user or null (anonymous)
+ */
+const identifyStreamClient = (req, res, next) => {
+    req.user = req.query.token ? userFromToken(String(req.query.token)) : null;
+    next();
+};
+
+/**
+ * Express middleware factory: only lets the listed roles through
+ */
+const requireRole = (...roles) => (req, res, next) => {
+    if (!req.user || !roles.includes(req.user.role)) {
+        return res.status(403).json({ error: "You do not have permission to perform this action." });
+    }
+    next();
+};
+
+/**
+ * Officers may only act on claims in their own district; state admins on any
+ */
+const canReviewClaim = (user, claim) => {
+    if (user.role === ROLES.STATE_ADMIN) return true;
+    return user.role === ROLES.DISTRICT_OFFICER && user.district === claim.district;
+};
+
+/**
+ * Citizens may only see their own claims; officials may see all of them
+ */
+const canViewClaim = (user, claim) => {
+    if (user.role === ROLES.CITIZEN) return claim.ownerId === user.userId;
+    return true;
+};
+
+/**
+ * A district's report archive belongs to its officers and the state admin, like its dossier
+ * @param {string} district
+ */
+const canAccessDistrictReports = (user, district) => {
+    if (!user) return false;
+    if (user.role === ROLES.STATE_ADMIN) return true;
+    return user.role === ROLES.DISTRICT_OFFICER && user.district === district;
+};
+
+module.exports = {
+    ROLES,
+    signToken,
+    authenticate,
+    identifyStreamClient,
+    requireRole,
+    canReviewClaim,
+    canViewClaim,
+    canAccessDistrictReports
+};
@@ -0,0 +1,233 @@
+// @ts-check
+// Bulk import of claims and zones from an uploaded survey file.
+// Every feature is checked and stored on its own: geometry is validated and
+// repaired exactly as for a drawn claim, imported claims go through the
+// conflict engine (so later features are checked against earlier ones), and
+// the caller gets one report row per source feature.
+
+const { KNOWN_DISTRICTS, IMPORT_LIMITS, ZONE_LIMITS, CLAIM_LIMITS, validateClaimFeature } = require('fra-shared');
+const claimsStore = require('./claimsStore');
+const conflictGraph = require('./conflictGraph');
+const zonesStore = require('./zonesStore');
+const spatialEngine = require('./spatialConflictEngine');
+const areaMeasurement = require('./areaMeasurement');
+const eventBus = require('./eventBus');
+const { sanitizeClaimGeometry } = require('./geometryValidation');
+const { ImportFileError, parseImportFile } = require('./importParsers');
+
+/** @typedef {import('fra-shared').ImportFeatureResult} ImportFeatureResult */
+/** @typedef {import('fra-shared').ImportKind} ImportKind */
+/** @typedef {import('fra-shared').ValidationIssue} ValidationIssue */
+
+/**
+ * First non-empty property among several common spellings
+ * @param {Record<string, any>} props
+ * @param {string[]} keys
+ */
+const pickProperty = (props, keys) => {
+    for (const key of keys) {
+        const value = props[key] ?? props[key.toUpperCase()];
+        if (value !== undefined && value !== null && String(value).trim() !== '') return value;
+    }
+    return undefined;
+};
+
+/**
+ * KML MultiGeometry arrives as a GeometryCollection; its polygon parts become one MultiPolygon
+ * @param {any} geometry
+ */
+const polygonalGeometry = (geometry) => {
+    if (!geometry || geometry.type !== 'GeometryCollection' || !Array.isArray(geometry.geometries)) return geometry;
+    const polygons = geometry.geometries.flatMap(g => (g.type === 'Polygon'
+        ? [g.coordinates]
+        : g.type === 'MultiPolygon' ? g.coordinates : []));
+    if (polygons.length === 0) return geometry;
+    return polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons };
+};
+
+/**
+ * @param {number} index
+ * @param {string} label
+ * @returns {ImportFeatureResult}
+ */
+const emptyResult = (index, label) => ({
+    index,
+    label,
+    outcome: 'failed',
+    claimId: null,
+    zoneId: null,
+    status: null,
+    conflictPercentage: null,
+    repairs: [],
+    issues: []
+});
+
+/**
+ * Stores one claim feature and runs it through the conflict engine
+ * @param {any} feature Sanitized feature
+ * @param {Record<string, any>} props Source properties
+ * @param {string} district
+ * @param {{ fileName: string, actor: string }} context
+ * @param {ImportFeatureResult} result
+ * @param {string} path
+ */
+function importClaim(feature, props, district, { fileName, actor }, result, path) {
+    const citizenName = pickProperty(props, ['citizenName', 'claimant', 'holder', 'name']);
+    if (!citizenName) {
+        result.issues.push({ path: `${path}.properties.citizenName`, message: "Claimant name is missing (citizenName, claimant, holder or name)." });
+        return;
+    }
+
+    const declared = Number(pickProperty(props, ['areaRequested', 'area_acres', 'acres']));
+    const drawnAcres = areaMeasurement.areaAcres(feature, district);
+    const areaCheck = areaMeasurement.checkDeclaredArea(feature, district, declared > 0 ? declared : drawnAcres);
+
+    const severityResult = spatialEngine.calculateSpatialConflict(feature, district);
+    const claim = claimsStore.addClaim({
+        citizenName: String(citizenName).trim(),
+        ownerId: null,
+        district,
+        village: pickProperty(props, ['village', 'village_name']) || null,
+        areaRequested: areaCheck.declaredAcres,
+        geometryType: feature.geometry.type,
+        coordinates: feature.geometry.coordinates,
+        status: severityResult.status,
+        conflictPercentage: severityResult.conflictSeverity,
+        remark: `Imported from ${fileName} by ${actor}. ${severityResult.reason || "Auto-checked"}`,
+        zoneBreakdown: severityResult.zoneBreakdown || null,
+        areaCheck
+    });
+    conflictGraph.recordOverlaps(claim.claimId, severityResult.overlaps || []);
+    eventBus.publish(eventBus.SIMULATION_EVENTS.CLAIM_CREATED, { claim });
+
+    result.outcome = 'imported';
+    result.claimId = claim.claimId;
+    result.status = claim.status;
+    result.conflictPercentage = claim.conflictPercentage;
+}
+
+/**
+ * Stores one forest or reserved-forest zone
+ * @param {any} feature Sanitized feature
+ * @param {Record<string, any>} props Source properties
+ * @param {string} district
+ * @param {ImportKind} kind
+ * @param {ImportFeatureResult} result
+ * @param {string} path
+ */
+function importZone(feature, props, district, kind, result, path) {
+    const prefix = kind === 'forest-zones' ? 'FZ' : 'RF';
+    let zoneId = pickProperty(props, ['zoneId', 'zone_id', 'id']);
+    if (zoneId === undefined) {
+        let n = 1;
+        while (zonesStore.hasZone(`${prefix}-${district.toUpperCase()}-IMP-${n}`)) n++;
+        zoneId = `${prefix}-${district.toUpperCase()}-IMP-${n}`;
+    }
+    zoneId = String(zoneId).trim();
+    if (zonesStore.hasZone(zoneId)) {
+        result.issues.push({ path: `${path}.properties.zoneId`, message: `A zone with ID ${zoneId} already exists.` });
+        return;
+    }
+
+    if (kind === 'forest-zones') {
+        const capacity = Number(pickProperty(props, ['totalArea', 'capacityAcres', 'area_acres']));
+        const totalArea = capacity > 0 ? capacity : Math.round(areaMeasurement.areaAcres(feature, district));
+        zonesStore.addForestZone({ type: 'Feature', properties: { zoneId, district, totalArea }, geometry: feature.geometry });
+    } else {
+        const type = String(pickProperty(props, ['type', 'category']) ?? 'Reserved');
+        zonesStore.addReservedZone({ type: 'Feature', properties: { zoneId, district, type }, geometry: feature.geometry });
+    }
+
+    result.outcome = 'imported';
+    result.zoneId = zoneId;
+}
+
+/**
+ * Parses an uploaded file and imports every feature in it
+ * @param {{ buffer: Buffer, fileName: string, kind: ImportKind, district?: string, sourceCrs?: string, actor: string, allowedDistrict?: string | null }} upload
+ *   allowedDistrict: set for district officers, who may only import into their own district
+ * @returns {Promise<import('fra-shared').ImportReport>}
+ */
+async function importFile({ buffer, fileName, kind, district: defaultDistrict, sourceCrs, actor, allowedDistrict = null }) {
+    const parsed = await parseImportFile(buffer, fileName, { sourceCrs });
+    if (parsed.features.length === 0) {
+        throw new ImportFileError("The file contains no features.");
+    }
+    if (parsed.features.length > IMPORT_LIMITS.maxFeatures) {
+        throw new ImportFileError(`The file has ${parsed.features.length} features; the limit is ${IMPORT_LIMITS.maxFeatures} per upload.`);
+    }
+
+    const touchedDistricts = new Set();
+    const features = parsed.features.map((source, index) => {
+        const path = `features[${index}]`;
+        if (!source || typeof source !== 'object') {
+            const result = emptyResult(index, `Feature ${index + 1}`);
+            result.issues.push({ path, message: "Entry is not a GeoJSON Feature." });
+            return result;
+        }
+        const props = source.properties && typeof source.properties === 'object' ? source.properties : {};
+        const label = String(pickProperty(props, ['zoneId', 'claimId', 'name', 'citizenName']) ?? `Feature ${index + 1}`);
+        const result = emptyResult(index, label);
+
+        const district = pickProperty(props, ['district']) ?? defaultDistrict;
+        if (!district || !KNOWN_DISTRICTS.includes(district)) {
+            result.issues.push({
+                path: `${path}.properties.district`,
+                message: district ? `Unknown district "${district}".` : "No district on the feature and no default district chosen."
+            });
+        } else if (allowedDistrict && district !== allowedDistrict) {
+            result.issues.push({ path: `${path}.properties.district`, message: `You can only import into ${allowedDistrict} district.` });
+        }
+
+        // A malformed feature fails its own row, never the whole upload
+        try {
+            const candidate = { type: 'Feature', properties: {}, geometry: polygonalGeometry(source.geometry) };
+            const structure = validateClaimFeature(candidate);
+            if (!structure.ok) {
+                result.issues.push({ path: `${path}.geometry`, message: "Only Polygon and MultiPolygon features can be imported." });
+                return result;
+            }
+
+            const sanitized = sanitizeClaimGeometry(structure.value, path, kind === 'claims' ? CLAIM_LIMITS : ZONE_LIMITS);
+            result.repairs = sanitized.repairs;
+            result.issues.push(...sanitized.issues);
+            if (!sanitized.feature || result.issues.length) return result;
+
+            if (kind === 'claims') {
+                importClaim(sanitized.feature, props, district, { fileName, actor }, result, path);
+            } else {
+                importZone(sanitized.feature, props, district, kind, result, path);
+            }
+        } catch (err) {
+            result.outcome = 'failed';
+            result.issues.push({ path, message: `Feature could not be imported: ${err.message}` });
+        }
+        if (result.outcome === 'imported') touchedDistricts.add(district);
+        return result;
+    });
+
+    if (kind === 'claims') {
+        touchedDistricts.forEach(district => eventBus.publish(eventBus.SIMULATION_EVENTS.ANALYTICS_CHANGED, { district }));
+    } else if (touchedDistricts.size) {
+        // New zones bring new zone rules; listeners reload both the layers and the config
+        eventBus.publish(eventBus.SIMULATION_EVENTS.ZONE_CONFIG_CHANGED, { zoneId: null });
+    }
+
+    const imported = features.filter(f => f.outcome === 'imported').length;
+    return {
+        fileName,
+        format: parsed.format,
+        kind,
+        sourceCrs: parsed.sourceCrs,
+        total: features.length,
+        imported,
+        failed: features.length - imported,
+        features
+    };
+}
+
+module.exports = {
+    importFile
+};
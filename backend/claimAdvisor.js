@@ -0,0 +1,387 @@
+// @ts-check
+// Claim review assistant: assembles one claim's geometry facts (overlapping claims,
+// Reserved Forest encroachment, zone capacity, earlier decisions in the same zone)
+// and asks the language model providers for a recommended decision with its rationale.
+// The result is advisory only. Officers still choose the transition and write the remark;
+// the advisory they had open is recorded with that history entry.
+
+const { randomUUID } = require('node:crypto');
+const claimsStore = require('./claimsStore');
+const claimLifecycle = require('./claimLifecycle');
+const conflictGraph = require('./conflictGraph');
+const zoneConfig = require('./zoneConfigStore');
+const llmProviders = require('./llmProviders');
+const reportVerification = require('./reportVerification');
+const { approvedAcresInZone, forestZones } = require('./spatialConflictEngine');
+const { ADVISORY_CONFIDENCE_LEVELS, object, array, string, oneOf } = require('fra-shared');
+
+/** @typedef {import('fra-shared').SimulatedClaim} SimulatedClaim */
+/** @typedef {import('fra-shared').ClaimStatus} ClaimStatus */
+/** @typedef {import('fra-shared').ClaimAdvisory} ClaimAdvisory */
+/** @typedef {import('fra-shared').ClaimReviewFacts} ClaimReviewFacts */
+
+/**
+ * What the model returns, before the check
+ * @typedef {{
+ *   recommendation: ClaimStatus,
+ *   confidence: import('fra-shared').AdvisoryConfidence,
+ *   rationale: string,
+ *   considerations: string[]
+ * }} AdvisoryDraft
+ */
+
+/**
+ * Thrown when no advisory can be produced; the message is safe to show to users
+ */
+class AdvisoryUnavailableError extends Error {
+    /** @param {string} message */
+    constructor(message) {
+        super(message);
+        this.name = 'AdvisoryUnavailableError';
+    }
+}
+
+// Decisions on other claims that count as precedent
+const DECISION_STATUSES = ["Approved", "Rejected", "Returned"];
+const PRECEDENT_LIMIT = 10;
+// Advisories wait here until the officer acts on them; the oldest are dropped first.
+// Their IDs are random, so none repeats one already recorded in a claim's history after a restart.
+const ADVISORY_CACHE_LIMIT = 500;
+
+/** @type {Map<string, ClaimAdvisory>} */
+const advisories = new Map();
+
+const round2 = (/** @type {number} */ n) => parseFloat(n.toFixed(2));
+
+/**
+ * A decision remark with the applicant's name replaced, so it can go to an external model
+ * @param {string} remark
+ * @param {string} name
+ */
+const withoutName = (remark, name) => {
+    const trimmed = name.trim();
+    if (!trimmed) return remark;
+    const pattern = new RegExp(trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+    return remark.replace(pattern, 'the applicant');
+};
+
+/**
+ * Forest zones the claim falls in with the acres it takes in each. Claims without
+ * a boundary count in full against their district's zone, as at intake.
+ * @param {SimulatedClaim} claim
+ * @returns {{ zone: any, claimAcres: number }[]}
+ */
+function claimZones(claim) {
+    if (claim.zoneBreakdown) {
+        return claim.zoneBreakdown.forestZones.flatMap(hit => {
+            const zone = forestZones.features.find(f => f.properties.zoneId === hit.zoneId);
+            return zone ? [{ zone, claimAcres: hit.intersectAcres }] : [];
+        });
+    }
+    const zone = forestZones.features.find(f => f.properties.district === claim.district);
+    return zone ? [{ zone, claimAcres: claim.areaRequested }] : [];
+}
+
+/**
+ * Latest decisions on other claims in the same forest zones, or the same
+ * district for claims without a boundary
+ * @param {SimulatedClaim} claim
+ * @param {string[]} zoneIds
+ */
+function precedentsFor(claim, zoneIds) {
+    const sameArea = (/** @type {SimulatedClaim} */ other) => zoneIds.length
+        ? !!other.zoneBreakdown && other.zoneBreakdown.forestZones.some(z => zoneIds.includes(z.zoneId))
+        : other.district === claim.district && !other.zoneBreakdown;
+
+    return claimsStore.getClaims()
+        .filter(other => other.claimId !== claim.claimId && sameArea(other))
+        .flatMap(other => (other.history || [])
+            .filter(entry => DECISION_STATUSES.includes(entry.to))
+            .map(entry => ({
+                claimId: other.claimId,
+                decision: entry.to,
+                remark: withoutName(entry.remark, other.citizenName),
+                decidedAt: entry.timestamp,
+                severityPct: other.conflictPercentage,
+                reservedEncroachment: !!other.zoneBreakdown && other.zoneBreakdown.reservedZones.length > 0
+            })))
+        .sort((a, b) => b.decidedAt.localeCompare(a.decidedAt))
+        .slice(0, PRECEDENT_LIMIT);
+}
+
+/**
+ * Everything the assistant is told about a claim. The facts go to external models,
+ * so they name claims by ID and leave out applicants' names.
+ * @param {SimulatedClaim} claim
+ * @returns {ClaimReviewFacts}
+ */
+function buildReviewFacts(claim) {
+    const overlaps = conflictGraph.getEdgesFor(claim.claimId).flatMap(edge => {
+        const other = claimsStore.getClaimById(edge.claimIds[0] === claim.claimId ? edge.claimIds[1] : edge.claimIds[0]);
+        return other
+            ? [{ claimId: other.claimId, status: other.status, overlapAcres: edge.overlapAcres }]
+            : [];
+    });
+
+    const zones = claimZones(claim);
+    const capacity = zones.map(({ zone, claimAcres }) => {
+        const { capacityAcres } = zoneConfig.getRulesForZone(zone.properties.zoneId);
+        // An approved claim is already in the zone's approved land; leave it out so the figure is "before this claim"
+        const approvedAcres = Math.max(0, approvedAcresInZone(zone) - (claim.status === "Approved" ? claimAcres : 0));
+        return {
+            zoneId: zone.properties.zoneId,
+            capacityAcres,
+            approvedAcres: round2(approvedAcres),
+            claimAcres: round2(claimAcres),
+            usedPctIfApproved: round2(((approvedAcres + claimAcres) / capacityAcres) * 100)
+        };
+    });
+
+    return {
+        claimId: claim.claimId,
+        district: claim.district,
+        village: claim.village ?? null,
+        status: claim.status,
+        areaRequestedAcres: claim.areaRequested,
+        drawnAcres: claim.areaCheck ? claim.areaCheck.drawnAcres : null,
+        severityPct: claim.conflictPercentage,
+        overlaps,
+        reservedEncroachment: claim.zoneBreakdown ? claim.zoneBreakdown.reservedZones : [],
+        capacity,
+        precedents: precedentsFor(claim, zones.map(z => z.zone.properties.zoneId)),
+        allowedTransitions: claimLifecycle.allowedTransitions(claim.status)
+    };
+}
+
+/**
+ * JSON schema of the answer; the recommendation is limited to the claim's open transitions
+ * @param {ClaimStatus[]} allowed
+ */
+const advisorySchema = (allowed) => ({
+    type: 'object',
+    properties: {
+        recommendation: { type: 'string', enum: allowed },
+        confidence: { type: 'string', enum: [...ADVISORY_CONFIDENCE_LEVELS] },
+        rationale: { type: 'string' },
+        considerations: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['recommendation', 'confidence', 'rationale', 'considerations']
+});
+
+/**
+ * @param {ClaimReviewFacts} facts
+ */
+function buildPrompt(facts) {
+    return `You are assisting a Forest Rights Act (FRA) officer who must record the next decision on one claim.
+Weigh the facts below: Reserved Forest encroachment is legally barred under Section 3 of the Indian Forest Act;
+overlaps with other claims and zone capacity need boundary resolution; earlier decisions in the same zone show local practice.
+Your answer is advisory; the officer decides.
+
+FACTS (JSON):
+${JSON.stringify(facts, null, 2)}
+
+Answer with a single JSON object with these fields and nothing else:
+- recommendation: exactly one of ${facts.allowedTransitions.map(s => `"${s}"`).join(', ')}.
+- confidence: "Low", "Moderate" or "High".
+- rationale: two to four sentences explaining the recommendation from the facts.
+- considerations: a short list of points the officer should verify before deciding.
+Only mention claim IDs and numbers that appear in the facts. Be concise and formal.`;
+}
+
+/**
+ * Rule-based advisory for the template provider, citing the facts it was given
+ * @param {ClaimReviewFacts} facts
+ * @returns {AdvisoryDraft}
+ */
+function templateAdvisory(facts) {
+    const allowed = facts.allowedTransitions;
+    const pick = (/** @type {string[]} */ preferred) =>
+        /** @type {ClaimStatus | undefined} */ (preferred.find(s => allowed.includes(/** @type {ClaimStatus} */ (s))));
+    const forward = allowed.find(s => s !== "Rejected" && s !== "Returned") ?? allowed[0];
+
+    const reservedAcres = round2(facts.reservedEncroachment.reduce((sum, z) => sum + z.intersectAcres, 0));
+    const approvedOverlaps = facts.overlaps.filter(o => o.status === "Approved");
+    const overCapacity = facts.capacity.filter(c => c.usedPctIfApproved > 100);
+
+    /** @type {string[]} */
+    const reasons = [];
+    if (reservedAcres > 0) {
+        reasons.push(`${reservedAcres} acres of the claim lie in Reserved Forest (${facts.reservedEncroachment.map(z => z.zoneId).join(', ')}), which the Indian Forest Act protects.`);
+    }
+    if (approvedOverlaps.length) {
+        reasons.push(`It overlaps approved claim(s) ${approvedOverlaps.map(o => o.claimId).join(', ')}.`);
+    }
+    overCapacity.forEach(c => reasons.push(`Approving it would take zone ${c.zoneId} to ${c.usedPctIfApproved}% of its capacity.`));
+
+    const decided = facts.precedents.filter(p => p.decision === "Approved" || p.decision === "Rejected");
+    const precedentNote = decided.length
+        ? `Earlier decisions in the same zone: ${decided.filter(p => p.decision === "Approved").length} approved, ${decided.filter(p => p.decision === "Rejected").length} rejected.`
+        : 'There are no earlier decisions in the same zone to compare with.';
+
+    /** @type {AdvisoryDraft['recommendation']} */
+    let recommendation;
+    /** @type {AdvisoryDraft['confidence']} */
+    let confidence;
+    if (reservedAcres > 0) {
+        recommendation = pick(["Rejected", "Returned"]) ?? forward;
+        confidence = "High";
+    } else if (reasons.length) {
+        recommendation = pick(["Returned", "Rejected"]) ?? forward;
+        confidence = "Moderate";
+    } else {
+        recommendation = forward;
+        reasons.push(facts.overlaps.length
+            ? `It only overlaps claims that are not approved (${facts.overlaps.map(o => o.claimId).join(', ')}) and no Reserved Forest.`
+            : 'It does not overlap other claims or Reserved Forest.');
+        reasons.push(facts.capacity.length
+            ? 'Approving it keeps every forest zone it falls in within capacity.'
+            : 'It lies outside the mapped forest zones, so no zone capacity applies.');
+        if (facts.severityPct > 0) {
+            reasons.push(`The conflict engine still rated it at ${facts.severityPct}% severity at intake.`);
+        }
+        confidence = facts.overlaps.length || facts.severityPct > 0 ? "Moderate" : "High";
+    }
+
+    /** @type {string[]} */
+    const considerations = [];
+    if (facts.drawnAcres !== null && facts.drawnAcres !== facts.areaRequestedAcres) {
+        considerations.push(`Confirm the area: ${facts.areaRequestedAcres} acres declared, ${facts.drawnAcres} acres drawn.`);
+    }
+    facts.overlaps.forEach(o => considerations.push(`Resolve the ${o.overlapAcres}-acre overlap with ${o.claimId} (${o.status}).`));
+    if (reservedAcres > 0) considerations.push('Have the boundary verified in the field against the Reserved Forest notification.');
+    considerations.push('Check the Gram Sabha resolution and supporting evidence on file.');
+
+    return {
+        recommendation,
+        confidence,
+        rationale: `${reasons.join(' ')} ${precedentNote}`,
+        considerations
+    };
+}
+
+/**
+ * Parses the model's answer and checks it against the facts. A recommendation
+ * the lifecycle does not allow fails the attempt; claim IDs and numbers the facts
+ * do not contain are kept but flagged.
+ * @param {string} text
+ * @param {ClaimReviewFacts} facts
+ * @param {string} prompt
+ */
+function checkAdvisory(text, facts, prompt) {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    let json;
+    try {
+        json = JSON.parse(start >= 0 && end > start ? text.slice(start, end + 1) : text);
+    } catch {
+        throw new llmProviders.ProviderError('did not return valid JSON', true);
+    }
+
+    const result = object({
+        recommendation: oneOf(facts.allowedTransitions),
+        confidence: oneOf(ADVISORY_CONFIDENCE_LEVELS),
+        rationale: string({ nonEmpty: true }),
+        considerations: array(string())
+    })(json);
+    if (!result.ok) {
+        const first = result.issues[0];
+        throw new llmProviders.ProviderError(`returned an advisory that does not match the schema (${first.path}: ${first.message})`, true);
+    }
+
+    const claimIds = new Set([facts.claimId, ...facts.overlaps.map(o => o.claimId), ...facts.precedents.map(p => p.claimId)]);
+    const numbers = reportVerification.knownNumbers(prompt);
+    const issues = [result.value.rationale, ...result.value.considerations]
+        .flatMap(part => reportVerification.untracedMentions(part, claimIds, numbers));
+
+    return { draft: result.value, issues: [...new Set(issues)] };
+}
+
+/**
+ * Writes an advisory for a claim and keeps it until the officer records a decision
+ * @param {SimulatedClaim} claim
+ * @param {{ signal?: AbortSignal }} [options]
+ * @returns {Promise<ClaimAdvisory>}
+ */
+async function generateClaimAdvisory(claim, { signal } = {}) {
+    const facts = buildReviewFacts(claim);
+    if (facts.allowedTransitions.length === 0) {
+        throw new AdvisoryUnavailableError(`Claim ${claim.claimId} is ${claim.status}; there is no decision left to advise on.`);
+    }
+    const prompt = buildPrompt(facts);
+
+    let generated;
+    try {
+        generated = await llmProviders.getProviderChain().generate({
+            prompt,
+            schema: advisorySchema(facts.allowedTransitions),
+            template: () => templateAdvisory(facts),
+            parse: text => checkAdvisory(text, facts, prompt),
+            signal
+        });
+    } catch (err) {
+        if (signal?.aborted) {
+            throw new AdvisoryUnavailableError("Advisory generation was cancelled.");
+        }
+        if (err instanceof llmProviders.ProviderError) {
+            throw new AdvisoryUnavailableError(`No provider could write the advisory (${err.message}).`);
+        }
+        throw err;
+    }
+
+    const { value: { draft, issues }, provider } = generated;
+    /** @type {ClaimAdvisory} */
+    const advisory = {
+        advisoryId: `ADV-${randomUUID()}`,
+        claimId: claim.claimId,
+        forStatus: claim.status,
+        ...draft,
+        issues,
+        facts,
+        provider,
+        generatedAt: new Date().toISOString()
+    };
+
+    advisories.set(advisory.advisoryId, advisory);
+    if (advisories.size > ADVISORY_CACHE_LIMIT) {
+        const [oldest] = advisories.keys();
+        advisories.delete(oldest);
+    }
+    return advisory;
+}
+
+/**
+ * The history record of an advisory an officer acted on, or an error message
+ * when it cannot be attached to this decision
+ * @param {string} advisoryId
+ * @param {SimulatedClaim} claim
+ * @param {ClaimStatus} decision
+ * @returns {{ record: import('fra-shared').ClaimAdvisoryRecord } | { error: string }}
+ */
+function recordForDecision(advisoryId, claim, decision) {
+    const advisory = advisories.get(advisoryId);
+    if (!advisory || advisory.claimId !== claim.claimId) {
+        return { error: "The advisory is no longer available; generate it again or record the decision without it." };
+    }
+    if (advisory.forStatus !== claim.status) {
+        return { error: `The advisory was written while the claim was ${advisory.forStatus}; generate a new one.` };
+    }
+    advisories.delete(advisoryId);
+    return {
+        record: {
+            advisoryId: advisory.advisoryId,
+            recommendation: advisory.recommendation,
+            confidence: advisory.confidence,
+            rationale: advisory.rationale,
+            provider: advisory.provider,
+            generatedAt: advisory.generatedAt,
+            followed: advisory.recommendation === decision
+        }
+    };
+}
+
+module.exports = {
+    AdvisoryUnavailableError,
+    buildReviewFacts,
+    generateClaimAdvisory,
+    recordForDecision
+};
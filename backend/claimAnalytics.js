@@ -0,0 +1,168 @@
+// @ts-check
+// Claim statistics and the district risk ranking (scored by riskEngine.js),
+// computed from the claims store.
+// Also derives the legacy map layer's view of a claim (status, overlap and
+// protected-zone flags), so /api/claims, both analytics endpoints, the
+// compliance report and the dossier all classify a claim the same way.
+
+const claimsStore = require('./claimsStore');
+const conflictGraph = require('./conflictGraph');
+const riskEngine = require('./riskEngine');
+
+/** @typedef {import('fra-shared').SimulatedClaim} SimulatedClaim */
+/** @typedef {import('fra-shared').LegacyClaimProperties} LegacyClaimProperties */
+/** @typedef {{ total: number, approved: number, pending: number, conflicts: number, reservedViolations: number }} DistrictCounts */
+
+/**
+ * Overlap and protected-zone flags, recomputed from the engine's verdict and the conflict graph
+ * @param {SimulatedClaim} claim
+ */
+function claimFlags(claim) {
+    const overlap = conflictGraph.getEdgesFor(claim.claimId).length > 0;
+    const protectedZone = claim.status === 'Reserved Violation'
+        || !!(claim.zoneBreakdown && claim.zoneBreakdown.reservedZones.length > 0);
+    return { overlap, protected_zone: protectedZone };
+}
+
+/**
+ * The legacy layer's single-word status for a claim. Decisions win over flags:
+ * an approved or rejected claim is shown as such even if it overlaps another.
+ * @param {SimulatedClaim} claim
+ * @param {{ overlap: boolean, protected_zone: boolean }} flags
+ * @returns {import('fra-shared').LegacyClaimStatus}
+ */
+function legacyStatus(claim, flags) {
+    if (claim.status === 'Approved') return 'Approved';
+    if (claim.status === 'Rejected' || claim.status === 'Superseded') return 'Rejected';
+    if (flags.protected_zone) return 'Protected';
+    if (flags.overlap || claim.status === 'Flagged' || claim.status === 'Moderate Conflict') return 'Conflict';
+    return 'Pending';
+}
+
+/**
+ * Claims with a boundary as the legacy /api/claims FeatureCollection.
+ * Only non-identifying fields are included, since the layer is public.
+ * @param {SimulatedClaim[]} claims
+ */
+function toLegacyFeatureCollection(claims) {
+    return {
+        type: 'FeatureCollection',
+        features: claims.filter(c => c.coordinates).map(claim => {
+            const flags = claimFlags(claim);
+            /** @type {LegacyClaimProperties} */
+            const properties = {
+                claimId: claim.claimId,
+                district: claim.district,
+                village: claim.village,
+                status: legacyStatus(claim, flags),
+                area: claim.areaRequested,
+                ...flags
+            };
+            return {
+                type: 'Feature',
+                geometry: { type: claim.geometryType || 'Polygon', coordinates: claim.coordinates },
+                properties
+            };
+        })
+    };
+}
+
+/**
+ * Claim counts for a set of claims
+ * @param {SimulatedClaim[]} claims
+ * @returns {DistrictCounts}
+ */
+function countClaims(claims) {
+    const stats = { total: 0, approved: 0, pending: 0, conflicts: 0, reservedViolations: 0 };
+    claims.forEach(claim => {
+        const status = legacyStatus(claim, claimFlags(claim));
+        stats.total++;
+        if (status === 'Approved') stats.approved++;
+        else if (status === 'Pending') stats.pending++;
+        else if (status === 'Conflict' || status === 'Protected') stats.conflicts++;
+        if (status === 'Protected') stats.reservedViolations++;
+    });
+    return stats;
+}
+
+/**
+ * Claim counts for one district (all zero when it has no claims)
+ * @param {string} district
+ * @returns {DistrictCounts}
+ */
+function districtCounts(district) {
+    return countClaims(claimsStore.getClaims().filter(c => c.district === district));
+}
+
+/**
+ * Counts and risk-engine assessment of one district's claims
+ * @param {string} district
+ * @param {SimulatedClaim[]} claims Claims filed in the district
+ * @returns {import('fra-shared').DistrictRisk}
+ */
+function assessClaims(district, claims) {
+    const counts = countClaims(claims);
+    const statusOf = (/** @type {SimulatedClaim} */ claim) => legacyStatus(claim, claimFlags(claim));
+    return {
+        district,
+        total_claims: counts.total,
+        pending: counts.pending,
+        conflicts: counts.conflicts,
+        ...riskEngine.assessDistrict({ district, claims, counts, statusOf })
+    };
+}
+
+/**
+ * Risk row of one district, or null when it has no claims
+ * @param {string} district
+ */
+function districtRisk(district) {
+    const claims = claimsStore.getClaims().filter(c => c.district === district);
+    return claims.length ? assessClaims(district, claims) : null;
+}
+
+/**
+ * Headline counts and shares for a set of claims
+ * @param {SimulatedClaim[]} claims
+ * @returns {import('fra-shared').AnalyticsSummary}
+ */
+function summarizeClaims(claims) {
+    const totals = countClaims(claims);
+    return {
+        total_claims: totals.total,
+        approved_claims: totals.approved,
+        pending_claims: totals.pending,
+        conflict_claims: totals.conflicts,
+        approved_pct: totals.total ? parseFloat((totals.approved / totals.total * 100).toFixed(1)) : 0,
+        pending_pct: totals.total ? parseFloat((totals.pending / totals.total * 100).toFixed(1)) : 0
+    };
+}
+
+/**
+ * Summary counts and the district risk ranking (highest risk first)
+ * @param {SimulatedClaim[]} [claims]
+ * @returns {import('fra-shared').AnalyticsData}
+ */
+function computeAnalytics(claims = claimsStore.getClaims()) {
+    /** @type {Map<string, SimulatedClaim[]>} */
+    const byDistrict = new Map();
+    claims.forEach(claim => {
+        const district = claim.district || 'Unknown';
+        byDistrict.set(district, [...(byDistrict.get(district) || []), claim]);
+    });
+
+    const districts = [...byDistrict].map(([district, districtClaims]) => assessClaims(district, districtClaims));
+    districts.sort((a, b) => b.risk_score - a.risk_score);
+
+    return { summary: summarizeClaims(claims), districts };
+}
+
+module.exports = {
+    claimFlags,
+    legacyStatus,
+    toLegacyFeatureCollection,
+    districtCounts,
+    districtRisk,
+    summarizeClaims,
+    computeAnalytics
+};
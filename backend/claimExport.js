@@ -0,0 +1,141 @@
+// @ts-check
+// Serializers for getting claims and conflict overlaps out of the system:
+// GeoJSON for GIS tools, CSV (with a WKT geometry column) for spreadsheets,
+// and KML for Google Earth and GPS units.
+
+/** @typedef {import('fra-shared').SimulatedClaim} SimulatedClaim */
+/** @typedef {{ type: 'Feature', properties: Record<string, string | number | null>, geometry: any }} ExportFeature */
+
+/**
+ * Claims as features; area-only claims are kept with a null geometry
+ * @param {SimulatedClaim[]} claims
+ * @returns {{ type: 'FeatureCollection', features: ExportFeature[] }}
+ */
+function claimsToFeatureCollection(claims) {
+    return {
+        type: 'FeatureCollection',
+        features: claims.map(c => ({
+            type: 'Feature',
+            properties: {
+                claimId: c.claimId,
+                citizenName: c.citizenName,
+                district: c.district,
+                status: c.status,
+                areaRequestedAcres: c.areaRequested,
+                drawnAcres: c.areaCheck ? c.areaCheck.drawnAcres : null,
+                conflictPercentage: c.conflictPercentage,
+                submittedAt: c.timestamp
+            },
+            geometry: c.coordinates ? { type: c.geometryType || 'Polygon', coordinates: c.coordinates } : null
+        }))
+    };
+}
+
+/**
+ * Conflict graph edges as features with their shared geometry
+ * @param {import('fra-shared').ConflictEdge[]} edges
+ * @returns {{ type: 'FeatureCollection', features: ExportFeature[] }}
+ */
+function conflictsToFeatureCollection(edges) {
+    return {
+        type: 'FeatureCollection',
+        features: edges.map(e => ({
+            type: 'Feature',
+            properties: {
+                claimA: e.claimIds[0],
+                claimB: e.claimIds[1],
+                overlapAcres: e.overlapAcres,
+                detectedAt: e.detectedAt
+            },
+            geometry: e.geometry
+        }))
+    };
+}
+
+/** @param {number[][]} ring */
+const wktRing = (ring) => `(${ring.map(([lon, lat]) => `${lon} ${lat}`).join(', ')})`;
+/** @param {number[][][]} rings */
+const wktPolygon = (rings) => `(${rings.map(wktRing).join(', ')})`;
+
+/**
+ * Well-known text for a Polygon or MultiPolygon (empty string for none)
+ * @param {any} geometry
+ */
+function geometryToWkt(geometry) {
+    if (!geometry) return '';
+    if (geometry.type === 'Polygon') return `POLYGON ${wktPolygon(geometry.coordinates)}`;
+    if (geometry.type === 'MultiPolygon') return `MULTIPOLYGON (${geometry.coordinates.map(wktPolygon).join(', ')})`;
+    return '';
+}
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * One CSV cell. Text that a spreadsheet would read as a formula (a claimant named
+ * "=HYPERLINK(...)") gets a leading apostrophe; numbers are left alone.
+ * @param {unknown} value
+ */
+const csvCell = (value) => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with one row per feature and the geometry as WKT in the last column
+ * @param {{ features: ExportFeature[] }} collection
+ */
+function toCsv(collection) {
+    const columns = [...new Set(collection.features.flatMap(f => Object.keys(f.properties)))];
+    const rows = collection.features.map(f =>
+        [...columns.map(col => csvCell(f.properties[col])), csvCell(geometryToWkt(f.geometry))].join(',')
+    );
+    return [[...columns, 'geometry_wkt'].join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/** @param {unknown} value */
+const xmlEscape = (value) => String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** @param {number[][]} ring */
+const kmlRing = (ring) => `<LinearRing><coordinates>${ring.map(([lon, lat]) => `${lon},${lat}`).join(' ')}</coordinates></LinearRing>`;
+
+/** @param {number[][][]} rings */
+const kmlPolygon = (rings) => `<Polygon>${rings.map((ring, idx) => (idx === 0
+    ? `<outerBoundaryIs>${kmlRing(ring)}</outerBoundaryIs>`
+    : `<innerBoundaryIs>${kmlRing(ring)}</innerBoundaryIs>`)).join('')}</Polygon>`;
+
+/** @param {any} geometry */
+const kmlGeometry = (geometry) => {
+    if (!geometry) return '';
+    if (geometry.type === 'Polygon') return kmlPolygon(geometry.coordinates);
+    if (geometry.type === 'MultiPolygon') return `<MultiGeometry>${geometry.coordinates.map(kmlPolygon).join('')}</MultiGeometry>`;
+    return '';
+};
+
+/**
+ * KML document with one Placemark per feature and the properties as ExtendedData
+ * @param {{ features: ExportFeature[] }} collection
+ * @param {string} documentName
+ * @param {(properties: ExportFeature['properties']) => string} nameOf Placemark name
+ */
+function toKml(collection, documentName, nameOf) {
+    const placemarks = collection.features.map(f => {
+        const data = Object.entries(f.properties)
+            .map(([key, value]) => `<Data name="${xmlEscape(key)}"><value>${xmlEscape(value ?? '')}</value></Data>`)
+            .join('');
+        return `<Placemark><name>${xmlEscape(nameOf(f.properties))}</name><ExtendedData>${data}</ExtendedData>${kmlGeometry(f.geometry)}</Placemark>`;
+    });
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>${xmlEscape(documentName)}</name>${placemarks.join('\n')}</Document></kml>\n`;
+}
+
+module.exports = {
+    claimsToFeatureCollection,
+    conflictsToFeatureCollection,
+    toCsv,
+    toKml
+};
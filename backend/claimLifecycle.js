@@ -0,0 +1,79 @@
+// @ts-check
+// FRA claim lifecycle (Forest Rights Act, 2006 - Rules 11 to 14)
+// Submitted -> Gram Sabha Verified -> SDLC Recommended -> DLC decision (Approved / Rejected)
+// with Returned (sent back to the Gram Sabha for rework) and Appealed (petition against a rejection).
+
+const { INTAKE_STATUSES } = require('fra-shared');
+
+/** @typedef {import('fra-shared').ClaimStatus} ClaimStatus */
+
+// Statuses the spatial engine assigns at intake (INTAKE_STATUSES) all sit at the
+// "Submitted" stage of the lifecycle; the label only records the automated conflict verdict.
+
+const LIFECYCLE_STATUSES = {
+    GRAM_SABHA_VERIFIED: "Gram Sabha Verified",
+    SDLC_RECOMMENDED: "SDLC Recommended",
+    APPROVED: "Approved",
+    REJECTED: "Rejected",
+    RETURNED: "Returned",
+    APPEALED: "Appealed"
+};
+
+// Every status must appear here; the Record type makes a missing one a type error.
+/** @type {Record<ClaimStatus, ClaimStatus[]>} */
+const TRANSITIONS = {
+    "Submitted": ["Gram Sabha Verified", "Returned"],
+    "Under Review": ["Gram Sabha Verified", "Returned"],
+    "Moderate Conflict": ["Gram Sabha Verified", "Returned"],
+    "Flagged": ["Gram Sabha Verified", "Returned"],
+    "Reserved Violation": ["Gram Sabha Verified", "Returned"],
+    "Gram Sabha Verified": ["SDLC Recommended", "Returned"],
+    "SDLC Recommended": ["Approved", "Rejected", "Returned"],
+    "Returned": ["Gram Sabha Verified"],
+    "Rejected": ["Appealed"],
+    "Appealed": ["Approved", "Rejected", "Returned"],
+    "Approved": [],
+    "Superseded": []
+};
+
+/**
+ * Lists the statuses a claim may move to from its current status
+ * @param {string} fromStatus
+ * @returns {ClaimStatus[]}
+ */
+const allowedTransitions = (fromStatus) => {
+    return TRANSITIONS[/** @type {ClaimStatus} */ (fromStatus)] || [];
+};
+
+/**
+ * Checks a single transition against the lifecycle table
+ * @param {string} fromStatus
+ * @param {string} toStatus
+ */
+const canTransition = (fromStatus, toStatus) => {
+    return allowedTransitions(fromStatus).includes(/** @type {ClaimStatus} */ (toStatus));
+};
+
+/**
+ * Builds a history entry. Remarks are mandatory for every recorded change;
+ * the review assistant's advisory is kept when the officer had one open.
+ * @param {{ from?: ClaimStatus | null, to: ClaimStatus, actor?: string, remark: string, advisory?: import('fra-shared').ClaimAdvisoryRecord }} entry
+ * @returns {import('fra-shared').ClaimHistoryEntry}
+ */
+const createHistoryEntry = ({ from, to, actor, remark, advisory }) => ({
+    from: from || null,
+    to,
+    actor: actor || "system",
+    remark,
+    timestamp: new Date().toISOString(),
+    ...(advisory ? { advisory } : {})
+});
+
+module.exports = {
+    INTAKE_STATUSES,
+    LIFECYCLE_STATUSES,
+    TRANSITIONS,
+    allowedTransitions,
+    canTransition,
+    createHistoryEntry
+};
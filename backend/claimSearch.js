@@ -0,0 +1,101 @@
+// @ts-check
+// Claim search behind /api/simulation/claims/query: the filter bar's
+// selection narrows the map layers, the review queue and the dashboard KPIs
+// through this one function, so all three always agree on what matches.
+
+const turf = require('@turf/turf');
+const claimsStore = require('./claimsStore');
+const { summarizeClaims } = require('./claimAnalytics');
+const { CLAIM_QUERY_LIMITS } = require('fra-shared');
+
+/** @typedef {import('fra-shared').SimulatedClaim} SimulatedClaim */
+/** @typedef {import('fra-shared').ClaimQuery} ClaimQuery */
+/** @typedef {import('fra-shared').ClaimSortField} ClaimSortField */
+
+/**
+ * Ascending comparators per sort field
+ * @type {Record<ClaimSortField, (a: SimulatedClaim, b: SimulatedClaim) => number>}
+ */
+const COMPARATORS = {
+    priority: (a, b) => (Number(a.status === "Flagged") - Number(b.status === "Flagged")) || a.timestamp.localeCompare(b.timestamp),
+    submitted: (a, b) => a.timestamp.localeCompare(b.timestamp),
+    area: (a, b) => a.areaRequested - b.areaRequested,
+    severity: (a, b) => a.conflictPercentage - b.conflictPercentage,
+    applicant: (a, b) => a.citizenName.localeCompare(b.citizenName)
+};
+
+/** @type {Record<ClaimSortField, import('fra-shared').SortOrder>} */
+const DEFAULT_ORDER = {
+    priority: 'desc',
+    submitted: 'desc',
+    area: 'desc',
+    severity: 'desc',
+    applicant: 'asc'
+};
+
+/**
+ * IDs of claims whose boundary intersects the box (index candidates, then an exact test)
+ * @param {[number, number, number, number]} bbox
+ */
+function claimIdsInBounds(bbox) {
+    const box = turf.bboxPolygon(bbox);
+    return new Set(claimsStore.findClaimsInBounds(bbox)
+        .filter(claim => turf.booleanIntersects(box, /** @type {any} */ ({
+            type: claim.geometryType || 'Polygon',
+            coordinates: claim.coordinates
+        })))
+        .map(claim => claim.claimId));
+}
+
+/**
+ * Claims that pass every field of the filter
+ * @param {SimulatedClaim[]} claims
+ * @param {import('fra-shared').ClaimFilter} filter
+ */
+function filterClaims(claims, filter) {
+    const text = (filter.text || '').trim().toLowerCase();
+    const inBounds = filter.bbox ? claimIdsInBounds(filter.bbox) : null;
+
+    return claims.filter(claim => {
+        const day = claim.timestamp.slice(0, 10);
+        return (!text || [claim.claimId, claim.citizenName, claim.village || ''].some(field => field.toLowerCase().includes(text)))
+            && (!filter.statuses || filter.statuses.length === 0 || filter.statuses.includes(claim.status))
+            && (!filter.district || claim.district === filter.district)
+            && (!filter.submittedFrom || day >= filter.submittedFrom)
+            && (!filter.submittedTo || day <= filter.submittedTo)
+            && (filter.minAreaAcres === undefined || claim.areaRequested >= filter.minAreaAcres)
+            && (filter.maxAreaAcres === undefined || claim.areaRequested <= filter.maxAreaAcres)
+            && (filter.minSeverity === undefined || claim.conflictPercentage >= filter.minSeverity)
+            && (filter.maxSeverity === undefined || claim.conflictPercentage <= filter.maxSeverity)
+            && (!inBounds || inBounds.has(claim.claimId));
+    });
+}
+
+/**
+ * Filters, sorts and pages claims. The caller passes only the claims the user may see.
+ * @param {SimulatedClaim[]} claims
+ * @param {ClaimQuery} query
+ * @returns {import('fra-shared').ClaimQueryResponse}
+ */
+function searchClaims(claims, query) {
+    const sort = query.sort || 'priority';
+    const direction = (query.order || DEFAULT_ORDER[sort]) === 'asc' ? 1 : -1;
+    const matches = filterClaims(claims, query)
+        .sort((a, b) => direction * COMPARATORS[sort](a, b) || a.claimId.localeCompare(b.claimId));
+
+    const pageSize = Math.floor(query.pageSize || CLAIM_QUERY_LIMITS.defaultPageSize);
+    const page = Math.floor(query.page || 1);
+    return {
+        claims: matches.slice((page - 1) * pageSize, page * pageSize),
+        total: matches.length,
+        page,
+        pageSize,
+        matchedIds: matches.map(c => c.claimId),
+        summary: summarizeClaims(matches)
+    };
+}
+
+module.exports = {
+    filterClaims,
+    searchClaims
+};
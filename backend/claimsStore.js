@@ -1,8 +1,67 @@
-// In-memory data store for Simulation Layer
-// Isolated from existing system data.
+// @ts-check
+// Claim repository: portal submissions, bulk imports and the migrated legacy
+// dataset (see legacyMigration.js) all live here.
+// Claims are kept in memory and written through to a pluggable storage adapter
+// (see storageAdapters.js) so submissions and claim IDs survive restarts.
 
-const claims = [];
+const { createAdapterFromEnv } = require('./storageAdapters');
+const { createHistoryEntry } = require('./claimLifecycle');
+const { createClaimIndex } = require('./spatialIndex');
+
+/** @type {{ load: () => any, save: (state: any) => void }} */
+let adapter;
+/** @type {import('fra-shared').SimulatedClaim[]} */
+let claims = [];
+/** @type {Map<string, import('fra-shared').SimulatedClaim>} */
+let claimsById = new Map();
 let nextId = 1;
+// Bounding-box index over claim geometries, kept in step with `claims`
+const spatialIndex = createClaimIndex();
+
+/**
+ * Derives the next free numeric ID from both the persisted counter and the
+ * highest SIM-N already on record, so a stale counter can never reissue an ID.
+ */
+const resolveNextId = (storedNextId, storedClaims) => {
+    const highest = storedClaims.reduce((max, c) => {
+        const match = /^SIM-(\d+)$/.exec(c.claimId || '');
+        return match ? Math.max(max, Number(match[1])) : max;
+    }, 0);
+    return Math.max(Number(storedNextId) || 1, highest + 1);
+};
+
+/**
+ * Fills fields added after a claim was first persisted, so older store files keep loading
+ * @param {any} claim
+ * @returns {import('fra-shared').SimulatedClaim}
+ */
+const normalizeClaim = (claim) => ({
+    ...claim,
+    ownerId: claim.ownerId ?? null,
+    village: claim.village ?? null,
+    geometryType: claim.geometryType ?? (claim.coordinates ? "Polygon" : null),
+    coordinates: claim.coordinates ?? null,
+    history: claim.history ?? [],
+    zoneBreakdown: claim.zoneBreakdown ?? null,
+    areaCheck: claim.areaCheck ?? null
+});
+
+/**
+ * Swaps the storage adapter and reloads state from it.
+ * Tests use this with createMemoryAdapter() to get an isolated store.
+ */
+const useAdapter = (newAdapter) => {
+    adapter = newAdapter;
+    const state = adapter.load() || {};
+    claims = Array.isArray(state.claims) ? state.claims.map(normalizeClaim) : [];
+    claimsById = new Map(claims.map(c => [c.claimId, c]));
+    spatialIndex.load(claims);
+    nextId = resolveNextId(state.nextId, claims);
+};
+
+const persist = () => {
+    adapter.save({ nextId, claims });
+};
 
 /**
  * Returns all simulated claims
@@ -11,42 +70,119 @@ const getClaims = () => {
     return claims;
 };
 
+/**
+ * Returns a single claim by ID, or null
+ */
+const getClaimById = (claimId) => {
+    return claimsById.get(claimId) || null;
+};
+
+/**
+ * Returns the claims whose geometry bounding box intersects [minX, minY, maxX, maxY].
+ * These are only candidates: callers still run an exact intersection test.
+ * @param {number[]} bbox
+ * @returns {import('fra-shared').SimulatedClaim[]}
+ */
+const findClaimsInBounds = (bbox) => {
+    return /** @type {import('fra-shared').SimulatedClaim[]} */ (spatialIndex.search(bbox).map(id => claimsById.get(id)).filter(Boolean));
+};
+
 /**
  * Adds a new claim to the store and assigns an ID
  */
 const addClaim = (claimData) => {
+    const status = claimData.status || "Submitted";
     const newClaim = {
         claimId: `SIM-${nextId++}`,
         citizenName: claimData.citizenName,
+        ownerId: claimData.ownerId || null,
         district: claimData.district,
+        village: claimData.village || null,
         areaRequested: Number(claimData.areaRequested),
+        geometryType: claimData.geometryType || null,
         coordinates: claimData.coordinates || null, // Optional for simulation
-        status: claimData.status || "Submitted",
+        status,
         conflictPercentage: claimData.conflictPercentage || 0,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        history: [createHistoryEntry({ to: status, actor: "system", remark: claimData.remark || "Claim submitted." })],
+        zoneBreakdown: claimData.zoneBreakdown || null,
+        areaCheck: claimData.areaCheck || null,
+        suggestion: claimData.suggestion || null,
+        resubmissionOf: claimData.resubmissionOf || null,
+        supersededBy: null
     };
 
     claims.push(newClaim);
+    claimsById.set(newClaim.claimId, newClaim);
+    spatialIndex.insert(newClaim);
+    persist();
     return newClaim;
 };
 
 /**
- * Updates the status of an existing claim
+ * Retires a claim in favour of the resubmission of its permitted portion.
+ * The caller records the matching entry on the resubmission itself.
+ * @param {string} claimId
+ * @param {string} replacementId
+ * @param {string} actor
+ */
+const supersedeClaim = (claimId, replacementId, actor) => {
+    const claim = updateClaimStatus(claimId, "Superseded", {
+        actor,
+        remark: `Superseded by ${replacementId}, which resubmits the permitted portion of this claim.`
+    });
+    if (!claim) return null;
+    claim.supersededBy = replacementId;
+    persist();
+    return claim;
+};
+
+/**
+ * Stores a fully formed claim under its own ID, as a data migration produces it.
+ * Returns false (and stores nothing) when the ID is already taken.
+ * @param {import('fra-shared').SimulatedClaim} claim
+ */
+const insertClaim = (claim) => {
+    if (claimsById.has(claim.claimId)) return false;
+    const stored = normalizeClaim(claim);
+    claims.push(stored);
+    claimsById.set(stored.claimId, stored);
+    spatialIndex.insert(stored);
+    persist();
+    return true;
+};
+
+/**
+ * Updates the status of an existing claim and appends an audit entry.
+ * Transition rules are enforced by the caller (see claimLifecycle.js).
+ * @param {string} claimId
+ * @param {import('fra-shared').ClaimStatus} newStatus
+ * @param {{ actor?: string, remark: string, advisory?: import('fra-shared').ClaimAdvisoryRecord }} entry
  */
-const updateClaimStatus = (claimId, newStatus) => {
-    const claim = claims.find(c => c.claimId === claimId);
+const updateClaimStatus = (claimId, newStatus, { actor, remark, advisory }) => {
+    const claim = claimsById.get(claimId);
     if (!claim) return null;
 
+    const entry = createHistoryEntry({ from: claim.status, to: newStatus, actor, remark, advisory });
     claim.status = newStatus;
+    claim.history = [...(claim.history || []), entry];
+    persist();
 
     // Once approved, it might have resolved a conflict or added to valid land pool
-    // But per instructions, the conflict severity algorithm runs on *submission* 
+    // But per instructions, the conflict severity algorithm runs on *submission*
     // to check feasibility. Status changes alone just update the claim record.
     return claim;
 };
 
+useAdapter(createAdapterFromEnv('claims.json'));
+
 module.exports = {
     getClaims,
+    getClaimById,
+    findClaimsInBounds,
     addClaim,
-    updateClaimStatus
+    insertClaim,
+    updateClaimStatus,
+    supersedeClaim,
+    useAdapter
 };
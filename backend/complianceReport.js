@@ -0,0 +1,273 @@
+// @ts-check
+// District compliance report: structured JSON written by the configured language model
+// providers from the district's data, then checked against that data (reportVerification.js).
+// Shared by the report endpoint and the PDF district dossier.
+
+const claimAnalytics = require('./claimAnalytics');
+const claimsStore = require('./claimsStore');
+const conflictGraph = require('./conflictGraph');
+const llmProviders = require('./llmProviders');
+const reportVerification = require('./reportVerification');
+const reportArchive = require('./reportArchiveStore');
+
+const providerChain = llmProviders.getProviderChain();
+
+/**
+ * Thrown when no report can be produced; the message is safe to show to users
+ */
+class ReportUnavailableError extends Error {
+    /** @param {string} message */
+    constructor(message) {
+        super(message);
+        this.name = 'ReportUnavailableError';
+    }
+}
+
+// Saved with every archived report. Bump it whenever buildPrompt or the report schema changes.
+const REPORT_PROMPT_VERSION = 'structured-v2';
+
+// Most severe claims first; a district with more than this is summarized by its counts beyond the list
+const EVIDENCE_CLAIM_LIMIT = 60;
+
+/**
+ * The district's current figures: what a report is written from and checked against,
+ * and what the archive keeps alongside it
+ * @param {string} district
+ * @returns {import('fra-shared').ReportSnapshot | null} null when the district has no claims
+ */
+function buildSnapshot(district) {
+    // The risk-engine row, so the report matches the dashboard
+    const risk = claimAnalytics.districtRisk(district);
+    if (!risk) return null;
+
+    const counts = claimAnalytics.districtCounts(district);
+    const claims = claimsStore.getClaims()
+        .filter(c => c.district === district)
+        .sort((a, b) => b.conflictPercentage - a.conflictPercentage || a.claimId.localeCompare(b.claimId))
+        .slice(0, EVIDENCE_CLAIM_LIMIT)
+        .map(c => ({
+            claimId: c.claimId,
+            status: c.status,
+            village: c.village ?? null,
+            areaRequestedAcres: c.areaRequested,
+            drawnAcres: c.areaCheck ? c.areaCheck.drawnAcres : null,
+            severityPct: c.conflictPercentage,
+            reservedZones: c.zoneBreakdown ? c.zoneBreakdown.reservedZones.map(z => z.zoneId) : [],
+            overlapsWith: conflictGraph.getEdgesFor(c.claimId)
+                .map(e => (e.claimIds[0] === c.claimId ? e.claimIds[1] : e.claimIds[0]))
+        }));
+
+    return {
+        stats: { ...counts, conflictPct: Number(((counts.conflicts / counts.total) * 100).toFixed(2)) },
+        risk,
+        claims
+    };
+}
+
+/**
+ * The DATA section of the prompt. Figures in the report cite its fields by path,
+ * so the template draft's sources below follow this layout.
+ * @param {import('./reportVerification').ReportEvidence} evidence
+ */
+function promptData(evidence) {
+    const { district, stats, risk, claims } = evidence;
+    return {
+        district,
+        counts: stats,
+        risk: {
+            score: risk.risk_score,
+            level: risk.risk_level,
+            drivers: risk.explanation.filter(c => c.points > 0).map(c => ({ factor: c.label, detail: c.detail, points: c.points }))
+        },
+        claims
+    };
+}
+
+/**
+ * Builds the prompt for one district; Reserved Forest breaches get a distinct legal prompt
+ * @param {import('./reportVerification').ReportEvidence} evidence
+ * @param {ReturnType<typeof promptData>} data
+ */
+function buildPrompt(evidence, data) {
+    const { district } = evidence;
+    const role = evidence.reportType === 'reserved_violation'
+        ? `You are a senior legal compliance officer under the Forest Rights Act (FRA) of India.
+A critical Reserved Forest boundary violation has been detected in district: ${district}.
+Reserved Forests are legally protected under Section 3 of the Indian Forest Act. Any encroachment is a cognizable offence,
+NOT the same as an administrative overlap between claims. Recommend claim rejection, field inspection and potential prosecution under the IFA.`
+        : `You are a governance compliance analyst under the Forest Rights Act (FRA) of India, reviewing district: ${district}.
+Highlight the risk level and the main risk drivers, and give policy recommendations.`;
+
+    return `${role}
+
+DATA (JSON):
+${JSON.stringify(data, null, 2)}
+
+Write the compliance report as a single JSON object with these fields and nothing else:
+- summary: two or three sentences.
+- riskLevel: "Low", "Moderate" or "High"; use the risk level in the data.
+- findings: a list of { statement, claimIds, figures }. Each finding cites the claim IDs it is about
+  (only IDs from the data) and the figures it rests on as { label, value, source }, where source is the path
+  of that number in the data, such as "counts.conflicts", "risk.drivers[0].points" or "claims[2].severityPct".
+- recommendedActions: a list of concrete administrative actions.
+- legalReferences: a list of the Acts and sections the report relies on.
+Do not invent claim IDs or numbers: every one must appear in the data above. Be concise and formal.`;
+}
+
+/**
+ * Report draft for the template provider, citing the data it was given
+ * @param {import('./reportVerification').ReportEvidence} evidence
+ * @returns {import('./reportVerification').ReportDraft}
+ */
+function templateDraft(evidence) {
+    const { district, stats, risk, claims } = evidence;
+    const reserved = claims.filter(c => c.reservedZones.length > 0);
+    const overlapping = claims.filter(c => c.overlapsWith.length > 0);
+    const flagged = claims.filter(c => c.status === 'Flagged' || c.status === 'Reserved Violation');
+
+    const findings = [];
+    if (reserved.length) {
+        findings.push({
+            statement: `${stats.reservedViolations} claim(s) in ${district} encroach on Reserved Forest, a legally protected area; this is not comparable to an administrative overlap.`,
+            claimIds: reserved.map(c => c.claimId),
+            figures: [{ label: 'Reserved Forest violations', value: stats.reservedViolations, source: 'counts.reservedViolations' }]
+        });
+    }
+    if (flagged.length || stats.conflicts) {
+        findings.push({
+            statement: `${stats.conflicts} of ${stats.total} claims are in conflict (${stats.conflictPct}%).`,
+            claimIds: flagged.map(c => c.claimId),
+            figures: [
+                { label: 'Claims in conflict', value: stats.conflicts, source: 'counts.conflicts' },
+                { label: 'Conflict percentage', value: stats.conflictPct, source: 'counts.conflictPct' }
+            ]
+        });
+    }
+    if (overlapping.length) {
+        findings.push({
+            statement: `${overlapping.length} claim(s) overlap another claim and need boundary resolution.`,
+            claimIds: overlapping.map(c => c.claimId),
+            // The count is derived, not a field of the data, so the finding rests on the cited claims alone
+            figures: []
+        });
+    }
+    // Same drivers, in the same order, as risk.drivers in the prompt data
+    risk.explanation.filter(c => c.points > 0).forEach((c, i) => findings.push({
+        statement: `${c.label}: ${c.detail}.`,
+        claimIds: [],
+        figures: [{ label: 'Risk points', value: c.points, source: `risk.drivers[${i}].points` }]
+    }));
+    if (stats.pending) {
+        findings.push({
+            statement: `${stats.pending} claim(s) are still pending a decision.`,
+            claimIds: [],
+            figures: [{ label: 'Pending claims', value: stats.pending, source: 'counts.pending' }]
+        });
+    }
+    if (!findings.length) {
+        findings.push({
+            statement: `No conflicts, overlaps or pending claims among the ${stats.total} claims.`,
+            claimIds: [],
+            figures: [{ label: 'Total claims', value: stats.total, source: 'counts.total' }]
+        });
+    }
+
+    const recommendedActions = reserved.length
+        ? [
+            'Reject the claims that fall within Reserved Forest.',
+            'Order a field inspection of the affected boundaries.',
+            'Refer confirmed encroachments for action under the Indian Forest Act.'
+        ]
+        : risk.risk_level === 'High'
+            ? ['Prioritise a field verification drive.', 'Hold further approvals in the flagged areas until the overlaps are resolved.']
+            : risk.risk_level === 'Moderate'
+                ? ['Schedule Gram Sabha verification for the flagged claims.', 'Review the pending backlog within the quarter.']
+                : ['Continue routine processing; no special measures are needed.'];
+
+    return {
+        summary: `${district} has ${stats.total} claims: ${stats.approved} approved, ${stats.pending} pending and ${stats.conflicts} in conflict. The risk engine scores the district ${risk.risk_score} (${risk.risk_level}).`,
+        riskLevel: risk.risk_level,
+        findings,
+        recommendedActions,
+        legalReferences: reserved.length
+            ? ['Indian Forest Act, 1927, Section 3 (Reserved Forests)', 'Forest Rights Act, 2006, Section 6 (claim verification)']
+            : ['Forest Rights Act, 2006, Section 6 (claim verification by the Gram Sabha and committees)']
+    };
+}
+
+/**
+ * Generates the compliance report for a district with the first provider that answers.
+ * With `archive`, the report is saved to the archive as the district's next version;
+ * only the generate action of one of the district's officials asks for that.
+ * onToken receives the text as it streams in; onReset means discard what was
+ * streamed so far because a failed provider is being replaced by the next one.
+ * @param {string} district
+ * @param {{ actor?: string | null, archive?: boolean, signal?: AbortSignal, onToken?: (text: string) => void, onReset?: () => void }} [options]
+ * @returns {Promise<import('fra-shared').ReportResponse>}
+ */
+async function generateComplianceReport(district, { actor = null, archive = false, signal, onToken, onReset } = {}) {
+    const snapshot = buildSnapshot(district);
+    if (!snapshot) {
+        throw new ReportUnavailableError(`No data found for district: ${district}`);
+    }
+
+    /** @type {import('./reportVerification').ReportEvidence} */
+    const evidence = {
+        district,
+        reportType: snapshot.stats.reservedViolations > 0 ? 'reserved_violation' : 'conflict',
+        ...snapshot
+    };
+    const data = promptData(evidence);
+    const prompt = buildPrompt(evidence, data);
+
+    let generated;
+    try {
+        generated = await providerChain.generate({
+            prompt,
+            schema: reportVerification.REPORT_JSON_SCHEMA,
+            template: () => templateDraft(evidence),
+            // Unparseable or mostly unsupported answers fail the attempt, so the chain retries or falls back
+            parse: text => reportVerification.checkReport(text, evidence, prompt, data),
+            signal,
+            onToken,
+            onReset
+        });
+    } catch (err) {
+        if (signal?.aborted) {
+            throw new ReportUnavailableError("Report generation was cancelled.");
+        }
+        if (err instanceof llmProviders.ProviderError) {
+            throw new ReportUnavailableError(`No report provider could write the report (${err.message}).`);
+        }
+        throw err;
+    }
+
+    const { value: report, provider } = generated;
+    const reportText = reportVerification.renderReportMarkdown(district, report);
+    const archived = archive && reportArchive.archiveReport({
+        district,
+        generatedAt: new Date().toISOString(),
+        generatedBy: actor,
+        provider,
+        promptVersion: REPORT_PROMPT_VERSION,
+        reportType: evidence.reportType,
+        snapshot,
+        report,
+        reportText
+    });
+
+    return {
+        district,
+        report,
+        reportText,
+        reportType: evidence.reportType,
+        provider,
+        archived: archived ? reportArchive.toSummary(archived) : null
+    };
+}
+
+module.exports = {
+    ReportUnavailableError,
+    buildSnapshot,
+    generateComplianceReport
+};
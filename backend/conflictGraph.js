@@ -0,0 +1,127 @@
+// @ts-check
+// Conflict graph for the Simulation Layer: one undirected edge per pair of
+// claims whose polygons overlap, with the shared area and its geometry.
+// Edges are written through the same storage adapters as claims.
+
+const { createAdapterFromEnv } = require('./storageAdapters');
+
+/** @typedef {import('fra-shared').ConflictEdge} ConflictEdge */
+
+/** @type {{ load: () => any, save: (state: any) => void }} */
+let adapter;
+/** @type {ConflictEdge[]} */
+let edges = [];
+// Edges touching each claim, so per-claim lookups (analytics, the claim page) don't scan the whole graph
+/** @type {Map<string, ConflictEdge[]>} */
+let edgesByClaim = new Map();
+
+/**
+ * @param {ConflictEdge} edge
+ */
+const indexEdge = (edge) => {
+    edge.claimIds.forEach(id => {
+        const list = edgesByClaim.get(id);
+        if (list) list.push(edge);
+        else edgesByClaim.set(id, [edge]);
+    });
+};
+
+/**
+ * @param {Set<ConflictEdge>} removed
+ */
+const unindexEdges = (removed) => {
+    removed.forEach(edge => edge.claimIds.forEach(id => {
+        edgesByClaim.set(id, (edgesByClaim.get(id) || []).filter(e => !removed.has(e)));
+    }));
+};
+
+/**
+ * Swaps the storage adapter and reloads state from it.
+ */
+const useAdapter = (newAdapter) => {
+    adapter = newAdapter;
+    const state = adapter.load() || {};
+    edges = Array.isArray(state.edges) ? state.edges : [];
+    edgesByClaim = new Map();
+    edges.forEach(indexEdge);
+};
+
+const persist = () => {
+    adapter.save({ edges });
+};
+
+/**
+ * Orders a pair of IDs so each pair has exactly one edge
+ * @param {string} a
+ * @param {string} b
+ * @returns {[string, string]}
+ */
+const edgeKey = (a, b) => (a < b ? [a, b] : [b, a]);
+
+/**
+ * Records the overlaps found for a newly stored claim, replacing any earlier
+ * edge between the same two claims
+ * @param {string} claimId
+ * @param {import('fra-shared').ClaimOverlap[]} overlaps
+ */
+const recordOverlaps = (claimId, overlaps) => {
+    if (!overlaps.length) return;
+    const detectedAt = new Date().toISOString();
+
+    /** @type {Set<string>} */
+    const replaced = new Set();
+    /** @type {ConflictEdge[]} */
+    const added = overlaps.map(overlap => {
+        const claimIds = edgeKey(claimId, overlap.claimId);
+        replaced.add(claimIds.join('|'));
+        return { claimIds, overlapAcres: overlap.overlapAcres, geometry: overlap.geometry, detectedAt };
+    });
+    // Only the new claim's existing edges can be replaced
+    const stale = new Set((edgesByClaim.get(claimId) || []).filter(e => replaced.has(e.claimIds.join('|'))));
+    if (stale.size) {
+        edges = edges.filter(e => !stale.has(e));
+        unindexEdges(stale);
+    }
+    edges.push(...added);
+    added.forEach(indexEdge);
+    persist();
+};
+
+/**
+ * Drops every edge touching a claim that no longer holds land, such as one
+ * superseded by its resubmission
+ * @param {string} claimId
+ */
+const removeEdgesFor = (claimId) => {
+    const removed = new Set(edgesByClaim.get(claimId) || []);
+    if (!removed.size) return;
+    edges = edges.filter(e => !removed.has(e));
+    unindexEdges(removed);
+    edgesByClaim.delete(claimId);
+    persist();
+};
+
+/**
+ * Returns every edge in the graph
+ */
+const getEdges = () => {
+    return edges;
+};
+
+/**
+ * Returns the edges touching one claim
+ * @param {string} claimId
+ */
+const getEdgesFor = (claimId) => {
+    return edgesByClaim.get(claimId) || [];
+};
+
+useAdapter(createAdapterFromEnv('conflicts.json'));
+
+module.exports = {
+    recordOverlaps,
+    removeEdgesFor,
+    getEdges,
+    getEdgesFor,
+    useAdapter
+};
@@ -0,0 +1,252 @@
+// @ts-check
+// Printable PDF dossier for one district: its risk ranking row, a static map
+// of zones and claims, the claim list and the compliance report.
+// The map is drawn as vectors from the stored geometries, so the dossier
+// needs no tile server and prints the same everywhere.
+
+const PDFDocument = require('pdfkit');
+const { CLAIM_LIMITS } = require('fra-shared');
+
+/** @typedef {import('fra-shared').SimulatedClaim} SimulatedClaim */
+
+const PAGE_MARGIN = 50;
+const MAP_HEIGHT = 280;
+
+// Claim fill colours by outcome, matching the map layer's palette
+const STATUS_FILL = {
+    approved: '#22c55e',
+    conflict: '#ef4444',
+    reserved: '#7f1d1d',
+    pending: '#6366f1'
+};
+
+/**
+ * @param {SimulatedClaim['status']} status
+ */
+const fillForStatus = (status) => {
+    if (status === 'Approved') return STATUS_FILL.approved;
+    if (status === 'Reserved Violation') return STATUS_FILL.reserved;
+    if (status === 'Flagged' || status === 'Moderate Conflict') return STATUS_FILL.conflict;
+    return STATUS_FILL.pending;
+};
+
+/**
+ * Outer rings of a Polygon or MultiPolygon geometry
+ * @param {any} geometry
+ * @returns {number[][][]}
+ */
+const outerRings = (geometry) => {
+    if (!geometry) return [];
+    if (geometry.type === 'Polygon') return [geometry.coordinates[0]];
+    if (geometry.type === 'MultiPolygon') return geometry.coordinates.map(p => p[0]);
+    return [];
+};
+
+/**
+ * @param {SimulatedClaim} claim
+ */
+const claimGeometry = (claim) => (claim.coordinates ? { type: claim.geometryType || 'Polygon', coordinates: claim.coordinates } : null);
+
+/**
+ * The report is markdown; PDFKit prints plain text, so drop heading and emphasis marks
+ * @param {string} markdown
+ */
+const plainText = (markdown) => markdown
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1');
+
+/**
+ * Draws the static map: forest zones, reserved forests and drawn claims of the district
+ * @param {PDFKit.PDFDocument} doc
+ * @param {{ forestZones: any[], reservedZones: any[], claims: SimulatedClaim[] }} layers
+ */
+function drawMap(doc, { forestZones, reservedZones, claims }) {
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    const top = doc.y;
+    const left = PAGE_MARGIN;
+
+    const layers = [
+        ...forestZones.map(f => ({ rings: outerRings(f.geometry), fill: '#d1fae5', stroke: '#065f46', opacity: 0.6 })),
+        ...reservedZones.map(f => ({ rings: outerRings(f.geometry), fill: '#fecaca', stroke: '#b91c1c', opacity: 0.6 })),
+        ...claims.map(c => ({ rings: outerRings(claimGeometry(c)), fill: fillForStatus(c.status), stroke: '#1e293b', opacity: 0.7 }))
+    ].filter(l => l.rings.length);
+
+    doc.rect(left, top, width, MAP_HEIGHT).lineWidth(0.5).stroke('#94a3b8');
+
+    const positions = layers.flatMap(l => l.rings.flat());
+    if (positions.length === 0) {
+        doc.fontSize(9).fillColor('#64748b').text("No mapped zones or drawn claims in this district.", left, top + MAP_HEIGHT / 2 - 5, { width, align: 'center' });
+        doc.y = top + MAP_HEIGHT + 10;
+        return;
+    }
+
+    // Equirectangular projection scaled at the map's mid-latitude, fitted with a margin
+    const lons = positions.map(p => p[0]);
+    const lats = positions.map(p => p[1]);
+    const [minLon, maxLon, minLat, maxLat] = [Math.min(...lons), Math.max(...lons), Math.min(...lats), Math.max(...lats)];
+    const xScale = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+    const spanX = Math.max((maxLon - minLon) * xScale, 1e-6);
+    const spanY = Math.max(maxLat - minLat, 1e-6);
+    const pad = 15;
+    const scale = Math.min((width - pad * 2) / spanX, (MAP_HEIGHT - pad * 2) / spanY);
+    const offsetX = left + (width - spanX * scale) / 2;
+    const offsetY = top + (MAP_HEIGHT - spanY * scale) / 2;
+    /** @param {number[]} position */
+    const project = ([lon, lat]) => [offsetX + (lon - minLon) * xScale * scale, offsetY + (maxLat - lat) * scale];
+
+    doc.save();
+    doc.rect(left, top, width, MAP_HEIGHT).clip();
+    layers.forEach(layer => {
+        layer.rings.forEach(ring => {
+            const [first, ...rest] = ring.map(project);
+            doc.moveTo(first[0], first[1]);
+            rest.forEach(([x, y]) => doc.lineTo(x, y));
+            doc.closePath();
+            doc.lineWidth(0.8).fillOpacity(layer.opacity).fillAndStroke(layer.fill, layer.stroke);
+        });
+    });
+    doc.restore();
+    doc.fillOpacity(1);
+
+    // North arrow and extent
+    const arrowX = left + width - 18;
+    doc.moveTo(arrowX, top + 8).lineTo(arrowX - 5, top + 20).lineTo(arrowX + 5, top + 20).closePath().fill('#0f172a');
+    doc.fontSize(8).fillColor('#0f172a').text('N', arrowX - 3, top + 22);
+    doc.fontSize(7).fillColor('#64748b').text(
+        `${minLon.toFixed(3)}–${maxLon.toFixed(3)} E, ${minLat.toFixed(3)}–${maxLat.toFixed(3)} N`,
+        left + 6, top + MAP_HEIGHT - 12
+    );
+
+    // Legend
+    let x = left;
+    const legendY = top + MAP_HEIGHT + 6;
+    [
+        ['Forest zone', '#d1fae5'], ['Reserved forest', '#fecaca'], ['Approved', STATUS_FILL.approved],
+        ['In review', STATUS_FILL.pending], ['Conflict', STATUS_FILL.conflict], ['Reserved violation', STATUS_FILL.reserved]
+    ].forEach(([label, color]) => {
+        doc.rect(x, legendY, 8, 8).fill(color);
+        doc.fontSize(7).fillColor('#334155').text(label, x + 11, legendY + 1);
+        x += 11 + doc.widthOfString(label) + 12;
+    });
+    doc.y = legendY + 20;
+}
+
+/**
+ * One row of the claim table
+ * @param {PDFKit.PDFDocument} doc
+ * @param {string[]} cells
+ * @param {number[]} widths
+ * @param {boolean} [header]
+ */
+function tableRow(doc, cells, widths, header = false) {
+    if (doc.y > doc.page.height - PAGE_MARGIN - 20) doc.addPage();
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+    doc.fontSize(8).font(header ? 'Helvetica-Bold' : 'Helvetica').fillColor(header ? '#0f172a' : '#334155');
+    cells.forEach((cell, idx) => {
+        doc.text(cell, x + 2, y, { width: widths[idx] - 4, lineBreak: false, ellipsis: true });
+        x += widths[idx];
+    });
+    doc.y = y + 14;
+    doc.moveTo(PAGE_MARGIN, doc.y - 3).lineTo(doc.page.width - PAGE_MARGIN, doc.y - 3).lineWidth(0.3).stroke('#e2e8f0');
+}
+
+/**
+ * @param {PDFKit.PDFDocument} doc
+ * @param {string} title
+ */
+function sectionHeading(doc, title) {
+    doc.moveDown(0.8);
+    doc.x = PAGE_MARGIN;
+    doc.fontSize(12).font('Helvetica-Bold').fillColor('#065f46').text(title);
+    doc.moveDown(0.3);
+    doc.font('Helvetica');
+}
+
+/**
+ * Writes the dossier PDF to a stream (typically the HTTP response)
+ * @param {NodeJS.WritableStream} stream
+ * @param {{
+ *   district: string,
+ *   generatedBy: string,
+ *   risk: { row: import('fra-shared').DistrictRisk, rank: number, of: number } | null,
+ *   claims: SimulatedClaim[],
+ *   forestZones: any[],
+ *   reservedZones: any[],
+ *   reportText: string | null,
+ *   reportNote: string | null
+ * }} dossier
+ */
+function writeDossier(stream, { district, generatedBy, risk, claims, forestZones, reservedZones, reportText, reportNote }) {
+    const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, info: { Title: `FRA District Dossier: ${district}` } });
+    doc.pipe(stream);
+
+    doc.fontSize(18).font('Helvetica-Bold').fillColor('#0f172a').text(`FRA District Dossier: ${district}`);
+    doc.fontSize(9).font('Helvetica').fillColor('#64748b')
+        .text(`Generated ${new Date().toLocaleString('en-IN')} by ${generatedBy}`);
+
+    sectionHeading(doc, 'Risk Ranking');
+    if (risk) {
+        const widths = [110, 70, 70, 70, 80, 95];
+        tableRow(doc, ['District', 'Rank', 'Claims', 'Pending', 'Conflicts', 'Risk'], widths, true);
+        tableRow(doc, [
+            risk.row.district,
+            `${risk.rank} of ${risk.of}`,
+            String(risk.row.total_claims),
+            String(risk.row.pending),
+            String(risk.row.conflicts),
+            `${risk.row.risk_score} (${risk.row.risk_level})`
+        ], widths);
+
+        doc.moveDown(0.5);
+        const factorWidths = [130, 50, 50, 50, 215];
+        tableRow(doc, ['Risk factor', 'Value', 'Weight', 'Points', 'Basis'], factorWidths, true);
+        risk.row.explanation.forEach(c => tableRow(doc, [
+            c.label,
+            String(c.value),
+            String(c.weight),
+            String(c.points),
+            c.detail
+        ], factorWidths));
+    } else {
+        doc.fontSize(9).fillColor('#64748b').text("This district has no claims in the risk ranking.");
+    }
+
+    sectionHeading(doc, 'Map');
+    drawMap(doc, { forestZones, reservedZones, claims });
+
+    sectionHeading(doc, `Claims (${claims.length})`);
+    if (claims.length === 0) {
+        doc.fontSize(9).fillColor('#64748b').text("No claims recorded in this district.");
+    } else {
+        const widths = [60, 120, 110, 70, 55, 80];
+        tableRow(doc, ['Claim', 'Applicant', 'Status', 'Area (ac)', 'Conflict', 'Submitted'], widths, true);
+        claims.forEach(c => tableRow(doc, [
+            c.claimId,
+            c.citizenName,
+            c.status,
+            String(c.areaRequested),
+            `${c.conflictPercentage}%`,
+            new Date(c.timestamp).toLocaleDateString('en-IN')
+        ], widths));
+        const flaggedArea = claims.filter(c => c.areaCheck && !c.areaCheck.withinTolerance).length;
+        if (flaggedArea) {
+            doc.moveDown(0.3).fontSize(8).fillColor('#b45309')
+                .text(`${flaggedArea} claim(s) declare an area more than ${CLAIM_LIMITS.areaTolerancePct}% away from their drawn boundary.`, PAGE_MARGIN);
+        }
+    }
+
+    sectionHeading(doc, 'Compliance Report');
+    if (reportText) {
+        doc.fontSize(9.5).fillColor('#1e293b').text(plainText(reportText), { align: 'left', lineGap: 2 });
+    } else {
+        doc.fontSize(9).fillColor('#64748b').text(reportNote || "No compliance report was generated.");
+    }
+
+    doc.end();
+}
+
+module.exports = {
+    writeDossier
+};
@@ -0,0 +1,58 @@
+// @ts-check
+// Approximate district outlines for the map's risk choropleth.
+// No official boundary layer ships with the project, so each district is drawn
+// as the convex hull of its forest zones, reserved forests and drawn claims,
+// buffered slightly so single parcels still show up as an area.
+
+const turf = require('@turf/turf');
+const claimsStore = require('./claimsStore');
+const { forestZones, reservedForests } = require('./zonesStore');
+const { claimToFeature } = require('./spatialConflictEngine');
+
+/** @typedef {import('fra-shared').DistrictExtentProperties} DistrictExtentProperties */
+
+// Margin around the hull so a district with a single small parcel is still clickable
+const BUFFER_KM = 2;
+
+/**
+ * One outline per district that has any zone or drawn claim
+ * @returns {import('fra-shared').GeoJSONFeatureCollection<DistrictExtentProperties>}
+ */
+function districtExtents() {
+    /** @type {Map<string, { features: any[], zoneCount: number, claimCount: number }>} */
+    const byDistrict = new Map();
+    /** @param {string} district */
+    const entry = (district) => {
+        if (!byDistrict.has(district)) byDistrict.set(district, { features: [], zoneCount: 0, claimCount: 0 });
+        return /** @type {{ features: any[], zoneCount: number, claimCount: number }} */ (byDistrict.get(district));
+    };
+
+    [...forestZones.features, ...reservedForests.features].forEach(zone => {
+        const e = entry(zone.properties.district);
+        e.features.push(zone);
+        e.zoneCount++;
+    });
+    claimsStore.getClaims().forEach(claim => {
+        const feature = claimToFeature(claim);
+        if (!feature) return;
+        const e = entry(claim.district);
+        e.features.push(feature);
+        e.claimCount++;
+    });
+
+    /** @type {any[]} */
+    const features = [];
+    byDistrict.forEach(({ features: parts, zoneCount, claimCount }, district) => {
+        const hull = turf.convex(turf.explode(turf.featureCollection(parts)));
+        if (!hull) return;
+        const outline = turf.buffer(hull, BUFFER_KM, { units: 'kilometers' });
+        if (!outline) return;
+        features.push({ type: 'Feature', geometry: outline.geometry, properties: { district, zoneCount, claimCount } });
+    });
+
+    return { type: 'FeatureCollection', features };
+}
+
+module.exports = {
+    districtExtents
+};
@@ -0,0 +1,36 @@
+// In-process publish/subscribe for Simulation Layer changes.
+// The SSE endpoint in server.js relays these events to connected browsers.
+
+const { EventEmitter } = require('events');
+
+const SIMULATION_EVENTS = {
+    CLAIM_CREATED: "claim-created",
+    CLAIM_REVIEWED: "claim-reviewed",
+    ANALYTICS_CHANGED: "analytics-changed",
+    ZONE_CONFIG_CHANGED: "zone-config-changed"
+};
+
+const emitter = new EventEmitter();
+// One listener per open browser tab
+emitter.setMaxListeners(0);
+
+/**
+ * Broadcasts an event to every subscriber
+ */
+const publish = (type, payload = {}) => {
+    emitter.emit('event', { type, payload, timestamp: new Date().toISOString() });
+};
+
+/**
+ * Registers a listener for all events; returns the unsubscribe function
+ */
+const subscribe = (listener) => {
+    emitter.on('event', listener);
+    return () => emitter.off('event', listener);
+};
+
+module.exports = {
+    SIMULATION_EVENTS,
+    publish,
+    subscribe
+};
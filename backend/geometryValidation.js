@@ -0,0 +1,191 @@
+// @ts-check
+// Geometry checks and safe repairs for claim polygons submitted by citizens.
+// Problems that change what land is being claimed (self-intersections, too few
+// vertices, out-of-bounds coordinates) are reported; purely mechanical defects
+// (unclosed rings, repeated vertices, winding order) are repaired automatically and
+// listed back to the caller.
+
+const turf = require('@turf/turf');
+const { CLAIM_LIMITS } = require('fra-shared');
+
+/** @typedef {import('fra-shared').ValidationIssue} ValidationIssue */
+/** @typedef {import('fra-shared').GeometryLimits} GeometryLimits */
+
+const samePosition = (a, b) => a[0] === b[0] && a[1] === b[1];
+
+/**
+ * Cleans one linear ring, recording repairs and issues against its path
+ * @param {number[][]} ring
+ * @param {string} path
+ * @param {ValidationIssue[]} issues
+ * @param {string[]} repairs
+ * @param {GeometryLimits['bounds']} bounds
+ * @returns {number[][]}
+ */
+function sanitizeRing(ring, path, issues, repairs, bounds) {
+    const [minLon, minLat, maxLon, maxLat] = bounds;
+
+    // Drop altitude / extra ordinates and consecutive duplicate vertices
+    const cleaned = [];
+    ring.forEach((position, idx) => {
+        if (position.length < 2) {
+            issues.push({ path: `${path}[${idx}]`, message: "Position must have a longitude and a latitude." });
+            return;
+        }
+        const [lon, lat] = position;
+        if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) {
+            issues.push({
+                path: `${path}[${idx}]`,
+                message: `Coordinate [${lon}, ${lat}] is outside the supported area (${minLon}..${maxLon} E, ${minLat}..${maxLat} N). Check that longitude comes first.`
+            });
+        }
+        const point = [lon, lat];
+        if (cleaned.length && samePosition(cleaned[cleaned.length - 1], point)) {
+            repairs.push(`Removed repeated vertex at ${path}[${idx}].`);
+            return;
+        }
+        cleaned.push(point);
+    });
+
+    if (cleaned.length && !samePosition(cleaned[0], cleaned[cleaned.length - 1])) {
+        cleaned.push([...cleaned[0]]);
+        repairs.push(`Closed ring ${path} by repeating its first vertex.`);
+    }
+
+    if (cleaned.length < 4) {
+        issues.push({ path, message: "A ring needs at least three distinct vertices." });
+    }
+
+    return cleaned;
+}
+
+/**
+ * Cleans the rings of one polygon
+ * @param {number[][][]} rings
+ * @param {string} path
+ * @param {ValidationIssue[]} issues
+ * @param {string[]} repairs
+ * @param {GeometryLimits['bounds']} bounds
+ */
+function sanitizePolygonRings(rings, path, issues, repairs, bounds) {
+    if (rings.length === 0) {
+        issues.push({ path, message: "Polygon has no rings." });
+        return [];
+    }
+    return rings.map((ring, idx) => sanitizeRing(ring, `${path}[${idx}]`, issues, repairs, bounds));
+}
+
+/**
+ * Holes that are not inside their polygon's shell, and polygon parts that overlap each other.
+ * Rings that cross each other are already caught as self-intersections.
+ * @param {number[][][][]} polygons
+ * @param {string} coordsPath
+ * @returns {ValidationIssue[]}
+ */
+function nestingIssues(polygons, coordsPath) {
+    /** @type {ValidationIssue[]} */
+    const issues = [];
+    const partPath = (/** @type {number} */ idx) => polygons.length > 1 ? `${coordsPath}[${idx}]` : coordsPath;
+
+    polygons.forEach((rings, partIdx) => {
+        const shell = turf.polygon([rings[0]]);
+        rings.slice(1).forEach((hole, holeIdx) => {
+            if (!turf.booleanWithin(turf.polygon([hole]), shell)) {
+                issues.push({
+                    path: `${partPath(partIdx)}[${holeIdx + 1}]`,
+                    message: "Hole lies outside the polygon's outer boundary. Holes must be drawn inside the claimed area."
+                });
+            }
+        });
+    });
+
+    for (let i = 0; i < polygons.length; i++) {
+        for (let j = i + 1; j < polygons.length; j++) {
+            const shared = turf.intersect(turf.featureCollection([turf.polygon(polygons[i]), turf.polygon(polygons[j])]));
+            // Parts that only touch along an edge share no area
+            if (shared && turf.area(shared) > 1) {
+                issues.push({
+                    path: partPath(j),
+                    message: `Polygon part ${j + 1} overlaps part ${i + 1}; the shared land would be counted twice. Merge the parts or redraw them apart.`
+                });
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Validates and, where safe, repairs a claim Feature (Polygon or MultiPolygon).
+ * The input must already satisfy the structural schema in fra-shared.
+ *
+ * @param {import('fra-shared').GeoJSONClaimFeature} feature
+ * @param {string} [basePath]
+ * @param {GeometryLimits} [limits] Vertex cap and bounds; imported zones pass ZONE_LIMITS
+ * @returns {{ feature: import('fra-shared').GeoJSONClaimFeature | null, issues: ValidationIssue[], repairs: string[] }}
+ */
+function sanitizeClaimGeometry(feature, basePath = 'geojson', limits = CLAIM_LIMITS) {
+    /** @type {ValidationIssue[]} */
+    const issues = [];
+    /** @type {string[]} */
+    const repairs = [];
+    const coordsPath = `${basePath}.geometry.coordinates`;
+    const { geometry } = feature;
+
+    /** @type {number[][][][]} */
+    const polygons = geometry.type === 'Polygon'
+        ? [sanitizePolygonRings(geometry.coordinates, coordsPath, issues, repairs, limits.bounds)]
+        : geometry.coordinates.map((rings, idx) => sanitizePolygonRings(rings, `${coordsPath}[${idx}]`, issues, repairs, limits.bounds));
+
+    const vertexCount = polygons.reduce((sum, rings) => sum + rings.reduce((n, ring) => n + ring.length, 0), 0);
+    if (vertexCount > limits.maxVertices) {
+        issues.push({ path: coordsPath, message: `Geometry has ${vertexCount} vertices; the limit is ${limits.maxVertices}. Simplify the boundary.` });
+    }
+
+    if (issues.length) {
+        return { feature: null, issues, repairs };
+    }
+
+    /** @type {any} */
+    let repaired = geometry.type === 'Polygon'
+        ? turf.polygon(polygons[0], feature.properties || {})
+        : turf.multiPolygon(polygons, feature.properties || {});
+
+    // Self-intersections change the meaning of the boundary, so they are never auto-fixed
+    const kinks = turf.kinks(repaired);
+    if (kinks.features.length > 0) {
+        const [lon, lat] = kinks.features[0].geometry.coordinates;
+        issues.push({
+            path: coordsPath,
+            message: `Boundary crosses itself at ${kinks.features.length} point(s), first near [${lon.toFixed(5)}, ${lat.toFixed(5)}]. Redraw the polygon without crossing edges.`
+        });
+        return { feature: null, issues, repairs };
+    }
+
+    // A hole outside its shell or a part inside another would be measured twice or subtracted
+    // from land it does not belong to, so both are reported rather than guessed at
+    const overlapIssues = nestingIssues(polygons, coordsPath);
+    if (overlapIssues.length) {
+        issues.push(...overlapIssues);
+        return { feature: null, issues, repairs };
+    }
+
+    // RFC 7946 winding: exterior rings counter-clockwise, holes clockwise
+    /** @type {any} */
+    const rewound = turf.rewind(repaired);
+    if (JSON.stringify(rewound.geometry.coordinates) !== JSON.stringify(repaired.geometry.coordinates)) {
+        repairs.push("Corrected ring winding order.");
+        repaired = rewound;
+    }
+
+    if (turf.area(repaired) <= 0) {
+        issues.push({ path: coordsPath, message: "Polygon encloses no area." });
+        return { feature: null, issues, repairs };
+    }
+
+    return { feature: repaired, issues, repairs };
+}
+
+module.exports = {
+    sanitizeClaimGeometry
+};
@@ -0,0 +1,273 @@
+// @ts-check
+// Readers for the survey formats field teams upload: GeoJSON, zipped
+// Shapefiles and KML. Each reader returns plain GeoJSON features in WGS 84
+// plus a description of the CRS the coordinates were read in.
+// Geometry checks happen later, feature by feature, so one bad feature never
+// fails a whole file.
+
+const path = require('path');
+const proj4 = require('proj4');
+const JSZip = require('jszip');
+const shp = require('shpjs');
+const { kml } = require('@tmcw/togeojson');
+const { DOMParser } = require('@xmldom/xmldom');
+const { IMPORT_LIMITS } = require('fra-shared');
+
+/** @typedef {import('fra-shared').ImportFormat} ImportFormat */
+/** @typedef {{ features: any[], sourceCrs: string }} ParsedLayer */
+
+const WGS84 = 'EPSG:4326';
+
+/**
+ * Thrown when a whole file cannot be read; the message is safe to show to the uploader
+ */
+class ImportFileError extends Error {
+    /** @param {string} message */
+    constructor(message) {
+        super(message);
+        this.name = 'ImportFileError';
+    }
+}
+
+/**
+ * Works out the format from the file name
+ * @param {string} fileName
+ * @returns {ImportFormat | null}
+ */
+const detectFormat = (fileName) => {
+    const ext = path.extname(fileName).toLowerCase();
+    if (ext === '.geojson' || ext === '.json') return 'geojson';
+    if (ext === '.zip') return 'shapefile';
+    if (ext === '.kml') return 'kml';
+    return null;
+};
+
+/**
+ * Turns a CRS name (EPSG code, OGC URN, proj string or WKT) into something proj4 accepts.
+ * Returns null for WGS 84, which needs no reprojection.
+ * @param {unknown} crs
+ * @returns {string | null}
+ */
+const resolveCrs = (crs) => {
+    if (typeof crs !== 'string') {
+        throw new ImportFileError("The coordinate reference system must be given as a name, such as EPSG:32644.");
+    }
+    const trimmed = crs.trim();
+    const epsg = trimmed.match(/EPSG:{1,2}(\d+)$/i);
+    if (/CRS84$/i.test(trimmed) || (epsg && epsg[1] === '4326')) return null;
+
+    if (epsg) {
+        const code = Number(epsg[1]);
+        // WGS 84 / UTM north (326xx) and south (327xx)
+        if (code > 32600 && code <= 32660) return `+proj=utm +zone=${code - 32600} +datum=WGS84 +units=m +no_defs`;
+        if (code > 32700 && code <= 32760) return `+proj=utm +zone=${code - 32700} +south +datum=WGS84 +units=m +no_defs`;
+        if (proj4.defs(`EPSG:${code}`)) return `EPSG:${code}`;
+        throw new ImportFileError(`Unsupported coordinate reference system EPSG:${code}. Reproject to WGS 84 (EPSG:4326) or a WGS 84 UTM zone.`);
+    }
+
+    try {
+        proj4(trimmed, WGS84);
+    } catch {
+        throw new ImportFileError(`Could not understand the coordinate reference system "${trimmed.slice(0, 60)}".`);
+    }
+    // WKT for plain geographic WGS 84 needs no work either
+    return /^GEOGCS\["(GCS_)?WGS[ _]?(19)?84"/i.test(trimmed) ? null : trimmed;
+};
+
+/**
+ * Reprojects every position of a geometry in place
+ * @param {any} geometry
+ * @param {proj4.Converter} converter
+ */
+const reprojectGeometry = (geometry, converter) => {
+    if (!geometry || typeof geometry !== 'object') return;
+    if (geometry.type === 'GeometryCollection') {
+        if (!Array.isArray(geometry.geometries)) return;
+        geometry.geometries.forEach(g => reprojectGeometry(g, converter));
+        return;
+    }
+    // Malformed coordinates are left as they are for the per-feature validation to report
+    /** @param {any} coords */
+    const walk = (coords) => {
+        if (!Array.isArray(coords)) return coords;
+        return typeof coords[0] === 'number' ? converter.forward([coords[0], coords[1]]) : coords.map(walk);
+    };
+    geometry.coordinates = walk(geometry.coordinates);
+};
+
+/**
+ * Brings features to WGS 84 from the given CRS
+ * @param {any[]} features
+ * @param {string | null} projDef From resolveCrs; null means already WGS 84
+ */
+const toWgs84 = (features, projDef) => {
+    if (!projDef) return features;
+    const converter = proj4(projDef, WGS84);
+    features.forEach(f => reprojectGeometry(f?.geometry, converter));
+    return features;
+};
+
+/**
+ * Describes a CRS for the import report
+ * @param {string | null} projDef
+ * @param {any} declared A CRS name resolveCrs accepted
+ */
+const describeCrs = (projDef, declared) => {
+    if (!projDef) return 'EPSG:4326 (WGS 84)';
+    // WKT (.prj files) is long; its first quoted string is the CRS name
+    const wktName = declared.match(/^\s*(?:PROJCS|GEOGCS)\["([^"]+)"/);
+    return wktName ? wktName[1] : declared.trim();
+};
+
+/**
+ * @param {Buffer} buffer
+ * @param {string | undefined} sourceCrs
+ * @returns {ParsedLayer}
+ */
+function parseGeoJson(buffer, sourceCrs) {
+    let data;
+    try {
+        data = JSON.parse(buffer.toString('utf-8'));
+    } catch {
+        throw new ImportFileError("File is not valid JSON.");
+    }
+
+    let features;
+    if (data?.type === 'FeatureCollection' && Array.isArray(data.features)) features = data.features;
+    else if (data?.type === 'Feature') features = [data];
+    else if (data?.type && data?.coordinates) features = [{ type: 'Feature', properties: {}, geometry: data }];
+    else throw new ImportFileError("Expected a GeoJSON FeatureCollection, Feature or geometry.");
+
+    // RFC 7946 drops the crs member, but older exports (QGIS, ArcGIS) still write it
+    const declared = sourceCrs || data.crs?.properties?.name || WGS84;
+    const projDef = resolveCrs(declared);
+    return { features: toWgs84(features, projDef), sourceCrs: describeCrs(projDef, declared) };
+}
+
+/**
+ * Decompresses one zip entry against what is left of the upload's budget. The sizes
+ * an archive declares can be forged, so reading also stops once the output passes it.
+ * @param {JSZip.JSZipObject} entry
+ * @param {{ remaining: number }} budget Uncompressed bytes the rest of the archive may take
+ * @returns {Promise<Buffer>}
+ */
+const readZipEntry = (entry, budget) => {
+    const tooLarge = () => new ImportFileError(`The zip archive expands to more than ${IMPORT_LIMITS.maxUncompressedBytes / (1024 * 1024)} MB.`);
+    // Not in JSZip's typings: the size from the central directory, and the pausable stream
+    const internal = /** @type {any} */ (entry);
+    if (internal._data?.uncompressedSize > budget.remaining) {
+        return Promise.reject(tooLarge());
+    }
+
+    return new Promise((resolve, reject) => {
+        /** @type {Uint8Array[]} */
+        const chunks = [];
+        const stream = internal.internalStream('uint8array');
+        stream
+            .on('data', (/** @type {Uint8Array} */ chunk) => {
+                budget.remaining -= chunk.length;
+                if (budget.remaining < 0) {
+                    stream.pause();
+                    reject(tooLarge());
+                    return;
+                }
+                chunks.push(chunk);
+            })
+            .on('error', () => reject(new ImportFileError(`Could not decompress ${entry.name} from the zip archive.`)))
+            .on('end', () => resolve(Buffer.concat(chunks)))
+            .resume();
+    });
+};
+
+/**
+ * Reads every layer (.shp + .dbf + optional .prj) in a zipped Shapefile
+ * @param {Buffer} buffer
+ * @param {string | undefined} sourceCrs
+ * @param {number} [maxUncompressedBytes]
+ * @returns {Promise<ParsedLayer>}
+ */
+async function parseShapefileZip(buffer, sourceCrs, maxUncompressedBytes = IMPORT_LIMITS.maxUncompressedBytes) {
+    let zip;
+    try {
+        zip = await JSZip.loadAsync(buffer);
+    } catch {
+        throw new ImportFileError("File is not a valid zip archive.");
+    }
+
+    const shpFiles = zip.file(/\.shp$/i).filter(f => !f.name.startsWith('__MACOSX/'));
+    if (shpFiles.length === 0) {
+        throw new ImportFileError("The zip archive contains no .shp file.");
+    }
+
+    const budget = { remaining: maxUncompressedBytes };
+    const features = [];
+    const crsNames = new Set();
+    for (const shpFile of shpFiles) {
+        const base = shpFile.name.replace(/\.shp$/i, '');
+        /** @param {string} ext */
+        const sibling = (ext) => zip.file(new RegExp(`^${base.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\.${ext}$`, 'i'))[0];
+
+        const dbfFile = sibling('dbf');
+        const prjFile = sibling('prj');
+        const cpgFile = sibling('cpg');
+
+        const shpBuffer = await readZipEntry(shpFile, budget);
+        const dbfBuffer = dbfFile ? await readZipEntry(dbfFile, budget) : null;
+        const encoding = cpgFile ? (await readZipEntry(cpgFile, budget)).toString('utf-8') : undefined;
+
+        let layer;
+        try {
+            const geometries = shp.parseShp(shpBuffer);
+            const records = dbfBuffer ? shp.parseDbf(dbfBuffer, encoding) : [];
+            layer = shp.combine([geometries, records]).features;
+        } catch {
+            throw new ImportFileError(`Could not read the Shapefile layer ${shpFile.name}; check that its .shp and .dbf files are intact.`);
+        }
+
+        const declared = sourceCrs || (prjFile ? (await readZipEntry(prjFile, budget)).toString('utf-8') : WGS84);
+        const projDef = resolveCrs(declared);
+        crsNames.add(describeCrs(projDef, declared));
+        features.push(...toWgs84(layer, projDef));
+    }
+
+    return { features, sourceCrs: [...crsNames].join('; ') };
+}
+
+/**
+ * KML is WGS 84 by definition
+ * @param {Buffer} buffer
+ * @returns {ParsedLayer}
+ */
+function parseKml(buffer) {
+    let collection;
+    try {
+        const doc = new DOMParser().parseFromString(buffer.toString('utf-8'), 'text/xml');
+        collection = kml(/** @type {any} */ (doc));
+    } catch {
+        throw new ImportFileError("File is not valid KML.");
+    }
+    return { features: collection.features, sourceCrs: 'EPSG:4326 (WGS 84, KML)' };
+}
+
+/**
+ * Reads an uploaded file into WGS 84 features
+ * @param {Buffer} buffer
+ * @param {string} fileName
+ * @param {{ sourceCrs?: string, maxUncompressedBytes?: number }} [options]
+ * @returns {Promise<ParsedLayer & { format: ImportFormat }>}
+ */
+async function parseImportFile(buffer, fileName, { sourceCrs, maxUncompressedBytes } = {}) {
+    const format = detectFormat(fileName);
+    if (!format) {
+        throw new ImportFileError("Unsupported file type. Upload a .geojson/.json, a zipped Shapefile (.zip) or a .kml file.");
+    }
+
+    if (format === 'geojson') return { format, ...parseGeoJson(buffer, sourceCrs) };
+    if (format === 'shapefile') return { format, ...(await parseShapefileZip(buffer, sourceCrs, maxUncompressedBytes)) };
+    return { format, ...parseKml(buffer) };
+}
+
+module.exports = {
+    ImportFileError,
+    parseImportFile
+};
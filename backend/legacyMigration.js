@@ -0,0 +1,139 @@
+// @ts-check
+// One-way migration of the legacy data/mock_claims.json dataset into the claims store.
+// Every feature becomes a full claim (LEG-n) that goes through the spatial engine
+// like a new submission: the dataset's precomputed `overlap` and `protected_zone`
+// booleans are not carried over but derived from the engine's verdict.
+// Features already migrated are skipped, so the server runs this on every start.
+// Run `npm run migrate:legacy` to migrate (and see the summary) without starting it.
+
+const fs = require('fs');
+const path = require('path');
+const { validateClaimFeature } = require('fra-shared');
+const claimsStore = require('./claimsStore');
+const conflictGraph = require('./conflictGraph');
+const spatialEngine = require('./spatialConflictEngine');
+const areaMeasurement = require('./areaMeasurement');
+const { createHistoryEntry } = require('./claimLifecycle');
+const { sanitizeClaimGeometry } = require('./geometryValidation');
+
+const LEGACY_FILE = path.join(__dirname, 'data', 'mock_claims.json');
+const SOURCE_NAME = 'mock_claims.json';
+const LEGACY_ID_PREFIX = 'LEG-';
+
+/**
+ * @param {number} index Position of the feature in the legacy file
+ */
+const legacyClaimId = (index) => `${LEGACY_ID_PREFIX}${index + 1}`;
+
+/**
+ * Whether a stored claim came from the legacy dataset rather than a citizen's submission or an import
+ * @param {import('fra-shared').SimulatedClaim} claim
+ */
+const isLegacyClaim = (claim) => claim.claimId.startsWith(LEGACY_ID_PREFIX);
+
+/**
+ * Reads the legacy FeatureCollection; a missing file means there is nothing to migrate
+ * @param {string} file
+ * @returns {any[]}
+ */
+function readLegacyFeatures(file) {
+    if (!fs.existsSync(file)) return [];
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return Array.isArray(data.features) ? data.features : [];
+}
+
+/**
+ * Converts one legacy feature into a stored claim.
+ * The legacy status is only trusted for approvals (a recorded decision);
+ * every other claim takes the engine's intake verdict.
+ * @param {any} feature
+ * @param {string} claimId
+ * @returns {{ claim: import('fra-shared').SimulatedClaim, overlaps: import('fra-shared').ClaimOverlap[] }}
+ */
+function migrateFeature(feature, claimId) {
+    const props = feature.properties || {};
+    const district = props.district || 'Unknown';
+    const declaredAcres = Number(props.area) > 0 ? Number(props.area) : 0;
+
+    // Geometry that fails validation is dropped and the claim kept as area-only
+    let geojson = null;
+    let geometryNote = '';
+    const structural = validateClaimFeature({ type: 'Feature', properties: {}, geometry: feature.geometry });
+    if (structural.ok) {
+        const sanitized = sanitizeClaimGeometry(structural.value);
+        geojson = sanitized.issues.length ? null : sanitized.feature;
+        if (sanitized.issues.length) geometryNote = ` Boundary dropped: ${sanitized.issues[0].message}`;
+    } else if (feature.geometry) {
+        geometryNote = ` Boundary dropped: ${structural.issues[0].message}`;
+    }
+
+    const severityResult = geojson
+        ? spatialEngine.calculateSpatialConflict(geojson, district)
+        : { ...spatialEngine.fallbackCalculateConflict(district, declaredAcres, spatialEngine.rulesForDistrict(district)), overlaps: [], zoneBreakdown: null };
+    const areaCheck = geojson
+        ? areaMeasurement.checkDeclaredArea(geojson, district, declaredAcres || areaMeasurement.areaAcres(geojson, district))
+        : null;
+
+    const history = [createHistoryEntry({
+        to: severityResult.status,
+        actor: "system",
+        remark: `Migrated from ${SOURCE_NAME} (legacy status: ${props.status || 'none'}). ${severityResult.reason || "Auto-checked"}${geometryNote}`
+    })];
+    if (props.status === 'Approved') {
+        history.push(createHistoryEntry({ from: severityResult.status, to: "Approved", actor: "system", remark: `Approved in ${SOURCE_NAME}.` }));
+    }
+
+    const claim = {
+        claimId,
+        citizenName: props.citizenName || props.claimant || "Unrecorded claimant",
+        ownerId: null,
+        district,
+        village: props.village || null,
+        areaRequested: areaCheck ? areaCheck.declaredAcres : declaredAcres,
+        geometryType: geojson ? geojson.geometry.type : null,
+        coordinates: geojson ? geojson.geometry.coordinates : null,
+        status: history[history.length - 1].to,
+        conflictPercentage: severityResult.conflictSeverity || 0,
+        timestamp: new Date().toISOString(),
+        history,
+        zoneBreakdown: severityResult.zoneBreakdown,
+        areaCheck
+    };
+    return { claim, overlaps: severityResult.overlaps };
+}
+
+/**
+ * Moves every not-yet-migrated legacy feature into the claims store.
+ * Features are evaluated in file order, so later ones see overlaps with earlier ones.
+ * @param {string} [file]
+ * @returns {{ migrated: string[], skipped: number }}
+ */
+function migrateLegacyClaims(file = LEGACY_FILE) {
+    /** @type {string[]} */
+    const migrated = [];
+    let skipped = 0;
+
+    readLegacyFeatures(file).forEach((feature, index) => {
+        const claimId = legacyClaimId(index);
+        if (claimsStore.getClaimById(claimId)) {
+            skipped++;
+            return;
+        }
+        const { claim, overlaps } = migrateFeature(feature, claimId);
+        claimsStore.insertClaim(claim);
+        conflictGraph.recordOverlaps(claimId, overlaps);
+        migrated.push(claimId);
+    });
+
+    return { migrated, skipped };
+}
+
+if (require.main === module) {
+    const { migrated, skipped } = migrateLegacyClaims();
+    console.log(`Migrated ${migrated.length} legacy claim(s)${migrated.length ? `: ${migrated.join(', ')}` : ''}; ${skipped} already present.`);
+}
+
+module.exports = {
+    isLegacyClaim,
+    migrateLegacyClaims
+};
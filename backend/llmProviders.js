@@ -0,0 +1,375 @@
+// @ts-check
+// Language model providers for the compliance report and the claim review assistant.
+// Each provider streams a prompt's answer as it is generated; a chain tries them
+// in order with a timeout and retries per provider, so a report is still written
+// when the preferred model is unreachable. The template provider needs no model at all.
+
+/**
+ * What a provider is asked to write: JSON matching `schema`. Model providers use
+ * the prompt; the template provider returns `template()`, the same JSON filled in from the data.
+ * @typedef {{
+ *   prompt: string,
+ *   schema: object,
+ *   template: () => object,
+ *   signal: AbortSignal,
+ *   onToken: (text: string) => void
+ * }} GenerateRequest
+ * @typedef {{ name: string, generate: (request: GenerateRequest) => Promise<string> }} LlmProvider
+ *   generate passes each piece of text to onToken as it arrives and resolves with the whole text
+ */
+
+/**
+ * A provider call that failed. Retryable failures (network errors, timeouts,
+ * 429 and 5xx responses) are tried again; the rest move on to the next provider.
+ */
+class ProviderError extends Error {
+    /**
+     * @param {string} message
+     * @param {boolean} retryable
+     */
+    constructor(message, retryable) {
+        super(message);
+        this.name = 'ProviderError';
+        this.retryable = retryable;
+    }
+}
+
+/**
+ * @param {unknown} err
+ * @returns {ProviderError}
+ */
+function networkError(err) {
+    if (err instanceof ProviderError) return err;
+    const timedOut = err instanceof Error && (err.name === 'TimeoutError' || err.name === 'AbortError');
+    return new ProviderError(timedOut ? 'timed out' : `unreachable (${err instanceof Error ? err.message : err})`, true);
+}
+
+/**
+ * POSTs JSON and yields the streamed response body line by line,
+ * mapping every failure to a ProviderError
+ * @param {string} url
+ * @param {Record<string, string>} headers
+ * @param {unknown} body
+ * @param {AbortSignal} signal
+ * @returns {AsyncGenerator<string>}
+ */
+async function* postStream(url, headers, body, signal) {
+    let response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+            signal
+        });
+    } catch (err) {
+        throw networkError(err);
+    }
+
+    if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        const detail = data?.error?.message ?? data?.error ?? response.statusText;
+        throw new ProviderError(`HTTP ${response.status}: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`,
+            response.status === 429 || response.status >= 500);
+    }
+
+    const decoder = new TextDecoder();
+    let buffered = '';
+    try {
+        for await (const chunk of response.body) {
+            buffered += decoder.decode(chunk, { stream: true });
+            const lines = buffered.split('\n');
+            buffered = lines.pop() ?? '';
+            for (const line of lines) {
+                if (line.trim()) yield line.trim();
+            }
+        }
+    } catch (err) {
+        throw networkError(err);
+    }
+    if (buffered.trim()) yield buffered.trim();
+}
+
+/**
+ * Payloads of a Server-Sent Events stream (OpenAI and Gemini)
+ * @param {AsyncGenerator<string>} lines
+ * @returns {AsyncGenerator<any>}
+ */
+async function* ssePayloads(lines) {
+    for await (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+        yield parseChunk(data);
+    }
+}
+
+/**
+ * @param {string} json
+ */
+function parseChunk(json) {
+    try {
+        return JSON.parse(json);
+    } catch {
+        throw new ProviderError('sent a malformed stream chunk', true);
+    }
+}
+
+/**
+ * @param {unknown} text
+ * @returns {string}
+ */
+function requireText(text) {
+    if (typeof text !== 'string' || !text.trim()) {
+        throw new ProviderError('returned an empty response', false);
+    }
+    return text.trim();
+}
+
+/**
+ * Forwards each piece of text and returns the whole
+ * @param {AsyncIterable<string>} pieces
+ * @param {(text: string) => void} onToken
+ */
+async function collect(pieces, onToken) {
+    let text = '';
+    for await (const piece of pieces) {
+        if (!piece) continue;
+        text += piece;
+        onToken(piece);
+    }
+    return requireText(text);
+}
+
+/**
+ * Local Ollama server (`ollama serve`)
+ * @param {{ baseUrl?: string, model?: string }} [options]
+ * @returns {LlmProvider}
+ */
+const createOllamaProvider = ({ baseUrl = 'http://localhost:11434', model = 'llama3' } = {}) => ({
+    name: `ollama:${model}`,
+    generate: ({ prompt, schema, signal, onToken }) => collect((async function* () {
+        // Newline-delimited JSON, one object per token
+        for await (const line of postStream(`${baseUrl}/api/generate`, {}, { model, prompt, format: schema, stream: true }, signal)) {
+            const chunk = parseChunk(line);
+            if (chunk.error) throw new ProviderError(String(chunk.error), false);
+            yield chunk.response ?? '';
+        }
+    })(), onToken)
+});
+
+/**
+ * Google Gemini through the Generative Language REST API
+ * @param {{ apiKey: string, model?: string }} options
+ * @returns {LlmProvider}
+ */
+const createGeminiProvider = ({ apiKey, model = 'gemini-1.5-flash' }) => ({
+    name: `gemini:${model}`,
+    generate: ({ prompt, schema, signal, onToken }) => collect((async function* () {
+        const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse`;
+        const lines = postStream(url, { 'x-goog-api-key': apiKey }, {
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            generationConfig: { responseMimeType: 'application/json', responseSchema: schema }
+        }, signal);
+        for await (const chunk of ssePayloads(lines)) {
+            /** @type {{ text?: string }[]} */
+            const parts = chunk?.candidates?.[0]?.content?.parts ?? [];
+            yield parts.map(p => p.text ?? '').join('');
+        }
+    })(), onToken)
+});
+
+/**
+ * Any server speaking the OpenAI chat completions API (OpenAI, vLLM, llama.cpp, LM Studio, a test stub)
+ * @param {{ baseUrl: string, model: string, apiKey?: string }} options
+ * @returns {LlmProvider}
+ */
+const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }) => ({
+    name: `openai:${model}`,
+    generate: ({ prompt, schema, signal, onToken }) => collect((async function* () {
+        const lines = postStream(`${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+            apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+            {
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                response_format: { type: 'json_schema', json_schema: { name: 'compliance_report', schema } },
+                stream: true
+            },
+            signal);
+        for await (const chunk of ssePayloads(lines)) {
+            yield chunk?.choices?.[0]?.delta?.content ?? '';
+        }
+    })(), onToken)
+});
+
+/**
+ * Deterministic answer filled in from the request's data. Always available,
+ * so air-gapped offices still get a report and tests get stable output.
+ * @returns {LlmProvider}
+ */
+const createTemplateProvider = () => ({
+    name: 'template',
+    generate: async ({ template, onToken }) => {
+        const text = JSON.stringify(template(), null, 2);
+        // Sent a line at a time, like a model would stream it
+        text.split(/(?<=\n)/).forEach(onToken);
+        return text;
+    }
+});
+
+
+/**
+ * Tries each provider in turn. A provider gets `retries` extra attempts on
+ * retryable failures, spaced by a growing backoff. An attempt times out when it
+ * goes `timeoutMs` without producing any text.
+ * An answer `parse` rejects with a ProviderError counts as a failed attempt.
+ * Text already streamed by a failed attempt is retracted through onReset before
+ * the next attempt starts. Aborting the caller's signal stops the chain.
+ * @param {LlmProvider[]} providers
+ * @param {{ timeoutMs?: number, retries?: number, backoffMs?: number }} [options]
+ */
+const createProviderChain = (providers, { timeoutMs = 60000, retries = 1, backoffMs = 500 } = {}) => {
+    /**
+     * @template T
+     * @param {{
+     *   prompt: string,
+     *   schema: object,
+     *   template: () => object,
+     *   parse: (text: string) => T,
+     *   signal?: AbortSignal,
+     *   onToken?: (text: string) => void,
+     *   onReset?: () => void
+     * }} request
+     * @returns {Promise<{ value: T, provider: string }>}
+     */
+    const generate = async ({ prompt, schema, template, parse, signal, onToken = () => { }, onReset = () => { } }) => {
+        /** @type {string[]} */
+        const failures = [];
+        let streamed = false;
+        for (const provider of providers) {
+            for (let attempt = 0; attempt <= retries; attempt++) {
+                if (streamed) {
+                    onReset();
+                    streamed = false;
+                }
+                const controller = new AbortController();
+                const abort = () => controller.abort(signal?.reason);
+                signal?.addEventListener('abort', abort);
+                /** @type {NodeJS.Timeout | undefined} */
+                let idle;
+                const arm = () => {
+                    clearTimeout(idle);
+                    idle = setTimeout(() => controller.abort(new DOMException('No output', 'TimeoutError')), timeoutMs);
+                };
+                try {
+                    if (signal?.aborted) throw new ProviderError('cancelled', false);
+                    arm();
+                    const text = await provider.generate({
+                        prompt,
+                        schema,
+                        template,
+                        signal: controller.signal,
+                        onToken: (piece) => {
+                            arm();
+                            streamed = true;
+                            onToken(piece);
+                        }
+                    });
+                    return { value: parse(text), provider: provider.name };
+                } catch (err) {
+                    if (signal?.aborted) throw new ProviderError('cancelled', false);
+                    const retryable = err instanceof ProviderError ? err.retryable : false;
+                    const message = err instanceof Error ? err.message : String(err);
+                    console.warn(`Language model provider ${provider.name} failed (attempt ${attempt + 1}): ${message}`);
+                    if (!retryable || attempt === retries) {
+                        failures.push(`${provider.name} ${message}`);
+                        break;
+                    }
+                    await new Promise(resolve => setTimeout(resolve, backoffMs * (attempt + 1)));
+                } finally {
+                    clearTimeout(idle);
+                    signal?.removeEventListener('abort', abort);
+                }
+            }
+        }
+        throw new ProviderError(failures.length ? failures.join('; ') : 'no providers configured', false);
+    };
+
+    return { providers: providers.map(p => p.name), generate };
+};
+
+/**
+ * Builds the chain from the environment.
+ * LLM_PROVIDERS is a comma-separated order of ollama, gemini, openai and template
+ * (default "ollama,template"). A provider missing its API key or URL is skipped.
+ *   OLLAMA_URL, OLLAMA_MODEL
+ *   GEMINI_API_KEY, GEMINI_MODEL
+ *   OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL
+ *   LLM_TIMEOUT_MS: longest wait for the next piece of output (default 60000)
+ *   LLM_RETRIES (default 1)
+ */
+const createProviderChainFromEnv = () => {
+    const env = process.env;
+    const names = (env.LLM_PROVIDERS || 'ollama,template').split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+
+    /** @type {LlmProvider[]} */
+    const providers = [];
+    for (const name of names) {
+        if (name === 'ollama') {
+            providers.push(createOllamaProvider({ baseUrl: env.OLLAMA_URL || undefined, model: env.OLLAMA_MODEL || undefined }));
+        } else if (name === 'gemini') {
+            if (env.GEMINI_API_KEY && env.GEMINI_API_KEY !== 'your_gemini_api_key_here') {
+                providers.push(createGeminiProvider({ apiKey: env.GEMINI_API_KEY, model: env.GEMINI_MODEL || undefined }));
+            } else {
+                console.warn("LLM_PROVIDERS lists gemini but GEMINI_API_KEY is not set; skipping it.");
+            }
+        } else if (name === 'openai') {
+            if (env.OPENAI_BASE_URL) {
+                providers.push(createOpenAICompatibleProvider({
+                    baseUrl: env.OPENAI_BASE_URL,
+                    model: env.OPENAI_MODEL || 'gpt-4o-mini',
+                    apiKey: env.OPENAI_API_KEY || undefined
+                }));
+            } else {
+                console.warn("LLM_PROVIDERS lists openai but OPENAI_BASE_URL is not set; skipping it.");
+            }
+        } else if (name === 'template') {
+            providers.push(createTemplateProvider());
+        } else {
+            console.warn(`Unknown report provider "${name}" in LLM_PROVIDERS; skipping it.`);
+        }
+    }
+
+    const timeoutMs = Number(env.LLM_TIMEOUT_MS);
+    const retries = Number(env.LLM_RETRIES);
+    return createProviderChain(providers, {
+        timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : undefined,
+        retries: Number.isInteger(retries) && retries >= 0 ? retries : undefined
+    });
+};
+
+/** @type {ReturnType<typeof createProviderChain> | undefined} */
+let sharedChain;
+
+/**
+ * The chain from the environment, built on first use and shared by the
+ * compliance report and the claim review assistant
+ */
+const getProviderChain = () => {
+    if (!sharedChain) {
+        sharedChain = createProviderChainFromEnv();
+        console.log(`Language model providers: ${sharedChain.providers.join(' → ') || 'none'}`);
+    }
+    return sharedChain;
+};
+
+module.exports = {
+    ProviderError,
+    createOllamaProvider,
+    createGeminiProvider,
+    createOpenAICompatibleProvider,
+    createTemplateProvider,
+    createProviderChain,
+    createProviderChainFromEnv,
+    getProviderChain
+};
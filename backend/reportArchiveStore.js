@@ -0,0 +1,98 @@
+// @ts-check
+// Archive of generated compliance reports. Each entry keeps the report together
+// with the district figures it was written from, the prompt version and the
+// provider, so a later report can be compared against it.
+// Persisted through the same storage adapters as the claims store.
+
+const { createAdapterFromEnv } = require('./storageAdapters');
+
+/** @typedef {import('fra-shared').ArchivedReport} ArchivedReport */
+/** @typedef {import('fra-shared').ArchivedReportSummary} ArchivedReportSummary */
+
+/** @type {{ load: () => any, save: (state: any) => void }} */
+let adapter;
+/** @type {ArchivedReport[]} */
+let reports = [];
+let nextId = 1;
+
+/**
+ * Same guard as the claims store: never reissue an RPT-N already on record
+ * @param {unknown} storedNextId
+ * @param {ArchivedReport[]} storedReports
+ */
+const resolveNextId = (storedNextId, storedReports) => {
+    const highest = storedReports.reduce((max, r) => {
+        const match = /^RPT-(\d+)$/.exec(r.reportId || '');
+        return match ? Math.max(max, Number(match[1])) : max;
+    }, 0);
+    return Math.max(Number(storedNextId) || 1, highest + 1);
+};
+
+/**
+ * Swaps the storage adapter and reloads state from it.
+ */
+const useAdapter = (newAdapter) => {
+    adapter = newAdapter;
+    const state = adapter.load() || {};
+    reports = Array.isArray(state.reports) ? state.reports : [];
+    nextId = resolveNextId(state.nextId, reports);
+};
+
+const persist = () => {
+    adapter.save({ nextId, reports });
+};
+
+/**
+ * The list fields of an archived report, without the snapshot and report body
+ * @param {ArchivedReport} report
+ * @returns {ArchivedReportSummary}
+ */
+const toSummary = ({ snapshot, report, reportText, ...summary }) => summary;
+
+/**
+ * Stores a report as the district's next version
+ * @param {Omit<ArchivedReport, 'reportId' | 'version' | 'riskScore' | 'riskLevel'>} entry
+ * @returns {ArchivedReport}
+ */
+const archiveReport = (entry) => {
+    const version = reports.filter(r => r.district === entry.district).length + 1;
+    /** @type {ArchivedReport} */
+    const archived = {
+        reportId: `RPT-${nextId++}`,
+        ...entry,
+        version,
+        riskScore: entry.snapshot.risk.risk_score,
+        riskLevel: entry.snapshot.risk.risk_level
+    };
+    reports.push(archived);
+    persist();
+    return archived;
+};
+
+/**
+ * Summaries of a district's reports (or all reports), newest first
+ * @param {string | null} [district]
+ */
+const listReports = (district = null) => {
+    return reports
+        .filter(r => !district || r.district === district)
+        .map(toSummary)
+        .reverse();
+};
+
+/**
+ * @param {string} reportId
+ */
+const getReport = (reportId) => {
+    return reports.find(r => r.reportId === reportId) || null;
+};
+
+useAdapter(createAdapterFromEnv('reports.json'));
+
+module.exports = {
+    archiveReport,
+    listReports,
+    getReport,
+    toSummary,
+    useAdapter
+};
@@ -0,0 +1,123 @@
+// @ts-check
+// Compares two archived compliance reports, or one report against the district's
+// current figures, so officers can show what changed between review meetings.
+
+const { toSummary } = require('./reportArchiveStore');
+
+/** @typedef {import('fra-shared').ArchivedReport} ArchivedReport */
+/** @typedef {import('fra-shared').ReportSnapshot} ReportSnapshot */
+/** @typedef {import('fra-shared').ReportTextChange} ReportTextChange */
+
+/** @type {[keyof import('fra-shared').ReportStats, string][]} */
+const STAT_LABELS = [
+    ['total', 'Total claims'],
+    ['approved', 'Approved'],
+    ['pending', 'Pending'],
+    ['conflicts', 'In conflict'],
+    ['reservedViolations', 'Reserved Forest violations'],
+    ['conflictPct', 'Conflict %']
+];
+
+/**
+ * Points per risk factor, including factors only one side has
+ * @param {ReportSnapshot} from
+ * @param {ReportSnapshot} to
+ */
+function driverChanges(from, to) {
+    const labels = new Map([...from.risk.explanation, ...to.risk.explanation].map(c => [c.factorId, c.label]));
+    const points = (/** @type {ReportSnapshot} */ s, /** @type {string} */ id) =>
+        s.risk.explanation.find(c => c.factorId === id)?.points ?? 0;
+    return [...labels].map(([id, label]) => ({ label, from: points(from, id), to: points(to, id) }));
+}
+
+/**
+ * Claims that appeared, disappeared or changed status between two snapshots.
+ * Snapshots list at most the most severe claims, so a claim can also drop out of the list.
+ * @param {ReportSnapshot} from
+ * @param {ReportSnapshot} to
+ */
+function claimChanges(from, to) {
+    const before = new Map(from.claims.map(c => [c.claimId, c]));
+    const after = new Map(to.claims.map(c => [c.claimId, c]));
+    return {
+        added: to.claims.filter(c => !before.has(c.claimId)).map(c => c.claimId),
+        removed: from.claims.filter(c => !after.has(c.claimId)).map(c => c.claimId),
+        statusChanged: to.claims.flatMap(c => {
+            const previous = before.get(c.claimId);
+            return previous && previous.status !== c.status
+                ? [{ claimId: c.claimId, from: previous.status, to: c.status }]
+                : [];
+        })
+    };
+}
+
+/**
+ * Line diff of two texts (longest common subsequence; reports are short)
+ * @param {string} fromText
+ * @param {string} toText
+ * @returns {ReportTextChange[]}
+ */
+function diffLines(fromText, toText) {
+    const a = fromText.split('\n');
+    const b = toText.split('\n');
+    // lcs[i][j]: length of the common subsequence of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    /** @type {ReportTextChange[]} */
+    const changes = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            changes.push({ op: 'same', line: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            changes.push({ op: 'removed', line: a[i++] });
+        } else {
+            changes.push({ op: 'added', line: b[j++] });
+        }
+    }
+    while (i < a.length) changes.push({ op: 'removed', line: a[i++] });
+    while (j < b.length) changes.push({ op: 'added', line: b[j++] });
+    return changes;
+}
+
+/**
+ * @param {ArchivedReport} from The older report
+ * @param {ArchivedReport | null} to The newer report, or null to compare with `current`
+ * @param {ReportSnapshot} current The district's figures now; used when `to` is null
+ * @returns {import('fra-shared').ReportComparison}
+ */
+function compareReports(from, to, current) {
+    const toSnapshot = to ? to.snapshot : current;
+    const fromStatements = from.report.findings.map(f => f.statement);
+    const toStatements = to ? to.report.findings.map(f => f.statement) : [];
+
+    return {
+        district: from.district,
+        from: toSummary(from),
+        to: to ? toSummary(to) : null,
+        stats: STAT_LABELS.map(([key, label]) => ({ label, from: from.snapshot.stats[key], to: toSnapshot.stats[key] })),
+        riskScore: { label: 'Risk score', from: from.snapshot.risk.risk_score, to: toSnapshot.risk.risk_score },
+        riskLevel: { from: from.snapshot.risk.risk_level, to: toSnapshot.risk.risk_level },
+        drivers: driverChanges(from.snapshot, toSnapshot),
+        claims: claimChanges(from.snapshot, toSnapshot),
+        findings: to
+            ? {
+                added: toStatements.filter(s => !fromStatements.includes(s)),
+                removed: fromStatements.filter(s => !toStatements.includes(s))
+            }
+            : null,
+        text: to ? diffLines(from.reportText, to.reportText) : null
+    };
+}
+
+module.exports = {
+    compareReports
+};
@@ -0,0 +1,262 @@
+// @ts-check
+// Schema and grounding check for the structured compliance report.
+// Models are asked for JSON matching REPORT_JSON_SCHEMA; the answer is parsed,
+// then every cited claim ID and number is traced back to the data the model was given.
+
+const { object, array, string, number, oneOf } = require('fra-shared');
+const { ProviderError } = require('./llmProviders');
+
+/**
+ * What the report is written from: the district's snapshot, serialized into the
+ * prompt as-is, so these are exactly the figures a finding may cite.
+ * @typedef {import('fra-shared').ReportSnapshot & {
+ *   district: string,
+ *   reportType: import('fra-shared').ReportResponse['reportType']
+ * }} ReportEvidence
+ */
+
+/**
+ * What the model returns, before the check
+ * @typedef {{
+ *   summary: string,
+ *   riskLevel: import('fra-shared').RiskLevel,
+ *   findings: { statement: string, claimIds: string[], figures: { label: string, value: number, source: string }[] }[],
+ *   recommendedActions: string[],
+ *   legalReferences: string[]
+ * }} ReportDraft
+ */
+
+// Passed to providers that can constrain their output (Ollama format, Gemini responseSchema, OpenAI json_schema)
+const REPORT_JSON_SCHEMA = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string' },
+        riskLevel: { type: 'string', enum: ['Low', 'Moderate', 'High'] },
+        findings: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    statement: { type: 'string' },
+                    claimIds: { type: 'array', items: { type: 'string' } },
+                    figures: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: { label: { type: 'string' }, value: { type: 'number' }, source: { type: 'string' } },
+                            required: ['label', 'value', 'source']
+                        }
+                    }
+                },
+                required: ['statement', 'claimIds', 'figures']
+            }
+        },
+        recommendedActions: { type: 'array', items: { type: 'string' } },
+        legalReferences: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['summary', 'riskLevel', 'findings', 'recommendedActions', 'legalReferences']
+};
+
+/** @type {import('fra-shared').Validator<ReportDraft>} */
+const validateReportDraft = object({
+    summary: string({ nonEmpty: true }),
+    riskLevel: oneOf(/** @type {const} */ (['Low', 'Moderate', 'High'])),
+    findings: array(object({
+        statement: string({ nonEmpty: true }),
+        claimIds: array(string()),
+        figures: array(object({ label: string(), value: number(), source: string({ nonEmpty: true }) }))
+    })),
+    recommendedActions: array(string()),
+    legalReferences: array(string())
+});
+
+const CLAIM_ID_PATTERN = /\b[A-Z]{2,5}-\d+\b/g;
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?/g;
+
+/**
+ * The model's JSON, tolerating a markdown code fence or text around it
+ * @param {string} text
+ * @returns {ReportDraft}
+ */
+function parseReportDraft(text) {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    let json;
+    try {
+        json = JSON.parse(start >= 0 && end > start ? text.slice(start, end + 1) : text);
+    } catch {
+        throw new ProviderError('did not return valid JSON', true);
+    }
+    const result = validateReportDraft(json);
+    if (!result.ok) {
+        const first = result.issues[0];
+        throw new ProviderError(`returned JSON that does not match the report schema (${first.path}: ${first.message})`, true);
+    }
+    return result.value;
+}
+
+/**
+ * Every number that appears in the source text, the prompt included
+ * @param {string} source
+ */
+const knownNumbers = (source) => new Set((source.match(NUMBER_PATTERN) ?? []).map(Number));
+
+/**
+ * Every number in the data given to the model, by its path (counts.conflicts, claims[2].severityPct)
+ * @param {unknown} data
+ * @param {string} [path]
+ * @param {Map<string, number>} [fields]
+ * @returns {Map<string, number>}
+ */
+function numericFields(data, path = '', fields = new Map()) {
+    if (typeof data === 'number') {
+        fields.set(path, data);
+    } else if (Array.isArray(data)) {
+        data.forEach((item, i) => numericFields(item, `${path}[${i}]`, fields));
+    } else if (data && typeof data === 'object') {
+        Object.entries(data).forEach(([key, item]) => numericFields(item, path ? `${path}.${key}` : key, fields));
+    }
+    return fields;
+}
+
+/**
+ * A cited number matches a data value when it equals it or a rounding of it
+ * @param {number} value
+ * @param {number} actual
+ */
+const matchesValue = (value, actual) => actual === value || [0, 1, 2].some(digits => Number(actual.toFixed(digits)) === value);
+
+/**
+ * A number in free text matches the data when it matches any known figure
+ * @param {number} value
+ * @param {Set<number>} known
+ */
+const isKnownNumber = (value, known) => {
+    if (known.has(value)) return true;
+    for (const n of known) {
+        if (matchesValue(value, n)) return true;
+    }
+    return false;
+};
+
+/**
+ * Claim IDs and numbers in free text that the data does not contain
+ * @param {string} text
+ * @param {Set<string>} claimIds
+ * @param {Set<number>} numbers
+ * @param {string[]} [alreadyFlagged] Invented IDs the caller has reported already
+ */
+function untracedMentions(text, claimIds, numbers, alreadyFlagged = []) {
+    /** @type {string[]} */
+    const issues = [];
+    const mentionedIds = text.match(CLAIM_ID_PATTERN) ?? [];
+    new Set(mentionedIds.filter(id => !claimIds.has(id) && !alreadyFlagged.includes(id)))
+        .forEach(id => issues.push(`Mentions claim ${id}, which is not in the district's data.`));
+    // Claim IDs carry digits of their own; leave them out of the number check
+    const prose = text.replace(CLAIM_ID_PATTERN, ' ');
+    new Set((prose.match(NUMBER_PATTERN) ?? []).map(Number).filter(n => !isKnownNumber(n, numbers)))
+        .forEach(n => issues.push(`States the number ${n}, which is not in the data.`));
+    return issues;
+}
+
+/**
+ * Parses the model's answer and checks it against the evidence.
+ * Each figure is compared with the one data field it names, so a real number under
+ * the wrong label does not pass. Untraceable claim IDs are dropped from the citations
+ * and, like unmatched figures and unknown numbers in the prose, flagged on their
+ * finding. A report whose findings are mostly untraceable is rejected so the
+ * provider chain tries again or falls back.
+ * @param {string} text
+ * @param {ReportEvidence} evidence
+ * @param {string} prompt The prompt the model answered; its numbers count as data for the prose
+ * @param {unknown} data The DATA section of the prompt, which figure sources point into
+ * @returns {import('fra-shared').StructuredReport}
+ */
+function checkReport(text, evidence, prompt, data) {
+    const draft = parseReportDraft(text);
+    if (draft.findings.length === 0) {
+        throw new ProviderError('returned a report without findings', true);
+    }
+
+    const claimIds = new Set(evidence.claims.map(c => c.claimId));
+    const numbers = knownNumbers(prompt);
+    const fields = numericFields(data);
+
+    const findings = draft.findings.map(finding => {
+        /** @type {string[]} */
+        const issues = [];
+        const invented = [...new Set(finding.claimIds.filter(id => !claimIds.has(id)))];
+        invented.forEach(id => issues.push(`Cites claim ${id}, which is not in the district's data.`));
+        const figures = finding.figures.map(({ label, value, source: cited }) => {
+            // Models sometimes prefix the path with the section name
+            const source = cited.trim().replace(/^data\./i, '');
+            const actual = fields.get(source);
+            const verified = actual !== undefined && matchesValue(value, actual);
+            if (actual === undefined) issues.push(`Figure "${label}" (${value}) cites ${source}, which is not a number in the data.`);
+            else if (!verified) issues.push(`Figure "${label}" (${value}) does not match ${source}, which is ${actual}.`);
+            return { label, value, source, verified };
+        });
+        issues.push(...untracedMentions(finding.statement, claimIds, numbers, invented));
+        return { statement: finding.statement, claimIds: finding.claimIds.filter(id => claimIds.has(id)), figures, issues };
+    });
+
+    const flagged = findings.filter(f => f.issues.length > 0).length;
+    if (flagged > findings.length / 2) {
+        throw new ProviderError(`returned a report with ${flagged} of ${findings.length} findings not backed by the data`, true);
+    }
+
+    const issues = untracedMentions(draft.summary, claimIds, numbers);
+    if (draft.riskLevel !== evidence.risk.risk_level) {
+        issues.push(`The report stated a ${draft.riskLevel} risk level; the risk engine rates the district ${evidence.risk.risk_level}.`);
+    }
+
+    return {
+        summary: draft.summary,
+        riskLevel: evidence.risk.risk_level,
+        findings,
+        recommendedActions: draft.recommendedActions,
+        legalReferences: draft.legalReferences,
+        issues
+    };
+}
+
+/**
+ * Markdown version of a checked report, for the PDF dossier and plain clients
+ * @param {string} district
+ * @param {import('fra-shared').StructuredReport} report
+ */
+function renderReportMarkdown(district, report) {
+    const list = (/** @type {string[]} */ items) => items.map(item => `- ${item}`).join('\n') || '- None';
+    const findings = report.findings.map((f, i) => {
+        const cites = [
+            ...f.claimIds,
+            ...f.figures.map(fig => `${fig.label}: ${fig.value}${fig.verified ? '' : ' (unverified)'}`)
+        ];
+        const flag = f.issues.length ? `\n   _Unverified: ${f.issues.join(' ')}_` : '';
+        return `${i + 1}. ${f.statement}${cites.length ? ` [${cites.join('; ')}]` : ''}${flag}`;
+    }).join('\n');
+
+    return `## Compliance report: ${district}
+
+**Risk level:** ${report.riskLevel}
+
+${report.summary}
+${report.issues.length ? `\n_Check notes: ${report.issues.join(' ')}_\n` : ''}
+**Findings**
+${findings}
+
+**Recommended actions**
+${list(report.recommendedActions)}
+
+**Legal references**
+${list(report.legalReferences)}`;
+}
+
+module.exports = {
+    REPORT_JSON_SCHEMA,
+    checkReport,
+    knownNumbers,
+    numericFields,
+    untracedMentions,
+    renderReportMarkdown
+};
@@ -0,0 +1,87 @@
+// @ts-check
+// Weights and thresholds of the district risk engine (see riskEngine.js).
+// Editable by state admins; persisted through the same storage adapters as the claims store.
+
+const { createAdapterFromEnv } = require('./storageAdapters');
+
+/** @typedef {import('fra-shared').RiskConfig} RiskConfig */
+/** @typedef {import('fra-shared').UpdateRiskConfigRequest} UpdateRiskConfigRequest */
+
+// Weights add up to 1, so every factor at 100 gives a score of 100
+/** @type {RiskConfig} */
+const DEFAULT_CONFIG = {
+    weights: {
+        pendingShare: 0.3,
+        conflictShare: 0.3,
+        pendingAge: 0.1,
+        reservedViolations: 0.2,
+        overlapAcreage: 0.05,
+        capacityUtilization: 0.05
+    },
+    thresholds: { lowMax: 40, moderateMax: 70 },
+    pendingAgeFullDays: 90
+};
+
+/** @type {{ load: () => any, save: (state: any) => void }} */
+let adapter;
+/** @type {RiskConfig} */
+let config = DEFAULT_CONFIG;
+
+/**
+ * Applies a partial update on top of a full config
+ * @param {RiskConfig} base
+ * @param {UpdateRiskConfigRequest} patch
+ * @returns {RiskConfig}
+ */
+function mergeConfig(base, patch) {
+    return {
+        weights: { ...base.weights, ...patch.weights },
+        thresholds: { ...base.thresholds, ...patch.thresholds },
+        pendingAgeFullDays: patch.pendingAgeFullDays ?? base.pendingAgeFullDays
+    };
+}
+
+/**
+ * Swaps the storage adapter and reloads state from it.
+ */
+const useAdapter = (newAdapter) => {
+    adapter = newAdapter;
+    const state = adapter.load() || {};
+    config = state.config ? mergeConfig(DEFAULT_CONFIG, state.config) : DEFAULT_CONFIG;
+};
+
+const persist = () => {
+    adapter.save({ config });
+};
+
+const getConfig = () => {
+    return config;
+};
+
+/**
+ * Updates the config. Returns { error } for unknown factors or inconsistent thresholds.
+ * @param {UpdateRiskConfigRequest} patch
+ * @param {string[]} knownFactorIds Factors registered with the risk engine
+ */
+const updateConfig = (patch, knownFactorIds) => {
+    const unknown = Object.keys(patch.weights || {}).filter(id => !knownFactorIds.includes(id));
+    if (unknown.length) {
+        return { error: `Unknown risk factor: ${unknown.join(', ')}.` };
+    }
+    const next = mergeConfig(config, patch);
+    if (next.thresholds.lowMax >= next.thresholds.moderateMax) {
+        return { error: "thresholds.lowMax must be lower than thresholds.moderateMax." };
+    }
+    config = next;
+    persist();
+    return { config };
+};
+
+useAdapter(createAdapterFromEnv('riskConfig.json'));
+
+module.exports = {
+    DEFAULT_CONFIG,
+    getConfig,
+    updateConfig,
+    useAdapter
+};
@@ -0,0 +1,196 @@
+// @ts-check
+// District risk engine: a weighted sum of pluggable factors, each read on a
+// 0-100 scale. Every score carries its breakdown, so the dashboard, the
+// compliance report and the dossier can all say why a district ranks where it does.
+// Weights and thresholds come from riskConfigStore.js; new factors are added
+// with registerRiskFactor() and picked up by every consumer.
+
+const conflictGraph = require('./conflictGraph');
+const zoneConfig = require('./zoneConfigStore');
+const riskConfig = require('./riskConfigStore');
+const { forestZones } = require('./zonesStore');
+
+/** @typedef {import('fra-shared').SimulatedClaim} SimulatedClaim */
+/** @typedef {import('fra-shared').RiskConfig} RiskConfig */
+/** @typedef {import('fra-shared').RiskFactorContribution} RiskFactorContribution */
+
+/**
+ * What a factor gets to look at for one district
+ * @typedef {Object} DistrictContext
+ * @property {string} district
+ * @property {SimulatedClaim[]} claims Claims filed in the district
+ * @property {import('./claimAnalytics').DistrictCounts} counts
+ * @property {(claim: SimulatedClaim) => import('fra-shared').LegacyClaimStatus} statusOf
+ */
+
+/**
+ * @typedef {Object} RiskFactor
+ * @property {string} factorId
+ * @property {string} label
+ * @property {string} description
+ * @property {(context: DistrictContext, config: RiskConfig, now: number) => { value: number, detail: string }} measure
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Points each reserved-forest violation adds to that factor (two saturate it)
+const POINTS_PER_VIOLATION = 50;
+
+/** @param {number} n */
+const clampPct = (n) => Math.max(0, Math.min(100, n));
+/** @param {number} n */
+const round2 = (n) => parseFloat(n.toFixed(2));
+
+/** @param {number} part @param {number} whole */
+const percentOf = (part, whole) => (whole > 0 ? clampPct((part / whole) * 100) : 0);
+
+/**
+ * Acres a claim covers: the drawn boundary when there is one, otherwise the declared area
+ * @param {SimulatedClaim} claim
+ */
+const claimAcres = (claim) => (claim.areaCheck ? claim.areaCheck.drawnAcres : claim.areaRequested);
+
+/** @type {RiskFactor[]} */
+const factors = [];
+
+/**
+ * Adds a factor, or replaces the one with the same ID.
+ * It contributes nothing until it is given a weight in the risk config.
+ * @param {RiskFactor} factor
+ */
+function registerRiskFactor(factor) {
+    const index = factors.findIndex(f => f.factorId === factor.factorId);
+    if (index === -1) factors.push(factor);
+    else factors[index] = factor;
+}
+
+registerRiskFactor({
+    factorId: 'pendingShare',
+    label: 'Pending claims',
+    description: "Share of the district's claims still waiting for a decision.",
+    measure: ({ counts }) => ({
+        value: percentOf(counts.pending, counts.total),
+        detail: `${counts.pending} of ${counts.total} claims pending`
+    })
+});
+
+registerRiskFactor({
+    factorId: 'conflictShare',
+    label: 'Conflicting claims',
+    description: "Share of the district's claims in conflict with a zone, a reserved forest or another claim.",
+    measure: ({ counts }) => ({
+        value: percentOf(counts.conflicts, counts.total),
+        detail: `${counts.conflicts} of ${counts.total} claims in conflict`
+    })
+});
+
+registerRiskFactor({
+    factorId: 'pendingAge',
+    label: 'Pending age',
+    description: "How long undecided claims have been open on average, against the configured full-risk age.",
+    measure: ({ claims, statusOf }, config, now) => {
+        const open = claims.filter(c => !['Approved', 'Rejected', 'Superseded'].includes(statusOf(c)));
+        if (open.length === 0) return { value: 0, detail: "No open claims" };
+        const meanDays = open.reduce((sum, c) => sum + Math.max(0, now - Date.parse(c.timestamp)), 0) / open.length / DAY_MS;
+        return {
+            value: percentOf(meanDays, config.pendingAgeFullDays),
+            detail: `${open.length} open claim(s), ${meanDays.toFixed(1)} days open on average (full risk at ${config.pendingAgeFullDays})`
+        };
+    }
+});
+
+registerRiskFactor({
+    factorId: 'reservedViolations',
+    label: 'Reserved forest violations',
+    description: `Claims breaching a reserved forest; each adds ${POINTS_PER_VIOLATION}, capped at 100.`,
+    measure: ({ counts }) => ({
+        value: clampPct(counts.reservedViolations * POINTS_PER_VIOLATION),
+        detail: `${counts.reservedViolations} reserved-forest violation(s)`
+    })
+});
+
+registerRiskFactor({
+    factorId: 'overlapAcreage',
+    label: 'Overlap acreage',
+    description: "Acres shared with other claims, as a share of the acres claimed in the district.",
+    measure: ({ claims }) => {
+        const ids = new Set(claims.map(c => c.claimId));
+        const overlapAcres = conflictGraph.getEdges()
+            .filter(e => e.claimIds.some(id => ids.has(id)))
+            .reduce((sum, e) => sum + e.overlapAcres, 0);
+        const claimedAcres = claims.filter(c => c.coordinates).reduce((sum, c) => sum + claimAcres(c), 0);
+        return {
+            value: percentOf(overlapAcres, claimedAcres),
+            detail: `${overlapAcres.toFixed(2)} of ${claimedAcres.toFixed(2)} drawn acres overlap another claim`
+        };
+    }
+});
+
+registerRiskFactor({
+    factorId: 'capacityUtilization',
+    label: 'Forest capacity used',
+    description: "Approved acres inside the district's forest zones, against the zones' configured capacity.",
+    measure: ({ district, claims, statusOf }) => {
+        const zoneIds = new Set(forestZones.features.filter(f => f.properties.district === district).map(f => f.properties.zoneId));
+        if (zoneIds.size === 0) return { value: 0, detail: "No forest zones mapped in this district" };
+
+        const capacity = [...zoneIds].reduce((sum, id) => sum + zoneConfig.getRulesForZone(id).capacityAcres, 0);
+        // Area-only approvals count against the district's zones as a whole, as in the fallback engine
+        const approvedAcres = claims.filter(c => statusOf(c) === 'Approved').reduce((sum, c) => sum + (c.zoneBreakdown
+            ? c.zoneBreakdown.forestZones.filter(h => zoneIds.has(h.zoneId)).reduce((acres, h) => acres + h.intersectAcres, 0)
+            : c.areaRequested), 0);
+        return {
+            value: percentOf(approvedAcres, capacity),
+            detail: `${approvedAcres.toFixed(2)} of ${capacity} acres of zone capacity approved`
+        };
+    }
+});
+
+/**
+ * The registered factors, for the config endpoint
+ * @returns {import('fra-shared').RiskFactorInfo[]}
+ */
+function listFactors() {
+    return factors.map(({ factorId, label, description }) => ({ factorId, label, description }));
+}
+
+/**
+ * @param {number} score
+ * @param {import('fra-shared').RiskThresholds} thresholds
+ * @returns {import('fra-shared').RiskLevel}
+ */
+function riskLevel(score, { lowMax, moderateMax }) {
+    if (score <= lowMax) return "Low";
+    if (score <= moderateMax) return "Moderate";
+    return "High";
+}
+
+/**
+ * Scores one district and explains the score factor by factor
+ * @param {DistrictContext} context
+ * @param {number} [now] Reference time for ages (defaults to the current time)
+ * @returns {{ risk_score: number, risk_level: import('fra-shared').RiskLevel, explanation: RiskFactorContribution[] }}
+ */
+function assessDistrict(context, now = Date.now()) {
+    const config = riskConfig.getConfig();
+    const explanation = factors.map(factor => {
+        const { value, detail } = factor.measure(context, config, now);
+        const weight = config.weights[factor.factorId] ?? 0;
+        return {
+            factorId: factor.factorId,
+            label: factor.label,
+            weight,
+            value: round2(clampPct(value)),
+            points: round2(weight * clampPct(value)),
+            detail
+        };
+    }).sort((a, b) => b.points - a.points);
+
+    const score = round2(explanation.reduce((sum, c) => sum + c.points, 0));
+    return { risk_score: score, risk_level: riskLevel(score, config.thresholds), explanation };
+}
+
+module.exports = {
+    registerRiskFactor,
+    listFactors,
+    assessDistrict
+};
@@ -9,222 +9,239 @@ app.use(cors());
 app.use(express.json());
 
 const PORT = 5000;
-const DATA_FILE = path.join(__dirname, 'data', 'mock_claims.json');
-
-// Helper to read data
-function getMockData() {
-    try {
-        const rawData = fs.readFileSync(DATA_FILE, 'utf-8');
-        return JSON.parse(rawData);
-    } catch (err) {
-        console.error("Error reading mock data:", err);
-        return { features: [] };
-    }
+const complianceReport = require('./complianceReport');
+const claimAdvisor = require('./claimAdvisor');
+const claimAnalytics = require('./claimAnalytics');
+const claimsStore = require('./claimsStore');
+const { isLegacyClaim, migrateLegacyClaims } = require('./legacyMigration');
+const reportArchive = require('./reportArchiveStore');
+const { compareReports } = require('./reportComparison');
+const { ROLES, signToken, authenticate, identifyStreamClient, requireRole, canReviewClaim, canViewClaim, canAccessDistrictReports } = require('./auth');
+
+// The legacy mock_claims.json dataset lives in the claims store; bring in anything not yet migrated
+const legacyMigration = migrateLegacyClaims();
+if (legacyMigration.migrated.length) {
+    console.log(`Migrated ${legacyMigration.migrated.length} legacy claim(s) into the claims store.`);
 }
 
-// Phase 1: Claims Endpoint
+// Phase 1: Claims Endpoint (legacy map layer, generated from the claims store).
+// The layer needs no login, so it carries only the migrated public dataset; citizens'
+// submissions and imported claims stay behind /api/simulation/claims.
 app.get('/api/claims', (req, res) => {
     try {
-        const data = getMockData();
-        res.json(data);
+        res.json(claimAnalytics.toLegacyFeatureCollection(claimsStore.getClaims().filter(isLegacyClaim)));
     } catch (err) {
         res.status(500).json({ error: err.message });
     }
 });
 
-// Phase 2: Analytics Endpoint (Ported from python)
+// Phase 2: Analytics Endpoint
 app.get('/api/analytics', (req, res) => {
     try {
-        const data = getMockData();
-        const features = data.features || [];
-
-        let total_claims = features.length;
-        let approved_claims = 0;
-        let pending_claims = 0;
-        let conflict_claims = 0;
-        let districts_data = {};
-
-        features.forEach(feature => {
-            const props = feature.properties || {};
-            const district = props.district || 'Unknown';
-            const status = props.status || 'Unknown';
-            const overlap = props.overlap || false;
-            const protectedZone = props.protected_zone || false;
-
-            // Global Counts
-            if (status === 'Approved') approved_claims++;
-            else if (status === 'Pending') pending_claims++;
-            else if (status === 'Conflict' || overlap || protectedZone) conflict_claims++;
-
-            // Initialize district
-            if (!districts_data[district]) {
-                districts_data[district] = { total: 0, pending: 0, conflicts: 0, approved: 0 };
-            }
-
-            // District Counts
-            districts_data[district].total++;
-            if (status === 'Pending') districts_data[district].pending++;
-            else if (status === 'Approved') districts_data[district].approved++;
-
-            if (overlap || protectedZone || status === 'Conflict') {
-                districts_data[district].conflicts++;
-            }
-        });
-
-        // Calculate Risk Scores per district
-        let district_rankings = [];
-        for (const [name, stats] of Object.entries(districts_data)) {
-            if (stats.total === 0) continue;
-
-            const pending_pct = (stats.pending / stats.total) * 100;
-            const conflict_pct = (stats.conflicts / stats.total) * 100;
-
-            const risk_score = (pending_pct * 0.5) + (conflict_pct * 0.5);
-            let risk_level = "High";
-            if (risk_score <= 40) risk_level = "Low";
-            else if (risk_score <= 70) risk_level = "Moderate";
-
-            district_rankings.push({
-                district: name,
-                total_claims: stats.total,
-                pending: stats.pending,
-                conflicts: stats.conflicts,
-                risk_score: parseFloat(risk_score.toFixed(2)),
-                risk_level: risk_level
-            });
-        }
-
-        // Sort by risk_score desc
-        district_rankings.sort((a, b) => b.risk_score - a.risk_score);
-
-        res.json({
-            summary: {
-                total_claims,
-                approved_claims,
-                pending_claims,
-                conflict_claims,
-                approved_pct: total_claims ? parseFloat((approved_claims / total_claims * 100).toFixed(1)) : 0,
-                pending_pct: total_claims ? parseFloat((pending_claims / total_claims * 100).toFixed(1)) : 0
-            },
-            districts: district_rankings
-        });
-
+        res.json(claimAnalytics.computeAnalytics());
     } catch (err) {
         res.status(500).json({ error: err.message });
     }
 });
 
-// Phase 3 & 7: Local AI Report Endpoint using Ollama
+// Phase 3 & 7: AI compliance report from the configured provider chain (see llmProviders.js).
+// A report fetched this way is not archived.
 app.get('/api/report/:district', async (req, res) => {
     try {
         const { district } = req.params;
+        res.json(await complianceReport.generateComplianceReport(district));
+    } catch (err) {
+        if (err instanceof complianceReport.ReportUnavailableError) {
+            return res.json({ error: err.message });
+        }
+        res.status(500).json({ error: err.message });
+    }
+});
 
-        // Fetch static mock data
-        const data = getMockData();
-        const features = data.features || [];
-
-        let districtStats = { total: 0, pending: 0, conflicts: 0, approved: 0 };
-        features.forEach(feature => {
-            const props = feature.properties || {};
-            if (props.district === district) {
-                districtStats.total++;
-                if (props.status === 'Approved') districtStats.approved++;
-                if (props.status === 'Pending') districtStats.pending++;
-                if (props.overlap || props.protected_zone || props.status === 'Conflict' || props.status === 'Flagged') {
-                    districtStats.conflicts++;
-                }
-            }
-        });
+// Same report streamed as Server-Sent Events while it is written: the dashboard's Generate action.
+// When the district's officer or the state admin generates it (?token=), the finished report is
+// archived as the district's next version; anyone else gets the report without archiving it.
+// Events: token { text } pieces, reset {} when a failed provider's partial text must be discarded,
+// then done (the full ReportResponse) or failed { error }. Disconnecting cancels the generation.
+app.get('/api/report/:district/stream', identifyStreamClient, async (req, res) => {
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const send = (type, data) => {
+        res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
 
-        // Phase 8: Also pull simulated live claims from the claims store
-        const claimsStore = require('./claimsStore');
-        const simClaims = claimsStore.getClaims().filter(c => c.district === district);
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
 
-        simClaims.forEach(c => {
-            districtStats.total++;
-            if (c.status === 'Approved') districtStats.approved++;
-            else if (c.status === 'Flagged' || c.status === 'Reserved Violation' || c.status === 'Moderate Conflict') districtStats.conflicts++;
+    try {
+        const report = await complianceReport.generateComplianceReport(req.params.district, {
+            actor: req.user ? req.user.username : null,
+            archive: canAccessDistrictReports(req.user, req.params.district),
+            signal: controller.signal,
+            onToken: (text) => send('token', { text }),
+            onReset: () => send('reset', {})
         });
+        send('done', report);
+    } catch (err) {
+        if (controller.signal.aborted) return;
+        send('failed', {
+            error: err instanceof complianceReport.ReportUnavailableError ? err.message : "Report generation failed."
+        });
+        if (!(err instanceof complianceReport.ReportUnavailableError)) console.error("Report stream failed:", err);
+    }
+    res.end();
+});
 
-        if (districtStats.total === 0) {
-            return res.json({ error: `No data found for district: ${district}` });
+// Report archive: every generated report with the figures it was written from.
+// Officers read their own district's reports; the state admin reads every district's.
+app.get('/api/reports', authenticate, requireRole(ROLES.DISTRICT_OFFICER, ROLES.STATE_ADMIN), (req, res) => {
+    try {
+        const requested = typeof req.query.district === 'string' && req.query.district ? req.query.district : null;
+        const district = req.user.role === ROLES.DISTRICT_OFFICER ? requested || req.user.district : requested;
+        if (district && !canAccessDistrictReports(req.user, district)) {
+            return res.status(403).json({ error: `Only officers of ${district} district can read its reports.` });
         }
+        res.json({ reports: reportArchive.listReports(district) });
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
 
-        const conflict_pct = (districtStats.conflicts / districtStats.total) * 100;
-        const risk_level = conflict_pct <= 40 ? "Low" : (conflict_pct <= 70 ? "Moderate" : "High");
-
-        // Phase 8: Detect Reserved Violations — these get a distinct legal prompt
-        const reservedViolations = simClaims.filter(c => c.status === 'Reserved Violation');
-        const hasReservedViolation = reservedViolations.length > 0;
-
-        let prompt;
-
-        if (hasReservedViolation) {
-            // Distinct legal notice prompt for Reserved Forest breaches
-            prompt = `You are a senior legal compliance officer under the Forest Rights Act (FRA) of India.
+// ?from=RPT-1&to=RPT-4 compares two reports of a district; without `to`, the report is compared with the current figures
+app.get('/api/reports/compare', authenticate, requireRole(ROLES.DISTRICT_OFFICER, ROLES.STATE_ADMIN), (req, res) => {
+    try {
+        const from = reportArchive.getReport(String(req.query.from || ''));
+        if (!from) {
+            return res.status(404).json({ error: "Report not found." });
+        }
+        const to = req.query.to ? reportArchive.getReport(String(req.query.to)) : null;
+        if (req.query.to && !to) {
+            return res.status(404).json({ error: "Report not found." });
+        }
+        if (to && to.district !== from.district) {
+            return res.status(400).json({ error: "Only reports of the same district can be compared." });
+        }
+        if (!canAccessDistrictReports(req.user, from.district)) {
+            return res.status(403).json({ error: `Only officers of ${from.district} district can read its reports.` });
+        }
+        const current = complianceReport.buildSnapshot(from.district);
+        if (!to && !current) {
+            return res.status(404).json({ error: `No current data for district: ${from.district}` });
+        }
+        // Always old → new, whichever order the IDs came in
+        const [older, newer] = to && to.generatedAt < from.generatedAt ? [to, from] : [from, to];
+        res.json(compareReports(older, newer, current));
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
 
-A critical Reserved Forest boundary violation has been detected in district: ${district}.
+app.get('/api/reports/:reportId', authenticate, requireRole(ROLES.DISTRICT_OFFICER, ROLES.STATE_ADMIN), (req, res) => {
+    try {
+        const report = reportArchive.getReport(req.params.reportId);
+        if (!report) {
+            return res.status(404).json({ error: "Report not found." });
+        }
+        if (!canAccessDistrictReports(req.user, report.district)) {
+            return res.status(403).json({ error: `Only officers of ${report.district} district can read its reports.` });
+        }
+        res.json({ report });
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
 
-Reserved Forest Violation Count: ${reservedViolations.length}
-Total Claims in District: ${districtStats.total}
-Approved: ${districtStats.approved}
-Other Conflicts: ${districtStats.conflicts - reservedViolations.length}
 
-Reserved Forests are legally protected under Section 3 of the Indian Forest Act. Any encroachment is a cognizable offence.
+// --- PHASE 5: ISOLATED SIMULATION LAYER ---
 
-Write a strict formal legal notice summary.
-Emphasize the legal severity of Reserved Forest violations (NOT the same as administrative overlap conflicts).
-Recommend immediate administrative action: claim rejection, field inspection, and potential prosecution under IFA.
-Keep it concise and professional.`;
-        } else {
-            // Standard governance conflict prompt
-            prompt = `You are a governance compliance analyst under the Forest Rights Act.
-
-District: ${district}
-Total Claims: ${districtStats.total}
-Approved: ${districtStats.approved}
-Pending: ${districtStats.pending}
-Flagged: ${districtStats.conflicts}
-Conflict Percentage: ${conflict_pct.toFixed(2)}%
-
-Write a professional administrative summary.
-Highlight risk level (${risk_level}).
-Provide policy recommendation.
-Keep it concise.`;
-        }
-
-        // Local Ollama Call
-        const response = await fetch('http://localhost:11434/api/generate', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                model: 'llama3',
-                prompt: prompt,
-                stream: false
-            })
-        });
+const spatialEngine = require('./spatialConflictEngine');
+const conflictGraph = require('./conflictGraph');
+const zoneConfig = require('./zoneConfigStore');
+const riskConfig = require('./riskConfigStore');
+const riskEngine = require('./riskEngine');
+const claimLifecycle = require('./claimLifecycle');
+const usersStore = require('./usersStore');
+const eventBus = require('./eventBus');
+const { sanitizeClaimGeometry } = require('./geometryValidation');
+const areaMeasurement = require('./areaMeasurement');
+const bulkImport = require('./bulkImport');
+const claimExport = require('./claimExport');
+const claimSearch = require('./claimSearch');
+const { writeDossier } = require('./districtDossier');
+const { districtExtents } = require('./districtExtents');
+const { ImportFileError } = require('./importParsers');
+const multer = require('multer');
+const {
+    CLAIM_LIMITS,
+    IMPORT_LIMITS,
+    convertArea,
+    claimQueryFromParams,
+    validateLoginRequest,
+    validateRegisterRequest,
+    validateSubmitClaimRequest,
+    validateReviewClaimRequest,
+    validateOverlapQueryRequest,
+    validateMeasureAreaRequest,
+    validateImportRequest,
+    validateUpdateZoneRulesRequest,
+    validateUpdateRiskConfigRequest
+} = require('fra-shared');
 
-        const apiData = await response.json();
+/**
+ * Express middleware factory: rejects bodies that fail a shared validator with every issue listed
+ */
+const validateBody = (validator) => (req, res, next) => {
+    const result = validator(req.body);
+    if (!result.ok) {
+        return res.status(400).json({ error: "Invalid request body.", issues: result.issues });
+    }
+    next();
+};
 
-        if (!response.ok || apiData.error) {
-            console.error("Ollama Local API Error:", JSON.stringify(apiData.error, null, 2));
-            return res.json({ error: `Local AI Generation Failed. Is Ollama running?` });
+// Auth: citizens self-register; officials are the seeded accounts in usersStore.js
+app.post('/api/auth/register', validateBody(validateRegisterRequest), (req, res) => {
+    try {
+        const { username, name, password } = req.body;
+        if (String(password).length < 8) {
+            return res.status(400).json({ error: "Password must be at least 8 characters." });
         }
 
-        res.json({ district, reportText: apiData.response, reportType: hasReservedViolation ? 'reserved_violation' : 'conflict' });
+        const user = usersStore.createUser({ username, name, password, role: ROLES.CITIZEN });
+        if (!user) {
+            return res.status(409).json({ error: "That username is already taken." });
+        }
 
+        res.status(201).json({ token: signToken(user), user: usersStore.toPublicUser(user) });
     } catch (err) {
-        console.error("Internal Server Error calling Ollama Local API:", err);
-        res.status(500).json({ error: "Failed to connect to local Ollama. Please ensure 'ollama serve' is running." });
+        res.status(500).json({ error: err.message });
     }
 });
 
+app.post('/api/auth/login', validateBody(validateLoginRequest), (req, res) => {
+    try {
+        const { username, password } = req.body;
+        const user = usersStore.verifyCredentials(username, password);
+        if (!user) {
+            return res.status(401).json({ error: "Invalid username or password." });
+        }
 
-// --- PHASE 5: ISOLATED SIMULATION LAYER ---
+        res.json({ token: signToken(user), user: usersStore.toPublicUser(user) });
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
 
-const claimsStore = require('./claimsStore');
-const spatialEngine = require('./spatialConflictEngine');
-const SIMULATION_DISTRICT_LIMIT_ACRES = 500;
+app.get('/api/auth/me', authenticate, (req, res) => {
+    res.json({ user: req.user });
+});
 
 /**
  * Endpoint to serve static forest zones to the frontend Map
@@ -234,42 +251,62 @@ app.get('/api/simulation/zones', (req, res) => {
 });
 
 /**
- * Phase 8: Endpoint to serve reserved forest zones to the frontend Map
+ * Zone capacity, severity thresholds and status rules used by the conflict engine
  */
-app.get('/api/simulation/reserved-zones', (req, res) => {
-    res.json(spatialEngine.reservedForests);
+app.get('/api/simulation/zone-config', (req, res) => {
+    res.json({ defaults: zoneConfig.getDefaults(), zones: zoneConfig.listZoneRules() });
 });
 
-/**
- * Phase 5 Fallback Helper
- */
-function calculateConflict(district, newAreaRequested) {
-    const allClaims = claimsStore.getClaims();
+app.put('/api/simulation/zone-config/defaults', authenticate, requireRole(ROLES.STATE_ADMIN), validateBody(validateUpdateZoneRulesRequest), (req, res) => {
+    const result = zoneConfig.updateDefaults(req.body);
+    if (result.error) {
+        return res.status(400).json({ error: result.error });
+    }
+    eventBus.publish(eventBus.SIMULATION_EVENTS.ZONE_CONFIG_CHANGED, { zoneId: null });
+    res.json(result.rules);
+});
 
-    // Sum only Approved simulated claims in this district
-    let approvedArea = 0;
-    allClaims.forEach(c => {
-        if (c.district === district && c.status === "Approved") {
-            approvedArea += c.areaRequested;
-        }
-    });
+app.put('/api/simulation/zone-config/zones/:zoneId', authenticate, requireRole(ROLES.STATE_ADMIN), validateBody(validateUpdateZoneRulesRequest), (req, res) => {
+    const result = zoneConfig.updateZone(req.params.zoneId, req.body);
+    if (!result) {
+        return res.status(404).json({ error: "Zone not found." });
+    }
+    if (result.error) {
+        return res.status(400).json({ error: result.error });
+    }
+    eventBus.publish(eventBus.SIMULATION_EVENTS.ZONE_CONFIG_CHANGED, { zoneId: req.params.zoneId });
+    res.json(result.rules);
+});
 
-    const totalRequested = approvedArea + newAreaRequested;
-
-    if (totalRequested > SIMULATION_DISTRICT_LIMIT_ACRES) {
-        const excess = totalRequested - SIMULATION_DISTRICT_LIMIT_ACRES;
-        const conflictPercentage = (excess / SIMULATION_DISTRICT_LIMIT_ACRES) * 100;
-        return {
-            status: "Flagged",
-            conflictPercentage: parseFloat(conflictPercentage.toFixed(2))
-        };
-    } else {
-        return {
-            status: "Approved",
-            conflictPercentage: 0
-        };
+// District outlines for the risk choropleth
+app.get('/api/simulation/districts', (req, res) => {
+    try {
+        res.json(districtExtents());
+    } catch (err) {
+        res.status(500).json({ error: err.message });
     }
-}
+});
+
+// Risk engine weights and thresholds, with the factors they apply to
+app.get('/api/simulation/risk-config', (req, res) => {
+    res.json({ config: riskConfig.getConfig(), factors: riskEngine.listFactors() });
+});
+app.put('/api/simulation/risk-config', authenticate, requireRole(ROLES.STATE_ADMIN), validateBody(validateUpdateRiskConfigRequest), (req, res) => {
+    const result = riskConfig.updateConfig(req.body, riskEngine.listFactors().map(f => f.factorId));
+    if (result.error) {
+        return res.status(400).json({ error: result.error });
+    }
+    // Every district's score may have moved
+    eventBus.publish(eventBus.SIMULATION_EVENTS.ANALYTICS_CHANGED, { district: null });
+    res.json({ config: result.config, factors: riskEngine.listFactors() });
+});
+
+/**
+ * Phase 8: Endpoint to serve reserved forest zones to the frontend Map
+ */
+app.get('/api/simulation/reserved-zones', (req, res) => {
+    res.json(spatialEngine.reservedForests);
+});
 
 // 0. Forest Zones Endpoint (Phase 6)
 app.get('/api/simulation/zones', (req, res) => {
@@ -298,38 +335,103 @@ app.get('/api/simulation/reserved-zones', (req, res) => {
 });
 
 // 1. Submit a new claim
-app.post('/api/simulation/claims/submit', (req, res) => {
+app.post('/api/simulation/claims/submit', authenticate, requireRole(ROLES.CITIZEN), (req, res) => {
     try {
-        const { citizenName, district, areaRequested, geojson } = req.body;
+        // Collect every problem in one pass so the form can flag all fields at once
+        const schemaResult = validateSubmitClaimRequest(req.body);
+        const issues = schemaResult.ok ? [] : [...schemaResult.issues];
+        const { district, areaRequested } = req.body;
+
+        let geojson = null;
+        let geometryRepairs = [];
+        const geometryIsWellFormed = !issues.some(i => i.path.startsWith('geojson'));
+        if (req.body.geojson && geometryIsWellFormed) {
+            const sanitized = sanitizeClaimGeometry(req.body.geojson);
+            issues.push(...sanitized.issues);
+            geojson = sanitized.feature;
+            geometryRepairs = sanitized.repairs;
+        }
+
+        if (!req.body.geojson && areaRequested === undefined) {
+            issues.push({ path: 'areaRequested', message: "Area is required when no boundary is drawn." });
+        }
+
+        // Declared area may come in any supported unit; everything is stored in acres
+        const areaUnit = req.body.areaUnit || 'acres';
+        const declaredAcres = typeof areaRequested === 'number' ? convertArea(areaRequested, areaUnit, 'acres') : null;
+        if (declaredAcres !== null && declaredAcres > CLAIM_LIMITS.maxAreaAcres) {
+            issues.push({ path: 'areaRequested', message: `Area must be at most ${CLAIM_LIMITS.maxAreaAcres} acres.` });
+        }
+
+        // A resubmission replaces the citizen's own earlier claim, so it must not be checked against it.
+        // Only the permitted portion offered at intake (or a part of it) may be resubmitted.
+        const { resubmissionOf } = req.body;
+        if (resubmissionOf) {
+            const original = claimsStore.getClaimById(resubmissionOf);
+            if (!original || original.ownerId !== req.user.userId) {
+                issues.push({ path: 'resubmissionOf', message: `You have no claim ${resubmissionOf} to resubmit.` });
+            } else if (!original.suggestion || original.status === "Approved" || original.status === "Superseded") {
+                issues.push({ path: 'resubmissionOf', message: `Claim ${resubmissionOf} has no permitted portion to resubmit.` });
+            } else if (!req.body.geojson) {
+                issues.push({ path: 'geojson', message: "A resubmission must include the revised boundary." });
+            } else if (geojson && spatialEngine.acresOutside(geojson, original.suggestion.geometry, original.district) >= 0.01) {
+                issues.push({ path: 'geojson', message: `The revised boundary must stay within the permitted portion of ${resubmissionOf}.` });
+            }
+        }
 
-        if (!citizenName || !district) {
-            return res.status(400).json({ error: "Missing required fields." });
+        if (issues.length) {
+            return res.status(400).json({ error: "The claim could not be accepted. Please correct the highlighted fields.", issues });
         }
 
         let severityResult;
+        let areaCheck = null;
 
         // --- Phase 6 Spatial Validation ---
         if (geojson) {
-            severityResult = spatialEngine.calculateSpatialConflict(geojson, district);
+            severityResult = spatialEngine.calculateSpatialConflict(geojson, district, { excludeClaimId: resubmissionOf || null });
+            // With no declared area the drawn boundary stands in for it
+            areaCheck = areaMeasurement.checkDeclaredArea(geojson, district, declaredAcres ?? areaMeasurement.areaAcres(geojson, district));
         } else {
             // --- Phase 5 Area Validation (Fallback) ---
-            if (!areaRequested) return res.status(400).json({ error: "Missing area requested." });
-            severityResult = calculateConflict(district, Number(areaRequested));
+            severityResult = spatialEngine.fallbackCalculateConflict(district, Number(declaredAcres), spatialEngine.rulesForDistrict(district));
         }
 
         const newClaim = claimsStore.addClaim({
-            citizenName,
+            // Always the account's own name, so no one can file a claim in someone else's
+            citizenName: req.user.name,
+            ownerId: req.user.userId,
             district,
-            areaRequested: Number(areaRequested) || 0, // In spatial, area might be implicit but we pass it anyway
+            areaRequested: areaCheck ? areaCheck.declaredAcres : Number(declaredAcres) || 0, // Always in acres
+            geometryType: geojson ? geojson.geometry.type : null,
             coordinates: geojson ? geojson.geometry.coordinates : null, // Store geometry if drawn
             status: severityResult.status,
-            conflictPercentage: severityResult.conflictSeverity || severityResult.conflictPercentage // map keys
+            conflictPercentage: severityResult.conflictSeverity || severityResult.conflictPercentage, // map keys
+            remark: (resubmissionOf ? `Resubmitted permitted portion of ${resubmissionOf}. ` : '') + (severityResult.reason || "Auto-checked"),
+            zoneBreakdown: severityResult.zoneBreakdown || null,
+            areaCheck,
+            suggestion: severityResult.suggestion || null,
+            resubmissionOf: resubmissionOf || null
         });
+        conflictGraph.recordOverlaps(newClaim.claimId, severityResult.overlaps || []);
+
+        eventBus.publish(eventBus.SIMULATION_EVENTS.CLAIM_CREATED, { claim: newClaim });
+        if (resubmissionOf) {
+            const original = claimsStore.supersedeClaim(resubmissionOf, newClaim.claimId, `${req.user.name} (${req.user.role})`);
+            if (original) {
+                // The original no longer holds land, so its overlaps no longer stand
+                conflictGraph.removeEdgesFor(resubmissionOf);
+                eventBus.publish(eventBus.SIMULATION_EVENTS.CLAIM_REVIEWED, { claim: original });
+            }
+        }
+        eventBus.publish(eventBus.SIMULATION_EVENTS.ANALYTICS_CHANGED, { district: newClaim.district });
 
         res.json({
             message: "Claim processed",
             claim: newClaim,
-            reason: severityResult.reason || "Auto-checked"
+            reason: severityResult.reason || "Auto-checked",
+            geometryRepairs,
+            suggestion: severityResult.suggestion || null,
+            areaWarning: areaCheck ? areaMeasurement.discrepancyWarning(areaCheck, areaUnit) : null
         });
 
     } catch (err) {
@@ -337,141 +439,425 @@ app.post('/api/simulation/claims/submit', (req, res) => {
     }
 });
 
-// 2. Get all simulated claims
-app.get('/api/simulation/claims', (req, res) => {
+// 2. Get simulated claims visible to the current user
+app.get('/api/simulation/claims', authenticate, (req, res) => {
+    try {
+        res.json(claimsStore.getClaims().filter(c => canViewClaim(req.user, c)));
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// 2.1. Search visible claims: text, status, district, dates, area, severity, map box; sorted and paged
+app.get('/api/simulation/claims/query', authenticate, (req, res) => {
     try {
-        res.json(claimsStore.getClaims());
+        const query = claimQueryFromParams(req.query);
+        if (!query.ok) {
+            return res.status(400).json({ error: "Invalid claim query.", issues: query.issues });
+        }
+        res.json(claimSearch.searchClaims(claimsStore.getClaims().filter(c => canViewClaim(req.user, c)), query.value));
     } catch (err) {
         res.status(500).json({ error: err.message });
     }
 });
 
-// 3. Admin review a claim
-app.patch('/api/simulation/claims/:id/review', (req, res) => {
+// 2.2. One visible claim, for its detail page
+app.get('/api/simulation/claims/:id', authenticate, (req, res) => {
+    try {
+        const claim = claimsStore.getClaimById(req.params.id);
+        if (!claim || !canViewClaim(req.user, claim)) {
+            return res.status(404).json({ error: "Claim not found." });
+        }
+        res.json({ claim });
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// 3. Admin review a claim — moves it one step along the FRA lifecycle
+app.patch('/api/simulation/claims/:id/review', authenticate, requireRole(ROLES.DISTRICT_OFFICER, ROLES.STATE_ADMIN), validateBody(validateReviewClaimRequest), (req, res) => {
     try {
         const { id } = req.params;
-        const { status } = req.body; // "Approved" or "Rejected"
+        const { status, remark, advisoryId } = req.body;
+
+        const claim = claimsStore.getClaimById(id);
+        if (!claim) {
+            return res.status(404).json({ error: "Claim not found." });
+        }
 
-        if (!["Approved", "Rejected"].includes(status)) {
-            return res.status(400).json({ error: "Invalid status update. Use 'Approved' or 'Rejected'." });
+        if (!canReviewClaim(req.user, claim)) {
+            return res.status(403).json({ error: `Only officers of ${claim.district} district can review this claim.` });
         }
 
-        const updatedClaim = claimsStore.updateClaimStatus(id, status);
-        if (!updatedClaim) {
+        if (!claimLifecycle.canTransition(claim.status, status)) {
+            const allowed = claimLifecycle.allowedTransitions(claim.status);
+            return res.status(409).json({
+                error: `Cannot move claim from '${claim.status}' to '${status}'.`,
+                allowedTransitions: allowed
+            });
+        }
+
+        let advisory;
+        if (advisoryId) {
+            const attached = claimAdvisor.recordForDecision(advisoryId, claim, status);
+            if ('error' in attached) {
+                return res.status(409).json({ error: attached.error });
+            }
+            advisory = attached.record;
+        }
+
+        const updatedClaim = claimsStore.updateClaimStatus(id, status, {
+            actor: `${req.user.name} (${req.user.role})`,
+            remark: remark.trim(),
+            advisory
+        });
+
+        eventBus.publish(eventBus.SIMULATION_EVENTS.CLAIM_REVIEWED, { claim: updatedClaim });
+        eventBus.publish(eventBus.SIMULATION_EVENTS.ANALYTICS_CHANGED, { district: updatedClaim.district });
+
+        res.json({ message: `Claim status updated to ${status}`, claim: updatedClaim });
+
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// 3.4. Review assistant: a recommended next decision for one claim, with its rationale and
+// the facts it was drawn from. Advisory only; send its advisoryId with the review to keep it
+// in the claim history. Closing the request cancels the generation.
+app.post('/api/simulation/claims/:id/advisory', authenticate, requireRole(ROLES.DISTRICT_OFFICER, ROLES.STATE_ADMIN), async (req, res) => {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+        const claim = claimsStore.getClaimById(req.params.id);
+        if (!claim) {
             return res.status(404).json({ error: "Claim not found." });
         }
+        if (!canReviewClaim(req.user, claim)) {
+            return res.status(403).json({ error: `Only officers of ${claim.district} district can review this claim.` });
+        }
+        if (claimLifecycle.allowedTransitions(claim.status).length === 0) {
+            return res.status(409).json({ error: `Claim is ${claim.status}; there is no decision left to advise on.` });
+        }
 
-        res.json({ message: `Claim statused updated to ${status}`, claim: updatedClaim });
+        const advisory = await claimAdvisor.generateClaimAdvisory(claim, { signal: controller.signal });
+        res.json({ advisory });
+    } catch (err) {
+        if (controller.signal.aborted) return;
+        if (err instanceof claimAdvisor.AdvisoryUnavailableError) {
+            return res.status(503).json({ error: err.message });
+        }
+        res.status(500).json({ error: err.message });
+    }
+});
 
+// 3.5. Audit trail of a single claim
+app.get('/api/simulation/claims/:id/history', authenticate, (req, res) => {
+    try {
+        const claim = claimsStore.getClaimById(req.params.id);
+        if (!claim || !canViewClaim(req.user, claim)) {
+            return res.status(404).json({ error: "Claim not found." });
+        }
+
+        res.json({
+            claimId: claim.claimId,
+            status: claim.status,
+            allowedTransitions: claimLifecycle.allowedTransitions(claim.status),
+            history: claim.history || []
+        });
     } catch (err) {
         res.status(500).json({ error: err.message });
     }
 });
 
-// 4. Overloaded Analytics for the Simulation (Zero risk to existing logic)
-// To fulfill risk engine integration constraints without modifying the original logic,
-// we wrap the original logic block with our simulated data appended to it locally for this endpoint.
-app.get('/api/simulation/analytics', (req, res) => {
+// 3.6. Conflict graph: claims whose polygons overlap, in any status
+app.get('/api/simulation/claims/:id/conflicts', authenticate, (req, res) => {
     try {
-        // --- 1. Fetch exactly the same JSON as Phase 2
-        const mockData = getMockData();
-        const features = Array.from(mockData.features || []);
-
-        // --- 2. Inject Simulated Store Claims INTO the local features array memory mapping ---
-        const simulatedClaims = claimsStore.getClaims();
-        simulatedClaims.forEach(sim => {
-            // Map our store to the GeoJSON property format expected by the algorithm
-            // We do not add overlap polygons, we just flag it based on the algorithm req
-            features.push({
-                properties: {
-                    district: sim.district,
-                    status: sim.status,
-                    conflict_percentage: sim.conflictPercentage,
-                    // We map our "Flagged" status logic to a conflict Boolean for the algo
-                    overlap: sim.status === "Flagged" || sim.conflictPercentage > 0
-                }
-            });
+        const claim = claimsStore.getClaimById(req.params.id);
+        if (!claim || !canViewClaim(req.user, claim)) {
+            return res.status(404).json({ error: "Claim not found." });
+        }
+
+        const conflicts = conflictGraph.getEdgesFor(claim.claimId).map(edge => {
+            const otherId = edge.claimIds[0] === claim.claimId ? edge.claimIds[1] : edge.claimIds[0];
+            const other = claimsStore.getClaimById(otherId);
+            return other && {
+                claimId: other.claimId,
+                status: other.status,
+                district: other.district,
+                overlapAcres: edge.overlapAcres,
+                geometry: edge.geometry,
+                detectedAt: edge.detectedAt
+            };
+        }).filter(Boolean);
+
+        res.json({ claimId: claim.claimId, conflicts });
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Whole graph for the map; citizens only get the edges touching their own claims
+app.get('/api/simulation/conflicts', authenticate, (req, res) => {
+    try {
+        const edges = conflictGraph.getEdges().filter(edge =>
+            edge.claimIds.some(id => {
+                const claim = claimsStore.getClaimById(id);
+                return claim && canViewClaim(req.user, claim);
+            })
+        );
+        res.json({ edges });
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// 3.6.5. Exports: visible claims (optionally ?district=&status=A,B) and conflict overlaps
+const EXPORT_FORMATS = {
+    geojson: { contentType: 'application/geo+json', extension: 'geojson' },
+    csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+    kml: { contentType: 'application/vnd.google-earth.kml+xml', extension: 'kml' }
+};
+
+/**
+ * Sends a feature collection in the requested export format as a download
+ */
+const sendExport = (res, format, baseName, collection, nameOf) => {
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    // res.attachment quotes and encodes the name for the Content-Disposition header
+    res.attachment(`${baseName}-${new Date().toISOString().slice(0, 10)}.${extension}`);
+    res.setHeader('Content-Type', contentType);
+    if (format === 'csv') return res.send(claimExport.toCsv(collection));
+    if (format === 'kml') return res.send(claimExport.toKml(collection, baseName, nameOf));
+    res.send(JSON.stringify(collection));
+};
+
+app.get('/api/simulation/export/claims.:format', authenticate, (req, res) => {
+    try {
+        const { format } = req.params;
+        if (!EXPORT_FORMATS[format]) {
+            return res.status(404).json({ error: `Unknown export format '${format}'.` });
+        }
+        // Same filter parameters as the claim search (?district=&status=A,B&q=...)
+        const query = claimQueryFromParams(req.query);
+        if (!query.ok) {
+            return res.status(400).json({ error: "Invalid export filter.", issues: query.issues });
+        }
+        const { district } = query.value;
+
+        const claims = claimSearch.filterClaims(claimsStore.getClaims().filter(c => canViewClaim(req.user, c)), query.value);
+        sendExport(res, format, `claims${district ? `-${district}` : ''}`,
+            claimExport.claimsToFeatureCollection(claims), props => `${props.claimId} (${props.citizenName})`);
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
+
+app.get('/api/simulation/export/conflicts.:format', authenticate, (req, res) => {
+    try {
+        const { format } = req.params;
+        if (!EXPORT_FORMATS[format]) {
+            return res.status(404).json({ error: `Unknown export format '${format}'.` });
+        }
+
+        const query = claimQueryFromParams({ district: req.query.district });
+        if (!query.ok) {
+            return res.status(400).json({ error: "Invalid export filter.", issues: query.issues });
+        }
+        const { district } = query.value;
+
+        // Same visibility as /conflicts, narrowed to edges touching the district if asked
+        const edges = conflictGraph.getEdges().filter(edge => {
+            const claims = edge.claimIds.map(id => claimsStore.getClaimById(id)).filter(Boolean);
+            return claims.some(c => canViewClaim(req.user, c))
+                && (!district || claims.some(c => c.district === district));
         });
+        sendExport(res, format, `conflicts${district ? `-${district}` : ''}`,
+            claimExport.conflictsToFeatureCollection(edges), props => `${props.claimA} ↔ ${props.claimB}`);
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Printable district dossier (PDF). ?report=skip leaves out the LLM compliance report.
+app.get('/api/simulation/export/dossier/:district', authenticate, requireRole(ROLES.DISTRICT_OFFICER, ROLES.STATE_ADMIN), async (req, res) => {
+    try {
+        const { district } = req.params;
+        if (req.user.role === ROLES.DISTRICT_OFFICER && req.user.district !== district) {
+            return res.status(403).json({ error: `Only officers of ${district} district can export its dossier.` });
+        }
+
+        const rankings = claimAnalytics.computeAnalytics().districts;
+        const rankIndex = rankings.findIndex(d => d.district === district);
+        const claims = claimsStore.getClaims().filter(c => c.district === district);
+        if (rankIndex === -1 && claims.length === 0 && !spatialEngine.forestZones.features.some(f => f.properties.district === district)) {
+            return res.status(404).json({ error: `No data found for district: ${district}` });
+        }
 
-        // --- 3. EXACT RUN of Existing Risk Algorithm line-for-line ---
-        let total_claims = features.length;
-        let approved_claims = 0;
-        let pending_claims = 0;
-        let conflict_claims = 0;
-        let districts_data = {};
-
-        features.forEach(feature => {
-            const props = feature.properties || {};
-            const district = props.district || 'Unknown';
-            const status = props.status || 'Unknown';
-            const overlap = props.overlap || false;
-            const protectedZone = props.protected_zone || false;
-
-            // Global Counts
-            if (status === 'Approved') approved_claims++;
-            else if (status === 'Pending') pending_claims++;
-            else if (status === 'Conflict' || overlap || protectedZone) conflict_claims++;
-            else if (status === 'Flagged' || status === 'Reserved Violation') conflict_claims++; // Add flagged logic locally
-
-            // Initialize district
-            if (!districts_data[district]) {
-                districts_data[district] = { total: 0, pending: 0, conflicts: 0, approved: 0 };
+        let reportText = null;
+        let reportNote = req.query.report === 'skip' ? "Compliance report not requested for this export." : null;
+        if (!reportNote) {
+            try {
+                reportText = (await complianceReport.generateComplianceReport(district, { actor: req.user.username })).reportText;
+            } catch (err) {
+                reportNote = `Compliance report unavailable: ${err.message}`;
             }
+        }
 
-            // District Counts
-            districts_data[district].total++;
-            if (status === 'Pending') districts_data[district].pending++;
-            else if (status === 'Approved') districts_data[district].approved++;
+        res.attachment(`dossier-${district}-${new Date().toISOString().slice(0, 10)}.pdf`);
+        res.setHeader('Content-Type', 'application/pdf');
+        writeDossier(res, {
+            district,
+            generatedBy: `${req.user.name} (${req.user.role})`,
+            risk: rankIndex === -1 ? null : { row: rankings[rankIndex], rank: rankIndex + 1, of: rankings.length },
+            claims,
+            forestZones: spatialEngine.forestZones.features.filter(f => f.properties.district === district),
+            reservedZones: spatialEngine.reservedForests.features.filter(f => f.properties.district === district),
+            reportText,
+            reportNote
+        });
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
 
-            if (overlap || protectedZone || status === 'Conflict' || status === 'Flagged' || status === 'Reserved Violation') {
-                districts_data[district].conflicts++;
+// Which stored claims a polygon would overlap, without submitting it (uses the R-tree index).
+// Claims the caller may not view (other citizens' claims) are only counted, never identified.
+app.post('/api/simulation/overlaps', authenticate, validateBody(validateOverlapQueryRequest), (req, res) => {
+    try {
+        const sanitized = sanitizeClaimGeometry(req.body.geojson);
+        if (!sanitized.feature) {
+            return res.status(400).json({ error: "Invalid request body.", issues: sanitized.issues });
+        }
+        const overlaps = [];
+        const otherClaims = { count: 0, overlapAcres: 0 };
+        spatialEngine.findClaimOverlaps(sanitized.feature).forEach(overlap => {
+            const claim = claimsStore.getClaimById(overlap.claimId);
+            if (claim && canViewClaim(req.user, claim)) {
+                overlaps.push(overlap);
+            } else {
+                otherClaims.count++;
+                otherClaims.overlapAcres = parseFloat((otherClaims.overlapAcres + overlap.overlapAcres).toFixed(2));
             }
         });
+        res.json({ overlaps, otherClaims });
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Area of a polygon in the district's projected CRS, in the requested unit (used to prefill the claim form)
+app.post('/api/simulation/measure', authenticate, validateBody(validateMeasureAreaRequest), (req, res) => {
+    try {
+        const sanitized = sanitizeClaimGeometry(req.body.geojson);
+        if (!sanitized.feature) {
+            return res.status(400).json({ error: "Invalid request body.", issues: sanitized.issues });
+        }
+        res.json(areaMeasurement.measureArea(sanitized.feature, req.body.district, req.body.unit || 'acres'));
+    } catch (err) {
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Uploads are kept in memory: they are parsed once and never stored as files
+const importUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: IMPORT_LIMITS.maxFileBytes, files: 1 } }).single('file');
+
+/**
+ * Runs the multipart parser, answering upload problems (e.g. oversize files) with 400
+ */
+const receiveImportFile = (req, res, next) => {
+    importUpload(req, res, (err) => {
+        if (err instanceof multer.MulterError) {
+            const message = err.code === 'LIMIT_FILE_SIZE'
+                ? `File is larger than ${IMPORT_LIMITS.maxFileBytes / (1024 * 1024)} MB.`
+                : err.message;
+            return res.status(400).json({ error: message });
+        }
+        if (err) return next(err);
+        if (!req.file) {
+            return res.status(400).json({ error: "Attach a GeoJSON, zipped Shapefile or KML file as 'file'." });
+        }
+        next();
+    });
+};
+
+// Bulk import of claims (officers, own district) or zones (state admin) from a survey file
+app.post('/api/simulation/import', authenticate, requireRole(ROLES.DISTRICT_OFFICER, ROLES.STATE_ADMIN), receiveImportFile, validateBody(validateImportRequest), async (req, res) => {
+    try {
+        const { kind, district, sourceCrs } = req.body;
+        if (kind !== 'claims' && req.user.role !== ROLES.STATE_ADMIN) {
+            return res.status(403).json({ error: "Only the state administrator can import zones." });
+        }
+        const allowedDistrict = req.user.role === ROLES.DISTRICT_OFFICER ? req.user.district : null;
+
+        const report = await bulkImport.importFile({
+            buffer: req.file.buffer,
+            fileName: req.file.originalname,
+            kind,
+            district: district || allowedDistrict || undefined,
+            sourceCrs,
+            actor: `${req.user.name} (${req.user.role})`,
+            allowedDistrict
+        });
+        res.json(report);
+    } catch (err) {
+        if (err instanceof ImportFileError) {
+            return res.status(400).json({ error: err.message });
+        }
+        res.status(500).json({ error: err.message });
+    }
+});
 
-        // Calculate Risk Scores per district
-        let district_rankings = [];
-        for (const [name, stats] of Object.entries(districts_data)) {
-            if (stats.total === 0) continue;
+// 3.7. Lifecycle transition table, so the review UI never hard-codes the rules
+app.get('/api/simulation/lifecycle', (req, res) => {
+    res.json({
+        intakeStatuses: claimLifecycle.INTAKE_STATUSES,
+        transitions: claimLifecycle.TRANSITIONS
+    });
+});
 
-            const pending_pct = (stats.pending / stats.total) * 100;
-            const conflict_pct = (stats.conflicts / stats.total) * 100;
+// 3.8. Live change feed (Server-Sent Events) replacing client polling.
+// Anonymous clients only receive analytics-changed; claim events are filtered by visibility.
+const SSE_KEEPALIVE_MS = 25000;
 
-            let risk_score = (pending_pct * 0.5) + (conflict_pct * 0.5);
+app.get('/api/simulation/events', identifyStreamClient, (req, res) => {
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
 
-            // Phase 8: Reserved Violations Risk Penalty
-            const violationsCount = simulatedClaims.filter(c => c.district === name && c.status === "Reserved Violation").length;
-            if (violationsCount > 0) {
-                risk_score += (violationsCount * 25); // +25 fixed points per violation 
-            }
+    const send = (type, data) => {
+        res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
 
-            let risk_level = "High";
-            if (risk_score <= 40) risk_level = "Low";
-            else if (risk_score <= 70) risk_level = "Moderate";
-
-            district_rankings.push({
-                district: name,
-                total_claims: stats.total,
-                pending: stats.pending,
-                conflicts: stats.conflicts,
-                risk_score: parseFloat(risk_score.toFixed(2)),
-                risk_level: risk_level
-            });
+    // Tells the client it is (re)connected so it can resync anything missed meanwhile
+    send('ready', { authenticated: !!req.user });
+
+    const unsubscribe = eventBus.subscribe(({ type, payload, timestamp }) => {
+        if (payload.claim) {
+            if (!req.user || !canViewClaim(req.user, payload.claim)) return;
         }
+        send(type, { ...payload, timestamp });
+    });
 
-        district_rankings.sort((a, b) => b.risk_score - a.risk_score);
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEPALIVE_MS);
 
-        res.json({
-            summary: {
-                total_claims,
-                approved_claims,
-                pending_claims,
-                conflict_claims,
-                approved_pct: total_claims ? parseFloat((approved_claims / total_claims * 100).toFixed(1)) : 0,
-                pending_pct: total_claims ? parseFloat((pending_claims / total_claims * 100).toFixed(1)) : 0
-            },
-            districts: district_rankings
-        });
+    req.on('close', () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+    });
+});
 
+// 4. Analytics for the simulation dashboard (same figures as /api/analytics)
+app.get('/api/simulation/analytics', (req, res) => {
+    try {
+        res.json(claimAnalytics.computeAnalytics());
     } catch (err) {
         res.status(500).json({ error: err.message });
     }
@@ -1,165 +1,343 @@
+// @ts-check
 const turf = require('@turf/turf');
-const fs = require('fs');
-const path = require('path');
 const claimsStore = require('./claimsStore');
+const zoneConfig = require('./zoneConfigStore');
+const { forestZones, reservedForests } = require('./zonesStore');
+const { areaAcres } = require('./areaMeasurement');
 
-// Load static forest zones for Phase 6
-const ZONES_FILE = path.join(__dirname, 'data', 'forestZones.geojson');
-let forestZones = { type: "FeatureCollection", features: [] };
+/**
+ * Rebuilds a Turf feature from a stored claim's geometry (Polygon or MultiPolygon)
+ * @param {import('fra-shared').SimulatedClaim} claim
+ * @returns {any}
+ */
+function claimToFeature(claim) {
+    if (!claim.coordinates) return null;
+    return claim.geometryType === "MultiPolygon"
+        ? turf.multiPolygon(/** @type {number[][][][]} */ (claim.coordinates), { claimId: claim.claimId })
+        : turf.polygon(/** @type {number[][][]} */ (claim.coordinates), { claimId: claim.claimId });
+}
+
+// Rejected claims no longer hold land, and neither does a claim superseded by its resubmission.
+// New boundaries are not matched against them; edges recorded while a rejected claim was open
+// stay in the conflict graph (it can be appealed) but no longer count toward severity.
+const countsTowardSeverity = (claim) => !!claim && claim.status !== "Rejected" && claim.status !== "Superseded";
+
+/**
+ * Intersects a drawn polygon with every stored claim that has a geometry and
+ * still holds land, whatever its district, so two pending claims on the same
+ * parcel are caught as well as encroachment on approved land.
+ * Candidates come from the claims store's R-tree, so only claims whose bounding
+ * boxes touch the drawn polygon are intersected exactly.
+ *
+ * @param {any} drawnFeature GeoJSON Feature (Polygon or MultiPolygon)
+ * @param {string | null} [excludeClaimId] Claim being resubmitted, which the new boundary replaces
+ * @returns {import('fra-shared').ClaimOverlap[]}
+ */
+function findClaimOverlaps(drawnFeature, excludeClaimId = null) {
+    /** @type {import('fra-shared').ClaimOverlap[]} */
+    const overlaps = [];
+
+    claimsStore.findClaimsInBounds(turf.bbox(drawnFeature)).forEach(existingClaim => {
+        if (existingClaim.claimId === excludeClaimId || !countsTowardSeverity(existingClaim)) return;
+        const existingPoly = claimToFeature(existingClaim);
+        if (!existingPoly) return;
+        try {
+            const intersection = turf.intersect(turf.featureCollection([drawnFeature, existingPoly]));
+            if (!intersection) return;
+
+            const overlapAcres = areaAcres(intersection, existingClaim.district);
+            // Shared edges produce slivers of float noise, not real overlaps
+            if (overlapAcres < 0.01) return;
+
+            overlaps.push({
+                claimId: existingClaim.claimId,
+                overlapAcres: parseFloat(overlapAcres.toFixed(2)),
+                geometry: /** @type {any} */ (intersection.geometry)
+            });
+        } catch (e) {
+            console.error("Error intersecting geometries: " + e.message);
+        }
+    });
+
+    return overlaps;
+}
+
+/**
+ * Area shared by two features, in acres (0 when they do not intersect)
+ * @param {any} a
+ * @param {any} b
+ * @param {string} [district] District whose projected CRS to measure in
+ */
+function intersectionAcres(a, b, district) {
+    const intersection = turf.intersect(turf.featureCollection([a, b]));
+    return intersection ? areaAcres(intersection, district) : 0;
+}
+
+const round2 = (n) => parseFloat(n.toFixed(2));
+
+/**
+ * Part of a feature lying outside a polygon geometry, in acres
+ * @param {any} feature
+ * @param {import('fra-shared').ClipSuggestion['geometry']} geometry
+ * @param {string} [district]
+ */
+function acresOutside(feature, geometry, district) {
+    const outside = turf.difference(turf.featureCollection([feature, turf.feature(geometry)]));
+    return outside ? areaAcres(outside, district) : 0;
+}
+
+/**
+ * Approved land already inside a zone. Approved claims with a boundary count by
+ * their actual intersection; area-only approvals have no boundary, so they
+ * count in full against every zone of their district.
+ * @param {any} zone
+ */
+function approvedAcresInZone(zone) {
+    let acres = 0;
+    claimsStore.findClaimsInBounds(turf.bbox(zone)).forEach(c => {
+        if (c.status === "Approved") {
+            acres += intersectionAcres(claimToFeature(c), zone, zone.properties.district);
+        }
+    });
+    claimsStore.getClaims().forEach(c => {
+        if (c.status === "Approved" && !c.coordinates && c.district === zone.properties.district) {
+            acres += c.areaRequested;
+        }
+    });
+    return acres;
+}
+
+/**
+ * Removes reserved forest and approved parcels from a drawn boundary, leaving the
+ * portion the citizen could resubmit. Returns null if nothing would be left.
+ * @param {any} drawnFeature
+ * @param {any[]} reservedFeatures Reserved polygons the claim touches
+ * @param {any[]} approvedFeatures Approved claims the claim overlaps
+ * @param {string} district
+ * @returns {import('fra-shared').ClipSuggestion | null}
+ */
+function suggestPermittedPortion(drawnFeature, reservedFeatures, approvedFeatures, district) {
+    const measure = (feature) => (feature ? areaAcres(feature, district) : 0);
+    const originalAcres = measure(drawnFeature);
+
+    /** @type {any} */
+    let remaining = drawnFeature;
+    let removedReservedAcres = 0;
+    let removedApprovedAcres = 0;
+
+    for (const [features, kind] of /** @type {const} */ ([[reservedFeatures, 'reserved'], [approvedFeatures, 'approved']])) {
+        for (const feature of features) {
+            if (!remaining) break;
+            const before = measure(remaining);
+            remaining = turf.difference(turf.featureCollection([remaining, feature]));
+            const removed = before - measure(remaining);
+            if (kind === 'reserved') removedReservedAcres += removed;
+            else removedApprovedAcres += removed;
+        }
+    }
+
+    // Slivers left after clipping are not a usable claim
+    const acres = measure(remaining);
+    if (!remaining || acres < 0.01) return null;
+    if (originalAcres - acres < 0.01) return null;
+
+    return {
+        geometry: remaining.geometry,
+        acres: round2(acres),
+        removedReservedAcres: round2(removedReservedAcres),
+        removedApprovedAcres: round2(removedApprovedAcres)
+    };
+}
+
+// Engine outcomes from least to most severe; keys of ZoneStatusRules
+const OUTCOME_RANK = { withinLimits: 0, moderate: 1, high: 2 };
+
+/**
+ * Grades the part of a claim that falls in one forest zone against that zone's rules
+ * @param {any} zone
+ * @param {number} claimedAcres Drawn area inside this zone
+ * @param {import('fra-shared').ClaimOverlap[]} countedOverlaps Overlaps that hold land
+ */
+function gradeZone(zone, claimedAcres, countedOverlaps) {
+    const rules = zoneConfig.getRulesForZone(zone.properties.zoneId);
+    const { capacityAcres } = rules;
+    const { moderateAbovePct, flaggedAbovePct } = rules.thresholds;
 
-// Phase 8: Load reserved forests
-const RESERVED_FILE = path.join(__dirname, 'data', 'reservedForests.geojson');
-let reservedForests = { type: "FeatureCollection", features: [] };
+    // Conflict severity = Overlap Area in this zone / Zone Capacity
+    const overlapAcres = countedOverlaps.reduce((sum, o) => sum + intersectionAcres(turf.feature(o.geometry), zone, zone.properties.district), 0);
+    const overlapPct = (overlapAcres / capacityAcres) * 100;
 
-try {
-    const rawData = fs.readFileSync(ZONES_FILE, 'utf-8');
-    forestZones = JSON.parse(rawData);
+    // *Plus* the hard capacity check: (Existing Approved Area + New Drawn Area) > Capacity
+    const capacityExcess = (approvedAcresInZone(zone) + claimedAcres) - capacityAcres;
+    const capacityPct = capacityExcess > 0 ? (capacityExcess / capacityAcres) * 100 : 0;
 
-    if (fs.existsSync(RESERVED_FILE)) {
-        const rawResData = fs.readFileSync(RESERVED_FILE, 'utf-8');
-        reservedForests = JSON.parse(rawResData);
+    let severity = Math.round(Math.max(overlapPct, capacityPct));
+    if (severity < 1) {
+        severity = 0;
     }
-} catch (err) {
-    console.error("Error reading geojson files:", err);
+
+    /** @type {keyof typeof OUTCOME_RANK} */
+    let outcome = "withinLimits";
+    let reason = "Valid spatial geometry.";
+    if (severity > flaggedAbovePct) {
+        outcome = "high";
+        reason = overlapPct > flaggedAbovePct ? "High spatial overlap detected." : "Exceeds total zone capacity.";
+    } else if (severity > moderateAbovePct) {
+        outcome = "moderate";
+        reason = "Minor spatial intersection detected.";
+    }
+
+    /** @type {import('fra-shared').ForestZoneHit} */
+    const hit = {
+        zoneId: zone.properties.zoneId,
+        district: zone.properties.district,
+        intersectAcres: round2(claimedAcres),
+        severity,
+        status: rules.statusRules[outcome]
+    };
+    return { hit, outcome, reason };
 }
 
 /**
- * Validates a newly drawn claim polygon against the fixed forest zones
- * and existing approved claims in the store using Turf.js.
+ * Validates a newly drawn claim polygon against every forest zone and reserved
+ * forest it touches (in any district) and every existing claim, using Turf.js.
+ * Each touched zone is graded with its own rules; the worst grade decides the status.
  * 
- * @param {Object} drawnFeature GeoJSON Feature (Polygon) submitted by user
+ * @param {any} drawnFeature GeoJSON Feature (Polygon or MultiPolygon) submitted by user
  * @param {String} district The district the citizen selected
- * @returns {Object} { conflictSeverity, status }
+ * @param {{ excludeClaimId?: string | null }} [options] excludeClaimId: claim this submission replaces
+ * @returns {import('fra-shared').ConflictResult} { conflictSeverity, status }
  */
-function calculateSpatialConflict(drawnFeature, district) {
-    // 1. Find the target Forest Zone for this district
-    const targetZone = forestZones.features.find(f => f.properties.district === district);
+function calculateSpatialConflict(drawnFeature, district, { excludeClaimId = null } = {}) {
+    // 0. Claim-to-claim overlaps are recorded in the conflict graph whatever the verdict below
+    const overlaps = drawnFeature.geometry ? findClaimOverlaps(drawnFeature, excludeClaimId) : [];
 
-    // Fallback: If no zone exists for this district, default to Phase 5 area math check 
-    // This satisfies the "zero regression fallback" constraint.
     const requestedArea = drawnFeature.properties?.areaRequested || 0;
-    if (!targetZone) {
-        return fallbackCalculateConflict(district, requestedArea);
-    }
-
-    const zoneCapacity = targetZone.properties.totalArea; // Constant 500 acres
+    const districtRules = rulesForDistrict(district);
+    const districtHasZone = forestZones.features.some(f => f.properties.district === district);
 
     try {
-        // 2. We use turf.area to approximate the size of the drawn polygon in square meters
-        // then convert to acres (1 sq meter = 0.000247105 acres)
-        // Note: For simulation simplicity we just trust the math, but real GIS relies on exact projections.
-        const drawnAreaSqMeters = turf.area(drawnFeature);
-        const drawnAreaAcres = drawnAreaSqMeters * 0.000247105;
-
         // Ensure the geometry is valid
         if (!drawnFeature.geometry || !drawnFeature.geometry.coordinates) {
-            return fallbackCalculateConflict(district, requestedArea);
-        }
-
-        // 3. Find intersection with the Forest Boundary.
-        // The claim MUST be inside the boundary. If it's outside entirely, it's flagged as an invalid claim location.
-        const boundaryIntersection = turf.intersect(turf.featureCollection([drawnFeature, targetZone]));
-        if (!boundaryIntersection) {
-            // Completely outside the designated forest zone!
-            return {
-                status: "Flagged",
-                conflictSeverity: 100, // 100% invalid location
-                reason: "Polygon falls completely outside the designated district forest zone."
-            };
-        }
-        // 3.5 Phase 8: Reserved Forest Sub-Zone Absolute Constraint
-        const targetReserved = reservedForests.features.find(f => f.properties.district === district);
-        if (targetReserved) {
-            const reservedIntersection = turf.intersect(turf.featureCollection([drawnFeature, targetReserved]));
-            if (reservedIntersection) {
-                // Return immediately - skip normal logic
-                return {
-                    status: "Reserved Violation",
-                    conflictSeverity: 100, // Hardcoded 100 per instruction
-                    reason: "Claim rejected: Requested land falls within a legally protected Reserved Forest zone."
-                };
-            }
+            return { ...fallbackCalculateConflict(district, requestedArea, districtRules), overlaps, zoneBreakdown: null, suggestion: null };
         }
 
-        // 4. Calculate overlap with existing APPROVED claims natively via geometries
-        const allClaims = claimsStore.getClaims();
-        let totalOverlapAreaAcres = 0;
-
-        allClaims.forEach(existingClaim => {
-            if (existingClaim.district === district && existingClaim.status === "Approved" && existingClaim.coordinates) {
-                try {
-                    // Re-construct the stored coordinates into a Turf polygon
-                    const existingPoly = turf.polygon(existingClaim.coordinates);
-
-                    // Check intersection 
-                    const intersection = turf.intersect(turf.featureCollection([drawnFeature, existingPoly]));
-
-                    if (intersection) {
-                        const overlapSqM = turf.area(intersection);
-                        totalOverlapAreaAcres += (overlapSqM * 0.000247105);
-                    }
-                } catch (e) {
-                    console.error("Error intersecting geometries: " + e.message);
-                }
-            }
-        });
+        // 1. Every forest zone the claim touches, including neighbouring districts' zones
+        const graded = forestZones.features
+            .map(zone => ({ zone, claimedAcres: intersectionAcres(drawnFeature, zone, zone.properties.district) }))
+            .filter(({ claimedAcres }) => claimedAcres > 0)
+            .map(({ zone, claimedAcres }) => gradeZone(zone, claimedAcres, overlaps));
 
-        // 5. Conflict severity = Overlap Area / Zone Capacity
-        // Basically, if they draw completely over existing approved land, conflict represents the % of the total zone they are intruding on
-        // *Plus* we do a hard boundary check: (Existing Approved Area + New Drawn Area) > Capacity
+        // 2. Every reserved forest polygon the claim touches
+        const touchedReserved = reservedForests.features
+            .map(reserved => ({ reserved, acres: intersectionAcres(drawnFeature, reserved, reserved.properties.district) }))
+            .filter(({ acres }) => acres > 0);
+        /** @type {import('fra-shared').ReservedZoneHit[]} */
+        const reservedHits = touchedReserved.map(({ reserved, acres }) => ({
+            zoneId: reserved.properties.zoneId,
+            district: reserved.properties.district,
+            intersectAcres: round2(acres)
+        }));
 
-        // Sum total existing approved area to ensure the total capacity constraint from Phase 5 remains physically true
-        let approvedArea = 0;
-        allClaims.forEach(c => {
-            if (c.district === district && c.status === "Approved") {
-                approvedArea += c.areaRequested;
-            }
-        });
+        /** @type {import('fra-shared').ZoneBreakdown} */
+        const zoneBreakdown = { forestZones: graded.map(g => g.hit), reservedZones: reservedHits };
 
-        const capacityExcess = (approvedArea + drawnAreaAcres) - zoneCapacity;
+        // Reserved land and approved parcels can never be granted; offer the rest for resubmission
+        const approvedFeatures = overlaps
+            .map(o => claimsStore.getClaimById(o.claimId))
+            .filter(c => c && c.status === "Approved")
+            .map(c => claimToFeature(/** @type {import('fra-shared').SimulatedClaim} */ (c)));
+        const suggestion = touchedReserved.length || approvedFeatures.length
+            ? suggestPermittedPortion(drawnFeature, touchedReserved.map(t => t.reserved), approvedFeatures, district)
+            : null;
+        const suggestionNote = suggestion ? ` The remaining ${suggestion.acres} acres can be resubmitted.` : '';
 
-        // 5. Conflict severity = Overlap Area / Zone Capacity
-        let conflictPercentage = (totalOverlapAreaAcres / zoneCapacity) * 100;
-        const capacitySeverity = capacityExcess > 0 ? (capacityExcess / zoneCapacity) * 100 : 0;
+        // 3. Phase 8: Reserved Forest Absolute Constraint - any encroachment is a violation,
+        // with severity = share of the claim that lies in reserved forest
+        if (reservedHits.length) {
+            const encroachedAcres = touchedReserved.reduce((sum, t) => sum + t.acres, 0);
+            const encroachedPct = Math.min(100, (encroachedAcres / areaAcres(drawnFeature, district)) * 100);
+            return {
+                status: rulesForDistrict(reservedHits[0].district).statusRules.reservedForest,
+                conflictSeverity: round2(encroachedPct),
+                reason: `Claim rejected: ${round2(encroachedAcres)} acres (${round2(encroachedPct)}% of the claim) fall within a legally protected Reserved Forest zone (${reservedHits.map(h => `${h.zoneId}: ${h.intersectAcres} acres`).join(', ')}).${suggestionNote}`,
+                overlaps,
+                zoneBreakdown,
+                suggestion
+            };
+        }
 
-        let finalSeverity = Math.max(conflictPercentage, capacitySeverity);
+        // Fallback: If no zone exists for this district and none was touched, default to Phase 5 area math check 
+        // This satisfies the "zero regression fallback" constraint.
+        if (!graded.length && !districtHasZone) {
+            return { ...fallbackCalculateConflict(district, requestedArea, districtRules), overlaps, zoneBreakdown, suggestion };
+        }
 
-        // Normalize
-        finalSeverity = Math.round(finalSeverity);
-        if (finalSeverity < 1) {
-            finalSeverity = 0;
+        // The claim MUST touch at least one of its own district's zones; it may straddle into a neighbour's
+        if (districtHasZone && !graded.some(g => g.hit.district === district)) {
+            return {
+                status: districtRules.statusRules.outsideZone,
+                conflictSeverity: 100, // 100% invalid location
+                reason: graded.length
+                    ? `Polygon falls outside ${district}'s forest zones (it touches ${graded.map(g => g.hit.zoneId).join(', ')}).`
+                    : "Polygon falls completely outside the designated district forest zones.",
+                overlaps,
+                zoneBreakdown,
+                suggestion: null
+            };
         }
 
-        // 6. Assign Strict Status Rules
-        let status = "Under Review";
-        let reason = "Valid spatial geometry.";
+        // 4. The worst-graded zone decides; ties go to the higher severity
+        const worst = graded.reduce((a, b) => {
+            const rankDiff = OUTCOME_RANK[b.outcome] - OUTCOME_RANK[a.outcome];
+            return rankDiff > 0 || (rankDiff === 0 && b.hit.severity > a.hit.severity) ? b : a;
+        });
 
-        if (finalSeverity > 10) {
-            status = "Flagged";
-            reason = conflictPercentage > 10 ? "High spatial overlap detected." : "Exceeds total district capacity.";
-        } else if (finalSeverity > 0) {
-            status = "Moderate Conflict";
-            reason = "Minor spatial intersection detected.";
+        let reason = worst.reason;
+        if (graded.length > 1) {
+            reason += ` Claim spans ${graded.length} zones; worst is ${worst.hit.zoneId}.`;
+        }
+        if (overlaps.length) {
+            reason += ` Overlaps ${overlaps.map(o => `${o.claimId} (${o.overlapAcres} acres)`).join(', ')}.`;
         }
+        reason += suggestionNote;
 
-        console.log("Conflict %:", finalSeverity);
+        console.log("Conflict %:", worst.hit.severity);
 
         return {
-            status: status,
-            conflictSeverity: finalSeverity,
-            reason: reason
+            status: worst.hit.status,
+            conflictSeverity: worst.hit.severity,
+            reason,
+            overlaps,
+            zoneBreakdown,
+            suggestion
         };
 
     } catch (err) {
         console.error("Turf calculate error:", err);
-        return fallbackCalculateConflict(district, requestedArea);
+        return { ...fallbackCalculateConflict(district, requestedArea, districtRules), overlaps, zoneBreakdown: null, suggestion: null };
     }
 }
 
 /**
- * Phase 5 Original Logic (Fallback if no GeoJSON spatial data / no zone exists)
+ * Rules that apply to a district: those of its forest zone, or the defaults if it has none
+ * @param {string} district
+ * @returns {import('fra-shared').ZoneRules}
+ */
+function rulesForDistrict(district) {
+    const zone = forestZones.features.find(f => f.properties.district === district);
+    return zone ? zoneConfig.getRulesForZone(zone.properties.zoneId) : zoneConfig.getDefaults();
+}
+
+/**
+ * Phase 5 Original Logic (Fallback if no GeoJSON spatial data / no zone exists).
+ * Any capacity excess gets the "high" status; there is no geometry to grade it by.
+ * @param {string} district
+ * @param {number} newAreaRequested
+ * @param {import('fra-shared').ZoneRules} rules
+ * @returns {Omit<import('fra-shared').ConflictResult, 'overlaps' | 'zoneBreakdown' | 'suggestion'>}
  */
-function fallbackCalculateConflict(district, newAreaRequested) {
+function fallbackCalculateConflict(district, newAreaRequested, rules) {
     const allClaims = claimsStore.getClaims();
     let approvedArea = 0;
     allClaims.forEach(c => {
@@ -170,16 +348,17 @@ function fallbackCalculateConflict(district, newAreaRequested) {
 
     const totalRequested = approvedArea + newAreaRequested;
 
-    if (totalRequested > 500) {
-        const excess = totalRequested - 500;
-        const conflictPercentage = (excess / 500) * 100;
+    if (totalRequested > rules.capacityAcres) {
+        const excess = totalRequested - rules.capacityAcres;
+        const conflictPercentage = (excess / rules.capacityAcres) * 100;
         return {
-            status: "Flagged",
+            status: rules.statusRules.high,
             conflictSeverity: parseFloat(conflictPercentage.toFixed(2))
         };
     } else {
+        // Within capacity: the claim still has to pass Gram Sabha, SDLC and DLC review
         return {
-            status: "Approved",
+            status: rules.statusRules.withinLimits,
             conflictSeverity: 0
         };
     }
@@ -187,6 +366,12 @@ function fallbackCalculateConflict(district, newAreaRequested) {
 
 module.exports = {
     calculateSpatialConflict,
+    fallbackCalculateConflict,
+    rulesForDistrict,
+    findClaimOverlaps,
+    claimToFeature,
+    approvedAcresInZone,
+    acresOutside,
     forestZones,
     reservedForests
 };
@@ -0,0 +1,65 @@
+// @ts-check
+// Bounding-box R-tree over stored claim geometries.
+// Conflict checks query it for candidates first, so only claims whose boxes
+// touch the drawn polygon are passed to the (expensive) turf.intersect.
+
+const RBush = require('rbush');
+const turf = require('@turf/turf');
+
+/**
+ * @typedef {{ minX: number, minY: number, maxX: number, maxY: number, claimId: string }} IndexEntry
+ */
+
+/**
+ * Bounding box of a stored claim, or null when it has no geometry
+ * @param {import('fra-shared').SimulatedClaim} claim
+ * @returns {IndexEntry | null}
+ */
+const entryForClaim = (claim) => {
+    if (!claim.coordinates) return null;
+    const geometry = claim.geometryType === "MultiPolygon"
+        ? turf.multiPolygon(/** @type {number[][][][]} */ (claim.coordinates))
+        : turf.polygon(/** @type {number[][][]} */ (claim.coordinates));
+    const [minX, minY, maxX, maxY] = turf.bbox(geometry);
+    return { minX, minY, maxX, maxY, claimId: claim.claimId };
+};
+
+/**
+ * Creates an empty claim index
+ */
+const createClaimIndex = () => {
+    /** @type {RBush<IndexEntry>} */
+    const tree = new RBush();
+
+    return {
+        /**
+         * Replaces the index contents (bulk-loading is much faster than repeated inserts)
+         * @param {import('fra-shared').SimulatedClaim[]} claims
+         */
+        load(claims) {
+            tree.clear();
+            tree.load(/** @type {IndexEntry[]} */ (claims.map(entryForClaim).filter(Boolean)));
+        },
+
+        /**
+         * @param {import('fra-shared').SimulatedClaim} claim
+         */
+        insert(claim) {
+            const entry = entryForClaim(claim);
+            if (entry) tree.insert(entry);
+        },
+
+        /**
+         * IDs of claims whose bounding boxes intersect the given [minX, minY, maxX, maxY]
+         * @param {number[]} bbox
+         * @returns {string[]}
+         */
+        search([minX, minY, maxX, maxY]) {
+            return tree.search({ minX, minY, maxX, maxY }).map(entry => entry.claimId);
+        }
+    };
+};
+
+module.exports = {
+    createClaimIndex
+};
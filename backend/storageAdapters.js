@@ -0,0 +1,73 @@
+const fs = require('fs');
+const path = require('path');
+
+// Storage adapters for the simulation stores.
+// An adapter only knows how to load and save a plain JSON state object;
+// the stores own the shape of that state and keep a working copy in memory.
+
+/**
+ * Volatile adapter: state lives only for the lifetime of the process.
+ * Used by tests and for throwaway demo sessions.
+ */
+const createMemoryAdapter = (initialState = null) => {
+    let snapshot = initialState ? JSON.parse(JSON.stringify(initialState)) : null;
+
+    return {
+        name: 'memory',
+        load: () => (snapshot ? JSON.parse(JSON.stringify(snapshot)) : null),
+        save: (state) => {
+            snapshot = JSON.parse(JSON.stringify(state));
+        }
+    };
+};
+
+/**
+ * File-backed adapter: the whole state is serialized to a single JSON file.
+ * Writes go to a temporary sibling file which is then renamed over the target,
+ * so a crash mid-write never leaves a truncated store behind.
+ */
+const createFileAdapter = (filePath) => {
+    const dir = path.dirname(filePath);
+
+    return {
+        name: 'file',
+        filePath,
+        load: () => {
+            if (!fs.existsSync(filePath)) return null;
+            const raw = fs.readFileSync(filePath, 'utf-8');
+            if (!raw.trim()) return null;
+            return JSON.parse(raw);
+        },
+        save: (state) => {
+            fs.mkdirSync(dir, { recursive: true });
+            const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+            const fd = fs.openSync(tmpPath, 'w');
+            try {
+                fs.writeSync(fd, JSON.stringify(state, null, 2));
+                fs.fsyncSync(fd);
+            } finally {
+                fs.closeSync(fd);
+            }
+            fs.renameSync(tmpPath, filePath);
+        }
+    };
+};
+
+/**
+ * Picks an adapter from the environment.
+ * STORE_ADAPTER=memory keeps everything in RAM, anything else persists to
+ * STORE_DIR (defaults to backend/data/store).
+ */
+const createAdapterFromEnv = (fileName) => {
+    if (process.env.STORE_ADAPTER === 'memory') {
+        return createMemoryAdapter();
+    }
+    const storeDir = process.env.STORE_DIR || path.join(__dirname, 'data', 'store');
+    return createFileAdapter(path.join(storeDir, fileName));
+};
+
+module.exports = {
+    createMemoryAdapter,
+    createFileAdapter,
+    createAdapterFromEnv
+};
@@ -0,0 +1,52 @@
+// Conflict graph edges and the per-claim lookup index
+process.env.STORE_ADAPTER = 'memory';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const conflictGraph = require('../conflictGraph');
+const { createMemoryAdapter } = require('../storageAdapters');
+
+const overlap = (claimId, overlapAcres) => ({
+    claimId,
+    overlapAcres,
+    geometry: /** @type {any} */ ({ type: 'Polygon', coordinates: [] })
+});
+
+test.beforeEach(() => conflictGraph.useAdapter(createMemoryAdapter()));
+
+test('getEdgesFor returns the edges touching a claim from either end', () => {
+    conflictGraph.recordOverlaps('SIM-2', [overlap('SIM-1', 1.5)]);
+    conflictGraph.recordOverlaps('SIM-3', [overlap('SIM-1', 2), overlap('SIM-2', 0.5)]);
+
+    assert.equal(conflictGraph.getEdgesFor('SIM-1').length, 2);
+    assert.equal(conflictGraph.getEdgesFor('SIM-2').length, 2);
+    assert.deepEqual(conflictGraph.getEdgesFor('SIM-3').map(e => e.claimIds), [['SIM-1', 'SIM-3'], ['SIM-2', 'SIM-3']]);
+    assert.deepEqual(conflictGraph.getEdgesFor('SIM-9'), []);
+});
+
+test('a new overlap between the same pair replaces the old edge in the graph and the index', () => {
+    conflictGraph.recordOverlaps('SIM-2', [overlap('SIM-1', 1.5)]);
+    conflictGraph.recordOverlaps('SIM-1', [overlap('SIM-2', 4)]);
+
+    assert.equal(conflictGraph.getEdges().length, 1);
+    assert.deepEqual(conflictGraph.getEdgesFor('SIM-1').map(e => e.overlapAcres), [4]);
+    assert.deepEqual(conflictGraph.getEdgesFor('SIM-2').map(e => e.overlapAcres), [4]);
+});
+
+test('the index is rebuilt from stored edges when the adapter changes', () => {
+    conflictGraph.recordOverlaps('SIM-2', [overlap('SIM-1', 1.5)]);
+    const saved = { edges: conflictGraph.getEdges() };
+    conflictGraph.useAdapter({ load: () => saved, save: () => { } });
+    assert.equal(conflictGraph.getEdgesFor('SIM-2').length, 1);
+});
+
+test('removeEdgesFor drops a claim\'s edges from the graph and from both ends of the index', () => {
+    conflictGraph.recordOverlaps('SIM-2', [overlap('SIM-1', 1.5)]);
+    conflictGraph.recordOverlaps('SIM-3', [overlap('SIM-1', 2), overlap('SIM-2', 0.5)]);
+
+    conflictGraph.removeEdgesFor('SIM-1');
+
+    assert.deepEqual(conflictGraph.getEdges().map(e => e.claimIds), [['SIM-2', 'SIM-3']]);
+    assert.deepEqual(conflictGraph.getEdgesFor('SIM-1'), []);
+    assert.deepEqual(conflictGraph.getEdgesFor('SIM-3').map(e => e.claimIds), [['SIM-2', 'SIM-3']]);
+});
@@ -0,0 +1,80 @@
+// Upload readers: a file that cannot be read fails with an ImportFileError (a 400 for the
+// uploader), and a zipped Shapefile cannot expand past the decompression budget
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const JSZip = require('jszip');
+const { ImportFileError, parseImportFile } = require('../importParsers');
+
+/**
+ * A zip of the given entries, compressed as uploads usually are
+ * @param {Record<string, Buffer | string>} entries
+ */
+const zipOf = async (entries) => {
+    const zip = new JSZip();
+    Object.entries(entries).forEach(([name, data]) => zip.file(name, data));
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
+
+/**
+ * @param {RegExp} message
+ */
+const importError = (message) => (/** @type {any} */ err) => err instanceof ImportFileError && message.test(err.message);
+
+test('a Shapefile entry declared larger than the budget is not decompressed', async () => {
+    const buffer = await zipOf({ 'layer.shp': Buffer.alloc(10000) });
+
+    await assert.rejects(
+        parseImportFile(buffer, 'survey.zip', { maxUncompressedBytes: 1000 }),
+        importError(/expands to more than/)
+    );
+});
+
+test('an entry that forges a small declared size is stopped once its output passes the budget', async () => {
+    const buffer = await zipOf({ 'layer.shp': Buffer.alloc(100000) });
+    // Rewrite the uncompressed size in the central directory header to 10 bytes
+    const central = buffer.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    buffer.writeUInt32LE(10, central + 24);
+
+    await assert.rejects(
+        parseImportFile(buffer, 'survey.zip', { maxUncompressedBytes: 1000 }),
+        importError(/expands to more than/)
+    );
+});
+
+test('a damaged .shp file fails the upload as unreadable, not as a server error', async () => {
+    const buffer = await zipOf({ 'layer.shp': Buffer.from('not a shapefile at all'), 'layer.dbf': Buffer.from('nor a dbf') });
+
+    await assert.rejects(
+        parseImportFile(buffer, 'survey.zip'),
+        importError(/Could not read the Shapefile layer layer\.shp/)
+    );
+});
+
+test('a GeoJSON crs member whose name is not a string is rejected', async () => {
+    const file = Buffer.from(JSON.stringify({
+        type: 'FeatureCollection',
+        crs: { type: 'name', properties: { name: { code: 32644 } } },
+        features: []
+    }));
+
+    await assert.rejects(
+        parseImportFile(file, 'survey.geojson'),
+        importError(/must be given as a name/)
+    );
+});
+
+test('a declared EPSG code is resolved and the coordinates reprojected to WGS 84', async () => {
+    const file = Buffer.from(JSON.stringify({
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'Point', coordinates: [500000, 2200000] }
+    }));
+
+    const parsed = await parseImportFile(file, 'survey.geojson', { sourceCrs: 'EPSG:32644' });
+
+    assert.equal(parsed.sourceCrs, 'EPSG:32644');
+    const [lng, lat] = parsed.features[0].geometry.coordinates;
+    // The central meridian of UTM zone 44N is 81° E
+    assert.ok(Math.abs(lng - 81) < 1e-6);
+    assert.ok(lat > 19.8 && lat < 20);
+});
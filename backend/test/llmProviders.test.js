@@ -0,0 +1,221 @@
+// Provider chain against a local HTTP stub: streaming, idle timeout, retries with
+// backoff, retraction of streamed text and fallback to the template provider
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const http = require('node:http');
+const {
+    ProviderError,
+    createOllamaProvider,
+    createOpenAICompatibleProvider,
+    createTemplateProvider,
+    createProviderChain
+} = require('../llmProviders');
+
+// Failed attempts are logged; keep the test output readable
+test.mock.method(console, 'warn', () => { });
+
+/** @type {(req: http.IncomingMessage, res: http.ServerResponse) => void} */
+let handler;
+/** @type {number[]} */
+let requestTimes;
+const server = http.createServer((req, res) => {
+    requestTimes.push(Date.now());
+    // The body is not needed, but must be read before answering
+    req.resume();
+    req.on('end', () => handler(req, res));
+});
+let baseUrl = '';
+
+test.before(() => new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    const address = /** @type {import('node:net').AddressInfo} */ (server.address());
+    baseUrl = `http://127.0.0.1:${address.port}`;
+    resolve(undefined);
+})));
+test.after(() => {
+    server.closeAllConnections();
+    return new Promise(resolve => server.close(resolve));
+});
+test.beforeEach(() => {
+    requestTimes = [];
+});
+
+/**
+ * Answers like `ollama serve`: one JSON object per token, newline-delimited
+ * @param {http.ServerResponse} res
+ * @param {string[]} tokens
+ * @param {{ stall?: boolean }} [options] Keep the connection open after the tokens
+ */
+const streamOllama = (res, tokens, { stall = false } = {}) => {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    tokens.forEach(response => res.write(`${JSON.stringify({ response, done: false })}\n`));
+    if (!stall) res.end(`${JSON.stringify({ response: '', done: true })}\n`);
+};
+
+const ollama = () => createOllamaProvider({ baseUrl, model: 'stub' });
+const TEMPLATE = { summary: 'from template' };
+
+/**
+ * A chain request that parses JSON and records what the caller was told
+ * @param {Partial<{ parse: (text: string) => any, signal: AbortSignal }>} [overrides]
+ */
+const request = (overrides = {}) => {
+    const seen = { tokens: /** @type {string[]} */ ([]), resets: 0 };
+    return {
+        seen,
+        request: {
+            prompt: 'Write the report.',
+            schema: { type: 'object' },
+            template: () => TEMPLATE,
+            parse: (/** @type {string} */ text) => JSON.parse(text),
+            onToken: (/** @type {string} */ piece) => { seen.tokens.push(piece); },
+            onReset: () => { seen.resets++; },
+            ...overrides
+        }
+    };
+};
+
+test('streams an Ollama answer token by token and parses the whole', async () => {
+    handler = (req, res) => streamOllama(res, ['{"summary"', ': "ok"', '}']);
+    const { request: req, seen } = request();
+
+    const result = await createProviderChain([ollama(), createTemplateProvider()]).generate(req);
+
+    assert.deepEqual(result, { value: { summary: 'ok' }, provider: 'ollama:stub' });
+    assert.deepEqual(seen.tokens, ['{"summary"', ': "ok"', '}']);
+    assert.equal(seen.resets, 0);
+});
+
+test('streams an OpenAI-compatible answer from server-sent events', async () => {
+    handler = (req, res) => {
+        assert.equal(req.url, '/v1/chat/completions');
+        assert.equal(req.headers.authorization, 'Bearer secret');
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        ['{"summary":', '"sse"}'].forEach(content => res.write(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`));
+        res.end('data: [DONE]\n\n');
+    };
+    const provider = createOpenAICompatibleProvider({ baseUrl: `${baseUrl}/v1/`, model: 'stub', apiKey: 'secret' });
+
+    const result = await createProviderChain([provider]).generate(request().request);
+
+    assert.deepEqual(result, { value: { summary: 'sse' }, provider: 'openai:stub' });
+});
+
+test('an attempt that stops producing output times out, its text is retracted and the template answers', async () => {
+    handler = (req, res) => streamOllama(res, ['{"summ'], { stall: true });
+    const { request: req, seen } = request();
+    const started = Date.now();
+
+    const result = await createProviderChain([ollama(), createTemplateProvider()], { timeoutMs: 150, retries: 0 }).generate(req);
+
+    assert.equal(result.provider, 'template');
+    assert.deepEqual(result.value, TEMPLATE);
+    assert.equal(requestTimes.length, 1);
+    assert.ok(Date.now() - started >= 150);
+    // The stalled attempt's partial text was withdrawn before the template streamed
+    assert.equal(seen.resets, 1);
+    assert.equal(seen.tokens[0], '{"summ');
+    assert.deepEqual(JSON.parse(seen.tokens.slice(1).join('')), TEMPLATE);
+});
+
+test('the idle timeout restarts with every piece of output', async () => {
+    handler = (req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        const pieces = ['{"summary"', ': "slow', ' but steady"', '}'];
+        // Four pieces 100 ms apart: longer than the 150 ms timeout in total, never idle for that long
+        const timer = setInterval(() => {
+            const piece = pieces.shift();
+            if (piece === undefined) {
+                clearInterval(timer);
+                res.end();
+                return;
+            }
+            res.write(`${JSON.stringify({ response: piece })}\n`);
+        }, 100);
+        res.on('close', () => clearInterval(timer));
+    };
+
+    const result = await createProviderChain([ollama()], { timeoutMs: 150, retries: 0 }).generate(request().request);
+
+    assert.deepEqual(result.value, { summary: 'slow but steady' });
+});
+
+test('retryable failures are retried after a growing backoff', async () => {
+    let calls = 0;
+    handler = (req, res) => {
+        calls++;
+        if (calls <= 2) {
+            res.writeHead(503, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'model loading' }));
+            return;
+        }
+        streamOllama(res, ['{"summary": "third time"}']);
+    };
+
+    const result = await createProviderChain([ollama()], { retries: 2, backoffMs: 80 }).generate(request().request);
+
+    assert.deepEqual(result, { value: { summary: 'third time' }, provider: 'ollama:stub' });
+    assert.equal(requestTimes.length, 3);
+    // Backoff is backoffMs times the attempt number: 80 ms, then 160 ms
+    assert.ok(requestTimes[1] - requestTimes[0] >= 80);
+    assert.ok(requestTimes[2] - requestTimes[1] >= 160);
+});
+
+test('a client error is not retried and falls through to the next provider', async () => {
+    handler = (req, res) => {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'model "stub" not found' }));
+    };
+
+    const result = await createProviderChain([ollama(), createTemplateProvider()], { retries: 3, backoffMs: 10 }).generate(request().request);
+
+    assert.equal(result.provider, 'template');
+    assert.equal(requestTimes.length, 1);
+});
+
+test('an answer the caller cannot parse is retried, and its streamed text retracted first', async () => {
+    let calls = 0;
+    handler = (req, res) => streamOllama(res, [++calls === 1 ? '{"summary": ' : '{"summary": "fixed"}']);
+    const { request: req, seen } = request({
+        parse: (text) => {
+            try {
+                return JSON.parse(text);
+            } catch {
+                throw new ProviderError('returned invalid JSON', true);
+            }
+        }
+    });
+
+    const result = await createProviderChain([ollama()], { retries: 1, backoffMs: 10 }).generate(req);
+
+    assert.deepEqual(result.value, { summary: 'fixed' });
+    assert.equal(seen.resets, 1);
+});
+
+test('when every provider fails the error names each of them', async () => {
+    handler = (req, res) => {
+        res.writeHead(500);
+        res.end();
+    };
+    const unreachable = createOllamaProvider({ baseUrl: 'http://127.0.0.1:1', model: 'offline' });
+
+    await assert.rejects(
+        createProviderChain([ollama(), unreachable], { retries: 1, backoffMs: 10 }).generate(request().request),
+        (err) => err instanceof ProviderError
+            && /ollama:stub HTTP 500/.test(err.message)
+            && /ollama:offline unreachable/.test(err.message)
+    );
+    assert.equal(requestTimes.length, 2);
+});
+
+test("aborting the caller's signal stops the chain without trying the template", async () => {
+    handler = (req, res) => streamOllama(res, ['{"summ'], { stall: true });
+    const controller = new AbortController();
+    const { request: req } = request({ signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    await assert.rejects(
+        createProviderChain([ollama(), createTemplateProvider()], { timeoutMs: 5000 }).generate(req),
+        (err) => err instanceof ProviderError && err.message === 'cancelled'
+    );
+    assert.equal(requestTimes.length, 1);
+});
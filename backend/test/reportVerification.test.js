@@ -0,0 +1,75 @@
+// Grounding check of model-written reports: each figure is verified against the field it cites
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { checkReport, numericFields } = require('../reportVerification');
+
+const data = {
+    district: 'Kandhamal',
+    counts: { total: 12, conflicts: 4, pending: 7, conflictPct: 33.333 },
+    risk: { score: 41.5, level: 'Moderate', drivers: [{ factor: 'Pending claims', points: 17.5 }] },
+    claims: [{ claimId: 'SIM-1', severityPct: 62 }]
+};
+const evidence = /** @type {any} */ ({
+    claims: data.claims,
+    risk: { risk_level: 'Moderate' }
+});
+const prompt = `DATA (JSON):\n${JSON.stringify(data)}`;
+
+/**
+ * A model answer whose first finding cites the given figures. A second, sound finding
+ * keeps the report from being rejected as mostly untraceable.
+ * @param {{ label: string, value: number, source: string }[]} figures
+ */
+const answer = (figures) => JSON.stringify({
+    summary: 'Kandhamal needs attention.',
+    riskLevel: 'Moderate',
+    findings: [
+        { statement: 'Several claims conflict.', claimIds: ['SIM-1'], figures },
+        { statement: 'Claims are pending.', claimIds: [], figures: [{ label: 'Pending claims', value: 7, source: 'counts.pending' }] }
+    ],
+    recommendedActions: [],
+    legalReferences: []
+});
+
+test('numericFields lists every number in the data by its path', () => {
+    const fields = numericFields(data);
+    assert.equal(fields.get('counts.conflicts'), 4);
+    assert.equal(fields.get('risk.drivers[0].points'), 17.5);
+    assert.equal(fields.get('claims[0].severityPct'), 62);
+    assert.equal(fields.has('district'), false);
+});
+
+test('a figure matching the field it cites is verified, allowing for rounding', () => {
+    const report = checkReport(answer([
+        { label: 'Claims in conflict', value: 4, source: 'counts.conflicts' },
+        { label: 'Conflict percentage', value: 33.3, source: 'data.counts.conflictPct' }
+    ]), evidence, prompt, data);
+
+    assert.deepEqual(report.findings[0].figures.map(f => [f.source, f.verified]), [
+        ['counts.conflicts', true],
+        ['counts.conflictPct', true]
+    ]);
+    assert.deepEqual(report.findings[0].issues, []);
+});
+
+test('a real number under the wrong field is not verified', () => {
+    // 7 is in the data, but it is the pending count, not the conflict count
+    const report = checkReport(answer([{ label: 'Claims in conflict', value: 7, source: 'counts.conflicts' }]), evidence, prompt, data);
+
+    assert.equal(report.findings[0].figures[0].verified, false);
+    assert.match(report.findings[0].issues[0], /does not match counts\.conflicts, which is 4/);
+});
+
+test('a figure citing a field that does not exist is not verified', () => {
+    const report = checkReport(answer([{ label: 'Total claims', value: 12, source: 'counts.claims' }]), evidence, prompt, data);
+
+    assert.equal(report.findings[0].figures[0].verified, false);
+    assert.match(report.findings[0].issues[0], /cites counts\.claims, which is not a number in the data/);
+});
+
+test('a report whose findings are mostly untraceable is rejected for the chain to retry', () => {
+    const wrong = { label: 'Claims in conflict', value: 7, source: 'counts.conflicts' };
+    const text = JSON.stringify({ ...JSON.parse(answer([wrong])), findings: [{ statement: 'Conflicts.', claimIds: [], figures: [wrong] }] });
+
+    assert.throws(() => checkReport(text, evidence, prompt, data), /1 of 1 findings not backed by the data/);
+});
@@ -0,0 +1,74 @@
+// Risk config updates: merging, validation and persistence through the storage adapter
+process.env.STORE_ADAPTER = 'memory';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { validateUpdateRiskConfigRequest } = require('fra-shared');
+const riskConfig = require('../riskConfigStore');
+const { createMemoryAdapter } = require('../storageAdapters');
+
+const FACTORS = Object.keys(riskConfig.DEFAULT_CONFIG.weights);
+
+test.beforeEach(() => riskConfig.useAdapter(createMemoryAdapter()));
+
+test('default weights add up to 1', () => {
+    const total = Object.values(riskConfig.DEFAULT_CONFIG.weights).reduce((sum, w) => sum + w, 0);
+    assert.ok(Math.abs(total - 1) < 1e-9);
+});
+
+test('a partial update keeps the fields it does not mention', () => {
+    const result = riskConfig.updateConfig({ weights: { pendingShare: 0.5 }, thresholds: { moderateMax: 80 } }, FACTORS);
+
+    assert.ok('config' in result);
+    assert.equal(riskConfig.getConfig().weights.pendingShare, 0.5);
+    assert.equal(riskConfig.getConfig().weights.conflictShare, riskConfig.DEFAULT_CONFIG.weights.conflictShare);
+    assert.deepEqual(riskConfig.getConfig().thresholds, { lowMax: riskConfig.DEFAULT_CONFIG.thresholds.lowMax, moderateMax: 80 });
+    assert.equal(riskConfig.getConfig().pendingAgeFullDays, riskConfig.DEFAULT_CONFIG.pendingAgeFullDays);
+});
+
+test('weights for unregistered factors are refused and nothing changes', () => {
+    const result = riskConfig.updateConfig({ weights: { pendingShare: 0.9, madeUp: 0.1 } }, FACTORS);
+
+    assert.deepEqual(result, { error: 'Unknown risk factor: madeUp.' });
+    assert.deepEqual(riskConfig.getConfig(), riskConfig.DEFAULT_CONFIG);
+});
+
+test('thresholds must leave room for the Moderate band', () => {
+    assert.ok('error' in riskConfig.updateConfig({ thresholds: { lowMax: 70 } }, FACTORS));
+    assert.ok('error' in riskConfig.updateConfig({ thresholds: { lowMax: 50, moderateMax: 45 } }, FACTORS));
+    assert.deepEqual(riskConfig.getConfig().thresholds, riskConfig.DEFAULT_CONFIG.thresholds);
+
+    assert.ok('config' in riskConfig.updateConfig({ thresholds: { lowMax: 75, moderateMax: 90 } }, FACTORS));
+});
+
+test('an accepted update is saved and reloaded from the adapter', () => {
+    const adapter = createMemoryAdapter();
+    riskConfig.useAdapter(adapter);
+    riskConfig.updateConfig({ weights: { pendingAge: 0.25 }, pendingAgeFullDays: 30 }, FACTORS);
+
+    riskConfig.useAdapter(createMemoryAdapter());
+    assert.equal(riskConfig.getConfig().pendingAgeFullDays, riskConfig.DEFAULT_CONFIG.pendingAgeFullDays);
+
+    riskConfig.useAdapter(adapter);
+    assert.equal(riskConfig.getConfig().weights.pendingAge, 0.25);
+    assert.equal(riskConfig.getConfig().pendingAgeFullDays, 30);
+});
+
+test('a stored config from an older version is completed with the defaults', () => {
+    riskConfig.useAdapter(createMemoryAdapter({ config: { weights: { pendingShare: 0.4 } } }));
+
+    assert.equal(riskConfig.getConfig().weights.pendingShare, 0.4);
+    assert.equal(riskConfig.getConfig().weights.reservedViolations, riskConfig.DEFAULT_CONFIG.weights.reservedViolations);
+    assert.deepEqual(riskConfig.getConfig().thresholds, riskConfig.DEFAULT_CONFIG.thresholds);
+});
+
+test('the request schema rejects negative weights and non-positive ages', () => {
+    assert.equal(validateUpdateRiskConfigRequest({ weights: { pendingShare: 0.2 }, pendingAgeFullDays: 60 }).ok, true);
+
+    const negative = validateUpdateRiskConfigRequest({ weights: { pendingShare: -0.1 } });
+    assert.equal(negative.ok, false);
+    assert.equal(!negative.ok && negative.issues[0].path, 'weights.pendingShare');
+
+    assert.equal(validateUpdateRiskConfigRequest({ pendingAgeFullDays: 0 }).ok, false);
+    assert.equal(validateUpdateRiskConfigRequest({ thresholds: { lowMax: 'high' } }).ok, false);
+});
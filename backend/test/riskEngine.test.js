@@ -0,0 +1,126 @@
+// District risk scores: factor weights, clamping and the Low / Moderate / High thresholds
+process.env.STORE_ADAPTER = 'memory';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const riskEngine = require('../riskEngine');
+const riskConfig = require('../riskConfigStore');
+const conflictGraph = require('../conflictGraph');
+const { createMemoryAdapter } = require('../storageAdapters');
+
+const NOW = Date.parse('2026-06-01T00:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ALL_FACTORS = ['pendingShare', 'conflictShare', 'pendingAge', 'reservedViolations', 'overlapAcreage', 'capacityUtilization'];
+
+/**
+ * A drawn, pending claim submitted some days before NOW
+ * @param {string} claimId
+ * @param {number} daysOpen
+ */
+const pendingClaim = (claimId, daysOpen) => /** @type {any} */ ({
+    claimId,
+    district: 'Nowhere',
+    status: 'Submitted',
+    areaRequested: 1,
+    coordinates: [[[80, 20], [80.01, 20], [80.01, 20.01], [80, 20]]],
+    areaCheck: { drawnAcres: 1 },
+    zoneBreakdown: null,
+    timestamp: new Date(NOW - daysOpen * DAY_MS).toISOString()
+});
+
+/**
+ * District context with the given counts; the district has no mapped forest zones
+ * @param {Partial<import('../claimAnalytics').DistrictCounts>} counts
+ * @param {any[]} [claims]
+ */
+const context = (counts, claims = []) => ({
+    district: 'Nowhere',
+    claims,
+    counts: { total: 0, approved: 0, pending: 0, conflicts: 0, reservedViolations: 0, ...counts },
+    statusOf: () => /** @type {const} */ ('Pending')
+});
+
+/**
+ * Gives one factor all the weight, so the score is that factor's value
+ * @param {string} factorId
+ */
+const onlyWeight = (factorId) => {
+    const weights = Object.fromEntries(ALL_FACTORS.map(id => [id, id === factorId ? 1 : 0]));
+    assert.ok('config' in riskConfig.updateConfig({ weights }, riskEngine.listFactors().map(f => f.factorId)));
+};
+
+test.beforeEach(() => {
+    riskConfig.useAdapter(createMemoryAdapter());
+    conflictGraph.useAdapter(createMemoryAdapter());
+});
+
+test('each factor contributes its value times its configured weight', () => {
+    const claims = [pendingClaim('SIM-1', 120), pendingClaim('SIM-2', 120)];
+    conflictGraph.recordOverlaps('SIM-2', [{ claimId: 'SIM-1', overlapAcres: 5, geometry: /** @type {any} */ (null) }]);
+
+    const result = riskEngine.assessDistrict(context({ total: 2, pending: 2, conflicts: 1, reservedViolations: 1 }, claims), NOW);
+    const points = Object.fromEntries(result.explanation.map(c => [c.factorId, c.points]));
+
+    assert.deepEqual(points, {
+        pendingShare: 30, // 100% pending x 0.3
+        conflictShare: 15, // 50% in conflict x 0.3
+        pendingAge: 10, // past the 90-day full-risk age x 0.1
+        reservedViolations: 10, // one violation is 50 points x 0.2
+        overlapAcreage: 5, // overlap exceeds the drawn acres, clamped to 100 x 0.05
+        capacityUtilization: 0 // no forest zones in the district
+    });
+    assert.equal(result.risk_score, 70);
+    assert.equal(result.risk_level, 'Moderate');
+    // Largest contributions first
+    assert.equal(result.explanation[0].factorId, 'pendingShare');
+});
+
+test('a changed weight changes the score without touching the factor value', () => {
+    const ctx = context({ total: 4, pending: 2 });
+    const before = riskEngine.assessDistrict(ctx, NOW).explanation.find(c => c.factorId === 'pendingShare');
+    riskConfig.updateConfig({ weights: { pendingShare: 0.6 } }, riskEngine.listFactors().map(f => f.factorId));
+    const after = riskEngine.assessDistrict(ctx, NOW).explanation.find(c => c.factorId === 'pendingShare');
+
+    assert.equal(before?.value, 50);
+    assert.equal(after?.value, 50);
+    assert.equal(before?.points, 15);
+    assert.equal(after?.points, 30);
+});
+
+test('score boundaries: up to lowMax is Low, up to moderateMax is Moderate, above is High', () => {
+    onlyWeight('pendingShare');
+    const levelAt = (pending) => riskEngine.assessDistrict(context({ total: 100, pending }), NOW);
+
+    assert.deepEqual([40, 41, 70, 71].map(p => levelAt(p).risk_level), ['Low', 'Moderate', 'Moderate', 'High']);
+    assert.equal(levelAt(40).risk_score, 40);
+
+    riskConfig.updateConfig({ thresholds: { lowMax: 20, moderateMax: 30 } }, []);
+    assert.equal(levelAt(25).risk_level, 'Moderate');
+    assert.equal(levelAt(31).risk_level, 'High');
+});
+
+test('pending age is measured against the configured full-risk age', () => {
+    onlyWeight('pendingAge');
+    const claims = [pendingClaim('SIM-1', 30), pendingClaim('SIM-2', 60)];
+
+    assert.equal(riskEngine.assessDistrict(context({}, claims), NOW).risk_score, 50);
+    riskConfig.updateConfig({ pendingAgeFullDays: 45 }, []);
+    assert.equal(riskEngine.assessDistrict(context({}, claims), NOW).risk_score, 100);
+});
+
+test('a registered factor counts only once it has a weight, and its value is clamped to 0-100', () => {
+    riskEngine.registerRiskFactor({
+        factorId: 'testFactor',
+        label: 'Test factor',
+        description: 'Always reads 250.',
+        measure: () => ({ value: 250, detail: 'fixed' })
+    });
+    assert.ok(riskEngine.listFactors().some(f => f.factorId === 'testFactor'));
+
+    const unweighted = riskEngine.assessDistrict(context({}), NOW).explanation.find(c => c.factorId === 'testFactor');
+    assert.deepEqual([unweighted?.weight, unweighted?.points], [0, 0]);
+
+    riskConfig.updateConfig({ weights: { testFactor: 0.5 } }, riskEngine.listFactors().map(f => f.factorId));
+    const weighted = riskEngine.assessDistrict(context({}), NOW).explanation.find(c => c.factorId === 'testFactor');
+    assert.deepEqual([weighted?.value, weighted?.points], [100, 50]);
+});
@@ -0,0 +1,88 @@
+// R-tree lookups over stored claims: same answers as a full scan, and sub-linear cost
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createClaimIndex } = require('../spatialIndex');
+
+/**
+ * Small square claims on a grid across central India, deterministic so runs compare
+ * @param {number} count
+ */
+function gridClaims(count) {
+    const side = Math.ceil(Math.sqrt(count));
+    return Array.from({ length: count }, (_, i) => {
+        const lon = 78 + (i % side) * (8 / side);
+        const lat = 18 + Math.floor(i / side) * (6 / side);
+        const d = 2 / side;
+        return {
+            claimId: `SIM-${i + 1}`,
+            geometryType: 'Polygon',
+            coordinates: [[[lon, lat], [lon + d, lat], [lon + d, lat + d], [lon, lat + d], [lon, lat]]]
+        };
+    });
+}
+
+const boxesTouch = (a, b) => a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+const claimBox = (claim) => {
+    const ring = claim.coordinates[0];
+    return [ring[0][0], ring[0][1], ring[2][0], ring[2][1]];
+};
+
+/**
+ * Time of one search in nanoseconds: the best of several timed batches, which
+ * filters out pauses from the garbage collector and other processes
+ * @param {(query: number[]) => unknown} search
+ * @param {number[][]} queries
+ */
+function timeSearches(search, queries) {
+    let best = Infinity;
+    for (let batch = 0; batch < 7; batch++) {
+        const start = process.hrtime.bigint();
+        for (let r = 0; r < 10; r++) queries.forEach(search);
+        best = Math.min(best, Number(process.hrtime.bigint() - start) / (10 * queries.length));
+    }
+    return best;
+}
+
+const queries = Array.from({ length: 200 }, (_, i) => {
+    const lon = 78 + ((i * 37) % 100) / 100 * 8;
+    const lat = 18 + ((i * 61) % 100) / 100 * 6;
+    return [lon, lat, lon + 0.05, lat + 0.05];
+});
+
+test('search returns exactly the claims whose boxes touch the query', () => {
+    const claims = gridClaims(2000);
+    const index = createClaimIndex();
+    index.load(/** @type {any} */ (claims));
+
+    queries.slice(0, 50).forEach(q => {
+        const expected = claims.filter(c => boxesTouch(claimBox(c), q)).map(c => c.claimId).sort();
+        assert.deepEqual(index.search(q).sort(), expected);
+    });
+});
+
+test('insert adds a claim to later searches', () => {
+    const index = createClaimIndex();
+    index.load([]);
+    index.insert(/** @type {any} */ (gridClaims(1)[0]));
+    assert.deepEqual(index.search([77, 17, 79, 19]), ['SIM-1']);
+    assert.deepEqual(index.search([90, 30, 91, 31]), []);
+});
+
+test('benchmark: search cost grows sub-linearly with the number of claims', () => {
+    const small = createClaimIndex();
+    small.load(/** @type {any} */ (gridClaims(1000)));
+    const largeClaims = gridClaims(32000);
+    const large = createClaimIndex();
+    large.load(/** @type {any} */ (largeClaims));
+    const largeBoxes = largeClaims.map(claimBox);
+
+    const smallNs = timeSearches(q => small.search(q), queries);
+    const largeNs = timeSearches(q => large.search(q), queries);
+    const scanNs = timeSearches(q => largeBoxes.filter(box => boxesTouch(box, q)), queries);
+    const growth = largeNs / smallNs;
+
+    console.log(`R-tree search: ${(smallNs / 1000).toFixed(2)} µs at 1,000 claims, ${(largeNs / 1000).toFixed(2)} µs at 32,000 (x${growth.toFixed(1)}); full scan of 32,000: ${(scanNs / 1000).toFixed(1)} µs`);
+    // Linear cost would grow about 32 times; the margin absorbs noise on shared machines
+    assert.ok(growth < 10, `search got ${growth.toFixed(1)}x slower for 32x the claims`);
+    assert.ok(scanNs / largeNs > 10, `the index is only ${(scanNs / largeNs).toFixed(1)}x faster than a full scan`);
+});
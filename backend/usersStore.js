@@ -0,0 +1,105 @@
+// User accounts for the Simulation Layer.
+// Persisted through the same storage adapters as the claims store.
+
+const bcrypt = require('bcryptjs');
+const { createAdapterFromEnv } = require('./storageAdapters');
+
+const ROLES = {
+    CITIZEN: "citizen",
+    DISTRICT_OFFICER: "district_officer",
+    STATE_ADMIN: "state_admin"
+};
+
+// Demo accounts created on first start so the simulation is usable out of the box.
+// Officers are bound to a single district; the state admin sees every district.
+const SEED_USERS = [
+    { username: "ramesh", name: "Ramesh Kumar", password: "citizen123", role: ROLES.CITIZEN, district: null },
+    { username: "sita", name: "Sita Majhi", password: "citizen123", role: ROLES.CITIZEN, district: null },
+    { username: "officer.kandhamal", name: "Kandhamal DLC Officer", password: "officer123", role: ROLES.DISTRICT_OFFICER, district: "Kandhamal" },
+    { username: "officer.bastar", name: "Bastar DLC Officer", password: "officer123", role: ROLES.DISTRICT_OFFICER, district: "Bastar" },
+    { username: "officer.mandla", name: "Mandla DLC Officer", password: "officer123", role: ROLES.DISTRICT_OFFICER, district: "Mandla" },
+    { username: "stateadmin", name: "State Nodal Officer", password: "admin123", role: ROLES.STATE_ADMIN, district: null }
+];
+
+const HASH_ROUNDS = 10;
+
+let adapter = null;
+let users = [];
+let nextId = 1;
+
+const persist = () => {
+    adapter.save({ nextId, users });
+};
+
+/**
+ * Strips the password hash before a user object leaves the backend
+ */
+const toPublicUser = (user) => {
+    if (!user) return null;
+    const { passwordHash, ...publicUser } = user;
+    return publicUser;
+};
+
+const findByUsername = (username) => {
+    return users.find(u => u.username === String(username || '').toLowerCase()) || null;
+};
+
+const findById = (userId) => {
+    return users.find(u => u.userId === userId) || null;
+};
+
+/**
+ * Creates a new account. Returns null if the username is taken.
+ */
+const createUser = ({ username, name, password, role = ROLES.CITIZEN, district = null }) => {
+    if (findByUsername(username)) return null;
+
+    const user = {
+        userId: `USR-${nextId++}`,
+        username: String(username).toLowerCase(),
+        name,
+        role,
+        district,
+        passwordHash: bcrypt.hashSync(password, HASH_ROUNDS),
+        createdAt: new Date().toISOString()
+    };
+
+    users.push(user);
+    persist();
+    return user;
+};
+
+/**
+ * Returns the user if the credentials match, otherwise null
+ */
+const verifyCredentials = (username, password) => {
+    const user = findByUsername(username);
+    if (!user || !password) return null;
+    return bcrypt.compareSync(password, user.passwordHash) ? user : null;
+};
+
+/**
+ * Swaps the storage adapter and reloads state from it, seeding demo users on an empty store
+ */
+const useAdapter = (newAdapter) => {
+    adapter = newAdapter;
+    const state = adapter.load() || {};
+    users = Array.isArray(state.users) ? state.users : [];
+    nextId = Number(state.nextId) || users.length + 1;
+
+    if (users.length === 0) {
+        SEED_USERS.forEach(seed => createUser(seed));
+    }
+};
+
+useAdapter(createAdapterFromEnv('users.json'));
+
+module.exports = {
+    ROLES,
+    toPublicUser,
+    findByUsername,
+    findById,
+    createUser,
+    verifyCredentials,
+    useAdapter
+};
@@ -0,0 +1,168 @@
+// @ts-check
+// Per-zone conflict rules for the Simulation Layer: zone capacity, severity
+// thresholds and the intake status given to each engine outcome.
+// Every zone inherits the defaults and may override any part of them.
+// Persisted through the same storage adapters as the claims store.
+
+const { createAdapterFromEnv } = require('./storageAdapters');
+
+/** @typedef {import('fra-shared').ZoneRules} ZoneRules */
+/** @typedef {import('fra-shared').ZoneRulesOverride} ZoneRulesOverride */
+
+/** @type {ZoneRules} */
+const DEFAULT_RULES = {
+    capacityAcres: 500,
+    thresholds: { moderateAbovePct: 0, flaggedAbovePct: 10 },
+    statusRules: {
+        withinLimits: "Under Review",
+        moderate: "Moderate Conflict",
+        high: "Flagged",
+        outsideZone: "Flagged",
+        reservedForest: "Reserved Violation"
+    }
+};
+
+/** @type {{ load: () => any, save: (state: any) => void }} */
+let adapter;
+/** @type {ZoneRules} */
+let defaults = DEFAULT_RULES;
+/** @type {Record<string, ZoneRulesOverride>} */
+let overrides = {};
+/** @type {Map<string, string>} zoneId -> district, filled by registerZones */
+const zoneDistricts = new Map();
+
+/**
+ * Swaps the storage adapter and reloads state from it.
+ */
+const useAdapter = (newAdapter) => {
+    adapter = newAdapter;
+    const state = adapter.load() || {};
+    defaults = state.defaults ? mergeRules(DEFAULT_RULES, state.defaults) : DEFAULT_RULES;
+    overrides = state.overrides || {};
+};
+
+const persist = () => {
+    adapter.save({ defaults, overrides });
+};
+
+/**
+ * Applies an override on top of a full rule set
+ * @param {ZoneRules} base
+ * @param {ZoneRulesOverride} override
+ * @returns {ZoneRules}
+ */
+function mergeRules(base, override) {
+    return {
+        capacityAcres: override.capacityAcres ?? base.capacityAcres,
+        thresholds: { ...base.thresholds, ...override.thresholds },
+        statusRules: { ...base.statusRules, ...override.statusRules }
+    };
+}
+
+/**
+ * Returns a message if the rules are inconsistent, otherwise null
+ * @param {ZoneRules} rules
+ */
+const checkRules = (rules) => {
+    if (rules.thresholds.moderateAbovePct >= rules.thresholds.flaggedAbovePct) {
+        return "thresholds.moderateAbovePct must be lower than thresholds.flaggedAbovePct.";
+    }
+    return null;
+};
+
+/**
+ * Makes the forest zones known to the config. A zone seen for the first time
+ * takes its capacity from the zone file; after that the config is authoritative.
+ * @param {{ properties: import('fra-shared').ForestZoneProperties }[]} zoneFeatures
+ */
+const registerZones = (zoneFeatures) => {
+    let seeded = false;
+    zoneFeatures.forEach(({ properties }) => {
+        zoneDistricts.set(properties.zoneId, properties.district);
+        if (!overrides[properties.zoneId]) {
+            overrides[properties.zoneId] = { capacityAcres: properties.totalArea };
+            seeded = true;
+        }
+    });
+    if (seeded) persist();
+};
+
+const getDefaults = () => {
+    return defaults;
+};
+
+/**
+ * Effective rules for a zone; unknown zones get the defaults
+ * @param {string} zoneId
+ * @returns {ZoneRules}
+ */
+const getRulesForZone = (zoneId) => {
+    return mergeRules(defaults, overrides[zoneId] || {});
+};
+
+/**
+ * Effective rules of every registered zone
+ * @returns {import('fra-shared').ResolvedZoneRules[]}
+ */
+const listZoneRules = () => {
+    return [...zoneDistricts.entries()].map(([zoneId, district]) => ({
+        zoneId,
+        district,
+        ...getRulesForZone(zoneId)
+    }));
+};
+
+/**
+ * Updates the default rules. Returns { error } if the result is inconsistent.
+ * @param {ZoneRulesOverride} patch
+ */
+const updateDefaults = (patch) => {
+    const next = mergeRules(defaults, patch);
+    const error = checkRules(next);
+    if (error) return { error };
+    // Zone overrides sit on top of the defaults, so they must stay consistent too
+    for (const [zoneId, override] of Object.entries(overrides)) {
+        const zoneError = checkRules(mergeRules(next, override));
+        if (zoneError) return { error: `${zoneId}: ${zoneError}` };
+    }
+    defaults = next;
+    persist();
+    return { rules: defaults };
+};
+
+/**
+ * Updates one zone's overrides. Returns null for an unknown zone,
+ * or { error } if the result is inconsistent.
+ * @param {string} zoneId
+ * @param {ZoneRulesOverride} patch
+ */
+const updateZone = (zoneId, patch) => {
+    if (!zoneDistricts.has(zoneId)) return null;
+
+    const current = overrides[zoneId] || {};
+    const nextOverride = {
+        ...current,
+        ...(patch.capacityAcres !== undefined ? { capacityAcres: patch.capacityAcres } : {}),
+        thresholds: { ...current.thresholds, ...patch.thresholds },
+        statusRules: { ...current.statusRules, ...patch.statusRules }
+    };
+    const error = checkRules(mergeRules(defaults, nextOverride));
+    if (error) return { error };
+
+    overrides[zoneId] = nextOverride;
+    persist();
+    return { rules: { zoneId, district: zoneDistricts.get(zoneId) || '', ...getRulesForZone(zoneId) } };
+};
+
+useAdapter(createAdapterFromEnv('zoneConfig.json'));
+
+module.exports = {
+    DEFAULT_RULES,
+    registerZones,
+    getDefaults,
+    getRulesForZone,
+    listZoneRules,
+    updateDefaults,
+    updateZone,
+    useAdapter
+};
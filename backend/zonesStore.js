@@ -0,0 +1,108 @@
+// @ts-check
+// Forest and reserved-forest zone layers for the Simulation Layer.
+// The checked-in GeoJSON files are the base layers; zones added by a bulk
+// import are persisted through the storage adapters and laid on top.
+// The two collections are mutated in place so every holder of a reference
+// (the conflict engine, the zone endpoints) always sees the current zones.
+
+const fs = require('fs');
+const path = require('path');
+const { createAdapterFromEnv } = require('./storageAdapters');
+const zoneConfig = require('./zoneConfigStore');
+
+/** @typedef {import('fra-shared').ForestZoneProperties} ForestZoneProperties */
+/** @typedef {import('fra-shared').ReservedZoneProperties} ReservedZoneProperties */
+
+// Load static forest zones for Phase 6
+const ZONES_FILE = path.join(__dirname, 'data', 'forestZones.geojson');
+// Phase 8: Load reserved forests
+const RESERVED_FILE = path.join(__dirname, 'data', 'reservedForests.geojson');
+
+/**
+ * @param {string} filePath
+ * @returns {any[]}
+ */
+const readBaseFeatures = (filePath) => {
+    try {
+        if (!fs.existsSync(filePath)) return [];
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8')).features || [];
+    } catch (err) {
+        console.error("Error reading geojson files:", err);
+        return [];
+    }
+};
+
+const baseForestZones = readBaseFeatures(ZONES_FILE);
+const baseReservedZones = readBaseFeatures(RESERVED_FILE);
+
+/** @type {import('fra-shared').GeoJSONFeatureCollection<ForestZoneProperties>} */
+const forestZones = { type: "FeatureCollection", features: [] };
+/** @type {import('fra-shared').GeoJSONFeatureCollection<ReservedZoneProperties>} */
+const reservedForests = { type: "FeatureCollection", features: [] };
+
+/** @type {{ load: () => any, save: (state: any) => void }} */
+let adapter;
+/** @type {{ forestZones: any[], reservedZones: any[] }} */
+let imported = { forestZones: [], reservedZones: [] };
+
+/**
+ * Swaps the storage adapter and reloads the imported zones from it.
+ */
+const useAdapter = (newAdapter) => {
+    adapter = newAdapter;
+    const state = adapter.load() || {};
+    imported = {
+        forestZones: Array.isArray(state.forestZones) ? state.forestZones : [],
+        reservedZones: Array.isArray(state.reservedZones) ? state.reservedZones : []
+    };
+    forestZones.features.splice(0, forestZones.features.length, ...baseForestZones, ...imported.forestZones);
+    reservedForests.features.splice(0, reservedForests.features.length, ...baseReservedZones, ...imported.reservedZones);
+
+    // Capacity and status rules live in the zone config, seeded from the zone file
+    zoneConfig.registerZones(forestZones.features);
+};
+
+const persist = () => {
+    adapter.save(imported);
+};
+
+/**
+ * True when a forest or reserved zone with this ID already exists
+ * @param {string} zoneId
+ */
+const hasZone = (zoneId) => {
+    return forestZones.features.some(f => f.properties.zoneId === zoneId)
+        || reservedForests.features.some(f => f.properties.zoneId === zoneId);
+};
+
+/**
+ * Adds an imported forest zone and registers it with the zone config
+ * @param {any} feature Feature with ForestZoneProperties
+ */
+const addForestZone = (feature) => {
+    imported.forestZones.push(feature);
+    forestZones.features.push(feature);
+    zoneConfig.registerZones([feature]);
+    persist();
+};
+
+/**
+ * Adds an imported reserved-forest zone
+ * @param {any} feature Feature with ReservedZoneProperties
+ */
+const addReservedZone = (feature) => {
+    imported.reservedZones.push(feature);
+    reservedForests.features.push(feature);
+    persist();
+};
+
+useAdapter(createAdapterFromEnv('importedZones.json'));
+
+module.exports = {
+    forestZones,
+    reservedForests,
+    hasZone,
+    addForestZone,
+    addReservedZone,
+    useAdapter
+};
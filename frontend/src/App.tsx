@@ -1,16 +1,56 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import MapComponent from './components/MapComponent';
 import DashboardPanel from './components/DashboardPanel';
 import SimulationPanel from './components/SimulationPanel';
+import ClaimFilterBar from './components/ClaimFilterBar';
+import ClaimDetailPanel from './components/ClaimDetailPanel';
+import { useAreaUnit } from './hooks/useAreaUnit';
+import { paths, useAppRoute } from './hooks/useAppRoute';
+import { useAuth } from './context/AuthContext';
+import { AREA_UNITS, AREA_UNIT_LABELS, type AreaUnit, type SimulatedClaim } from 'fra-shared';
 import { LayoutDashboard, Layers } from 'lucide-react';
 
+// The dashboard is open unless the URL says ?dashboard=closed
+const DASHBOARD_PARAM = 'dashboard';
+
 function App() {
-    const [showDashboard, setShowDashboard] = useState(true);
-    const [showSimulation, setShowSimulation] = useState(false);
+    const [route, go] = useAppRoute();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const { user } = useAuth();
+    const [areaUnit, setAreaUnit] = useAreaUnit();
+
+    const showDashboard = searchParams.get(DASHBOARD_PARAM) !== 'closed';
+    const toggleDashboard = () => setSearchParams(prev => {
+        if (showDashboard) prev.set(DASHBOARD_PARAM, 'closed');
+        else prev.delete(DASHBOARD_PARAM);
+        return prev;
+    }, { replace: true });
+
+    useEffect(() => {
+        if (!route.matched) go(paths.home(), { replace: true });
+    }, [route.matched]);
 
     // Phase 6 Shared Spatial State
     const [drawnPoly, setDrawnPoly] = useState<any>(null);
-    const [activeSimDistrict, setActiveSimDistrict] = useState<string>("Kandhamal");
+    const showSimulation = route.view === 'admin' || route.view === 'portal';
+    const activeSimDistrict = route.district ?? "";
+
+    // District picked in the dashboard risk table or on the map's risk layer.
+    // The engine keeps its own view and only switches district; elsewhere it opens the district view.
+    const selectedDistrict = route.view === 'claim' ? null : route.district;
+    const selectDistrict = (district: string) => {
+        if (route.view === 'admin') go(paths.admin(district));
+        else if (route.view === 'portal') go(paths.portal(district));
+        else go(paths.district(district), { updateSearch: params => params.delete(DASHBOARD_PARAM) });
+    };
+
+    const isOfficial = user?.role === 'district_officer' || user?.role === 'state_admin';
+    const openEngine = () => go(isOfficial ? paths.admin(user?.district) : paths.portal(selectedDistrict ?? "Kandhamal"));
+    const closeEngine = () => go(selectedDistrict ? paths.district(selectedDistrict) : paths.home());
+
+    // Claim shown by /claims/:claimId, once loaded
+    const [focusClaim, setFocusClaim] = useState<SimulatedClaim | null>(null);
 
     return (
         <div className="h-screen w-full flex flex-col bg-slate-50 overflow-hidden relative">
@@ -21,7 +61,7 @@ function App() {
                 </div>
                 <div className="flex items-center gap-4">
                     <button
-                        onClick={() => setShowSimulation(true)}
+                        onClick={openEngine}
                         className="hidden sm:flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-1.5 rounded-lg border border-indigo-400 font-semibold shadow-sm transition-all text-sm"
                     >
                         <Layers className="w-4 h-4" /> Governance Conflict Engine
@@ -31,8 +71,17 @@ function App() {
                         Governance Dashboard Early Preview
                     </div>
 
+                    <select
+                        value={areaUnit}
+                        onChange={(e) => setAreaUnit(e.target.value as AreaUnit)}
+                        className="bg-emerald-900/50 text-emerald-50 text-sm px-2 py-1 rounded-md border border-emerald-700 focus:outline-none"
+                        title="Area unit"
+                    >
+                        {AREA_UNITS.map(u => <option key={u} value={u} className="text-slate-800">{AREA_UNIT_LABELS[u]}</option>)}
+                    </select>
+
                     <button
-                        onClick={() => setShowDashboard(!showDashboard)}
+                        onClick={toggleDashboard}
                         className={`p-2 rounded-md transition-colors ${showDashboard ? 'bg-emerald-700 hover:bg-emerald-600 text-white' : 'bg-white hover:bg-emerald-50 text-emerald-800'}`}
                         title="Toggle Analytics Dashboard"
                     >
@@ -41,26 +90,43 @@ function App() {
                 </div>
             </header>
 
-            <main className="flex-1 flex w-full relative h-[calc(100vh-76px)] overflow-hidden">
+            <ClaimFilterBar />
+
+            <main className="flex-1 min-h-0 flex w-full relative overflow-hidden">
                 <MapComponent
                     isSimulationMode={showSimulation}
                     onSimulationShapeDrawn={(geo) => setDrawnPoly(geo)}
                     simulationActiveDistrict={activeSimDistrict}
+                    selectedDistrict={selectedDistrict}
+                    onSelectDistrict={selectDistrict}
+                    focusDistrict={route.view === 'district' ? route.district : null}
+                    focusClaim={route.view === 'claim' ? focusClaim : null}
+                    leftPanelOpen={showSimulation || route.view === 'claim'}
                 />
 
                 {/* Dashboard Slide-in Overlay */}
                 <div className={`absolute top-0 right-0 h-full transition-transform duration-300 ease-in-out shadow-2xl z-[1000] border-l border-slate-200 bg-white ${showDashboard ? 'translate-x-0' : 'translate-x-full'}`}>
-                    <DashboardPanel />
+                    <DashboardPanel selectedDistrict={selectedDistrict} onSelectDistrict={selectDistrict} />
                 </div>
 
                 {/* Phase 6 Isloated Simulation Overlay */}
                 <SimulationPanel
                     isOpen={showSimulation}
-                    onClose={() => setShowSimulation(false)}
+                    onClose={closeEngine}
                     drawnGeoJSON={drawnPoly}
                     districtFilter={activeSimDistrict}
-                    onDistrictChange={(d) => setActiveSimDistrict(d)}
+                    onDistrictChange={(d) => go(route.view === 'admin' ? paths.admin(d) : paths.portal(d), { replace: true })}
+                    reviewDistrict={route.view === 'admin' ? route.district : null}
                 />
+
+                {route.view === 'claim' && route.claimId && (
+                    <ClaimDetailPanel
+                        key={route.claimId}
+                        claimId={route.claimId}
+                        onClose={() => go(focusClaim ? paths.district(focusClaim.district) : paths.home())}
+                        onClaimLoaded={setFocusClaim}
+                    />
+                )}
             </main>
         </div>
     );
@@ -1,33 +1,80 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import axios from 'axios';
-import { ShieldCheck, AlertTriangle, Check, X, RefreshCw, Layers } from 'lucide-react';
-
-interface SimulatedClaim {
-    claimId: string;
-    citizenName: string;
-    district: string;
-    areaRequested: number;
-    status: "Submitted" | "Approved" | "Flagged" | "Rejected";
-    conflictPercentage: number;
-    timestamp: string;
+import {
+    CLAIM_QUERY_LIMITS,
+    claimQueryToParams,
+    formatArea,
+    parseOrThrow,
+    validateClaimAdvisoryResponse,
+    validateClaimHistoryResponse,
+    validateClaimQueryResponse,
+    validateLifecycleTable,
+    validateReviewClaimResponse,
+    type ClaimAdvisory,
+    type ClaimHistoryEntry,
+    type ClaimSortField,
+    type ClaimStatus,
+    type LifecycleTable,
+    type SimulatedClaim
+} from 'fra-shared';
+import { useAuth } from '../context/AuthContext';
+import { isFilterActive, useClaimFilter } from '../context/ClaimFilterContext';
+import { upsertClaim, useSimulationEvents } from '../hooks/useSimulationEvents';
+import { useAreaUnit } from '../hooks/useAreaUnit';
+import AppLink from './AppLink';
+import ExportButtons from './ExportButtons';
+import ClaimAdvisoryPanel from './ClaimAdvisoryPanel';
+import { paths } from '../hooks/useAppRoute';
+import { STATUS_BADGE_CLASS } from '../utils/claimStatusStyles';
+import { ShieldCheck, AlertTriangle, Check, X, RefreshCw, Layers, History, Loader2, ChevronLeft, ChevronRight, Sparkles } from 'lucide-react';
+
+// Transitions that send a claim back or refuse it get the destructive button styling
+const NEGATIVE_TRANSITIONS: ClaimStatus[] = ["Rejected", "Returned"];
+
+const SORT_LABELS: Record<ClaimSortField, string> = {
+    priority: "Flagged first",
+    submitted: "Newest",
+    area: "Largest area",
+    severity: "Highest severity",
+    applicant: "Applicant A-Z"
+};
+
+interface AdminReviewPanelProps {
+    // Queue scoped to one district by the route (/admin/:district)
+    district?: string | null;
 }
 
-const AdminReviewPanel: React.FC = () => {
+const AdminReviewPanel: React.FC<AdminReviewPanelProps> = ({ district = null }) => {
+    const { user } = useAuth();
+    const [unit] = useAreaUnit();
+    const { filter } = useClaimFilter();
     const [claims, setClaims] = useState<SimulatedClaim[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [sort, setSort] = useState<ClaimSortField>('priority');
+    const [lifecycle, setLifecycle] = useState<LifecycleTable | null>(null);
     const [loading, setLoading] = useState(true);
     const [actionLoading, setActionLoading] = useState<string | null>(null);
 
+    // Pending transition awaiting a remark: { claimId, status }
+    const [pendingAction, setPendingAction] = useState<{ claimId: string; status: ClaimStatus } | null>(null);
+    const [remark, setRemark] = useState('');
+    const [openHistoryId, setOpenHistoryId] = useState<string | null>(null);
+
+    // Review assistant advisories by claim; the open one is sent with the decision and kept in the history
+    const [advisories, setAdvisories] = useState<Record<string, ClaimAdvisory>>({});
+    const [advisoryLoading, setAdvisoryLoading] = useState<string | null>(null);
+
+    // The queue is filtered, sorted and paged by the server, using the shared filter bar's selection
     const fetchClaims = async () => {
         setLoading(true);
         try {
-            const res = await axios.get('http://localhost:5000/api/simulation/claims');
-            // Sort by flagged first, then descending time
-            const sorted = res.data.sort((a: SimulatedClaim, b: SimulatedClaim) => {
-                if (a.status === "Flagged" && b.status !== "Flagged") return -1;
-                if (a.status !== "Flagged" && b.status === "Flagged") return 1;
-                return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+            const res = await axios.get('http://localhost:5000/api/simulation/claims/query', {
+                params: claimQueryToParams({ ...filter, district: district ?? filter.district, sort, page })
             });
-            setClaims(sorted);
+            const data = parseOrThrow(validateClaimQueryResponse, res.data, 'claim query response');
+            setClaims(data.claims);
+            setTotal(data.total);
         } catch (err) {
             console.error(err);
         } finally {
@@ -35,26 +82,76 @@ const AdminReviewPanel: React.FC = () => {
         }
     };
 
+    // A new filter or order starts again from the first page
+    const lastQuery = useRef('');
     useEffect(() => {
+        const query = JSON.stringify([filter, district, sort]);
+        if (query !== lastQuery.current) {
+            lastQuery.current = query;
+            if (page !== 1) {
+                setPage(1);
+                return;
+            }
+        }
         fetchClaims();
+    }, [filter, district, sort, page]);
+
+    useEffect(() => {
+        axios.get('http://localhost:5000/api/simulation/lifecycle')
+            .then(res => setLifecycle(parseOrThrow(validateLifecycleTable, res.data, 'lifecycle response')))
+            .catch(err => console.error("Error loading lifecycle rules:", err));
     }, []);
 
-    const handleReview = async (id: string, newStatus: "Approved" | "Rejected") => {
+    // New submissions and other reviewers' decisions can change what matches and where it sorts
+    useSimulationEvents({
+        ready: fetchClaims,
+        'claim-created': fetchClaims,
+        'claim-reviewed': fetchClaims
+    });
+
+    const dropAdvisory = (id: string) => {
+        setAdvisories(({ [id]: _dropped, ...rest }) => rest);
+    };
+
+    const requestAdvisory = async (id: string) => {
+        setAdvisoryLoading(id);
+        try {
+            const res = await axios.post(`http://localhost:5000/api/simulation/claims/${id}/advisory`);
+            const { advisory } = parseOrThrow(validateClaimAdvisoryResponse, res.data, 'advisory response');
+            setAdvisories(prev => ({ ...prev, [id]: advisory }));
+        } catch (err: any) {
+            console.error("Error generating advisory:", err);
+            alert(err.response?.data?.error || "Failed to generate an advisory for this claim.");
+        } finally {
+            setAdvisoryLoading(null);
+        }
+    };
+
+    const handleReview = async (id: string, newStatus: ClaimStatus, advisoryId?: string) => {
+        if (!remark.trim()) return;
         setActionLoading(id);
         try {
-            await axios.patch(`http://localhost:5000/api/simulation/claims/${id}/review`, {
-                status: newStatus
+            const res = await axios.patch(`http://localhost:5000/api/simulation/claims/${id}/review`, {
+                status: newStatus,
+                remark: remark.trim(),
+                advisoryId
             });
-            // Refresh list
-            fetchClaims();
-        } catch (err) {
+            const { claim } = parseOrThrow(validateReviewClaimResponse, res.data, 'review response');
+            setClaims(prev => upsertClaim(prev, claim));
+            // Recorded with the decision; it no longer applies to the claim's new status
+            dropAdvisory(id);
+            setPendingAction(null);
+            setRemark('');
+        } catch (err: any) {
             console.error("Error updating claim:", err);
-            alert("Failed to update claim status.");
+            alert(err.response?.data?.error || "Failed to update claim status.");
         } finally {
             setActionLoading(null);
         }
     };
 
+    const pageCount = Math.ceil(total / CLAIM_QUERY_LIMITS.defaultPageSize);
+
     return (
         <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden max-w-2xl mx-auto flex flex-col h-[500px]">
             <div className="p-5 border-b border-slate-100 bg-slate-50 flex items-center justify-between sticky top-0 z-10">
@@ -63,7 +160,7 @@ const AdminReviewPanel: React.FC = () => {
                         <ShieldCheck className="w-5 h-5 text-indigo-600" />
                         Admin Compliance Review
                     </h2>
-                    <p className="text-sm text-slate-500 mt-1">Resolve flagged claims and monitor overrides.</p>
+                    <p className="text-sm text-slate-500 mt-1">Move claims through Gram Sabha, SDLC and DLC review.</p>
                 </div>
                 <button
                     onClick={fetchClaims}
@@ -74,89 +171,270 @@ const AdminReviewPanel: React.FC = () => {
                 </button>
             </div>
 
+            {/* Officers export their own district; state admins export the whole state */}
+            <div className="px-5 py-2.5 border-b border-slate-100 bg-white">
+                <ExportButtons district={user?.role === 'district_officer' ? user.district ?? null : null} showDossier />
+            </div>
+
+            <div className="px-5 py-2 border-b border-slate-100 bg-white flex items-center justify-between gap-3 text-xs text-slate-500">
+                <span>
+                    {total} claim{total === 1 ? '' : 's'}{district ? ` in ${district}` : ''}{isFilterActive(filter) ? ' matching the filter' : ''}
+                    {district && (
+                        <AppLink to={paths.admin()} className="ml-2 font-semibold text-indigo-600 hover:underline">
+                            All districts
+                        </AppLink>
+                    )}
+                </span>
+                <label className="flex items-center gap-1.5">
+                    Sort
+                    <select
+                        value={sort}
+                        onChange={(e) => setSort(e.target.value as ClaimSortField)}
+                        className="px-2 py-1 border border-slate-200 rounded-md text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                        {(Object.keys(SORT_LABELS) as ClaimSortField[]).map(field => (
+                            <option key={field} value={field}>{SORT_LABELS[field]}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
             <div className="p-0 flex-1 overflow-y-auto bg-slate-50/30">
                 {claims.length === 0 && !loading ? (
                     <div className="flex flex-col items-center justify-center p-12 text-center h-full">
                         <Layers className="w-12 h-12 text-slate-200 mb-3" />
-                        <h3 className="text-slate-500 font-semibold mb-1">No Simulated Claims Yet</h3>
-                        <p className="text-sm text-slate-400">Use the citizen form to generate data.</p>
+                        {isFilterActive(filter) ? (
+                            <>
+                                <h3 className="text-slate-500 font-semibold mb-1">No Matching Claims</h3>
+                                <p className="text-sm text-slate-400">Loosen or clear the filter above the map.</p>
+                            </>
+                        ) : (
+                            <>
+                                <h3 className="text-slate-500 font-semibold mb-1">No Simulated Claims Yet</h3>
+                                <p className="text-sm text-slate-400">Use the citizen form to generate data.</p>
+                            </>
+                        )}
                     </div>
                 ) : (
                     <div className="divide-y divide-slate-100 p-4 flex flex-col gap-3">
-                        {claims.map((claim) => (
-                            <div
-                                key={claim.claimId}
-                                className={`p-4 rounded-xl border shadow-sm transition-all bg-white
+                        {claims.map((claim) => {
+                            // Officers only act on their own district; the server enforces the same rule
+                            const canReview = user?.role === 'state_admin' || user?.district === claim.district;
+                            const nextStatuses = canReview ? (lifecycle?.transitions[claim.status] || []) : [];
+                            const isPending = pendingAction?.claimId === claim.claimId;
+                            const historyOpen = openHistoryId === claim.claimId;
+                            // Advisories written for an earlier status (e.g. before another officer acted) are not shown
+                            const advisory = advisories[claim.claimId]?.forStatus === claim.status ? advisories[claim.claimId] : null;
+
+                            return (
+                                <div
+                                    key={claim.claimId}
+                                    className={`p-4 rounded-xl border shadow-sm transition-all bg-white
                                     ${claim.status === "Flagged" ? "border-orange-200 ring-1 ring-orange-100" : "border-slate-200"}
                                 `}
-                            >
-                                <div className="flex justify-between items-start mb-3">
-                                    <div>
-                                        <div className="flex items-center gap-2 mb-1">
-                                            <span className="font-bold text-slate-800 tracking-tight">{claim.claimId}</span>
-                                            <span className={`px-2 py-0.5 rounded text-[10px] uppercase font-bold tracking-wider
-                                                ${claim.status === "Approved" ? "bg-emerald-100 text-emerald-700" :
-                                                    claim.status === "Flagged" ? "bg-orange-100 text-orange-700 animate-pulse" :
-                                                        claim.status === "Rejected" ? "bg-red-100 text-red-700" :
-                                                            "bg-slate-100 text-slate-700"
-                                                }
-                                            `}>
-                                                {claim.status}
-                                            </span>
+                                >
+                                    <div className="flex justify-between items-start mb-3">
+                                        <div>
+                                            <div className="flex items-center gap-2 mb-1">
+                                                <AppLink
+                                                    to={paths.claim(claim.claimId)}
+                                                    className="font-bold text-slate-800 tracking-tight hover:text-indigo-600 hover:underline"
+                                                    title="Open claim page"
+                                                >
+                                                    {claim.claimId}
+                                                </AppLink>
+                                                <span className={`px-2 py-0.5 rounded text-[10px] uppercase font-bold tracking-wider ${STATUS_BADGE_CLASS[claim.status]}`}>
+                                                    {claim.status}
+                                                </span>
+                                            </div>
+                                            <p className="text-sm text-slate-600 font-medium">{claim.citizenName} • {claim.district}</p>
+                                            {claim.resubmissionOf && (
+                                                <p className="text-[10px] text-slate-500 mt-0.5">
+                                                    Resubmits the permitted portion of <AppLink to={paths.claim(claim.resubmissionOf)} className="font-semibold text-indigo-600 hover:underline">{claim.resubmissionOf}</AppLink>
+                                                </p>
+                                            )}
+                                            {claim.supersededBy && (
+                                                <p className="text-[10px] text-slate-500 mt-0.5">
+                                                    Superseded by <AppLink to={paths.claim(claim.supersededBy)} className="font-semibold text-indigo-600 hover:underline">{claim.supersededBy}</AppLink>
+                                                </p>
+                                            )}
+                                        </div>
+                                        <div className="text-right">
+                                            <div className="text-sm font-bold text-slate-700">{formatArea(claim.areaRequested, unit)}</div>
+                                            <div className="text-[10px] text-slate-400 uppercase tracking-widest mt-0.5">Requested</div>
+                                            {claim.areaCheck && (
+                                                <div
+                                                    className={`text-[10px] mt-1 ${claim.areaCheck.withinTolerance ? 'text-slate-500' : 'px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 font-semibold'}`}
+                                                    title={`Measured in ${claim.areaCheck.crs}`}
+                                                >
+                                                    Drawn {formatArea(claim.areaCheck.drawnAcres, unit)}
+                                                    {!claim.areaCheck.withinTolerance && ` · ${claim.areaCheck.discrepancyPct}% off`}
+                                                </div>
+                                            )}
                                         </div>
-                                        <p className="text-sm text-slate-600 font-medium">{claim.citizenName} • {claim.district}</p>
-                                    </div>
-                                    <div className="text-right">
-                                        <div className="text-sm font-bold text-slate-700">{claim.areaRequested} Acres</div>
-                                        <div className="text-[10px] text-slate-400 uppercase tracking-widest mt-0.5">Requested</div>
                                     </div>
-                                </div>
 
-                                {claim.status === "Flagged" && (
-                                    <div className="mt-3 mb-4 p-3 rounded-lg bg-orange-50 border border-orange-100 flex items-start gap-2">
-                                        <AlertTriangle className="w-4 h-4 text-orange-600 shrink-0 mt-0.5" />
-                                        <div>
-                                            <p className="text-sm font-semibold text-orange-800 mb-0.5">Land Availability Conflict</p>
-                                            <p className="text-xs text-orange-700/80">
-                                                This claim exceeds the {claim.district} district limit by <span className="font-bold text-red-600">{claim.conflictPercentage}%</span>. Admin override required.
-                                            </p>
+                                    {claim.status === "Flagged" && (
+                                        <div className="mt-3 mb-4 p-3 rounded-lg bg-orange-50 border border-orange-100 flex items-start gap-2">
+                                            <AlertTriangle className="w-4 h-4 text-orange-600 shrink-0 mt-0.5" />
+                                            <div>
+                                                <p className="text-sm font-semibold text-orange-800 mb-0.5">Land Availability Conflict</p>
+                                                <p className="text-xs text-orange-700/80">
+                                                    This claim exceeds the {claim.district} district limit by <span className="font-bold text-red-600">{claim.conflictPercentage}%</span>. Admin override required.
+                                                </p>
+                                            </div>
                                         </div>
-                                    </div>
-                                )}
+                                    )}
+
+                                    {advisory && (
+                                        <ClaimAdvisoryPanel
+                                            advisory={advisory}
+                                            onAdopt={isPending ? undefined : (status) => { setPendingAction({ claimId: claim.claimId, status }); setRemark(''); }}
+                                            onDismiss={() => dropAdvisory(claim.claimId)}
+                                        />
+                                    )}
+
+                                    {isPending && pendingAction && (
+                                        <div className="mb-3 flex flex-col gap-2">
+                                            <label className="text-xs font-semibold text-slate-600">
+                                                Remark for moving to <span className="text-indigo-700">{pendingAction.status}</span> (required)
+                                            </label>
+                                            <textarea
+                                                value={remark}
+                                                onChange={(e) => setRemark(e.target.value)}
+                                                rows={2}
+                                                placeholder="E.g. Verified at Gram Sabha meeting of 12 March"
+                                                className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 placeholder:text-slate-400"
+                                            />
+                                            <div className="flex gap-2 justify-end">
+                                                <button
+                                                    onClick={() => { setPendingAction(null); setRemark(''); }}
+                                                    className="px-3 py-1.5 rounded-lg text-xs font-semibold text-slate-500 hover:bg-slate-100"
+                                                >
+                                                    Cancel
+                                                </button>
+                                                <button
+                                                    onClick={() => handleReview(claim.claimId, pendingAction.status, advisory?.advisoryId)}
+                                                    disabled={!remark.trim() || actionLoading === claim.claimId}
+                                                    className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1.5"
+                                                >
+                                                    {actionLoading === claim.claimId ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />} Confirm
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
 
-                                <div className="flex gap-2 justify-end border-t border-slate-100 pt-3 mt-1">
-                                    {(claim.status === "Flagged" || claim.status === "Submitted") && (
-                                        <>
+                                    <div className="flex flex-wrap gap-2 justify-end border-t border-slate-100 pt-3 mt-1">
+                                        <button
+                                            onClick={() => setOpenHistoryId(historyOpen ? null : claim.claimId)}
+                                            className="mr-auto px-2 py-1.5 rounded-lg text-xs font-semibold text-slate-500 hover:text-indigo-600 hover:bg-slate-100 flex items-center gap-1"
+                                        >
+                                            <History className="w-3.5 h-3.5" /> {historyOpen ? "Hide History" : "History"}
+                                        </button>
+                                        {nextStatuses.length > 0 && !advisory && (
                                             <button
-                                                onClick={() => handleReview(claim.claimId, "Rejected")}
-                                                disabled={actionLoading === claim.claimId}
-                                                className="px-3 py-1.5 rounded-lg text-sm font-semibold border border-red-200 text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50 flex items-center gap-1.5"
+                                                onClick={() => requestAdvisory(claim.claimId)}
+                                                disabled={advisoryLoading === claim.claimId}
+                                                className="px-2 py-1.5 rounded-lg text-xs font-semibold text-violet-600 hover:bg-violet-50 flex items-center gap-1 disabled:opacity-50"
+                                                title="Ask the review assistant for a recommended decision (advisory only)"
                                             >
-                                                <X className="w-4 h-4" /> Reject
+                                                {advisoryLoading === claim.claimId ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />} Explain this claim
                                             </button>
+                                        )}
+                                        {!isPending && nextStatuses.map(next => (
                                             <button
-                                                onClick={() => handleReview(claim.claimId, "Approved")}
+                                                key={next}
+                                                onClick={() => { setPendingAction({ claimId: claim.claimId, status: next }); setRemark(''); }}
                                                 disabled={actionLoading === claim.claimId}
-                                                className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-50 shadow-sm flex items-center gap-1.5"
+                                                className={NEGATIVE_TRANSITIONS.includes(next)
+                                                    ? "px-3 py-1.5 rounded-lg text-sm font-semibold border border-red-200 text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50 flex items-center gap-1.5"
+                                                    : "px-3 py-1.5 rounded-lg text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-50 shadow-sm flex items-center gap-1.5"}
                                             >
-                                                <Check className="w-4 h-4" /> Approve Override
+                                                {NEGATIVE_TRANSITIONS.includes(next) ? <X className="w-4 h-4" /> : <Check className="w-4 h-4" />} {next}
                                             </button>
-                                        </>
-                                    )}
-                                    {(claim.status === "Approved" || claim.status === "Rejected") && (
-                                        <div className="text-xs text-slate-400 font-medium px-2 py-1 flex items-center gap-1">
-                                            <Check className="w-3 h-3" /> Resolved
-                                        </div>
-                                    )}
-                                </div>
+                                        ))}
+                                        {!canReview && (
+                                            <div className="text-xs text-slate-400 font-medium px-2 py-1">
+                                                {claim.district} officers only
+                                            </div>
+                                        )}
+                                        {canReview && lifecycle && nextStatuses.length === 0 && (
+                                            <div className="text-xs text-slate-400 font-medium px-2 py-1 flex items-center gap-1">
+                                                <Check className="w-3 h-3" /> Resolved
+                                            </div>
+                                        )}
+                                    </div>
 
-                            </div>
-                        ))}
+                                    {historyOpen && <ClaimHistoryTimeline claimId={claim.claimId} status={claim.status} />}
+                                </div>
+                            );
+                        })}
                     </div>
                 )}
             </div>
+
+            {pageCount > 1 && (
+                <div className="px-5 py-2 border-t border-slate-100 bg-white flex items-center justify-between text-xs text-slate-500">
+                    <button
+                        onClick={() => setPage(p => p - 1)}
+                        disabled={page <= 1 || loading}
+                        className="flex items-center gap-1 px-2 py-1 rounded-md font-semibold hover:bg-slate-100 disabled:opacity-40"
+                    >
+                        <ChevronLeft className="w-3.5 h-3.5" /> Previous
+                    </button>
+                    <span>Page {page} of {pageCount}</span>
+                    <button
+                        onClick={() => setPage(p => p + 1)}
+                        disabled={page >= pageCount || loading}
+                        className="flex items-center gap-1 px-2 py-1 rounded-md font-semibold hover:bg-slate-100 disabled:opacity-40"
+                    >
+                        Next <ChevronRight className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
 
+// Vertical timeline of every recorded status change for one claim
+export const ClaimHistoryTimeline: React.FC<{ claimId: string; status: ClaimStatus }> = ({ claimId, status }) => {
+    const [history, setHistory] = useState<ClaimHistoryEntry[] | null>(null);
+
+    useEffect(() => {
+        axios.get(`http://localhost:5000/api/simulation/claims/${claimId}/history`)
+            .then(res => setHistory(parseOrThrow(validateClaimHistoryResponse, res.data, 'history response').history))
+            .catch(err => {
+                console.error("Error loading claim history:", err);
+                setHistory([]);
+            });
+    }, [claimId, status]);
+
+    if (!history) {
+        return <div className="pt-3 text-xs text-slate-400 flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> Loading history...</div>;
+    }
+
+    return (
+        <ol className="mt-3 ml-2 border-l-2 border-slate-200 flex flex-col gap-3">
+            {history.map((entry, idx) => (
+                <li key={idx} className="relative pl-4">
+                    <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-indigo-500"></span>
+                    <div className="text-xs font-semibold text-slate-700">
+                        {entry.from ? `${entry.from} → ${entry.to}` : entry.to}
+                    </div>
+                    <div className="text-[11px] text-slate-400">
+                        {entry.actor} • {new Date(entry.timestamp).toLocaleString()}
+                    </div>
+                    <p className="text-xs text-slate-600 mt-0.5">{entry.remark}</p>
+                    {entry.advisory && (
+                        <p className="text-[11px] text-violet-700 mt-0.5" title={entry.advisory.rationale}>
+                            Advisory ({entry.advisory.provider}) recommended {entry.advisory.recommendation}
+                            {entry.advisory.followed ? '; followed' : '; officer decided otherwise'}
+                        </p>
+                    )}
+                </li>
+            ))}
+        </ol>
+    );
+};
+
 export default AdminReviewPanel;
@@ -0,0 +1,12 @@
+import React from 'react';
+import { Link, useLocation, type LinkProps } from 'react-router-dom';
+
+/**
+ * Link to another view that keeps the query string (map position, layers, open panels)
+ */
+const AppLink: React.FC<Omit<LinkProps, 'to'> & { to: string }> = ({ to, ...rest }) => {
+    const { search } = useLocation();
+    return <Link to={{ pathname: to, search }} {...rest} />;
+};
+
+export default AppLink;
@@ -0,0 +1,196 @@
+import React, { useRef, useState } from 'react';
+import axios from 'axios';
+import {
+    IMPORT_LIMITS,
+    KNOWN_DISTRICTS,
+    parseOrThrow,
+    validateImportReport,
+    type ErrorResponse,
+    type ImportKind,
+    type ImportReport
+} from 'fra-shared';
+import { useAuth } from '../context/AuthContext';
+import { Upload, FileUp, CheckCircle, XCircle, AlertTriangle, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+
+const KIND_LABELS: Record<ImportKind, string> = {
+    "claims": "Claims",
+    "forest-zones": "Forest zones",
+    "reserved-zones": "Reserved forests"
+};
+
+/**
+ * Upload of survey files (GeoJSON, zipped Shapefile, KML) for officials.
+ * Imported claims reach the review queue and the map through the live event stream.
+ */
+const BulkImportPanel: React.FC = () => {
+    const { user } = useAuth();
+    const isStateAdmin = user?.role === 'state_admin';
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const [open, setOpen] = useState(false);
+    const [file, setFile] = useState<File | null>(null);
+    const [kind, setKind] = useState<ImportKind>('claims');
+    const [district, setDistrict] = useState(user?.district || '');
+    const [sourceCrs, setSourceCrs] = useState('');
+
+    const [uploading, setUploading] = useState(false);
+    const [report, setReport] = useState<ImportReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleUpload = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!file) return;
+        setUploading(true);
+        setError(null);
+        setReport(null);
+
+        const form = new FormData();
+        form.append('file', file);
+        form.append('kind', kind);
+        if (district) form.append('district', district);
+        if (sourceCrs.trim()) form.append('sourceCrs', sourceCrs.trim());
+
+        try {
+            const res = await axios.post('http://localhost:5000/api/simulation/import', form);
+            setReport(parseOrThrow(validateImportReport, res.data, 'import report'));
+            setFile(null);
+            if (fileInput.current) fileInput.current.value = '';
+        } catch (err: any) {
+            const data: ErrorResponse | undefined = err.response?.data;
+            setError(data?.issues?.length
+                ? `${data.error} ${data.issues.map(i => `${i.path}: ${i.message}`).join('; ')}`
+                : data?.error || "Import failed.");
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm max-w-2xl mx-auto mb-4 overflow-hidden">
+            <button
+                type="button"
+                onClick={() => setOpen(!open)}
+                className="w-full p-4 flex items-center justify-between bg-slate-50 hover:bg-slate-100 transition-colors"
+            >
+                <span className="font-bold text-slate-800 flex items-center gap-2">
+                    <Upload className="w-4 h-4 text-indigo-600" />
+                    Bulk Import (GeoJSON, Shapefile, KML)
+                </span>
+                {open ? <ChevronUp className="w-4 h-4 text-slate-500" /> : <ChevronDown className="w-4 h-4 text-slate-500" />}
+            </button>
+
+            {open && (
+                <div className="p-4 flex flex-col gap-3">
+                    <form onSubmit={handleUpload} className="flex flex-col gap-3">
+                        <label className="flex items-center justify-center gap-2 py-3 border-2 border-dashed border-slate-300 rounded-lg text-slate-600 bg-slate-50 hover:bg-slate-100 hover:border-slate-400 transition-colors text-sm font-medium cursor-pointer">
+                            <FileUp className="w-4 h-4" />
+                            {file ? file.name : "Choose a .geojson, .zip (Shapefile) or .kml file"}
+                            <input
+                                ref={fileInput}
+                                type="file"
+                                accept=".geojson,.json,.zip,.kml"
+                                className="hidden"
+                                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                            />
+                        </label>
+                        <p className="text-[11px] text-slate-400 -mt-2">
+                            Up to {IMPORT_LIMITS.maxFileBytes / (1024 * 1024)} MB and {IMPORT_LIMITS.maxFeatures} features. Shapefiles are reprojected using their .prj.
+                        </p>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="flex flex-col gap-1">
+                                <label className="text-xs font-semibold text-slate-600">Import as</label>
+                                <select
+                                    value={kind}
+                                    onChange={(e) => setKind(e.target.value as ImportKind)}
+                                    className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm bg-white"
+                                >
+                                    {(Object.keys(KIND_LABELS) as ImportKind[])
+                                        // The server only lets the state administrator add zones
+                                        .filter(k => k === 'claims' || isStateAdmin)
+                                        .map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+                                </select>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                                <label className="text-xs font-semibold text-slate-600">Default district</label>
+                                <select
+                                    value={district}
+                                    onChange={(e) => setDistrict(e.target.value)}
+                                    disabled={!isStateAdmin}
+                                    className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm bg-white disabled:bg-slate-100"
+                                >
+                                    <option value="">From each feature</option>
+                                    {KNOWN_DISTRICTS.map(d => <option key={d} value={d}>{d}</option>)}
+                                </select>
+                            </div>
+                        </div>
+
+                        <div className="flex flex-col gap-1">
+                            <label className="text-xs font-semibold text-slate-600">Source CRS (optional)</label>
+                            <input
+                                type="text"
+                                value={sourceCrs}
+                                onChange={(e) => setSourceCrs(e.target.value)}
+                                placeholder="Read from the file; e.g. EPSG:32644 to override"
+                                className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm placeholder:text-slate-400"
+                            />
+                        </div>
+
+                        <button
+                            type="submit"
+                            disabled={!file || uploading}
+                            className="bg-indigo-600 hover:bg-indigo-700 text-white font-medium py-2 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                        >
+                            {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Import"}
+                        </button>
+                    </form>
+
+                    {error && (
+                        <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-start gap-2 border border-red-100">
+                            <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                            {error}
+                        </div>
+                    )}
+
+                    {report && (
+                        <div className="border border-slate-200 rounded-lg overflow-hidden">
+                            <div className="p-3 bg-slate-50 text-sm">
+                                <p className="font-semibold text-slate-800">
+                                    {report.fileName}: {report.imported} of {report.total} imported
+                                    {report.failed > 0 && <span className="text-red-600">, {report.failed} failed</span>}
+                                </p>
+                                <p className="text-xs text-slate-500 mt-0.5">
+                                    {KIND_LABELS[report.kind]} • {report.format} • source CRS {report.sourceCrs}
+                                </p>
+                            </div>
+                            <ul className="divide-y divide-slate-100 max-h-64 overflow-y-auto text-xs">
+                                {report.features.map(f => (
+                                    <li key={f.index} className="p-2 flex items-start gap-2">
+                                        {f.outcome === 'imported'
+                                            ? <CheckCircle className="w-4 h-4 text-emerald-600 shrink-0" />
+                                            : <XCircle className="w-4 h-4 text-red-600 shrink-0" />}
+                                        <div className="flex-1">
+                                            <p className="font-medium text-slate-700">
+                                                #{f.index + 1} {f.label}
+                                                {f.claimId && <span className="text-slate-500"> → {f.claimId} ({f.status}{f.conflictPercentage ? `, ${f.conflictPercentage}%` : ''})</span>}
+                                                {f.zoneId && f.outcome === 'imported' && <span className="text-slate-500"> → {f.zoneId}</span>}
+                                            </p>
+                                            {f.issues.map((issue, idx) => (
+                                                <p key={idx} className="text-red-600">{issue.message}</p>
+                                            ))}
+                                            {f.repairs.map((repair, idx) => (
+                                                <p key={idx} className="text-slate-400">{repair}</p>
+                                            ))}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BulkImportPanel;
@@ -1,13 +1,63 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import axios from 'axios';
-import { Send, FileText, CheckCircle, AlertTriangle, XCircle, Loader2, MapPin } from 'lucide-react';
+import {
+    AREA_UNIT_LABELS,
+    CLAIM_LIMITS,
+    KNOWN_DISTRICTS,
+    convertArea,
+    formatArea,
+    parseOrThrow,
+    validateMeasureAreaResponse,
+    validateSubmitClaimResponse,
+    type AreaCheck,
+    type ClaimStatus,
+    type ClipSuggestion,
+    type ErrorResponse,
+    type SubmitClaimRequest,
+    type ZoneBreakdown
+} from 'fra-shared';
+import { useAuth } from '../context/AuthContext';
+import { useAreaUnit } from '../hooks/useAreaUnit';
+import { Send, FileText, CheckCircle, AlertTriangle, XCircle, Loader2, MapPin, Scissors } from 'lucide-react';
 
-interface ClaimStatus {
+interface SubmissionResult {
     id: string;
-    status: string;
+    status: ClaimStatus;
+    district: string;
     conflictPercentage?: number;
+    geometryRepairs: string[];
+    zoneBreakdown: ZoneBreakdown | null;
+    suggestion: ClipSuggestion | null;
+    areaCheck: AreaCheck | null;
+    areaWarning: string | null;
 }
 
+// Shows (or clears, with null) a geometry preview on the map; handled by SpatialClaimLayer
+const previewOnMap = (geometry: ClipSuggestion['geometry'] | null) => {
+    window.dispatchEvent(new CustomEvent('preview-geometry', { detail: geometry }));
+};
+
+type FieldErrors = Partial<Record<'district' | 'areaRequested' | 'geojson', string[]>>;
+
+// Groups server issues by the top-level request field they belong to
+const groupIssues = (issues: NonNullable<ErrorResponse['issues']>): FieldErrors => {
+    const grouped: FieldErrors = {};
+    issues.forEach(issue => {
+        const field = issue.path.split(/[.[]/)[0] as keyof FieldErrors;
+        grouped[field] = [...(grouped[field] || []), issue.message];
+    });
+    return grouped;
+};
+
+const FieldError: React.FC<{ messages?: string[] }> = ({ messages }) => {
+    if (!messages || messages.length === 0) return null;
+    return (
+        <ul className="text-xs text-red-600 flex flex-col gap-0.5">
+            {messages.map((m, idx) => <li key={idx}>{m}</li>)}
+        </ul>
+    );
+};
+
 interface CitizenClaimFormProps {
     drawnGeoJSON?: any;
     districtFilter?: string;
@@ -15,53 +65,127 @@ interface CitizenClaimFormProps {
 }
 
 const CitizenClaimForm: React.FC<CitizenClaimFormProps> = ({ drawnGeoJSON, districtFilter = "", onDistrictChange }) => {
-    const [name, setName] = useState('');
+    const { user } = useAuth();
     const [district, setDistrict] = useState(districtFilter);
     const [area, setArea] = useState('');
+    const [unit] = useAreaUnit();
+    const [measured, setMeasured] = useState<{ area: number; crs: string } | null>(null);
+    // Last value the form filled in itself, so a typed-in area is never overwritten
+    const autoFilledArea = useRef('');
+    const previousUnit = useRef(unit);
 
     const [loading, setLoading] = useState(false);
-    const [result, setResult] = useState<ClaimStatus | null>(null);
+    const [result, setResult] = useState<SubmissionResult | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
     const handleDistrictInternal = (val: string) => {
         setDistrict(val);
         if (onDistrictChange) onDistrictChange(val);
     };
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
+    // The permitted portion of a rejected or conflicting claim is previewed on the map until acted on
+    useEffect(() => {
+        previewOnMap(result?.suggestion?.geometry ?? null);
+    }, [result]);
+
+    useEffect(() => () => previewOnMap(null), []);
+
+    // Keep the declared area meaning the same land when the unit changes
+    useEffect(() => {
+        const from = previousUnit.current;
+        previousUnit.current = unit;
+        if (from === unit) return;
+        setArea(prev => {
+            if (prev === '') return prev;
+            const converted = String(parseFloat(convertArea(Number(prev), from, unit).toFixed(2)));
+            if (prev === autoFilledArea.current) autoFilledArea.current = converted;
+            return converted;
+        });
+    }, [unit]);
+
+    // Measure the drawn boundary in the district's projected CRS and offer it as the declared area
+    useEffect(() => {
+        if (!drawnGeoJSON) {
+            setMeasured(null);
+            return;
+        }
+        let cancelled = false;
+        axios.post('http://localhost:5000/api/simulation/measure', { geojson: drawnGeoJSON, district: district || undefined, unit })
+            .then(res => {
+                if (cancelled) return;
+                const measurement = parseOrThrow(validateMeasureAreaResponse, res.data, 'area measurement');
+                const rounded = String(parseFloat(measurement.area.toFixed(2)));
+                setMeasured(measurement);
+                setArea(prev => (prev === '' || prev === autoFilledArea.current ? rounded : prev));
+                autoFilledArea.current = rounded;
+            })
+            .catch(err => {
+                if (!cancelled) console.error("Error measuring boundary:", err);
+            });
+        return () => { cancelled = true; };
+    }, [drawnGeoJSON, district, unit]);
+
+    const submitClaim = async (payload: SubmitClaimRequest) => {
         setLoading(true);
         setError(null);
+        setFieldErrors({});
         setResult(null);
 
         try {
-            const response = await axios.post('http://localhost:5000/api/simulation/claims/submit', {
-                citizenName: name,
-                district,
-                areaRequested: Number(area),
-                geojson: drawnGeoJSON // Include the spatially drawn shape if it exists
-            });
+            const response = await axios.post('http://localhost:5000/api/simulation/claims/submit', payload);
+            const { claim, geometryRepairs, suggestion, areaWarning } = parseOrThrow(validateSubmitClaimResponse, response.data, 'submission response');
 
-            if (response.data.claim) {
+            if (claim) {
                 setResult({
-                    id: response.data.claim.claimId,
-                    status: response.data.claim.status,
-                    conflictPercentage: response.data.claim.conflictPercentage
+                    id: claim.claimId,
+                    status: claim.status,
+                    district: claim.district,
+                    conflictPercentage: claim.conflictPercentage,
+                    geometryRepairs,
+                    zoneBreakdown: claim.zoneBreakdown,
+                    suggestion,
+                    areaCheck: claim.areaCheck,
+                    areaWarning
                 });
 
                 // Clear form on success
-                setName('');
                 setDistrict('');
                 setArea('');
+                autoFilledArea.current = '';
                 if (onDistrictChange) onDistrictChange("");
             }
         } catch (err: any) {
-            setError(err.response?.data?.error || "Error submitting claim.");
+            const data: ErrorResponse | undefined = err.response?.data;
+            setError(data?.error || "Error submitting claim.");
+            if (data?.issues) setFieldErrors(groupIssues(data.issues));
         } finally {
             setLoading(false);
         }
     };
 
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        submitClaim({
+            district,
+            areaRequested: Number(area),
+            areaUnit: unit,
+            geojson: drawnGeoJSON // Include the spatially drawn shape if it exists
+        });
+    };
+
+    // One click: resubmit only the land the engine says can be granted
+    const handleResubmitPermitted = () => {
+        if (!result?.suggestion) return;
+        submitClaim({
+            district: result.district,
+            areaRequested: result.suggestion.acres,
+            areaUnit: 'acres',
+            geojson: { type: "Feature", properties: {}, geometry: result.suggestion.geometry },
+            resubmissionOf: result.id
+        });
+    };
+
     return (
         <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 max-w-md mx-auto relative overflow-hidden">
             <div className="absolute top-0 right-0 p-4 opacity-5 pointer-events-none">
@@ -106,6 +230,59 @@ const CitizenClaimForm: React.FC<CitizenClaimFormProps> = ({ drawnGeoJSON, distr
                             {result.status === "Rejected" && (
                                 <p>This claim was rejected by a district administrator.</p>
                             )}
+                            {result.zoneBreakdown && (result.zoneBreakdown.forestZones.length > 0 || result.zoneBreakdown.reservedZones.length > 0) && (
+                                <div className="mt-2 text-xs opacity-80">
+                                    <p className="font-semibold">Zones checked:</p>
+                                    <ul className="list-disc ml-4">
+                                        {result.zoneBreakdown.forestZones.map(z => (
+                                            <li key={z.zoneId}>{z.zoneId} ({z.district}): {formatArea(z.intersectAcres, unit)}, {z.severity}% severity → {z.status}</li>
+                                        ))}
+                                        {result.zoneBreakdown.reservedZones.map(z => (
+                                            <li key={z.zoneId} className="text-red-700 font-medium">{z.zoneId} ({z.district}): {formatArea(z.intersectAcres, unit)} inside reserved forest</li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                            {result.status === "Reserved Violation" && result.conflictPercentage !== undefined && (
+                                <p className="mt-1">{result.conflictPercentage}% of the requested land lies in reserved forest.</p>
+                            )}
+                            {result.suggestion && (
+                                <div className="mt-3 p-3 rounded-lg bg-white/70 border border-emerald-200 text-emerald-900">
+                                    <p className="font-semibold flex items-center gap-1.5">
+                                        <Scissors className="w-4 h-4" /> Permitted portion: {formatArea(result.suggestion.acres, unit)}
+                                    </p>
+                                    <p className="text-xs mt-1 opacity-80">
+                                        Shown dashed on the map. Removes {formatArea(result.suggestion.removedReservedAcres, unit)} of reserved forest
+                                        and {formatArea(result.suggestion.removedApprovedAcres, unit)} of already-approved land.
+                                    </p>
+                                    <button
+                                        type="button"
+                                        onClick={handleResubmitPermitted}
+                                        disabled={loading}
+                                        className="mt-2 w-full bg-emerald-600 hover:bg-emerald-700 text-white font-medium py-1.5 rounded-lg text-sm transition-colors disabled:opacity-60"
+                                    >
+                                        Resubmit the permitted portion
+                                    </button>
+                                </div>
+                            )}
+                            {result.areaCheck && (
+                                <p className="mt-2 text-xs opacity-80">
+                                    Drawn: {formatArea(result.areaCheck.drawnAcres, unit)} · Declared: {formatArea(result.areaCheck.declaredAcres, unit)} ({result.areaCheck.crs})
+                                </p>
+                            )}
+                            {result.areaWarning && (
+                                <p className="mt-1 text-xs font-medium text-amber-800 bg-amber-50 border border-amber-200 rounded px-2 py-1">
+                                    {result.areaWarning}
+                                </p>
+                            )}
+                            {result.geometryRepairs.length > 0 && (
+                                <div className="mt-2 text-xs opacity-80">
+                                    <p className="font-semibold">Boundary auto-corrected:</p>
+                                    <ul className="list-disc ml-4">
+                                        {result.geometryRepairs.map((r, idx) => <li key={idx}>{r}</li>)}
+                                    </ul>
+                                </div>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -129,17 +306,17 @@ const CitizenClaimForm: React.FC<CitizenClaimFormProps> = ({ drawnGeoJSON, distr
                             <MapPin className="w-4 h-4" /> Click to Draw Boundary on Map
                         </button>
                     )}
+                    <FieldError messages={fieldErrors.geojson} />
                 </div>
 
                 <div className="flex flex-col gap-1.5">
                     <label className="text-sm font-semibold text-slate-700">Citizen Full Name</label>
+                    {/* Claims are filed under the account's name */}
                     <input
-                        required
                         type="text"
-                        value={name}
-                        onChange={(e) => setName(e.target.value)}
-                        placeholder="E.g. Ramesh Kumar"
-                        className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 placeholder:text-slate-400"
+                        value={user?.name ?? ''}
+                        readOnly
+                        className="px-3 py-2 border border-slate-200 rounded-lg bg-slate-50 text-slate-600"
                     />
                 </div>
 
@@ -152,32 +329,38 @@ const CitizenClaimForm: React.FC<CitizenClaimFormProps> = ({ drawnGeoJSON, distr
                         className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white"
                     >
                         <option value="" disabled>Select a district...</option>
-                        <option value="Kandhamal">Kandhamal</option>
-                        <option value="Bastar">Bastar</option>
-                        <option value="Mandla">Mandla</option>
-                        <option value="Gadchiroli">Gadchiroli</option>
-                        <option value="Sundargarh">Sundargarh</option>
-                        <option value="Koraput">Koraput</option>
+                        {KNOWN_DISTRICTS.map(d => <option key={d} value={d}>{d}</option>)}
                     </select>
+                    <FieldError messages={fieldErrors.district} />
                 </div>
 
                 <div className="flex flex-col gap-1.5">
-                    <label className="text-sm font-semibold text-slate-700">Area Requested (Acres)</label>
+                    <label className="text-sm font-semibold text-slate-700">Area Requested ({AREA_UNIT_LABELS[unit]})</label>
                     <input
                         required
                         type="number"
-                        min="1"
-                        max="2000"
+                        min="0"
+                        step="any"
+                        max={parseFloat(convertArea(CLAIM_LIMITS.maxAreaAcres, 'acres', unit).toFixed(2))}
                         value={area}
                         onChange={(e) => setArea(e.target.value)}
                         placeholder="E.g. 150 (Auto-calculated if polygon drawn)"
                         className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 placeholder:text-slate-400"
                     />
+                    {measured && (
+                        <p className="text-xs text-slate-500">
+                            Drawn boundary measures {parseFloat(measured.area.toFixed(2))} {AREA_UNIT_LABELS[unit]} ({measured.crs}).
+                            {area !== '' && measured.area > 0 && Math.abs(Number(area) - measured.area) / measured.area * 100 > CLAIM_LIMITS.areaTolerancePct && (
+                                <span className="text-amber-700 font-medium"> Your declared area differs by more than {CLAIM_LIMITS.areaTolerancePct}%.</span>
+                            )}
+                        </p>
+                    )}
+                    <FieldError messages={fieldErrors.areaRequested} />
                 </div>
 
                 <button
                     type="submit"
-                    disabled={loading || !name || !district || !area}
+                    disabled={loading || !district || !area}
                     className="mt-2 bg-indigo-600 hover:bg-indigo-700 text-white font-medium py-2.5 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
                 >
                     {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : "Submit Claim for Verification"}
@@ -0,0 +1,104 @@
+import React from 'react';
+import { AlertTriangle, Bot, X } from 'lucide-react';
+import { formatArea, type ClaimAdvisory, type ClaimStatus } from 'fra-shared';
+import { paths } from '../hooks/useAppRoute';
+import { useAreaUnit } from '../hooks/useAreaUnit';
+import AppLink from './AppLink';
+
+interface ClaimAdvisoryPanelProps {
+    advisory: ClaimAdvisory;
+    // Opens the remark form for the recommended transition; omitted when the officer cannot act
+    onAdopt?: (status: ClaimStatus) => void;
+    onDismiss: () => void;
+}
+
+const ClaimLink = ({ id }: { id: string }) => (
+    <AppLink to={paths.claim(id)} className="font-semibold text-indigo-600 hover:underline">{id}</AppLink>
+);
+
+/**
+ * The review assistant's recommendation for one claim, with the facts it was given.
+ * Advisory only: the officer still picks the transition and writes the remark.
+ */
+const ClaimAdvisoryPanel: React.FC<ClaimAdvisoryPanelProps> = ({ advisory, onAdopt, onDismiss }) => {
+    const [unit] = useAreaUnit();
+    const { facts } = advisory;
+
+    return (
+        <div className="mb-3 p-3 rounded-lg border border-violet-200 bg-violet-50/50 text-xs flex flex-col gap-2">
+            <div className="flex items-start justify-between gap-2">
+                <div className="flex items-center gap-1.5 flex-wrap">
+                    <Bot className="w-4 h-4 text-violet-600" />
+                    <span className="px-1.5 py-0.5 rounded bg-violet-100 text-violet-700 text-[10px] uppercase font-bold tracking-wider">Advisory</span>
+                    <span className="text-slate-700">
+                        Recommends <strong>{advisory.recommendation}</strong> · {advisory.confidence} confidence
+                    </span>
+                </div>
+                <button onClick={onDismiss} className="text-slate-400 hover:text-slate-600" title="Dismiss advisory">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <p className="text-slate-700 leading-relaxed">{advisory.rationale}</p>
+
+            {advisory.considerations.length > 0 && (
+                <ul className="list-disc pl-5 text-slate-600 flex flex-col gap-0.5">
+                    {advisory.considerations.map(point => <li key={point}>{point}</li>)}
+                </ul>
+            )}
+
+            {advisory.issues.length > 0 && (
+                <div className="flex items-start gap-1.5 text-amber-800">
+                    <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                    <ul>{advisory.issues.map(issue => <li key={issue}>{issue}</li>)}</ul>
+                </div>
+            )}
+
+            <details className="text-slate-600">
+                <summary className="cursor-pointer text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Facts considered</summary>
+                <div className="mt-1.5 flex flex-col gap-1">
+                    <p>
+                        Overlaps: {facts.overlaps.length === 0 ? 'none' : facts.overlaps.map((o, i) => (
+                            <React.Fragment key={o.claimId}>
+                                {i > 0 && ', '}<ClaimLink id={o.claimId} /> ({o.status}, {formatArea(o.overlapAcres, unit)})
+                            </React.Fragment>
+                        ))}
+                    </p>
+                    <p>
+                        Reserved Forest: {facts.reservedEncroachment.length === 0
+                            ? 'none'
+                            : facts.reservedEncroachment.map(z => `${z.zoneId} (${formatArea(z.intersectAcres, unit)})`).join(', ')}
+                    </p>
+                    <p>
+                        Zone capacity: {facts.capacity.length === 0
+                            ? 'outside the mapped forest zones'
+                            : facts.capacity.map(c => `${c.zoneId} at ${c.usedPctIfApproved}% if approved`).join(', ')}
+                    </p>
+                    <p>
+                        Earlier decisions in the zone: {facts.precedents.length === 0 ? 'none' : facts.precedents.map((p, i) => (
+                            <React.Fragment key={`${p.claimId}-${p.decidedAt}`}>
+                                {i > 0 && ', '}<ClaimLink id={p.claimId} /> {p.decision}
+                            </React.Fragment>
+                        ))}
+                    </p>
+                </div>
+            </details>
+
+            <div className="flex items-center justify-between gap-2 border-t border-violet-100 pt-2">
+                <span className="text-[10px] text-slate-400">
+                    {advisory.provider === 'template' ? 'Rule-based advisory (no language model reachable)' : `Written by ${advisory.provider}`}. The decision is yours; it is recorded with this advisory.
+                </span>
+                {onAdopt && (
+                    <button
+                        onClick={() => onAdopt(advisory.recommendation)}
+                        className="shrink-0 px-2 py-1 rounded-md font-semibold text-violet-700 hover:bg-violet-100"
+                    >
+                        Start {advisory.recommendation}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ClaimAdvisoryPanel;
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import { X, FileSearch, Loader2, AlertTriangle, MapPin, ShieldCheck } from 'lucide-react';
+import {
+    formatArea,
+    parseOrThrow,
+    validateClaimConflictsResponse,
+    validateClaimResponse,
+    type ClaimConflict,
+    type SimulatedClaim
+} from 'fra-shared';
+import { useAuth } from '../context/AuthContext';
+import { useAreaUnit } from '../hooks/useAreaUnit';
+import { useSimulationEvents } from '../hooks/useSimulationEvents';
+import { paths } from '../hooks/useAppRoute';
+import { STATUS_BADGE_CLASS } from '../utils/claimStatusStyles';
+import { ClaimHistoryTimeline } from './AdminReviewPanel';
+import AppLink from './AppLink';
+import LoginForm from './LoginForm';
+
+interface ClaimDetailPanelProps {
+    claimId: string;
+    onClose: () => void;
+    // Lets the map outline and fly to the claim once it is loaded
+    onClaimLoaded: (claim: SimulatedClaim | null) => void;
+}
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+    <>
+        <dt className="text-slate-500 font-medium">{label}</dt>
+        <dd className="text-slate-800">{children}</dd>
+    </>
+);
+
+/**
+ * Claim detail page (/claims/:claimId): record, zones checked, overlaps and audit trail
+ */
+const ClaimDetailPanel: React.FC<ClaimDetailPanelProps> = ({ claimId, onClose, onClaimLoaded }) => {
+    const { user, checking } = useAuth();
+    const [unit] = useAreaUnit();
+    const [claim, setClaim] = useState<SimulatedClaim | null>(null);
+    const [conflicts, setConflicts] = useState<ClaimConflict[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchClaim = async () => {
+        if (!user) return;
+        setLoading(true);
+        setError(null);
+        try {
+            const [claimRes, conflictsRes] = await Promise.all([
+                axios.get(`http://localhost:5000/api/simulation/claims/${encodeURIComponent(claimId)}`),
+                axios.get(`http://localhost:5000/api/simulation/claims/${encodeURIComponent(claimId)}/conflicts`)
+            ]);
+            setClaim(parseOrThrow(validateClaimResponse, claimRes.data, 'claim response').claim);
+            setConflicts(parseOrThrow(validateClaimConflictsResponse, conflictsRes.data, 'claim conflicts').conflicts);
+        } catch (err: any) {
+            setClaim(null);
+            setConflicts([]);
+            setError(err.response?.status === 404 ? `Claim ${claimId} does not exist or is not visible to you.` : "Failed to load the claim.");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchClaim();
+    }, [claimId, user]);
+
+    useEffect(() => {
+        onClaimLoaded(claim);
+    }, [claim]);
+
+    useEffect(() => () => onClaimLoaded(null), []);
+
+    useSimulationEvents({
+        ready: fetchClaim,
+        'claim-reviewed': ({ claim: updated }) => {
+            if (updated.claimId === claimId) setClaim(updated);
+        },
+        // A new claim may overlap this one
+        'claim-created': fetchClaim
+    });
+
+    const canReview = !!claim && (user?.role === 'state_admin' || (user?.role === 'district_officer' && user.district === claim.district));
+
+    return (
+        <div className="fixed inset-y-0 left-0 z-[2000] flex items-start justify-start p-4 pointer-events-none w-[450px]">
+            <div className="pointer-events-auto bg-white rounded-2xl shadow-2xl w-full h-full flex flex-col overflow-hidden animate-in slide-in-from-left-8 duration-300 border border-slate-200">
+                <div className="flex items-center justify-between p-4 border-b border-slate-100 bg-slate-50">
+                    <div className="flex items-center gap-3">
+                        <div className="bg-indigo-100 p-2 rounded-lg">
+                            <FileSearch className="w-5 h-5 text-indigo-600" />
+                        </div>
+                        <div>
+                            <h2 className="text-lg font-bold text-slate-800 tracking-tight flex items-center gap-2">
+                                {claimId}
+                                {claim && (
+                                    <span className={`px-2 py-0.5 rounded text-[10px] uppercase font-bold tracking-wider ${STATUS_BADGE_CLASS[claim.status]}`}>
+                                        {claim.status}
+                                    </span>
+                                )}
+                            </h2>
+                            <p className="text-xs text-slate-500 font-medium uppercase tracking-widest">Claim Record</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 text-slate-400 hover:bg-slate-200 hover:text-slate-700 rounded-full transition-colors"
+                        title="Close"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto bg-slate-50/50 p-6">
+                    {checking ? (
+                        <div className="flex items-center justify-center p-12 text-slate-400">
+                            <Loader2 className="w-6 h-6 animate-spin" />
+                        </div>
+                    ) : !user ? (
+                        <div className="flex flex-col gap-4">
+                            <p className="text-sm text-slate-600">Sign in to view this claim.</p>
+                            <LoginForm />
+                        </div>
+                    ) : loading && !claim ? (
+                        <div className="flex items-center justify-center p-12 text-slate-400">
+                            <Loader2 className="w-6 h-6 animate-spin" />
+                        </div>
+                    ) : error || !claim ? (
+                        <div className="flex items-start gap-2 text-red-600 bg-red-50 p-3 rounded-md border border-red-100 text-sm">
+                            <AlertTriangle className="w-5 h-5 shrink-0" />
+                            <p className="font-medium">{error}</p>
+                        </div>
+                    ) : (
+                        <div className="flex flex-col gap-5">
+                            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-2 text-sm bg-white p-4 rounded-xl border border-slate-200">
+                                <Row label="Applicant">{claim.citizenName}</Row>
+                                <Row label="District">
+                                    <AppLink to={paths.district(claim.district)} className="text-indigo-600 font-semibold hover:underline">
+                                        {claim.district}
+                                    </AppLink>
+                                </Row>
+                                {claim.village && <Row label="Village">{claim.village}</Row>}
+                                <Row label="Requested">{formatArea(claim.areaRequested, unit)}</Row>
+                                {claim.areaCheck && (
+                                    <Row label="Drawn">
+                                        {formatArea(claim.areaCheck.drawnAcres, unit)}
+                                        {!claim.areaCheck.withinTolerance && <span className="text-amber-700"> ({claim.areaCheck.discrepancyPct}% off)</span>}
+                                    </Row>
+                                )}
+                                <Row label="Severity">{claim.conflictPercentage}%</Row>
+                                <Row label="Submitted">{new Date(claim.timestamp).toLocaleString()}</Row>
+                                {!claim.coordinates && <Row label="Boundary">Not drawn (area-only claim)</Row>}
+                            </dl>
+
+                            {claim.zoneBreakdown && (claim.zoneBreakdown.forestZones.length > 0 || claim.zoneBreakdown.reservedZones.length > 0) && (
+                                <section>
+                                    <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Zones checked</h3>
+                                    <ul className="flex flex-col gap-1 text-sm">
+                                        {claim.zoneBreakdown.forestZones.map(z => (
+                                            <li key={z.zoneId} className="text-slate-700">🌲 {z.zoneId}: {formatArea(z.intersectAcres, unit)}, {z.severity}% → {z.status}</li>
+                                        ))}
+                                        {claim.zoneBreakdown.reservedZones.map(z => (
+                                            <li key={z.zoneId} className="text-red-600">🚫 {z.zoneId}: {formatArea(z.intersectAcres, unit)} in reserved forest</li>
+                                        ))}
+                                    </ul>
+                                </section>
+                            )}
+
+                            <section>
+                                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Overlapping claims</h3>
+                                {conflicts.length === 0 ? (
+                                    <p className="text-sm text-slate-400">None recorded.</p>
+                                ) : (
+                                    <ul className="flex flex-col gap-1 text-sm">
+                                        {conflicts.map(c => (
+                                            <li key={c.claimId} className="flex items-center gap-2">
+                                                <MapPin className="w-3.5 h-3.5 text-amber-600" />
+                                                <AppLink to={paths.claim(c.claimId)} className="font-semibold text-indigo-600 hover:underline">{c.claimId}</AppLink>
+                                                <span className="text-slate-500">{c.status} · {formatArea(c.overlapAcres, unit)} shared</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </section>
+
+                            {canReview && (
+                                <AppLink
+                                    to={paths.admin(claim.district)}
+                                    className="self-start flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm"
+                                >
+                                    <ShieldCheck className="w-4 h-4" /> Open {claim.district} review queue
+                                </AppLink>
+                            )}
+
+                            <section>
+                                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">History</h3>
+                                <ClaimHistoryTimeline claimId={claim.claimId} status={claim.status} />
+                            </section>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ClaimDetailPanel;
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import {
+    AREA_UNIT_LABELS,
+    CLAIM_STATUSES,
+    KNOWN_DISTRICTS,
+    convertArea,
+    type ClaimFilter,
+    type ClaimStatus
+} from 'fra-shared';
+import { useAuth } from '../context/AuthContext';
+import { isFilterActive, useClaimFilter } from '../context/ClaimFilterContext';
+import { useAreaUnit } from '../hooks/useAreaUnit';
+
+const TEXT_DEBOUNCE_MS = 300;
+
+type NumericField = 'minAreaAcres' | 'maxAreaAcres' | 'minSeverity' | 'maxSeverity';
+
+// Number box that applies its value on blur or Enter, so half-typed numbers don't trigger searches
+const NumberInput: React.FC<{ value: number | undefined; onCommit: (value: number | undefined) => void; placeholder: string }> = ({ value, onCommit, placeholder }) => {
+    const [text, setText] = useState(value === undefined ? '' : String(value));
+    const commit = () => {
+        const parsed = text.trim() === '' ? undefined : Number(text);
+        if (parsed === undefined || (Number.isFinite(parsed) && parsed >= 0)) onCommit(parsed);
+        else setText(value === undefined ? '' : String(value));
+    };
+    return (
+        <input
+            type="number"
+            min={0}
+            value={text}
+            placeholder={placeholder}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => e.key === 'Enter' && commit()}
+            className="w-24 px-2 py-1 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        />
+    );
+};
+
+/**
+ * Claim search and filters. The selection narrows the map, the review queue and the dashboard KPIs together.
+ */
+const ClaimFilterBar: React.FC = () => {
+    const { user } = useAuth();
+    const { filter, setFilter, matches, error, mapView } = useClaimFilter();
+    const [unit] = useAreaUnit();
+    const [text, setText] = useState(filter.text ?? '');
+    const [expanded, setExpanded] = useState(false);
+    // Remounts the number boxes so a reset clears what they show
+    const [resetCount, setResetCount] = useState(0);
+
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setFilter(prev => ((prev.text ?? '') === text.trim() ? prev : { ...prev, text: text.trim() || undefined }));
+        }, TEXT_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [text]);
+
+    // Searching needs a session; signed-out visitors see every public claim as before
+    if (!user) return null;
+
+    const update = (patch: Partial<ClaimFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+    const toggleStatus = (status: ClaimStatus) => {
+        const current = filter.statuses ?? [];
+        const next = current.includes(status) ? current.filter(s => s !== status) : [...current, status];
+        update({ statuses: next.length ? next : undefined });
+    };
+
+    // Area bounds are typed in the selected unit and stored in acres
+    const areaValue = (acres: number | undefined) => (acres === undefined ? undefined : Number(convertArea(acres, 'acres', unit).toFixed(2)));
+    const commitArea = (field: NumericField) => (value: number | undefined) =>
+        update({ [field]: value === undefined ? undefined : convertArea(value, unit, 'acres') });
+
+    const clear = () => {
+        setText('');
+        setFilter({});
+        setResetCount(c => c + 1);
+    };
+
+    const active = isFilterActive(filter);
+    const refinements = Object.keys(filter).filter(k => k !== 'text' && filter[k as keyof ClaimFilter] !== undefined).length;
+
+    return (
+        <div className="relative bg-white border-b border-slate-200 px-4 py-2 flex items-center gap-3 shrink-0 z-[1001] shadow-sm">
+            <div className="relative flex-1 max-w-md">
+                <Search className="w-4 h-4 text-slate-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+                <input
+                    type="search"
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder="Search claim ID, applicant or village"
+                    className="w-full pl-8 pr-3 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 placeholder:text-slate-400"
+                />
+            </div>
+
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-semibold border transition-colors ${expanded || refinements ? 'bg-emerald-50 border-emerald-300 text-emerald-800' : 'border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+                aria-expanded={expanded}
+            >
+                <SlidersHorizontal className="w-4 h-4" /> Filters{refinements ? ` (${refinements})` : ''}
+            </button>
+
+            {active && (
+                <>
+                    {error ? (
+                        <span className="text-sm text-red-600">{error}</span>
+                    ) : (
+                        <span className="text-sm text-slate-500">
+                            {matches ? `${matches.total} matching claim${matches.total === 1 ? '' : 's'}` : 'Searching...'}
+                        </span>
+                    )}
+                    <button onClick={clear} className="flex items-center gap-1 text-sm font-medium text-slate-500 hover:text-red-600">
+                        <X className="w-4 h-4" /> Clear
+                    </button>
+                </>
+            )}
+
+            {expanded && (
+                <div key={resetCount} className="absolute top-full left-4 mt-1 w-[560px] max-w-[calc(100vw-2rem)] bg-white rounded-xl border border-slate-200 shadow-xl p-4 flex flex-col gap-3 text-sm">
+                    <div>
+                        <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5">Status</div>
+                        <div className="flex flex-wrap gap-1.5">
+                            {CLAIM_STATUSES.map(status => (
+                                <button
+                                    key={status}
+                                    onClick={() => toggleStatus(status)}
+                                    className={`px-2 py-0.5 rounded-full text-xs font-medium border ${filter.statuses?.includes(status) ? 'bg-emerald-600 border-emerald-600 text-white' : 'border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+                                >
+                                    {status}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">District</span>
+                            <select
+                                value={filter.district ?? ''}
+                                onChange={(e) => update({ district: e.target.value || undefined })}
+                                className="px-2 py-1 border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                            >
+                                <option value="">All districts</option>
+                                {KNOWN_DISTRICTS.map(d => <option key={d} value={d}>{d}</option>)}
+                            </select>
+                        </label>
+
+                        <div className="flex flex-col gap-1">
+                            <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Submitted</span>
+                            <div className="flex items-center gap-1.5">
+                                <input
+                                    type="date"
+                                    value={filter.submittedFrom ?? ''}
+                                    max={filter.submittedTo}
+                                    onChange={(e) => update({ submittedFrom: e.target.value || undefined })}
+                                    className="px-2 py-1 border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                                />
+                                <span className="text-slate-400">to</span>
+                                <input
+                                    type="date"
+                                    value={filter.submittedTo ?? ''}
+                                    min={filter.submittedFrom}
+                                    onChange={(e) => update({ submittedTo: e.target.value || undefined })}
+                                    className="px-2 py-1 border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="flex flex-col gap-1">
+                            <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Area ({AREA_UNIT_LABELS[unit]})</span>
+                            <div className="flex items-center gap-1.5">
+                                <NumberInput key={`min-${unit}`} value={areaValue(filter.minAreaAcres)} onCommit={commitArea('minAreaAcres')} placeholder="Min" />
+                                <span className="text-slate-400">to</span>
+                                <NumberInput key={`max-${unit}`} value={areaValue(filter.maxAreaAcres)} onCommit={commitArea('maxAreaAcres')} placeholder="Max" />
+                            </div>
+                        </div>
+
+                        <div className="flex flex-col gap-1">
+                            <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Conflict severity (%)</span>
+                            <div className="flex items-center gap-1.5">
+                                <NumberInput value={filter.minSeverity} onCommit={v => update({ minSeverity: v })} placeholder="Min" />
+                                <span className="text-slate-400">to</span>
+                                <NumberInput value={filter.maxSeverity} onCommit={v => update({ maxSeverity: v })} placeholder="Max" />
+                            </div>
+                        </div>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-slate-700 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={!!filter.bbox}
+                            disabled={!mapView}
+                            onChange={(e) => update({ bbox: e.target.checked && mapView ? mapView : undefined })}
+                            className="accent-emerald-600"
+                        />
+                        Only claims within the current map view
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ClaimFilterBar;
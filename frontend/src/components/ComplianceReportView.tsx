@@ -0,0 +1,124 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { AlertTriangle, BadgeCheck, Gavel, ListChecks } from 'lucide-react';
+import type { RiskLevel, StructuredReport } from 'fra-shared';
+import { paths } from '../hooks/useAppRoute';
+import AppLink from './AppLink';
+
+interface ComplianceReportViewProps {
+    report: StructuredReport;
+    provider: string;
+}
+
+const RISK_BADGE_CLASS: Record<RiskLevel, string> = {
+    High: 'bg-red-100 text-red-700',
+    Moderate: 'bg-amber-100 text-amber-700',
+    Low: 'bg-emerald-100 text-emerald-700'
+};
+
+/**
+ * Structured compliance report. Findings show the claims and figures they cite;
+ * anything the server could not trace back to the district's data is marked.
+ */
+const ComplianceReportView: React.FC<ComplianceReportViewProps> = ({ report, provider }) => (
+    <div className="flex flex-col gap-4">
+        <div className="flex items-center gap-2">
+            <span className={`px-2 py-0.5 rounded text-[10px] uppercase font-bold tracking-wider ${RISK_BADGE_CLASS[report.riskLevel]}`}>
+                {report.riskLevel} risk
+            </span>
+        </div>
+
+        <div className="prose prose-sm prose-indigo max-w-none prose-p:leading-relaxed prose-p:text-slate-600 prose-strong:text-indigo-800">
+            <ReactMarkdown>{report.summary}</ReactMarkdown>
+        </div>
+
+        {report.issues.length > 0 && (
+            <div className="flex items-start gap-2 text-amber-800 bg-amber-50 p-3 rounded-md border border-amber-100 text-xs">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <ul className="flex flex-col gap-0.5">
+                    {report.issues.map(issue => <li key={issue}>{issue}</li>)}
+                </ul>
+            </div>
+        )}
+
+        <section>
+            <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Findings</h4>
+            <ol className="flex flex-col gap-2">
+                {report.findings.map((finding, i) => (
+                    <li
+                        key={i}
+                        className={`p-3 rounded-lg border ${finding.issues.length ? 'border-amber-200 bg-amber-50/50' : 'border-slate-200 bg-slate-50/50'}`}
+                    >
+                        <div className="flex items-start gap-2">
+                            {finding.issues.length
+                                ? <AlertTriangle className="w-4 h-4 shrink-0 text-amber-600 mt-0.5" />
+                                : <BadgeCheck className="w-4 h-4 shrink-0 text-emerald-600 mt-0.5" />}
+                            <div className="prose prose-sm max-w-none prose-p:my-0 prose-p:text-slate-700">
+                                <ReactMarkdown>{finding.statement}</ReactMarkdown>
+                            </div>
+                        </div>
+                        {(finding.claimIds.length > 0 || finding.figures.length > 0) && (
+                            <div className="mt-2 ml-6 flex flex-wrap gap-1.5 text-[11px]">
+                                {finding.claimIds.map(id => (
+                                    <AppLink
+                                        key={id}
+                                        to={paths.claim(id)}
+                                        className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700 font-semibold hover:bg-indigo-100"
+                                    >
+                                        {id}
+                                    </AppLink>
+                                ))}
+                                {finding.figures.map(figure => (
+                                    <span
+                                        key={figure.label}
+                                        className={`px-1.5 py-0.5 rounded ${figure.verified ? 'bg-slate-100 text-slate-600' : 'bg-amber-100 text-amber-800 line-through decoration-amber-500'}`}
+                                        title={figure.verified
+                                            ? `Matches ${figure.source ?? 'the district data'}`
+                                            : figure.source ? `Does not match ${figure.source}` : 'Not found in the district data'}
+                                    >
+                                        {figure.label}: <strong>{figure.value}</strong>
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                        {finding.issues.length > 0 && (
+                            <ul className="mt-2 ml-6 text-[11px] text-amber-800 list-disc pl-4">
+                                {finding.issues.map(issue => <li key={issue}>{issue}</li>)}
+                            </ul>
+                        )}
+                    </li>
+                ))}
+            </ol>
+        </section>
+
+        {report.recommendedActions.length > 0 && (
+            <section>
+                <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1.5">
+                    <ListChecks className="w-3.5 h-3.5" /> Recommended actions
+                </h4>
+                <ul className="list-disc pl-5 text-slate-700 flex flex-col gap-1 marker:text-indigo-400">
+                    {report.recommendedActions.map(action => <li key={action}>{action}</li>)}
+                </ul>
+            </section>
+        )}
+
+        {report.legalReferences.length > 0 && (
+            <section>
+                <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1.5">
+                    <Gavel className="w-3.5 h-3.5" /> Legal references
+                </h4>
+                <ul className="list-disc pl-5 text-slate-600 text-xs flex flex-col gap-0.5">
+                    {report.legalReferences.map(ref => <li key={ref}>{ref}</li>)}
+                </ul>
+            </section>
+        )}
+
+        <p className="text-[11px] text-slate-400">
+            {provider === 'template'
+                ? 'Template report: no language model was reachable.'
+                : `Written by ${provider}; claim IDs and figures checked against the district data.`}
+        </p>
+    </div>
+);
+
+export default ComplianceReportView;
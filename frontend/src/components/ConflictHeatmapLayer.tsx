@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet.heat';
+import * as turf from '@turf/turf';
+import type { GeoJSONFeatureCollection, LegacyClaimProperties } from 'fra-shared';
+import { HEAT_GRADIENT } from '../utils/riskColors';
+
+// Reserved-forest breaches weigh more than other conflicts
+const HEAT_WEIGHT: Partial<Record<LegacyClaimProperties['status'], number>> = {
+    Protected: 1,
+    Conflict: 0.6
+};
+
+/**
+ * Conflict locations (claim centroids) weighted by severity
+ */
+export const conflictHeatPoints = (claims: GeoJSONFeatureCollection): L.HeatLatLngTuple[] =>
+    claims.features.flatMap(feature => {
+        const weight = HEAT_WEIGHT[(feature.properties as unknown as LegacyClaimProperties).status];
+        if (!weight) return [];
+        const [lng, lat] = turf.centroid(feature as GeoJSON.Feature).geometry.coordinates;
+        return [[lat, lng, weight] as L.HeatLatLngTuple];
+    });
+
+/**
+ * Kernel-density heatmap of conflict locations (leaflet.heat)
+ */
+const ConflictHeatmapLayer = ({ points }: { points: L.HeatLatLngTuple[] }) => {
+    const map = useMap();
+
+    useEffect(() => {
+        const layer = L.heatLayer(points, { radius: 30, blur: 20, max: 1, minOpacity: 0.3, gradient: HEAT_GRADIENT }).addTo(map);
+        return () => {
+            map.removeLayer(layer);
+        };
+    }, [map, points]);
+
+    return null;
+};
+
+export default ConflictHeatmapLayer;
@@ -1,39 +1,51 @@
 import React, { useEffect, useState, useRef } from 'react';
 import axios from 'axios';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
-import { AlertTriangle, CheckCircle, Clock, ShieldAlert, Activity, Sparkles, FileText, Loader2 } from 'lucide-react';
+import { AlertTriangle, CheckCircle, Clock, ShieldAlert, Activity, Sparkles, FileText, Loader2, Filter, Square } from 'lucide-react';
+import {
+    parseOrThrow,
+    validateAnalyticsData,
+    validateErrorResponse,
+    validateReportResponse,
+    validateReportStreamToken,
+    validateSimulatedClaimList,
+    type AnalyticsData,
+    type ReportResponse
+} from 'fra-shared';
+import { useSimulationEvents } from '../hooks/useSimulationEvents';
+import { useClaimFilter } from '../context/ClaimFilterContext';
+import ExportButtons from './ExportButtons';
+import ComplianceReportView from './ComplianceReportView';
+import ReportArchivePanel from './ReportArchivePanel';
+import ReportDraftPreview from './ReportDraftPreview';
+import { useAuth } from '../context/AuthContext';
 
 
-interface AnalyticsData {
-    summary: {
-        total_claims: number;
-        approved_claims: number;
-        pending_claims: number;
-        conflict_claims: number;
-        approved_pct: number;
-        pending_pct: number;
-    };
-    districts: {
-        district: string;
-        total_claims: number;
-        pending: number;
-        conflicts: number;
-        risk_score: number;
-        risk_level: string;
-    }[];
-}
-
 const COLORS = ['#22c55e', '#eab308', '#ef4444'];
 
-const DashboardPanel: React.FC = () => {
+interface DashboardPanelProps {
+    // Shared with the map, where clicking a district on the risk layer selects it
+    selectedDistrict: string | null;
+    onSelectDistrict: (district: string) => void;
+}
+
+const DashboardPanel: React.FC<DashboardPanelProps> = ({ selectedDistrict, onSelectDistrict }) => {
     const [data, setData] = useState<AnalyticsData | null>(null);
     const [loading, setLoading] = useState(true);
+    const { matches } = useClaimFilter();
+    const { user, token } = useAuth();
+    // A district's report archive belongs to its officers and the state admin; their reports are archived
+    const canUseArchive = user?.role === 'state_admin' || (user?.role === 'district_officer' && user.district === selectedDistrict);
 
     // AI Report State
-    const [selectedDistrict, setSelectedDistrict] = useState<string | null>(null);
     const [generatingReport, setGeneratingReport] = useState(false);
-    const [reportText, setReportText] = useState<string | null>(null);
+    // The model's JSON as it streams in, then the checked report
+    const [reportDraft, setReportDraft] = useState<string | null>(null);
+    const [report, setReport] = useState<ReportResponse | null>(null);
     const [reportError, setReportError] = useState<string | null>(null);
+    const [reportCancelled, setReportCancelled] = useState(false);
+    // Open while a report is streaming; closing it cancels the generation on the server
+    const reportStream = useRef<EventSource | null>(null);
 
     // Phase 6 Spatial Alert State
     const [spatialAlert, setSpatialAlert] = useState<{ active: boolean; district: string; severity: number; id: string } | null>(null);
@@ -46,7 +58,7 @@ const DashboardPanel: React.FC = () => {
     const fetchAnalytics = () => {
         axios.get('http://localhost:5000/api/simulation/analytics')
             .then(response => {
-                setData(response.data);
+                setData(parseOrThrow(validateAnalyticsData, response.data, 'analytics response'));
                 setLoading(false);
             })
             .catch(error => {
@@ -58,10 +70,10 @@ const DashboardPanel: React.FC = () => {
     const checkSpatialConflicts = async () => {
         try {
             const res = await axios.get('http://localhost:5000/api/simulation/claims');
-            const claims = res.data;
+            const claims = parseOrThrow(validateSimulatedClaimList, res.data, 'claims response');
 
             // Find any claim with > 10% severity
-            const highConflictClaim = claims.find((c: any) => c.status === "Flagged" && c.conflictPercentage > 10);
+            const highConflictClaim = claims.find(c => c.status === "Flagged" && c.conflictPercentage > 10);
 
             if (highConflictClaim) {
                 if (alertedClaimIdRef.current !== highConflictClaim.claimId) {
@@ -81,7 +93,7 @@ const DashboardPanel: React.FC = () => {
             }
 
             // Phase 8: Reserved Forest Violation Detection
-            const reservedViolationClaim = claims.find((c: any) => c.status === "Reserved Violation");
+            const reservedViolationClaim = claims.find(c => c.status === "Reserved Violation");
             if (reservedViolationClaim) {
                 if (alertedReservedIdRef.current !== reservedViolationClaim.claimId) {
                     alertedReservedIdRef.current = reservedViolationClaim.claimId;
@@ -91,43 +103,90 @@ const DashboardPanel: React.FC = () => {
                 alertedReservedIdRef.current = null;
                 setReservedAlert(null);
             }
-        } catch (e) { /* ignore silently in polling */ }
+        } catch (e) { /* ignore silently; the next live event retries */ }
     }
 
     useEffect(() => {
         fetchAnalytics();
         checkSpatialConflicts();
+    }, []);
 
-        // Poll every 3 seconds for live updates
-        const interval = setInterval(() => {
+    // Live updates pushed by the backend instead of polling
+    useSimulationEvents({
+        ready: () => {
             fetchAnalytics();
             checkSpatialConflicts();
-        }, 3000);
-
-        return () => clearInterval(interval);
-    }, []);
+        },
+        'claim-created': checkSpatialConflicts,
+        'claim-reviewed': checkSpatialConflicts,
+        'analytics-changed': fetchAnalytics
+    });
+
+    const stopReportStream = () => {
+        reportStream.current?.close();
+        reportStream.current = null;
+        setGeneratingReport(false);
+    };
 
     const handleGenerateReport = (district: string) => {
+        stopReportStream();
         setGeneratingReport(true);
         setReportError(null);
-        setReportText(null);
+        setReportCancelled(false);
+        setReportDraft(null);
+        setReport(null);
+
+        // EventSource cannot send headers; the token lets the archive record who generated the report
+        const url = `http://localhost:5000/api/report/${encodeURIComponent(district)}/stream`;
+        const source = new EventSource(token ? `${url}?token=${encodeURIComponent(token)}` : url);
+        reportStream.current = source;
+
+        const handle = (handler: (data: unknown) => void) => (e: MessageEvent) => {
+            try {
+                handler(JSON.parse(e.data));
+            } catch (err) {
+                console.error("Dropped malformed report event:", err);
+            }
+        };
+        source.addEventListener('token', handle(data => {
+            const { text } = parseOrThrow(validateReportStreamToken, data, 'report token');
+            setReportDraft(prev => (prev ?? '') + text);
+        }));
+        // A provider failed midway and the next one starts over
+        source.addEventListener('reset', () => setReportDraft(null));
+        source.addEventListener('done', handle(data => {
+            setReport(parseOrThrow(validateReportResponse, data, 'report response'));
+            setReportDraft(null);
+            stopReportStream();
+        }));
+        source.addEventListener('failed', handle(data => {
+            setReportError(parseOrThrow(validateErrorResponse, data, 'report error').error);
+            stopReportStream();
+        }));
+        // Fired by the browser when the connection drops; don't let it reconnect and start over
+        source.onerror = () => {
+            if (reportStream.current !== source) return;
+            setReportError("Failed to connect to the AI Engine.");
+            stopReportStream();
+        };
+    };
 
-        axios.get(`http://localhost:5000/api/report/${district}`)
-            .then(response => {
-                if (response.data.error) {
-                    setReportError(response.data.error);
-                } else {
-                    setReportText(response.data.reportText);
-                }
-            })
-            .catch(err => {
-                setReportError(err.response?.data?.error || "Failed to connect to the AI Engine.");
-            })
-            .finally(() => {
-                setGeneratingReport(false);
-            });
+    const cancelReport = () => {
+        stopReportStream();
+        setReportCancelled(true);
     };
 
+    // A report belongs to its district; stop and clear it when the selection changes
+    useEffect(() => {
+        setReportDraft(null);
+        setReport(null);
+        setReportError(null);
+        setReportCancelled(false);
+        return stopReportStream;
+    }, [selectedDistrict]);
+
+    const selectedRisk = data?.districts.find(d => d.district === selectedDistrict) ?? null;
+
     if (loading || !data) {
         return (
             <div className="w-full h-full flex items-center justify-center bg-white border-l border-slate-200">
@@ -139,10 +198,13 @@ const DashboardPanel: React.FC = () => {
         );
     }
 
+    // KPIs follow the filter bar; the risk ranking always covers every claim
+    const summary = matches?.summary ?? data.summary;
+
     const pieData = [
-        { name: 'Approved', value: data.summary.approved_claims },
-        { name: 'Pending', value: data.summary.pending_claims },
-        { name: 'Conflict / Protected', value: data.summary.conflict_claims },
+        { name: 'Approved', value: summary.approved_claims },
+        { name: 'Pending', value: summary.pending_claims },
+        { name: 'Conflict / Protected', value: summary.conflict_claims },
     ];
 
     return (
@@ -197,6 +259,13 @@ const DashboardPanel: React.FC = () => {
                         </div>
                     )}
 
+                    {matches && (
+                        <div className="flex items-center gap-2 text-xs font-medium text-emerald-800 bg-emerald-50 border border-emerald-100 rounded-lg px-3 py-2">
+                            <Filter className="w-3.5 h-3.5" />
+                            Figures below cover the {matches.total} claim{matches.total === 1 ? '' : 's'} matching the current filter.
+                        </div>
+                    )}
+
                     {/* Top KPI Cards */}
                     <div className="grid grid-cols-2 gap-3">
                         <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 shadow-sm transition-all hover:shadow-md">
@@ -204,7 +273,7 @@ const DashboardPanel: React.FC = () => {
                                 <CheckCircle className="w-4 h-4 text-emerald-500" />
                                 <span className="text-xs font-semibold uppercase tracking-wider">Total Claims</span>
                             </div>
-                            <div className="text-3xl font-bold text-slate-800">{data.summary.total_claims}</div>
+                            <div className="text-3xl font-bold text-slate-800">{summary.total_claims}</div>
                         </div>
 
                         <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 shadow-sm transition-all hover:shadow-md">
@@ -212,7 +281,7 @@ const DashboardPanel: React.FC = () => {
                                 <ShieldAlert className="w-4 h-4 text-red-500" />
                                 <span className="text-xs font-semibold uppercase tracking-wider">Conflicts</span>
                             </div>
-                            <div className="text-3xl font-bold text-red-600">{data.summary.conflict_claims}</div>
+                            <div className="text-3xl font-bold text-red-600">{summary.conflict_claims}</div>
                         </div>
 
                         <div className="col-span-2 bg-gradient-to-r from-yellow-50 to-orange-50 p-4 rounded-xl border border-yellow-100 flex items-center justify-between shadow-sm transition-all hover:shadow-md">
@@ -221,10 +290,10 @@ const DashboardPanel: React.FC = () => {
                                     <Clock className="w-4 h-4 text-yellow-600" />
                                     <span className="text-xs font-semibold uppercase tracking-wider">Pending Verification</span>
                                 </div>
-                                <div className="text-2xl font-bold text-yellow-800">{data.summary.pending_pct}%</div>
+                                <div className="text-2xl font-bold text-yellow-800">{summary.pending_pct}%</div>
                             </div>
                             <div className="text-right text-yellow-700 text-sm opacity-80 font-medium">
-                                {data.summary.pending_claims} total cases
+                                {summary.pending_claims} total cases
                             </div>
                         </div>
                     </div>
@@ -282,7 +351,7 @@ const DashboardPanel: React.FC = () => {
                                     {data.districts.map((district, idx) => (
                                         <tr
                                             key={idx}
-                                            onClick={() => setSelectedDistrict(district.district)}
+                                            onClick={() => onSelectDistrict(district.district)}
                                             className={`transition-colors cursor-pointer ${selectedDistrict === district.district ? 'bg-indigo-50/80 hover:bg-indigo-100/80 border-l-2 border-l-indigo-500' : 'hover:bg-slate-50 border-l-2 border-l-transparent'}`}
                                             title={`Click to generate Local LLM report for ${district.district}`}
                                         >
@@ -290,7 +359,12 @@ const DashboardPanel: React.FC = () => {
                                                 {district.district}
                                                 {selectedDistrict === district.district && <Sparkles className="w-3 h-3 text-indigo-500 animate-pulse" />}
                                             </td>
-                                            <td className="px-4 py-3 text-right font-mono text-slate-500">{district.risk_score}</td>
+                                            <td
+                                                className="px-4 py-3 text-right font-mono text-slate-500"
+                                                title={district.explanation.filter(f => f.points > 0).map(f => `${f.label}: +${f.points}`).join('\n')}
+                                            >
+                                                {district.risk_score}
+                                            </td>
                                             <td className="px-4 py-3 text-center">
                                                 <span className={`px-2.5 py-1 rounded-full text-[10px] uppercase tracking-wider font-bold leading-none inline-flex 
                         ${district.risk_level === 'High' ? 'bg-red-100 text-red-700 ring-1 ring-red-200' :
@@ -304,6 +378,29 @@ const DashboardPanel: React.FC = () => {
                                 </tbody>
                             </table>
                         </div>
+
+                        {/* Risk engine breakdown for the selected district */}
+                        {selectedRisk && (
+                            <div className="p-4 border-t border-slate-100 bg-slate-50/40">
+                                <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
+                                    Why {selectedRisk.district} scores {selectedRisk.risk_score}
+                                </h4>
+                                <ul className="flex flex-col gap-2">
+                                    {selectedRisk.explanation.map(factor => (
+                                        <li key={factor.factorId} className="text-xs" title={`Value ${factor.value} × weight ${factor.weight}`}>
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="font-medium text-slate-700">{factor.label}</span>
+                                                <span className="font-mono text-slate-500">+{factor.points}</span>
+                                            </div>
+                                            <div className="h-1.5 bg-slate-100 rounded-full mt-1 overflow-hidden">
+                                                <div className="h-full bg-orange-400 rounded-full" style={{ width: `${factor.value}%` }} />
+                                            </div>
+                                            <p className="text-[11px] text-slate-400 mt-0.5">{factor.detail}</p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
                     </div>
 
                     {/* AI Compliance Report Generator */}
@@ -322,7 +419,7 @@ const DashboardPanel: React.FC = () => {
                             <div className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-indigo-100 rounded-lg bg-white/40">
                                 <FileText className="w-8 h-8 text-indigo-200 mb-2" />
                                 <p className="text-sm text-indigo-500 text-center font-medium">
-                                    Select a district from the risk table above<br />to generate an on-demand Llama3 summary.
+                                    Select a district from the risk table above<br />to generate an on-demand compliance summary.
                                 </p>
                             </div>
                         ) : (
@@ -331,18 +428,31 @@ const DashboardPanel: React.FC = () => {
                                     <span className="text-sm font-medium text-indigo-900 flex items-center gap-2">
                                         Target Region: <strong className="text-indigo-700 bg-indigo-100 px-2 py-0.5 rounded">{selectedDistrict}</strong>
                                     </span>
-                                    <button
-                                        onClick={() => handleGenerateReport(selectedDistrict)}
-                                        disabled={generatingReport}
-                                        className="bg-indigo-600 hover:bg-indigo-700 focus:ring-4 focus:ring-indigo-100 text-white px-4 py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 shadow-sm active:scale-95"
-                                    >
-                                        {generatingReport ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
-                                        Generate Report
-                                    </button>
+                                    {generatingReport ? (
+                                        <button
+                                            onClick={cancelReport}
+                                            className="bg-white hover:bg-red-50 text-red-600 border border-red-200 px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 shadow-sm active:scale-95"
+                                            title="Stop generating the report"
+                                        >
+                                            <Square className="w-3.5 h-3.5 fill-current" />
+                                            Cancel
+                                        </button>
+                                    ) : (
+                                        <button
+                                            onClick={() => handleGenerateReport(selectedDistrict)}
+                                            className="bg-indigo-600 hover:bg-indigo-700 focus:ring-4 focus:ring-indigo-100 text-white px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 shadow-sm active:scale-95"
+                                        >
+                                            <FileText className="w-4 h-4" />
+                                            Generate Report
+                                        </button>
+                                    )}
                                 </div>
 
+                                {/* Downloads for the selected district (signed-in users only) */}
+                                <ExportButtons district={selectedDistrict} showDossier skipReport={!!reportError} />
+
                                 {/* Report Output Box */}
-                                {(reportText || reportError) && (
+                                {(report || reportError || generatingReport || reportCancelled) && (
                                     <div className="mt-2 bg-white rounded-lg p-5 border border-indigo-100 shadow-sm text-sm 
                                 animate-in fade-in slide-in-from-bottom-2 duration-500 relative">
                                         {reportError ? (
@@ -350,17 +460,22 @@ const DashboardPanel: React.FC = () => {
                                                 <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5" />
                                                 <p className="font-medium">{reportError}</p>
                                             </div>
+                                        ) : report ? (
+                                            <ComplianceReportView report={report.report} provider={report.provider} />
+                                        ) : reportCancelled ? (
+                                            <p className="text-amber-700">Generation cancelled.</p>
+                                        ) : reportDraft ? (
+                                            <ReportDraftPreview draft={reportDraft} />
                                         ) : (
-                                            <div className="prose prose-sm prose-indigo max-w-none 
-                                    prose-p:leading-relaxed prose-p:text-slate-600 
-                                    prose-headings:font-bold prose-headings:text-slate-800
-                                    prose-strong:text-indigo-800
-                                    prose-li:text-slate-600 marker:text-indigo-400">
-                                                <div className="whitespace-pre-wrap">{reportText || ""}</div>
-                                            </div>
+                                            <p className="flex items-center gap-2 text-slate-400">
+                                                <Loader2 className="w-4 h-4 animate-spin" />
+                                                Waiting for the model…
+                                            </p>
                                         )}
                                     </div>
                                 )}
+
+                                {canUseArchive && <ReportArchivePanel district={selectedDistrict} latestReportId={report?.archived?.reportId ?? null} />}
                             </div>
                         )}
                     </div>
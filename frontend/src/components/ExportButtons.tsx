@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Download, FileDown, Loader2 } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { downloadExport, exportErrorMessage } from '../utils/download';
+
+const API = 'http://localhost:5000/api/simulation/export';
+
+interface ExportButtonsProps {
+    // Limits every export to one district; null exports everything the user can see
+    district: string | null;
+    // Adds the PDF dossier button (officials only, needs a district)
+    showDossier?: boolean;
+    // Leave the LLM report out of the dossier (e.g. when none has been generated)
+    skipReport?: boolean;
+}
+
+type ExportKey = 'claims.geojson' | 'claims.csv' | 'claims.kml' | 'conflicts.geojson' | 'conflicts.csv' | 'dossier';
+
+const EXPORTS: { key: Exclude<ExportKey, 'dossier'>; label: string }[] = [
+    { key: 'claims.geojson', label: 'Claims GeoJSON' },
+    { key: 'claims.csv', label: 'Claims CSV' },
+    { key: 'claims.kml', label: 'Claims KML' },
+    { key: 'conflicts.geojson', label: 'Overlaps GeoJSON' },
+    { key: 'conflicts.csv', label: 'Overlaps CSV' }
+];
+
+/**
+ * Download buttons for claim, overlap and dossier exports. Hidden for signed-out visitors.
+ */
+const ExportButtons: React.FC<ExportButtonsProps> = ({ district, showDossier = false, skipReport = false }) => {
+    const { user } = useAuth();
+    const [busy, setBusy] = useState<ExportKey | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!user) return null;
+    const isOfficial = user.role === 'district_officer' || user.role === 'state_admin';
+    const canExportDossier = showDossier && !!district && (user.role === 'state_admin' || user.district === district);
+
+    const run = async (key: ExportKey) => {
+        setBusy(key);
+        setError(null);
+        try {
+            if (key === 'dossier') {
+                const query = skipReport ? '?report=skip' : '';
+                await downloadExport(`${API}/dossier/${encodeURIComponent(district!)}${query}`, `dossier-${district}.pdf`);
+            } else {
+                const query = district ? `?district=${encodeURIComponent(district)}` : '';
+                await downloadExport(`${API}/${key}${query}`, key);
+            }
+        } catch (err) {
+            setError(await exportErrorMessage(err));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-1.5">
+            <div className="flex flex-wrap gap-1.5">
+                {EXPORTS.map(({ key, label }) => (
+                    <button
+                        key={key}
+                        type="button"
+                        onClick={() => run(key)}
+                        disabled={busy !== null}
+                        className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 hover:text-slate-800 transition-colors disabled:opacity-50"
+                    >
+                        {busy === key ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+                        {label}
+                    </button>
+                ))}
+                {isOfficial && canExportDossier && (
+                    <button
+                        type="button"
+                        onClick={() => run('dossier')}
+                        disabled={busy !== null}
+                        className="flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-md border border-indigo-200 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 transition-colors disabled:opacity-50"
+                        title={skipReport ? "PDF without the compliance report" : "PDF including a freshly generated compliance report"}
+                    >
+                        {busy === 'dossier' ? <Loader2 className="w-3 h-3 animate-spin" /> : <FileDown className="w-3 h-3" />}
+                        District Dossier (PDF)
+                    </button>
+                )}
+            </div>
+            {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+    );
+};
+
+export default ExportButtons;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Layers, ChevronDown, ChevronUp } from 'lucide-react';
+import { MAP_LAYERS, type MapLayerId } from '../utils/mapLayers';
+
+interface LayerTogglePanelProps {
+    visibleLayers: ReadonlySet<MapLayerId>;
+    onToggle: (id: MapLayerId) => void;
+    // Zone and overlap layers are drawn by the conflict engine view only
+    zoneLayersAvailable: boolean;
+    className?: string;
+}
+
+const GROUPS = [...new Set(MAP_LAYERS.map(l => l.group))];
+
+/**
+ * Collapsible list of switchable map layers, grouped as claims, zones and analysis overlays
+ */
+const LayerTogglePanel: React.FC<LayerTogglePanelProps> = ({ visibleLayers, onToggle, zoneLayersAvailable, className = '' }) => {
+    const [open, setOpen] = useState(false);
+
+    return (
+        <div className={`absolute top-4 z-[1000] bg-white/90 rounded-lg shadow-lg border border-slate-200 backdrop-blur-sm w-52 ${className}`}>
+            <button
+                type="button"
+                onClick={() => setOpen(!open)}
+                className="w-full flex items-center justify-between px-3 py-2 text-sm font-bold text-slate-700"
+                aria-expanded={open}
+            >
+                <span className="flex items-center gap-2"><Layers className="w-4 h-4 text-emerald-700" /> Layers</span>
+                {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+
+            {open && (
+                <div className="px-3 pb-3 flex flex-col gap-3 border-t border-slate-100 pt-2">
+                    {GROUPS.map(group => (
+                        <fieldset key={group}>
+                            <legend className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider mb-1">{group}</legend>
+                            {MAP_LAYERS.filter(l => l.group === group).map(layer => (
+                                <label key={layer.id} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer select-none py-0.5">
+                                    <input
+                                        type="checkbox"
+                                        checked={visibleLayers.has(layer.id)}
+                                        onChange={() => onToggle(layer.id)}
+                                        className="accent-emerald-600"
+                                    />
+                                    {layer.label}
+                                </label>
+                            ))}
+                            {group === 'Zones' && !zoneLayersAvailable && (
+                                <p className="text-[10px] text-slate-400 mt-0.5">Drawn while the conflict engine is open.</p>
+                            )}
+                        </fieldset>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LayerTogglePanel;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { LogIn, UserPlus, AlertTriangle, Loader2, KeyRound } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+
+const LoginForm: React.FC = () => {
+    const { login, register } = useAuth();
+    const [mode, setMode] = useState<'login' | 'register'>('login');
+    const [username, setUsername] = useState('');
+    const [name, setName] = useState('');
+    const [password, setPassword] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+
+        try {
+            if (mode === 'login') {
+                await login(username, password);
+            } else {
+                await register(username, name, password);
+            }
+        } catch (err: any) {
+            setError(err.response?.data?.error || "Unable to reach the authentication service.");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 max-w-md mx-auto">
+            <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2 mb-1">
+                <KeyRound className="w-5 h-5 text-indigo-600" />
+                {mode === 'login' ? 'Sign In' : 'Create Citizen Account'}
+            </h2>
+            <p className="text-sm text-slate-500 mb-6">
+                {mode === 'login'
+                    ? 'Citizens file and track their own claims. District officers and state admins review claims.'
+                    : 'Register to file Forest Rights claims and track their review status.'}
+            </p>
+
+            {error && (
+                <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-center gap-2 border border-red-100">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    {error}
+                </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+                <div className="flex flex-col gap-1.5">
+                    <label className="text-sm font-semibold text-slate-700">Username</label>
+                    <input
+                        required
+                        type="text"
+                        autoComplete="username"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                </div>
+
+                {mode === 'register' && (
+                    <div className="flex flex-col gap-1.5">
+                        <label className="text-sm font-semibold text-slate-700">Full Name</label>
+                        <input
+                            required
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="E.g. Ramesh Kumar"
+                            className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 placeholder:text-slate-400"
+                        />
+                    </div>
+                )}
+
+                <div className="flex flex-col gap-1.5">
+                    <label className="text-sm font-semibold text-slate-700">Password</label>
+                    <input
+                        required
+                        type="password"
+                        autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                        minLength={mode === 'register' ? 8 : undefined}
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                </div>
+
+                <button
+                    type="submit"
+                    disabled={loading}
+                    className="mt-2 bg-indigo-600 hover:bg-indigo-700 text-white font-medium py-2.5 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
+                >
+                    {loading ? <Loader2 className="w-5 h-5 animate-spin" /> :
+                        mode === 'login' ? <><LogIn className="w-4 h-4" /> Sign In</> : <><UserPlus className="w-4 h-4" /> Register</>}
+                </button>
+            </form>
+
+            <button
+                type="button"
+                onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}
+                className="mt-4 w-full text-xs text-indigo-600 hover:text-indigo-800 underline"
+            >
+                {mode === 'login' ? 'New citizen? Create an account' : 'Already registered? Sign in'}
+            </button>
+        </div>
+    );
+};
+
+export default LoginForm;
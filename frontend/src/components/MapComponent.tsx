@@ -1,19 +1,31 @@
-import React, { useEffect, useState } from 'react';
-import { MapContainer, TileLayer, GeoJSON, useMap, ZoomControl } from 'react-leaflet';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, TileLayer, GeoJSON, useMap, useMapEvents, ZoomControl } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
+import { useSearchParams } from 'react-router-dom';
 import axios from 'axios';
 import L from 'leaflet';
-import SpatialClaimLayer from './SpatialClaimLayer';
-
-// Define the shape of our feature properties
-interface ClaimProperties {
-    district: string;
-    village: string;
-    status: 'Approved' | 'Pending' | 'Conflict' | 'Protected';
-    area: number;
-    overlap: boolean;
-    protected_zone: boolean;
-}
+import {
+    formatArea,
+    parseOrThrow,
+    validateAnalyticsData,
+    validateDistrictExtents,
+    validateFeatureCollection,
+    type DistrictExtentProperties,
+    type DistrictRisk,
+    type GeoJSONFeatureCollection,
+    type LegacyClaimProperties,
+    type SimulatedClaim
+} from 'fra-shared';
+import SpatialClaimLayer, { claimGeometry } from './SpatialClaimLayer';
+import RiskChoroplethLayer from './RiskChoroplethLayer';
+import ConflictHeatmapLayer, { conflictHeatPoints } from './ConflictHeatmapLayer';
+import MapLegend from './MapLegend';
+import LayerTogglePanel from './LayerTogglePanel';
+import { useAreaUnit } from '../hooks/useAreaUnit';
+import { useSimulationEvents } from '../hooks/useSimulationEvents';
+import { useMapLayers } from '../hooks/useMapLayers';
+import { useClaimFilter } from '../context/ClaimFilterContext';
+import { STATUS_LAYER } from '../utils/mapLayers';
 
 // Function to handle the styling of each GeoJSON feature based on its status
 const styleFeature = (feature: any) => {
@@ -33,6 +45,9 @@ const styleFeature = (feature: any) => {
         case 'Protected':
             fillColor = '#3b82f6'; // Blue
             break;
+        case 'Rejected':
+            fillColor = '#94a3b8'; // Slate
+            break;
     }
 
     return {
@@ -45,49 +60,146 @@ const styleFeature = (feature: any) => {
     };
 };
 
+// Map position in the ?at=lat,lng,zoom query parameter
+const POSITION_PARAM = 'at';
+
+const parsePosition = (param: string | null): { center: [number, number]; zoom: number } | null => {
+    const [lat, lng, zoom] = (param ?? '').split(',').map(Number);
+    if (![lat, lng, zoom].every(Number.isFinite) || Math.abs(lat) > 90 || Math.abs(lng) > 180 || zoom < 0 || zoom > 19) return null;
+    return { center: [lat, lng], zoom };
+};
+
 interface MapComponentProps {
     isSimulationMode?: boolean;
     onSimulationShapeDrawn?: (geojson: any) => void;
     simulationActiveDistrict?: string;
+    selectedDistrict?: string | null;
+    onSelectDistrict?: (district: string) => void;
+    // Flown to when it changes: the district of a district view, the claim of a claim page
+    focusDistrict?: string | null;
+    focusClaim?: SimulatedClaim | null;
+    // A 450px panel covers the left of the map
+    leftPanelOpen?: boolean;
 }
 
 const MapComponent: React.FC<MapComponentProps> = ({
     isSimulationMode = false,
     onSimulationShapeDrawn,
-    simulationActiveDistrict = "Kandhamal"
+    simulationActiveDistrict = "Kandhamal",
+    selectedDistrict = null,
+    onSelectDistrict = () => { },
+    focusDistrict = null,
+    focusClaim = null,
+    leftPanelOpen = false
 }) => {
-    const [geoData, setGeoData] = useState<any>(null);
+    const [searchParams] = useSearchParams();
+    // A position in the URL wins over fitting the data or flying to the view's first target
+    const restoredView = useRef(parsePosition(searchParams.get(POSITION_PARAM)));
+    const [geoData, setGeoData] = useState<GeoJSONFeatureCollection | null>(null);
     const [loading, setLoading] = useState(true);
+    const [unit] = useAreaUnit();
+    const [visibleLayers, toggleLayer] = useMapLayers();
+    const { matches } = useClaimFilter();
+    const showChoropleth = visibleLayers.has('risk');
+    const showHeatmap = visibleLayers.has('heatmap');
 
-    useEffect(() => {
-        // Fetch data from the FastAPI backend
+    // District outlines are always loaded (district views fly to them); risk scores only while the choropleth is on
+    const [extents, setExtents] = useState<GeoJSONFeatureCollection<DistrictExtentProperties> | null>(null);
+    const [extentsVersion, setExtentsVersion] = useState(0);
+    const [risks, setRisks] = useState<DistrictRisk[]>([]);
+    // Claims the filter bar leaves in (all of them while nothing is filtered)
+    const matchingClaims = useMemo(() => geoData && (matches ? {
+        ...geoData,
+        features: geoData.features.filter(f => matches.ids.has((f.properties as unknown as LegacyClaimProperties).claimId))
+    } : geoData), [geoData, matches]);
+    const heatPoints = useMemo(() => (matchingClaims ? conflictHeatPoints(matchingClaims) : []), [matchingClaims]);
+    const visibleClaims = useMemo(() => matchingClaims && {
+        ...matchingClaims,
+        features: matchingClaims.features.filter(f => visibleLayers.has(STATUS_LAYER[(f.properties as unknown as LegacyClaimProperties).status]))
+    }, [matchingClaims, visibleLayers]);
+    // Bumped whenever the drawn set changes (new data, toggles or filter)
+    const [layerVersion, setLayerVersion] = useState(0);
+    useEffect(() => setLayerVersion(v => v + 1), [visibleClaims]);
+
+    const fetchClaimsLayer = () => {
         axios.get('http://localhost:5000/api/claims')
             .then(response => {
-                setGeoData(response.data);
+                setGeoData(parseOrThrow(validateFeatureCollection, response.data, 'claims layer'));
                 setLoading(false);
             })
             .catch(error => {
                 console.error("Error fetching GeoJSON data:", error);
                 setLoading(false);
             });
+    };
+
+    const fetchExtents = () => {
+        axios.get('http://localhost:5000/api/simulation/districts')
+            .then(response => {
+                setExtents(parseOrThrow(validateDistrictExtents, response.data, 'district outlines'));
+                setExtentsVersion(v => v + 1);
+            })
+            .catch(error => console.error("Error fetching district outlines:", error));
+    };
+
+    const fetchChoropleth = () => {
+        fetchExtents();
+        axios.get('http://localhost:5000/api/simulation/analytics')
+            .then(response => setRisks(parseOrThrow(validateAnalyticsData, response.data, 'analytics response').districts))
+            .catch(error => console.error("Error fetching district risk layer:", error));
+    };
+
+    useEffect(() => {
+        fetchClaimsLayer();
+        fetchExtents();
     }, []);
 
+    const focusTarget = useMemo((): FlyTarget | null => {
+        if (focusClaim) {
+            return focusClaim.coordinates
+                ? { key: `claim:${focusClaim.claimId}`, bounds: L.geoJSON(claimGeometry(focusClaim)).getBounds() }
+                : null;
+        }
+        const outline = focusDistrict ? extents?.features.find(f => f.properties.district === focusDistrict) : null;
+        return outline ? { key: `district:${focusDistrict}`, bounds: L.geoJSON(outline as GeoJSON.Feature).getBounds() } : null;
+    }, [focusClaim, focusDistrict, extents]);
+
+    useEffect(() => {
+        if (showChoropleth) fetchChoropleth();
+    }, [showChoropleth]);
+
+    // The layers are generated from the claims store, so submissions and reviews change them
+    useSimulationEvents({
+        ready: () => {
+            fetchClaimsLayer();
+            if (showChoropleth) fetchChoropleth();
+        },
+        'analytics-changed': () => {
+            fetchClaimsLayer();
+            if (showChoropleth) fetchChoropleth();
+        },
+        'zone-config-changed': () => {
+            if (showChoropleth) fetchChoropleth();
+        }
+    });
+
     // Function to bind popups to each feature
     const onEachFeature = (feature: any, layer: L.Layer) => {
         if (feature.properties) {
-            const props: ClaimProperties = feature.properties;
+            const props: LegacyClaimProperties = feature.properties;
             const popupContent = `
         <div class="p-2 min-w-[200px]">
-          <h3 class="font-bold text-lg mb-1 border-b pb-1">${props.district} - ${props.village}</h3>
+          <h3 class="font-bold text-lg mb-1 border-b pb-1">${props.district} - ${props.village ?? props.claimId}</h3>
           <div class="grid grid-cols-2 gap-2 text-sm mt-2">
             <span class="font-semibold text-gray-600">Status:</span>
             <span class="font-bold ${props.status === 'Approved' ? 'text-green-600' :
                     props.status === 'Pending' ? 'text-yellow-600' :
                         props.status === 'Conflict' ? 'text-red-600' :
-                            'text-blue-600'
+                            props.status === 'Rejected' ? 'text-slate-500' :
+                                'text-blue-600'
                 }">${props.status}</span>
             <span class="font-semibold text-gray-600">Area:</span>
-            <span>${props.area} acres</span>
+            <span>${formatArea(props.area, unit)}</span>
             <span class="font-semibold text-gray-600">Overlap:</span>
             <span>${props.overlap ? 'Yes' : 'No'}</span>
             <span class="font-semibold text-gray-600">Protected:</span>
@@ -106,8 +218,8 @@ const MapComponent: React.FC<MapComponentProps> = ({
     return (
         <div className="w-full h-full relative z-0">
             <MapContainer
-                center={[20.5937, 78.9629]} // Center of India roughly
-                zoom={5}
+                center={restoredView.current?.center ?? [20.5937, 78.9629]} // Center of India roughly
+                zoom={restoredView.current?.zoom ?? 5}
                 zoomControl={false}
                 style={{ height: '100%', width: '100%', zIndex: 0 }}
             >
@@ -117,47 +229,67 @@ const MapComponent: React.FC<MapComponentProps> = ({
                     url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
                 />
 
-                {geoData && (
+                {showChoropleth && extents && (
+                    <RiskChoroplethLayer
+                        extents={extents}
+                        version={extentsVersion}
+                        risks={risks}
+                        selectedDistrict={selectedDistrict}
+                        onSelectDistrict={onSelectDistrict}
+                    />
+                )}
+
+                {visibleClaims && (
                     <GeoJSON
-                        data={geoData}
+                        key={`${unit}-${layerVersion}`} // GeoJSON ignores new data and popups are bound once, so rebuild on any change
+                        data={visibleClaims as GeoJSON.FeatureCollection}
                         style={styleFeature}
                         onEachFeature={onEachFeature}
                     />
                 )}
 
-                <FitBounds data={geoData} />
+                {showHeatmap && <ConflictHeatmapLayer points={heatPoints} />}
+
+                {!restoredView.current && !focusDistrict && !focusClaim && <FitBounds data={geoData} />}
+                <FlyToTarget target={focusTarget} skipFirst={!!restoredView.current} leftPanelOpen={leftPanelOpen} />
+                {focusClaim?.coordinates && <FocusedClaimOutline claim={focusClaim} />}
+                <MapViewTracker />
+                <MapPositionSync />
 
                 {/* Phase 6 Spatial Simulation Injection Layer (Only active when panel is open) */}
                 {isSimulationMode && onSimulationShapeDrawn && (
                     <SpatialClaimLayer
                         onShapeDrawn={onSimulationShapeDrawn}
                         activeDistrict={simulationActiveDistrict}
+                        keepInitialView={!!restoredView.current}
+                        visibleLayers={visibleLayers}
+                        matchingIds={matches?.ids ?? null}
                     />
                 )}
             </MapContainer>
 
-            {/* Legend Override Overlay */}
-            <div className="absolute bottom-6 right-6 bg-white/90 p-4 rounded-lg shadow-lg z-[1000] border border-slate-200 backdrop-blur-sm">
-                <h4 className="font-bold text-slate-700 mb-2 border-b pb-1">Legend</h4>
-                <div className="flex flex-col gap-2 text-sm">
-                    <div className="flex items-center gap-2"><span className="w-4 h-4 rounded-sm bg-green-500 border border-green-600"></span> Approved</div>
-                    <div className="flex items-center gap-2"><span className="w-4 h-4 rounded-sm bg-yellow-500 border border-yellow-600"></span> Pending</div>
-                    <div className="flex items-center gap-2"><span className="w-4 h-4 rounded-sm bg-red-500 border border-red-600"></span> Conflict</div>
-                    <div className="flex items-center gap-2"><span className="w-4 h-4 rounded-sm bg-blue-500 border border-blue-600"></span> Protected Zone</div>
-                </div>
-            </div>
+            <LayerTogglePanel
+                visibleLayers={visibleLayers}
+                onToggle={toggleLayer}
+                zoneLayersAvailable={isSimulationMode}
+                className={leftPanelOpen ? 'left-[466px]' : 'left-4'}
+            />
+
+            <MapLegend visibleLayers={visibleLayers} />
         </div>
     );
 };
 
-// Component to dynamically set map bounds based on data
+// Component to set map bounds from the first data that arrives (live refreshes keep the user's view)
 const FitBounds = ({ data }: { data: any }) => {
     const map = useMap();
+    const fitted = useRef(false);
     useEffect(() => {
-        if (data && data.features && data.features.length > 0) {
+        if (!fitted.current && data && data.features && data.features.length > 0) {
             try {
                 const bounds = L.geoJSON(data).getBounds();
                 map.fitBounds(bounds, { padding: [50, 50] });
+                fitted.current = true;
             } catch (e) {
                 console.error("Error setting map bounds:", e);
             }
@@ -166,4 +298,72 @@ const FitBounds = ({ data }: { data: any }) => {
     return null;
 };
 
+interface FlyTarget {
+    key: string;
+    bounds: L.LatLngBounds;
+}
+
+// Flies to each new target. The first one is skipped when the URL restored the view,
+// so a shared link opens exactly where it was copied.
+const FlyToTarget = ({ target, skipFirst, leftPanelOpen }: { target: FlyTarget | null; skipFirst: boolean; leftPanelOpen: boolean }) => {
+    const map = useMap();
+    const lastKey = useRef<string | null>(null);
+    const skip = useRef(skipFirst);
+    useEffect(() => {
+        if (!target || target.key === lastKey.current) return;
+        lastKey.current = target.key;
+        if (skip.current) {
+            skip.current = false;
+            return;
+        }
+        map.flyToBounds(target.bounds, { paddingTopLeft: [leftPanelOpen ? 466 : 50, 50], paddingBottomRight: [50, 50], maxZoom: 15, duration: 1.2 });
+    }, [target, map]);
+    return null;
+};
+
+// Outline around the claim shown on its detail page
+const FocusedClaimOutline = ({ claim }: { claim: SimulatedClaim }) => {
+    const map = useMap();
+    useEffect(() => {
+        const outline = L.geoJSON(claimGeometry(claim), {
+            style: { color: '#4f46e5', weight: 4, dashArray: '6, 4', fill: false },
+            interactive: false
+        }).addTo(map);
+        outline.bringToFront();
+        return () => {
+            map.removeLayer(outline);
+        };
+    }, [map, claim]);
+    return null;
+};
+
+// Keeps ?at= in step with the map so the URL always reopens the current view
+const MapPositionSync = () => {
+    const [, setSearchParams] = useSearchParams();
+    const map = useMapEvents({
+        moveend: () => {
+            const { lat, lng } = map.getCenter();
+            setSearchParams(prev => {
+                prev.set(POSITION_PARAM, `${lat.toFixed(5)},${lng.toFixed(5)},${map.getZoom()}`);
+                return prev;
+            }, { replace: true });
+        }
+    });
+    return null;
+};
+
+// Reports the visible map area to the claim filter, which can limit the search to it
+const MapViewTracker = () => {
+    const { reportMapView } = useClaimFilter();
+    const report = (map: L.Map) => {
+        const b = map.getBounds();
+        // Rounded (about 10 m) so small nudges don't produce a new query
+        const round = (n: number) => Math.round(n * 1e4) / 1e4;
+        reportMapView([round(b.getWest()), round(b.getSouth()), round(b.getEast()), round(b.getNorth())]);
+    };
+    const map = useMapEvents({ moveend: () => report(map) });
+    useEffect(() => report(map), [map]);
+    return null;
+};
+
 export default MapComponent;
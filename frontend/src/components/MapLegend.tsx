@@ -0,0 +1,73 @@
+import React from 'react';
+import { HEAT_GRADIENT, NO_RISK_COLOR, RISK_SCALE } from '../utils/riskColors';
+import type { MapLayerId } from '../utils/mapLayers';
+
+interface MapLegendProps {
+    visibleLayers: ReadonlySet<MapLayerId>;
+}
+
+const CLAIM_STATUS_KEYS: { layer: MapLayerId; label: string; className: string }[] = [
+    { layer: 'approved', label: 'Approved', className: 'bg-green-500 border-green-600' },
+    { layer: 'pending', label: 'Pending', className: 'bg-yellow-500 border-yellow-600' },
+    { layer: 'conflict', label: 'Conflict', className: 'bg-red-500 border-red-600' },
+    { layer: 'protected', label: 'Protected Zone', className: 'bg-blue-500 border-blue-600' },
+    { layer: 'rejected', label: 'Rejected', className: 'bg-slate-400 border-slate-500' }
+];
+
+/**
+ * Map legend: key for the claim statuses and analytic overlays currently switched on
+ */
+const MapLegend: React.FC<MapLegendProps> = ({ visibleLayers }) => {
+    const heatStops = Object.entries(HEAT_GRADIENT).sort(([a], [b]) => Number(a) - Number(b));
+    const statusKeys = CLAIM_STATUS_KEYS.filter(key => visibleLayers.has(key.layer));
+    const showChoropleth = visibleLayers.has('risk');
+    const showHeatmap = visibleLayers.has('heatmap');
+
+    if (statusKeys.length === 0 && !showChoropleth && !showHeatmap) return null;
+
+    return (
+        <div className="absolute bottom-6 right-6 bg-white/90 p-4 rounded-lg shadow-lg z-[1000] border border-slate-200 backdrop-blur-sm w-56">
+            <h4 className="font-bold text-slate-700 mb-2 border-b pb-1">Legend</h4>
+            {statusKeys.length > 0 && (
+                <div className="flex flex-col gap-2 text-sm">
+                    {statusKeys.map(({ label, className }) => (
+                        <div key={label} className="flex items-center gap-2"><span className={`w-4 h-4 rounded-sm border ${className}`}></span> {label}</div>
+                    ))}
+                </div>
+            )}
+
+            {showChoropleth && (
+                <div className="mt-3 pt-2 border-t border-slate-200 first:mt-0 first:pt-0 first:border-t-0">
+                    <div className="text-sm font-medium text-slate-700 mb-1">District risk</div>
+                    <div className="flex h-2.5 rounded overflow-hidden">
+                        {[...RISK_SCALE].reverse().map(step => (
+                            <span key={step.min} className="flex-1" style={{ backgroundColor: step.color }} />
+                        ))}
+                    </div>
+                    <div className="flex justify-between text-[10px] text-slate-500 mt-0.5">
+                        <span>0</span><span>Risk score</span><span>100</span>
+                    </div>
+                    <div className="flex items-center gap-1.5 text-[11px] text-slate-500 mt-1">
+                        <span className="w-3 h-3 rounded-sm border border-slate-300" style={{ backgroundColor: NO_RISK_COLOR }} /> No claims
+                    </div>
+                    <p className="text-[10px] text-slate-400 mt-1">Outlines span each district's zones and claims. Click one to open it in the dashboard.</p>
+                </div>
+            )}
+
+            {showHeatmap && (
+                <div className="mt-3 pt-2 border-t border-slate-200">
+                    <div className="text-sm font-medium text-slate-700 mb-1">Conflict heatmap</div>
+                    <div
+                        className="h-2.5 rounded"
+                        style={{ background: `linear-gradient(to right, ${heatStops.map(([stop, color]) => `${color} ${Number(stop) * 100}%`).join(', ')})` }}
+                    />
+                    <div className="flex justify-between text-[10px] text-slate-500 mt-0.5">
+                        <span>Sparse</span><span>Dense</span>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MapLegend;
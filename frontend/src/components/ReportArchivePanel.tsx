@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import { GitCompare, History, Loader2, X } from 'lucide-react';
+import {
+    parseOrThrow,
+    validateArchivedReportResponse,
+    validateReportArchiveResponse,
+    validateReportComparison,
+    type ArchivedReport,
+    type ArchivedReportSummary,
+    type ReportComparison
+} from 'fra-shared';
+import { useAuth } from '../context/AuthContext';
+import ComplianceReportView from './ComplianceReportView';
+import ReportComparisonView from './ReportComparisonView';
+
+interface ReportArchivePanelProps {
+    district: string;
+    // ID of the report generated last in this session; the list reloads when it changes
+    latestReportId: string | null;
+}
+
+const API = 'http://localhost:5000/api/reports';
+
+/**
+ * Version history of a district's compliance reports (its officers and the state admin only).
+ * Officers can reopen an old report, compare two versions, or compare one with today's figures.
+ */
+const ReportArchivePanel: React.FC<ReportArchivePanelProps> = ({ district, latestReportId }) => {
+    const { user } = useAuth();
+    const [reports, setReports] = useState<ArchivedReportSummary[]>([]);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [viewing, setViewing] = useState<ArchivedReport | null>(null);
+    const [comparison, setComparison] = useState<ReportComparison | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!user) return;
+        axios.get(API, { params: { district } })
+            .then(res => setReports(parseOrThrow(validateReportArchiveResponse, res.data, 'report archive').reports))
+            .catch(err => {
+                console.error("Error fetching the report archive:", err);
+                setError("Could not load earlier reports.");
+            });
+    }, [user, district, latestReportId]);
+
+    // Selections and open views belong to the district
+    useEffect(() => {
+        setSelected([]);
+        setViewing(null);
+        setComparison(null);
+        setError(null);
+    }, [district]);
+
+    if (!user || reports.length === 0) return null;
+
+    const run = async (request: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await request();
+        } catch (err) {
+            console.error("Report archive request failed:", err);
+            setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : "The request failed.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const openReport = (reportId: string) => run(async () => {
+        const res = await axios.get(`${API}/${encodeURIComponent(reportId)}`);
+        setComparison(null);
+        setViewing(parseOrThrow(validateArchivedReportResponse, res.data, 'archived report').report);
+    });
+
+    // With one ID, compares that report with the district's current figures
+    const compare = (from: string, to?: string) => run(async () => {
+        const res = await axios.get(`${API}/compare`, { params: { from, to } });
+        setViewing(null);
+        setComparison(parseOrThrow(validateReportComparison, res.data, 'report comparison'));
+    });
+
+    const toggleSelected = (reportId: string) => {
+        setSelected(prev => prev.includes(reportId)
+            ? prev.filter(id => id !== reportId)
+            // Keep the two most recent picks
+            : [...prev, reportId].slice(-2));
+    };
+
+    return (
+        <div className="mt-2 bg-white rounded-lg p-4 border border-slate-200 shadow-sm text-sm flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+                <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-1.5">
+                    <History className="w-3.5 h-3.5" /> Report history
+                </h4>
+                <button
+                    onClick={() => selected.length === 2 && compare(selected[0], selected[1])}
+                    disabled={selected.length !== 2 || busy}
+                    className="flex items-center gap-1 px-2 py-1 rounded text-xs font-semibold bg-indigo-50 text-indigo-700 hover:bg-indigo-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Tick two versions to compare them"
+                >
+                    <GitCompare className="w-3.5 h-3.5" /> Compare selected
+                </button>
+            </div>
+
+            <ul className="flex flex-col divide-y divide-slate-100 max-h-56 overflow-y-auto">
+                {reports.map(r => (
+                    <li key={r.reportId} className="flex items-center gap-2 py-1.5 text-xs">
+                        <input
+                            type="checkbox"
+                            checked={selected.includes(r.reportId)}
+                            onChange={() => toggleSelected(r.reportId)}
+                            aria-label={`Select version ${r.version}`}
+                        />
+                        <button onClick={() => openReport(r.reportId)} className="flex-1 text-left hover:text-indigo-700">
+                            <span className="font-semibold">v{r.version}</span>
+                            <span className="text-slate-500"> · {new Date(r.generatedAt).toLocaleString()}</span>
+                            <span className="block text-[10px] text-slate-400">
+                                {r.generatedBy ?? 'unknown'} · {r.provider} · prompt {r.promptVersion} · {r.riskLevel} ({r.riskScore})
+                            </span>
+                        </button>
+                        <button
+                            onClick={() => compare(r.reportId)}
+                            disabled={busy}
+                            className="text-[10px] font-semibold text-indigo-600 hover:underline disabled:opacity-40 shrink-0"
+                        >
+                            vs. now
+                        </button>
+                    </li>
+                ))}
+            </ul>
+
+            {busy && <p className="flex items-center gap-2 text-xs text-slate-400"><Loader2 className="w-3.5 h-3.5 animate-spin" /> Loading…</p>}
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            {(viewing || comparison) && (
+                <div className="relative border-t border-slate-100 pt-3">
+                    <button
+                        onClick={() => { setViewing(null); setComparison(null); }}
+                        className="absolute right-0 top-3 text-slate-400 hover:text-slate-600"
+                        title="Close"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                    {viewing && (
+                        <>
+                            <p className="text-xs font-semibold text-slate-700 mb-3">
+                                v{viewing.version} · {new Date(viewing.generatedAt).toLocaleString()}
+                            </p>
+                            <ComplianceReportView report={viewing.report} provider={viewing.provider} />
+                        </>
+                    )}
+                    {comparison && <ReportComparisonView comparison={comparison} />}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReportArchivePanel;
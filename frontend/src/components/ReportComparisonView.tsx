@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ArrowRight, ChevronDown, ChevronRight } from 'lucide-react';
+import type { ReportComparison, ValueChange } from 'fra-shared';
+import { paths } from '../hooks/useAppRoute';
+import AppLink from './AppLink';
+
+interface ReportComparisonViewProps {
+    comparison: ReportComparison;
+}
+
+const formatDelta = (change: ValueChange) => {
+    const delta = Number((change.to - change.from).toFixed(2));
+    return delta > 0 ? `+${delta}` : String(delta);
+};
+
+const ChangeRows = ({ changes }: { changes: ValueChange[] }) => (
+    <tbody>
+        {changes.map(change => (
+            <tr key={change.label} className={change.from === change.to ? 'text-slate-400' : 'text-slate-700'}>
+                <td className="py-0.5 pr-3">{change.label}</td>
+                <td className="py-0.5 pr-2 text-right tabular-nums">{change.from}</td>
+                <td className="py-0.5 pr-2 text-right tabular-nums">{change.to}</td>
+                <td className={`py-0.5 text-right tabular-nums font-semibold ${change.to > change.from ? 'text-red-600' : change.to < change.from ? 'text-emerald-600' : ''}`}>
+                    {change.from === change.to ? '–' : formatDelta(change)}
+                </td>
+            </tr>
+        ))}
+    </tbody>
+);
+
+const ClaimList = ({ label, ids }: { label: string; ids: string[] }) => (
+    <p>
+        <span className="text-slate-500">{label}: </span>
+        {ids.map((id, i) => (
+            <React.Fragment key={id}>
+                {i > 0 && ', '}
+                <AppLink to={paths.claim(id)} className="font-semibold text-indigo-600 hover:underline">{id}</AppLink>
+            </React.Fragment>
+        ))}
+    </p>
+);
+
+/**
+ * What changed between two archived reports of a district, or since one report was written
+ */
+const ReportComparisonView: React.FC<ReportComparisonViewProps> = ({ comparison }) => {
+    const [showText, setShowText] = useState(false);
+    const { from, to, claims, findings, text } = comparison;
+    const claimChanges = claims.added.length + claims.removed.length + claims.statusChanged.length;
+
+    return (
+        <div className="flex flex-col gap-4 text-xs">
+            <p className="flex items-center gap-2 font-semibold text-slate-700">
+                v{from.version} ({new Date(from.generatedAt).toLocaleDateString()})
+                <ArrowRight className="w-3.5 h-3.5 text-slate-400" />
+                {to ? `v${to.version} (${new Date(to.generatedAt).toLocaleDateString()})` : 'Current figures'}
+            </p>
+            {to && from.promptVersion !== to.promptVersion && (
+                <p className="text-amber-700">
+                    The reports used different prompt versions ({from.promptVersion}, {to.promptVersion}); wording may differ for that reason alone.
+                </p>
+            )}
+
+            <table className="w-full">
+                <thead>
+                    <tr className="text-[10px] uppercase tracking-wider text-slate-400">
+                        <th className="text-left font-semibold pb-1">Figure</th>
+                        <th className="text-right font-semibold pb-1 pr-2">Before</th>
+                        <th className="text-right font-semibold pb-1 pr-2">After</th>
+                        <th className="text-right font-semibold pb-1">Change</th>
+                    </tr>
+                </thead>
+                <ChangeRows changes={[comparison.riskScore, ...comparison.stats]} />
+            </table>
+            {comparison.riskLevel.from !== comparison.riskLevel.to && (
+                <p className="font-semibold text-slate-700">Risk level: {comparison.riskLevel.from} → {comparison.riskLevel.to}</p>
+            )}
+
+            <section>
+                <h5 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider mb-1">Risk drivers (points)</h5>
+                <table className="w-full"><ChangeRows changes={comparison.drivers} /></table>
+            </section>
+
+            <section className="flex flex-col gap-1">
+                <h5 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Claims</h5>
+                {claimChanges === 0 ? (
+                    <p className="text-slate-400">No claim changed.</p>
+                ) : (
+                    <>
+                        {claims.added.length > 0 && <ClaimList label="New" ids={claims.added} />}
+                        {claims.removed.length > 0 && <ClaimList label="No longer listed" ids={claims.removed} />}
+                        {claims.statusChanged.map(change => (
+                            <p key={change.claimId}>
+                                <AppLink to={paths.claim(change.claimId)} className="font-semibold text-indigo-600 hover:underline">{change.claimId}</AppLink>
+                                <span className="text-slate-600">: {change.from} → {change.to}</span>
+                            </p>
+                        ))}
+                    </>
+                )}
+            </section>
+
+            {findings && (findings.added.length > 0 || findings.removed.length > 0) && (
+                <section className="flex flex-col gap-1">
+                    <h5 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Findings</h5>
+                    {findings.removed.map(s => <p key={`-${s}`} className="text-red-700 line-through decoration-red-300">{s}</p>)}
+                    {findings.added.map(s => <p key={`+${s}`} className="text-emerald-700">{s}</p>)}
+                </section>
+            )}
+
+            {text && (
+                <section>
+                    <button
+                        onClick={() => setShowText(!showText)}
+                        className="flex items-center gap-1 text-[10px] font-semibold text-slate-500 uppercase tracking-wider hover:text-slate-700"
+                    >
+                        {showText ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />} Full text diff
+                    </button>
+                    {showText && (
+                        <pre className="mt-1 max-h-72 overflow-auto bg-slate-50 rounded p-2 text-[10px] leading-snug whitespace-pre-wrap">
+                            {text.map((change, i) => (
+                                <div
+                                    key={i}
+                                    className={change.op === 'added' ? 'bg-emerald-50 text-emerald-800' : change.op === 'removed' ? 'bg-red-50 text-red-800' : 'text-slate-500'}
+                                >
+                                    {change.op === 'added' ? '+ ' : change.op === 'removed' ? '- ' : '  '}{change.line}
+                                </div>
+                            ))}
+                        </pre>
+                    )}
+                </section>
+            )}
+        </div>
+    );
+};
+
+export default ReportComparisonView;
@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { Gavel, ListChecks, Loader2 } from 'lucide-react';
+import { parsePartialJson } from '../utils/partialJson';
+
+interface ReportDraftPreviewProps {
+    // The model's JSON so far
+    draft: string;
+}
+
+// Unchecked model output: any field may be missing or of the wrong type until the server checks it
+type Draft = Record<string, unknown>;
+
+const strings = (value: unknown): string[] =>
+    (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : []);
+
+const records = (value: unknown): Draft[] =>
+    (Array.isArray(value) ? value.filter((item): item is Draft => !!item && typeof item === 'object' && !Array.isArray(item)) : []);
+
+/**
+ * The compliance report while it streams: each section appears once the model has
+ * finished writing it. Nothing here is checked yet; the checked report replaces it.
+ */
+const ReportDraftPreview: React.FC<ReportDraftPreviewProps> = ({ draft }) => {
+    const parsed = useMemo(() => parsePartialJson(draft), [draft]);
+    const report: Draft = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Draft : {};
+
+    const summary = typeof report.summary === 'string' ? report.summary : null;
+    const riskLevel = typeof report.riskLevel === 'string' ? report.riskLevel : null;
+    const findings = records(report.findings).filter(f => typeof f.statement === 'string');
+    const actions = strings(report.recommendedActions);
+    const references = strings(report.legalReferences);
+
+    return (
+        <div className="flex flex-col gap-4 text-slate-500">
+            <p className="flex items-center gap-2 text-slate-400">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Drafting the report; figures are checked once it is complete…
+            </p>
+
+            {riskLevel && (
+                <span className="self-start px-2 py-0.5 rounded text-[10px] uppercase font-bold tracking-wider bg-slate-100 text-slate-600">
+                    {riskLevel} risk
+                </span>
+            )}
+
+            {summary && <p className="leading-relaxed">{summary}</p>}
+
+            {findings.length > 0 && (
+                <section>
+                    <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Findings</h4>
+                    <ol className="flex flex-col gap-2">
+                        {findings.map((finding, i) => (
+                            <li key={i} className="p-3 rounded-lg border border-dashed border-slate-200">
+                                <p className="text-slate-600">{String(finding.statement)}</p>
+                                {strings(finding.claimIds).length > 0 && (
+                                    <p className="mt-1 text-[11px] text-slate-400">{strings(finding.claimIds).join(', ')}</p>
+                                )}
+                            </li>
+                        ))}
+                    </ol>
+                </section>
+            )}
+
+            {actions.length > 0 && (
+                <section>
+                    <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1.5">
+                        <ListChecks className="w-3.5 h-3.5" /> Recommended actions
+                    </h4>
+                    <ul className="list-disc pl-5 flex flex-col gap-1">
+                        {actions.map(action => <li key={action}>{action}</li>)}
+                    </ul>
+                </section>
+            )}
+
+            {references.length > 0 && (
+                <section>
+                    <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1.5">
+                        <Gavel className="w-3.5 h-3.5" /> Legal references
+                    </h4>
+                    <ul className="list-disc pl-5 text-xs flex flex-col gap-0.5">
+                        {references.map(ref => <li key={ref}>{ref}</li>)}
+                    </ul>
+                </section>
+            )}
+        </div>
+    );
+};
+
+export default ReportDraftPreview;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { GeoJSON } from 'react-leaflet';
+import L from 'leaflet';
+import type { DistrictExtentProperties, DistrictRisk, GeoJSONFeatureCollection } from 'fra-shared';
+import { riskColor } from '../utils/riskColors';
+
+interface RiskChoroplethLayerProps {
+    extents: GeoJSONFeatureCollection<DistrictExtentProperties>;
+    // Bumped whenever extents are refetched; GeoJSON layers ignore new data otherwise
+    version: number;
+    risks: DistrictRisk[];
+    selectedDistrict: string | null;
+    onSelectDistrict: (district: string) => void;
+}
+
+/**
+ * District outlines coloured by the analytics risk score. Clicking one selects it in the dashboard.
+ */
+const RiskChoroplethLayer: React.FC<RiskChoroplethLayerProps> = ({ extents, version, risks, selectedDistrict, onSelectDistrict }) => {
+    const riskOf = (district: string) => risks.find(r => r.district === district) ?? null;
+
+    const style = (feature?: GeoJSON.Feature): L.PathOptions => {
+        const district = (feature?.properties as DistrictExtentProperties | undefined)?.district ?? '';
+        const selected = district === selectedDistrict;
+        return {
+            fillColor: riskColor(riskOf(district)?.risk_score ?? null),
+            fillOpacity: 0.45,
+            color: selected ? '#312e81' : '#475569',
+            weight: selected ? 3 : 1,
+            dashArray: selected ? undefined : '4'
+        };
+    };
+
+    const onEachFeature = (feature: GeoJSON.Feature, layer: L.Layer) => {
+        const { district, zoneCount, claimCount } = feature.properties as DistrictExtentProperties;
+        const risk = riskOf(district);
+        (layer as L.Path).bindTooltip(
+            `<strong>${district}</strong><br/>${risk ? `Risk ${risk.risk_score} (${risk.risk_level})` : 'No claims yet'}<br/>${claimCount} drawn claim(s), ${zoneCount} zone(s)`,
+            { sticky: true }
+        );
+        layer.on('click', () => onSelectDistrict(district));
+    };
+
+    return (
+        <GeoJSON
+            key={`${version}-${risks.map(r => r.risk_score).join(',')}`} // tooltips are bound once, so rebuild when scores change
+            data={extents as GeoJSON.FeatureCollection}
+            style={style}
+            onEachFeature={onEachFeature}
+        />
+    );
+};
+
+export default RiskChoroplethLayer;
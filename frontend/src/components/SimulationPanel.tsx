@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
-import { X, Users, Shield } from 'lucide-react';
+import React from 'react';
+import { X, Users, Shield, LogOut, Loader2 } from 'lucide-react';
 import CitizenClaimForm from './CitizenClaimForm';
 import AdminReviewPanel from './AdminReviewPanel';
+import BulkImportPanel from './BulkImportPanel';
+import LoginForm from './LoginForm';
+import { useAuth } from '../context/AuthContext';
 
 interface SimulationPanelProps {
     isOpen: boolean;
@@ -9,11 +12,14 @@ interface SimulationPanelProps {
     drawnGeoJSON?: any;
     districtFilter?: string;
     onDistrictChange?: (district: string) => void;
+    // District the official's review queue is scoped to, from /admin/:district
+    reviewDistrict?: string | null;
 }
 
-const SimulationPanel: React.FC<SimulationPanelProps> = ({ isOpen, onClose, drawnGeoJSON, districtFilter, onDistrictChange }) => {
-    // Role Toggle State
-    const [role, setRole] = useState<'citizen' | 'admin'>('citizen');
+const SimulationPanel: React.FC<SimulationPanelProps> = ({ isOpen, onClose, drawnGeoJSON, districtFilter, onDistrictChange, reviewDistrict = null }) => {
+    // The portal shown is decided by the logged-in user's role, not a client-side toggle
+    const { user, checking, logout } = useAuth();
+    const isOfficial = user?.role === 'district_officer' || user?.role === 'state_admin';
 
     if (!isOpen) return null;
 
@@ -35,23 +41,25 @@ const SimulationPanel: React.FC<SimulationPanelProps> = ({ isOpen, onClose, draw
                     </div>
 
                     <div className="flex items-center gap-4">
-                        {/* Role Toggle */}
-                        <div className="flex bg-slate-200 p-1 rounded-lg">
-                            <button
-                                onClick={() => setRole('citizen')}
-                                className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-semibold transition-all ${role === 'citizen' ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
-                                    }`}
-                            >
-                                <Users className="w-4 h-4" /> Citizen Portal
-                            </button>
-                            <button
-                                onClick={() => setRole('admin')}
-                                className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-semibold transition-all ${role === 'admin' ? 'bg-white text-emerald-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
-                                    }`}
-                            >
-                                <Shield className="w-4 h-4" /> Admin Console
-                            </button>
-                        </div>
+                        {/* Role Indicator */}
+                        {user && (
+                            <div className="flex items-center gap-2 bg-slate-200 p-1 pl-3 rounded-lg">
+                                <span className={`flex items-center gap-2 text-sm font-semibold ${isOfficial ? 'text-emerald-700' : 'text-indigo-700'}`}>
+                                    {isOfficial ? <Shield className="w-4 h-4" /> : <Users className="w-4 h-4" />}
+                                    {isOfficial ? 'Admin Console' : 'Citizen Portal'}
+                                </span>
+                                <span className="text-xs text-slate-500 font-medium" title={user.username}>
+                                    {user.name}{user.district ? ` • ${user.district}` : ''}
+                                </span>
+                                <button
+                                    onClick={logout}
+                                    className="p-1.5 rounded-md text-slate-500 hover:bg-white hover:text-slate-700 transition-colors"
+                                    title="Sign out"
+                                >
+                                    <LogOut className="w-4 h-4" />
+                                </button>
+                            </div>
+                        )}
 
                         <div className="w-px h-8 bg-slate-200 mx-1"></div>
 
@@ -66,7 +74,15 @@ const SimulationPanel: React.FC<SimulationPanelProps> = ({ isOpen, onClose, draw
 
                 {/* Content Area */}
                 <div className="flex-1 overflow-y-auto bg-slate-50/50 p-6">
-                    {role === 'citizen' ? (
+                    {checking ? (
+                        <div className="flex items-center justify-center p-12 text-slate-400">
+                            <Loader2 className="w-6 h-6 animate-spin" />
+                        </div>
+                    ) : !user ? (
+                        <div className="animate-in slide-in-from-bottom-4 duration-300">
+                            <LoginForm />
+                        </div>
+                    ) : !isOfficial ? (
                         <div className="animate-in slide-in-from-bottom-4 duration-300">
                             <CitizenClaimForm
                                 drawnGeoJSON={drawnGeoJSON}
@@ -76,7 +92,8 @@ const SimulationPanel: React.FC<SimulationPanelProps> = ({ isOpen, onClose, draw
                         </div>
                     ) : (
                         <div className="animate-in slide-in-from-bottom-4 duration-300">
-                            <AdminReviewPanel />
+                            <BulkImportPanel />
+                            <AdminReviewPanel district={reviewDistrict} />
                         </div>
                     )}
                 </div>
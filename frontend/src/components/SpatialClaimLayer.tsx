@@ -1,21 +1,112 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet-draw';
 import 'leaflet-draw/dist/leaflet.draw.css';
 import axios from 'axios';
-import * as turf from '@turf/turf';
+import {
+    formatArea,
+    parseOrThrow,
+    validateConflictGraphResponse,
+    validateFeatureCollection,
+    validateSimulatedClaimList,
+    validateZoneConfigResponse,
+    type AreaUnit,
+    type ClaimStatus,
+    type ConflictEdge,
+    type GeoJSONFeatureCollection,
+    type SimulatedClaim,
+    type ZoneConfigResponse
+} from 'fra-shared';
+import { upsertClaim, useSimulationEvents } from '../hooks/useSimulationEvents';
+import { useAreaUnit } from '../hooks/useAreaUnit';
+import { CLAIM_STATUS_LAYER, type MapLayerId } from '../utils/mapLayers';
+
+// Stored claims keep bare coordinates; rebuild a GeoJSON geometry for Leaflet and Turf
+export const claimGeometry = (claim: SimulatedClaim): GeoJSON.Polygon | GeoJSON.MultiPolygon =>
+    claim.geometryType === "MultiPolygon"
+        ? { type: "MultiPolygon", coordinates: claim.coordinates as number[][][][] }
+        : { type: "Polygon", coordinates: claim.coordinates as number[][][] };
+
+const PENDING_STYLE: L.PathOptions = { color: '#d97706', fillColor: '#f59e0b', fillOpacity: 0.5 };
+
+// 'Under Review', 'Moderate Conflict' and in-progress review stages map to the default Yellow pending color to preserve color mechanics
+const CLAIM_STYLES: Record<ClaimStatus, L.PathOptions> = {
+    "Submitted": PENDING_STYLE,
+    "Under Review": PENDING_STYLE,
+    "Moderate Conflict": PENDING_STYLE,
+    "Flagged": { color: '#dc2626', fillColor: '#ef4444', fillOpacity: 0.6, weight: 2 }, // Solid Red
+    "Reserved Violation": { color: '#1c1917', fillColor: '#44403c', fillOpacity: 0.5, weight: 2, dashArray: '8, 4' }, // Dark gray striped
+    "Gram Sabha Verified": PENDING_STYLE,
+    "SDLC Recommended": PENDING_STYLE,
+    "Approved": { color: '#059669', fillColor: '#10b981', fillOpacity: 0.6, weight: 2 }, // Solid Green
+    "Rejected": { color: '#475569', fillColor: '#94a3b8', fillOpacity: 0.4, weight: 1, dashArray: '4' }, // Gray
+    "Returned": PENDING_STYLE,
+    "Appealed": PENDING_STYLE,
+    "Superseded": { color: '#94a3b8', fillColor: '#cbd5e1', fillOpacity: 0.2, weight: 1, dashArray: '2, 4' } // Faint gray
+};
+
+const STATUS_ICON: Record<ClaimStatus, string> = {
+    "Submitted": "✅",
+    "Under Review": "✅",
+    "Moderate Conflict": "✅",
+    "Flagged": "⚠️",
+    "Reserved Violation": "🚫",
+    "Gram Sabha Verified": "✅",
+    "SDLC Recommended": "✅",
+    "Approved": "✅",
+    "Rejected": "❌",
+    "Returned": "↩️",
+    "Appealed": "⚖️",
+    "Superseded": "🔁"
+};
+
+const STATUS_POPUP_COLOR: Record<ClaimStatus, string> = {
+    "Submitted": "green",
+    "Under Review": "green",
+    "Moderate Conflict": "orange",
+    "Flagged": "red",
+    "Reserved Violation": "#1c1917",
+    "Gram Sabha Verified": "green",
+    "SDLC Recommended": "green",
+    "Approved": "green",
+    "Rejected": "green",
+    "Returned": "orange",
+    "Appealed": "orange",
+    "Superseded": "gray"
+};
+
+// Per-zone result of the conflict engine, listed in the claim popup
+const zoneBreakdownHtml = (claim: SimulatedClaim, unit: AreaUnit) => {
+    if (!claim.zoneBreakdown) return '';
+    const { forestZones, reservedZones } = claim.zoneBreakdown;
+    const rows = [
+        ...forestZones.map(z => `<li>🌲 ${z.zoneId} (${z.district}): ${formatArea(z.intersectAcres, unit)}, ${z.severity}% → ${z.status}</li>`),
+        ...reservedZones.map(z => `<li style="color:#dc2626">🚫 ${z.zoneId} (${z.district}): ${formatArea(z.intersectAcres, unit)} in reserved forest</li>`)
+    ];
+    return rows.length ? `<hr style="margin:4px 0"/><small><b>Zones checked</b><ul style="margin:0;padding-left:14px">${rows.join('')}</ul></small>` : '';
+};
 
 interface SpatialClaimLayerProps {
     onShapeDrawn: (geojson: any) => void;
     activeDistrict: string;
+    visibleLayers: ReadonlySet<MapLayerId>;
+    // Claims matching the filter bar; null when nothing is filtered
+    matchingIds: ReadonlySet<string> | null;
+    // The map opened at a position from the URL; stay there instead of flying to the first district
+    keepInitialView?: boolean;
 }
 
-const SpatialClaimLayer: React.FC<SpatialClaimLayerProps> = ({ onShapeDrawn, activeDistrict }) => {
+const SpatialClaimLayer: React.FC<SpatialClaimLayerProps> = ({ onShapeDrawn, activeDistrict, visibleLayers, matchingIds, keepInitialView = false }) => {
     const map = useMap();
-    const [zones, setZones] = useState<any>(null);
-    const [reservedZones, setReservedZones] = useState<any>(null);
-    const [simulatedClaims, setSimulatedClaims] = useState<any[]>([]);
+    // District the map last flew to, so redrawing the layers doesn't move the user's view
+    const flownTo = useRef<string | null>(keepInitialView ? activeDistrict : null);
+    const [unit] = useAreaUnit();
+    const [zones, setZones] = useState<GeoJSONFeatureCollection | null>(null);
+    const [reservedZones, setReservedZones] = useState<GeoJSONFeatureCollection | null>(null);
+    const [simulatedClaims, setSimulatedClaims] = useState<SimulatedClaim[]>([]);
+    const [conflictEdges, setConflictEdges] = useState<ConflictEdge[]>([]);
+    const [zoneConfig, setZoneConfig] = useState<ZoneConfigResponse | null>(null);
 
     // 1. Fetch Zones, Reserved Zones & Existing Claims
     const fetchData = async () => {
@@ -23,23 +114,64 @@ const SpatialClaimLayer: React.FC<SpatialClaimLayerProps> = ({ onShapeDrawn, act
             const [zonesRes, reservedRes, claimsRes] = await Promise.all([
                 axios.get('http://localhost:5000/api/simulation/zones'),
                 axios.get('http://localhost:5000/api/simulation/reserved-zones'),
-                axios.get('http://localhost:5000/api/simulation/claims')
+                // Claims need a session; signed-out visitors still get the zone layers
+                axios.get('http://localhost:5000/api/simulation/claims').catch(() => ({ data: [] }))
             ]);
-            setZones(zonesRes.data);
-            setReservedZones(reservedRes.data);
-            setSimulatedClaims(claimsRes.data);
+            setZones(parseOrThrow(validateFeatureCollection, zonesRes.data, 'forest zones'));
+            setReservedZones(parseOrThrow(validateFeatureCollection, reservedRes.data, 'reserved zones'));
+            setSimulatedClaims(parseOrThrow(validateSimulatedClaimList, claimsRes.data, 'claims response'));
         } catch (err) {
             console.error("Failed to load spatial simulation layers", err);
         }
     };
 
+    // Capacity and thresholds per zone, as used by the backend conflict engine
+    const fetchZoneConfig = async () => {
+        try {
+            const res = await axios.get('http://localhost:5000/api/simulation/zone-config');
+            setZoneConfig(parseOrThrow(validateZoneConfigResponse, res.data, 'zone config'));
+        } catch (err) {
+            console.error("Failed to load zone configuration", err);
+        }
+    };
+
+    // Overlaps between claims, as recorded by the backend conflict graph
+    const fetchConflicts = async () => {
+        try {
+            const res = await axios.get('http://localhost:5000/api/simulation/conflicts');
+            setConflictEdges(parseOrThrow(validateConflictGraphResponse, res.data, 'conflict graph').edges);
+        } catch (err) {
+            // Signed-out visitors have no conflict graph to show
+            setConflictEdges([]);
+        }
+    };
+
     useEffect(() => {
-        // Poll for updates every 3 seconds to ensure live updates across the app
         fetchData();
-        const interval = setInterval(fetchData, 3000);
-        return () => clearInterval(interval);
+        fetchConflicts();
+        fetchZoneConfig();
     }, []);
 
+    // Live updates: claims arrive over SSE; a reconnect triggers a full resync
+    useSimulationEvents({
+        ready: () => {
+            fetchData();
+            fetchConflicts();
+            fetchZoneConfig();
+        },
+        'claim-created': ({ claim }) => {
+            setSimulatedClaims(prev => upsertClaim(prev, claim));
+            // A new claim is the only thing that adds edges to the graph
+            fetchConflicts();
+        },
+        'claim-reviewed': ({ claim }) => setSimulatedClaims(prev => upsertClaim(prev, claim)),
+        'zone-config-changed': ({ zoneId }) => {
+            fetchZoneConfig();
+            // A change not tied to one zone may be a bulk import that added zone layers
+            if (zoneId === null) fetchData();
+        }
+    });
+
     // 2. Setup Leaflet Draw Tool (Hidden UI, active logic)
     useEffect(() => {
         if (!map) return;
@@ -111,6 +243,35 @@ const SpatialClaimLayer: React.FC<SpatialClaimLayerProps> = ({ onShapeDrawn, act
         };
     }, [map, onShapeDrawn]);
 
+    // 2.5. Preview layer for geometries suggested by the engine (e.g. the permitted portion of a claim)
+    useEffect(() => {
+        if (!map) return;
+        let previewLayer: L.GeoJSON | null = null;
+
+        const handlePreview = (e: Event) => {
+            const geometry = (e as CustomEvent<GeoJSON.Polygon | GeoJSON.MultiPolygon | null>).detail;
+            if (previewLayer) {
+                map.removeLayer(previewLayer);
+                previewLayer = null;
+            }
+            if (!geometry) return;
+
+            previewLayer = L.geoJSON(geometry, {
+                style: { color: '#059669', weight: 3, dashArray: '8, 6', fillColor: '#34d399', fillOpacity: 0.35 },
+                interactive: false
+            });
+            previewLayer.addTo(map);
+            previewLayer.bringToFront();
+            map.flyToBounds(previewLayer.getBounds(), { paddingTopLeft: [450, 50], paddingBottomRight: [50, 50], duration: 1 });
+        };
+        window.addEventListener('preview-geometry', handlePreview);
+
+        return () => {
+            window.removeEventListener('preview-geometry', handlePreview);
+            if (previewLayer) map.removeLayer(previewLayer);
+        };
+    }, [map]);
+
     // 3. Render Static Zones, Reserved Zones, and Simulated Maps Output
     useEffect(() => {
         if (!map || !zones) return;
@@ -119,8 +280,10 @@ const SpatialClaimLayer: React.FC<SpatialClaimLayerProps> = ({ onShapeDrawn, act
 
         let boundsToFlyTo: L.LatLngBounds | null = null;
 
+        const rulesByZone = new Map((zoneConfig?.zones ?? []).map(z => [z.zoneId, z]));
+
         // Add Forest Zones (Soft green styling)
-        const zoneLayer = L.geoJSON(zones, {
+        const zoneLayer = L.geoJSON(zones as GeoJSON.FeatureCollection, {
             style: (feature) => {
                 const isTarget = feature?.properties?.district === activeDistrict;
                 return {
@@ -132,29 +295,36 @@ const SpatialClaimLayer: React.FC<SpatialClaimLayerProps> = ({ onShapeDrawn, act
                 };
             },
             onEachFeature: (feature, layer) => {
-                const label = `🌲 ${feature.properties.district} Forest Limit (500 Acres)`;
+                const rules = rulesByZone.get(feature.properties.zoneId);
+                const capacity = rules ? formatArea(rules.capacityAcres, unit) : 'capacity loading…';
+                const label = `🌲 ${feature.properties.district} Forest Limit (${capacity})`;
                 layer.bindTooltip(label, { permanent: true, direction: 'center', className: 'bg-white/90 text-slate-800 font-bold px-2 py-1 rounded shadow-sm border border-slate-200' });
-                layer.bindPopup(`<b>${feature.properties.zoneId}</b><br/>District: ${feature.properties.district}<br/>Capacity: ${feature.properties.totalArea} Acres`);
+                layer.bindPopup(`<b>${feature.properties.zoneId}</b><br/>District: ${feature.properties.district}<br/>Capacity: ${capacity}` + (rules
+                    ? `<br/>Flagged above: ${rules.thresholds.flaggedAbovePct}% of capacity<br/>Moderate above: ${rules.thresholds.moderateAbovePct}%`
+                    : ''));
 
-                // If this is the active district, grab its bounds
+                // If this is the active district, grab its bounds (a district may have several zones)
                 if (feature?.properties?.district === activeDistrict && layer instanceof L.Polygon) {
-                    boundsToFlyTo = layer.getBounds();
+                    boundsToFlyTo = boundsToFlyTo ? boundsToFlyTo.extend(layer.getBounds()) : layer.getBounds();
                 }
             }
         });
-        zoneLayer.addTo(map);
-        layers.push(zoneLayer);
+        if (visibleLayers.has('forest')) {
+            zoneLayer.addTo(map);
+            layers.push(zoneLayer);
+        }
 
         // Auto-pan to the selected area so the user doesn't have to drag the map from under the panel
-        if (boundsToFlyTo) {
+        if (boundsToFlyTo && flownTo.current !== activeDistrict) {
+            flownTo.current = activeDistrict;
             // Offset the padding to account for the left sidebar Panel (450px wide)
             map.flyToBounds(boundsToFlyTo, { paddingTopLeft: [450, 50], paddingBottomRight: [50, 50], duration: 1.5 });
         }
 
         // Add Reserved Forest Sub-Zone Layer (Phase 8)
         // Rendered with a dark border, stripes pattern, and NO-CLAIM popup
-        if (reservedZones && reservedZones.features && reservedZones.features.length > 0) {
-            const reservedLayer = L.geoJSON(reservedZones, {
+        if (visibleLayers.has('reserved') && reservedZones && reservedZones.features && reservedZones.features.length > 0) {
+            const reservedLayer = L.geoJSON(reservedZones as GeoJSON.FeatureCollection, {
                 style: () => ({
                     color: '#14532d',       // Very dark green border
                     weight: 3,
@@ -183,40 +353,32 @@ const SpatialClaimLayer: React.FC<SpatialClaimLayerProps> = ({ onShapeDrawn, act
 
         // Add Simulated Claims logic from memory store
         // We only render those with coordinates
-        const spatialClaims = simulatedClaims.filter(c => c.coordinates && c.coordinates.length > 0);
+        const spatialClaims = simulatedClaims.filter(c => c.coordinates && c.coordinates.length > 0
+            && visibleLayers.has(CLAIM_STATUS_LAYER[c.status])
+            && (!matchingIds || matchingIds.has(c.claimId)));
 
         spatialClaims.forEach(claim => {
-            const polygonData = {
-                type: "Polygon",
-                coordinates: claim.coordinates
-            } as any;
+            const polygonData = claimGeometry(claim);
 
             const layer = L.geoJSON(polygonData, {
-                style: () => {
-                    if (claim.status === "Approved") return { color: '#059669', fillColor: '#10b981', fillOpacity: 0.6, weight: 2 }; // Solid Green
-                    if (claim.status === "Flagged") return { color: '#dc2626', fillColor: '#ef4444', fillOpacity: 0.6, weight: 2 }; // Solid Red
-                    if (claim.status === "Rejected") return { color: '#475569', fillColor: '#94a3b8', fillOpacity: 0.4, weight: 1, dashArray: '4' }; // Gray
-                    if (claim.status === "Reserved Violation") return { color: '#1c1917', fillColor: '#44403c', fillOpacity: 0.5, weight: 2, dashArray: '8, 4' }; // Dark gray striped
-                    // 'Under Review' or 'Moderate Conflict' maps to the default Yellow pending color to preserve color mechanics
-                    return { color: '#d97706', fillColor: '#f59e0b', fillOpacity: 0.5 };
-                },
+                style: () => CLAIM_STYLES[claim.status],
                 onEachFeature: (_feature, l) => {
                     // Show the user's name permanently with status-specific icon
-                    const statusIcon = claim.status === "Flagged" ? "⚠️" :
-                        claim.status === "Reserved Violation" ? "🚫" :
-                            claim.status === "Rejected" ? "❌" : "✅";
+                    const statusIcon = STATUS_ICON[claim.status];
                     l.bindTooltip(`${statusIcon} ${claim.citizenName}`, { permanent: true, direction: 'center', className: 'font-bold bg-white/90 shadow-sm border border-slate-200 px-2 py-1 rounded text-slate-800' });
 
-                    const statusColor = claim.status === 'Flagged' ? 'red' :
-                        claim.status === 'Reserved Violation' ? '#1c1917' :
-                            claim.status === 'Moderate Conflict' ? 'orange' : 'green';
+                    const statusColor = STATUS_POPUP_COLOR[claim.status];
 
                     l.bindPopup(`
                         <b>Simulated Claim: ${claim.claimId}</b><br/>
                         Applicant: ${claim.citizenName}<br/>
                         Status: <b style="color:${statusColor}">${claim.status}</b><br/>
-                        ${claim.status === 'Reserved Violation' ? '<span style="color:#dc2626">⚠ Claim rejected: Requested land falls within a legally protected Reserved Forest zone.</span>' : ''}
+                        ${claim.status === 'Reserved Violation' ? `<span style="color:#dc2626">⚠ Claim rejected: ${claim.conflictPercentage}% of the requested land falls within a legally protected Reserved Forest zone.</span>` : ''}
                         ${claim.conflictPercentage > 0 && claim.status !== 'Reserved Violation' ? `Conflict Severity: ${claim.conflictPercentage}%` : ''}
+                        ${claim.areaCheck
+                            ? `Area: ${formatArea(claim.areaCheck.drawnAcres, unit)} drawn, ${formatArea(claim.areaCheck.declaredAcres, unit)} declared${claim.areaCheck.withinTolerance ? '' : ` <span style="color:#d97706">(${claim.areaCheck.discrepancyPct}% apart)</span>`}<br/>`
+                            : ''}
+                        ${zoneBreakdownHtml(claim, unit)}
                     `);
                 }
             });
@@ -224,42 +386,47 @@ const SpatialClaimLayer: React.FC<SpatialClaimLayerProps> = ({ onShapeDrawn, act
             layers.push(layer);
         });
 
-        // Add 4. Overlap / Venn Diagram Layer (Visual Only, exactly per Turf geometry)
-        // We calculate intersecting area between any flagged claims and approved claims to show the exact conflict
-        const approvedClaimPolys = spatialClaims.filter(c => c.status === "Approved").map(c => turf.polygon(c.coordinates));
-        const flaggedClaims = spatialClaims.filter(c => c.status === "Flagged");
-
-        flaggedClaims.forEach(flagged => {
-            const flaggedPoly = turf.polygon(flagged.coordinates);
-
-            approvedClaimPolys.forEach(appPoly => {
-                try {
-                    const intersection = turf.intersect(turf.featureCollection([flaggedPoly, appPoly]));
-                    if (intersection) {
-                        const overlapLayer = L.geoJSON(intersection, {
-                            style: {
-                                color: '#9d4edd', // Purple border
-                                fillColor: '#9d4edd', // Purple fill
-                                fillOpacity: 0.6,
-                                weight: 1 // Thin border
-                            },
-                            interactive: false // pure visual overlay so it doesn't block clicks beneath
-                        });
-                        overlapLayer.addTo(map);
-                        // Ensure it renders on top by bringing it to front
-                        overlapLayer.bringToFront();
-                        layers.push(overlapLayer);
-                    }
-                } catch (e) {
-                    console.error("Error rendering overlap visual:", e);
+        // Add 4. Overlap / Venn Diagram Layer from the backend conflict graph.
+        // Overlaps with approved land are solid purple; disputes between claims still under review are dashed amber.
+        const statusById = new Map(simulatedClaims.map(c => [c.claimId, c.status]));
+
+        // With a filter active, only overlaps involving a matching claim are drawn
+        const shownEdges = visibleLayers.has('overlaps')
+            ? conflictEdges.filter(edge => !matchingIds || edge.claimIds.some(id => matchingIds.has(id)))
+            : [];
+
+        shownEdges.forEach(edge => {
+            const [a, b] = edge.claimIds;
+            const touchesApproved = statusById.get(a) === "Approved" || statusById.get(b) === "Approved";
+            const color = touchesApproved ? '#9d4edd' : '#d97706';
+
+            const overlapLayer = L.geoJSON(edge.geometry, {
+                style: {
+                    color,
+                    fillColor: color,
+                    fillOpacity: touchesApproved ? 0.6 : 0.45,
+                    weight: touchesApproved ? 1 : 2,
+                    dashArray: touchesApproved ? undefined : '4, 3'
+                },
+                onEachFeature: (_feature, l) => {
+                    l.bindPopup(`
+                        <b>Overlapping Claims</b><br/>
+                        ${a} (${statusById.get(a) ?? 'not visible'}) ↔ ${b} (${statusById.get(b) ?? 'not visible'})<br/>
+                        Shared area: <b>${formatArea(edge.overlapAcres, unit)}</b><br/>
+                        <small>Detected ${new Date(edge.detectedAt).toLocaleString()}</small>
+                    `);
                 }
             });
+            overlapLayer.addTo(map);
+            // Ensure it renders on top by bringing it to front
+            overlapLayer.bringToFront();
+            layers.push(overlapLayer);
         });
 
         return () => {
             layers.forEach(l => map.removeLayer(l));
         };
-    }, [map, zones, reservedZones, simulatedClaims, activeDistrict]);
+    }, [map, zones, reservedZones, simulatedClaims, conflictEdges, zoneConfig, activeDistrict, unit, visibleLayers, matchingIds]);
 
     return null; // This is a logic-only component injected into MapContainer
 };
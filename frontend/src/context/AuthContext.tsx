@@ -0,0 +1,87 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import axios from 'axios';
+import { parseOrThrow, validateAuthResponse, validateMeResponse, type AuthResponse, type AuthUser } from 'fra-shared';
+
+interface AuthContextValue {
+    user: AuthUser | null;
+    token: string | null;
+    checking: boolean;
+    login: (username: string, password: string) => Promise<void>;
+    register: (username: string, name: string, password: string) => Promise<void>;
+    logout: () => void;
+}
+
+const TOKEN_KEY = 'fra.authToken';
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Every axios call in the app carries the session token once logged in
+const applyToken = (token: string | null) => {
+    if (token) {
+        axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+        localStorage.setItem(TOKEN_KEY, token);
+    } else {
+        delete axios.defaults.headers.common['Authorization'];
+        localStorage.removeItem(TOKEN_KEY);
+    }
+};
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    // Applied synchronously so child components' first requests are already authenticated
+    const [token, setToken] = useState<string | null>(() => {
+        const stored = localStorage.getItem(TOKEN_KEY);
+        applyToken(stored);
+        return stored;
+    });
+    const [user, setUser] = useState<AuthUser | null>(null);
+    const [checking, setChecking] = useState(true);
+
+    // Restore the session from a stored token on first load
+    useEffect(() => {
+        if (!token) {
+            setChecking(false);
+            return;
+        }
+        axios.get('http://localhost:5000/api/auth/me')
+            .then(res => setUser(parseOrThrow(validateMeResponse, res.data, 'session').user))
+            .catch(() => {
+                applyToken(null);
+                setToken(null);
+            })
+            .finally(() => setChecking(false));
+    }, []);
+
+    const startSession = (data: AuthResponse) => {
+        applyToken(data.token);
+        setToken(data.token);
+        setUser(data.user);
+    };
+
+    const login = async (username: string, password: string) => {
+        const res = await axios.post('http://localhost:5000/api/auth/login', { username, password });
+        startSession(parseOrThrow(validateAuthResponse, res.data, 'login response'));
+    };
+
+    const register = async (username: string, name: string, password: string) => {
+        const res = await axios.post('http://localhost:5000/api/auth/register', { username, name, password });
+        startSession(parseOrThrow(validateAuthResponse, res.data, 'registration response'));
+    };
+
+    const logout = () => {
+        applyToken(null);
+        setToken(null);
+        setUser(null);
+    };
+
+    return (
+        <AuthContext.Provider value={{ user, token, checking, login, register, logout }}>
+            {children}
+        </AuthContext.Provider>
+    );
+};
+
+export const useAuth = (): AuthContextValue => {
+    const ctx = useContext(AuthContext);
+    if (!ctx) throw new Error("useAuth must be used inside <AuthProvider>");
+    return ctx;
+};
@@ -0,0 +1,100 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import {
+    claimQueryToParams,
+    parseOrThrow,
+    validateClaimQueryResponse,
+    type AnalyticsSummary,
+    type ClaimFilter
+} from 'fra-shared';
+import { useAuth } from './AuthContext';
+import { useSimulationEvents } from '../hooks/useSimulationEvents';
+
+type Bbox = [number, number, number, number];
+
+// What the active filter matches across every page of results
+export interface ClaimMatches {
+    ids: ReadonlySet<string>;
+    total: number;
+    summary: AnalyticsSummary;
+}
+
+interface ClaimFilterContextValue {
+    filter: ClaimFilter;
+    setFilter: React.Dispatch<React.SetStateAction<ClaimFilter>>;
+    // null while nothing is filtered, so consumers show everything as before
+    matches: ClaimMatches | null;
+    // Why the server refused the filter (e.g. a minimum above the maximum)
+    error: string | null;
+    // Current map view, which the filter bar can use as a bounding box
+    mapView: Bbox | null;
+    reportMapView: (bbox: Bbox) => void;
+}
+
+const ClaimFilterContext = createContext<ClaimFilterContextValue | null>(null);
+
+export const isFilterActive = (filter: ClaimFilter) => Object.keys(claimQueryToParams(filter)).length > 0;
+
+/**
+ * Holds the filter bar's selection, shared by the map, the review queue and the dashboard
+ */
+export const ClaimFilterProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { user } = useAuth();
+    const [filter, setFilter] = useState<ClaimFilter>({});
+    const [matches, setMatches] = useState<ClaimMatches | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [mapView, setMapView] = useState<Bbox | null>(null);
+    // Only the newest request may update matches
+    const requestId = useRef(0);
+
+    const active = !!user && isFilterActive(filter);
+
+    const fetchMatches = () => {
+        const id = ++requestId.current;
+        if (!active) {
+            setMatches(null);
+            setError(null);
+            return;
+        }
+        axios.get('http://localhost:5000/api/simulation/claims/query', { params: { ...claimQueryToParams(filter), pageSize: 1 } })
+            .then(res => {
+                if (id !== requestId.current) return;
+                const data = parseOrThrow(validateClaimQueryResponse, res.data, 'claim query response');
+                setMatches({ ids: new Set(data.matchedIds), total: data.total, summary: data.summary });
+                setError(null);
+            })
+            .catch(err => {
+                if (id !== requestId.current) return;
+                console.error("Error applying claim filter:", err);
+                const issue = err.response?.data?.issues?.[0];
+                setError(issue ? `${issue.path}: ${issue.message}` : err.response?.data?.error || "Could not apply the filter.");
+            });
+    };
+
+    useEffect(fetchMatches, [filter, active]);
+
+    // Submissions and reviews can move claims in or out of the filter
+    useSimulationEvents({
+        ready: fetchMatches,
+        'claim-created': fetchMatches,
+        'claim-reviewed': fetchMatches
+    });
+
+    // A filter following the map view moves with it
+    const reportMapView = (bbox: Bbox) => {
+        setMapView(bbox);
+        setFilter(prev => (prev.bbox ? { ...prev, bbox } : prev));
+    };
+
+    return (
+        <ClaimFilterContext.Provider value={{ filter, setFilter, matches, error, mapView, reportMapView }}>
+            {children}
+        </ClaimFilterContext.Provider>
+    );
+};
+
+export const useClaimFilter = (): ClaimFilterContextValue => {
+    const ctx = useContext(ClaimFilterContext);
+    if (!ctx) throw new Error("useClaimFilter must be used inside <ClaimFilterProvider>");
+    return ctx;
+};
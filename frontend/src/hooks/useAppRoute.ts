@@ -0,0 +1,65 @@
+import { useCallback } from 'react';
+import { matchPath, useLocation, useNavigate } from 'react-router-dom';
+
+// Which view the path opens. Map position, layers and the dashboard live in the
+// query string instead, so they carry over when moving between views.
+export type AppView = 'home' | 'district' | 'claim' | 'admin' | 'portal';
+
+export interface AppRoute {
+    view: AppView;
+    district: string | null;
+    claimId: string | null;
+    // False when the path matches no view (it is then shown as home)
+    matched: boolean;
+}
+
+const PATTERNS: { view: AppView; path: string }[] = [
+    { view: 'district', path: '/districts/:district' },
+    { view: 'claim', path: '/claims/:claimId' },
+    { view: 'admin', path: '/admin/:district?' },
+    { view: 'portal', path: '/portal/:district?' },
+    { view: 'home', path: '/' }
+];
+
+const segment = (value: string) => encodeURIComponent(value);
+
+export const paths = {
+    home: () => '/',
+    district: (district: string) => `/districts/${segment(district)}`,
+    claim: (claimId: string) => `/claims/${segment(claimId)}`,
+    admin: (district?: string | null) => (district ? `/admin/${segment(district)}` : '/admin'),
+    portal: (district?: string | null) => (district ? `/portal/${segment(district)}` : '/portal')
+};
+
+export const parseRoute = (pathname: string): AppRoute => {
+    for (const { view, path } of PATTERNS) {
+        const match = matchPath(path, pathname);
+        if (match) {
+            return { view, district: match.params.district ?? null, claimId: match.params.claimId ?? null, matched: true };
+        }
+    }
+    return { view: 'home', district: null, claimId: null, matched: false };
+};
+
+export interface GoOptions {
+    replace?: boolean;
+    // Edits the carried-over query string, e.g. to reopen a closed panel
+    updateSearch?: (params: URLSearchParams) => void;
+}
+
+/**
+ * The current view parsed from the URL, and a navigate that keeps the query string
+ */
+export const useAppRoute = (): [AppRoute, (path: string, options?: GoOptions) => void] => {
+    const location = useLocation();
+    const navigate = useNavigate();
+
+    const go = useCallback((path: string, { replace, updateSearch }: GoOptions = {}) => {
+        const params = new URLSearchParams(location.search);
+        updateSearch?.(params);
+        const search = params.toString();
+        navigate({ pathname: path, search: search ? `?${search}` : '' }, { replace });
+    }, [navigate, location.search]);
+
+    return [parseRoute(location.pathname), go];
+};
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AREA_UNITS, type AreaUnit } from 'fra-shared';
+
+const STORAGE_KEY = 'fra.areaUnit';
+const CHANGE_EVENT = 'area-unit-changed';
+
+const readStoredUnit = (): AreaUnit => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return (AREA_UNITS as readonly string[]).includes(stored || '') ? stored as AreaUnit : 'acres';
+};
+
+/**
+ * The area unit chosen in the header, shared by every component that shows an area.
+ * Stored in localStorage so the choice survives reloads.
+ */
+export const useAreaUnit = (): [AreaUnit, (unit: AreaUnit) => void] => {
+    const [unit, setUnitState] = useState<AreaUnit>(readStoredUnit);
+
+    useEffect(() => {
+        const sync = () => setUnitState(readStoredUnit());
+        window.addEventListener(CHANGE_EVENT, sync);
+        return () => window.removeEventListener(CHANGE_EVENT, sync);
+    }, []);
+
+    const setUnit = useCallback((next: AreaUnit) => {
+        localStorage.setItem(STORAGE_KEY, next);
+        window.dispatchEvent(new CustomEvent(CHANGE_EVENT));
+    }, []);
+
+    return [unit, setUnit];
+};
@@ -0,0 +1,40 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DEFAULT_LAYERS, MAP_LAYERS, isMapLayerId, type MapLayerId } from '../utils/mapLayers';
+
+const URL_PARAM = 'layers';
+
+const parseLayers = (param: string | null): ReadonlySet<MapLayerId> => {
+    if (param === null) return new Set(DEFAULT_LAYERS);
+    return new Set(param.split(',').filter(isMapLayerId));
+};
+
+const isDefault = (layers: ReadonlySet<MapLayerId>) =>
+    layers.size === DEFAULT_LAYERS.length && DEFAULT_LAYERS.every(id => layers.has(id));
+
+/**
+ * Which map layers are switched on. Kept in the ?layers= query parameter
+ * so a view can be shared by copying the URL.
+ */
+export const useMapLayers = (): [ReadonlySet<MapLayerId>, (id: MapLayerId) => void] => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const param = searchParams.get(URL_PARAM);
+    const layers = useMemo(() => parseLayers(param), [param]);
+
+    const toggleLayer = useCallback((id: MapLayerId) => {
+        setSearchParams(prev => {
+            const next = new Set(parseLayers(prev.get(URL_PARAM)));
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            if (isDefault(next)) {
+                prev.delete(URL_PARAM);
+            } else {
+                // Keep the panel's order so equal selections give equal URLs
+                prev.set(URL_PARAM, MAP_LAYERS.map(l => l.id).filter(l => next.has(l)).join(','));
+            }
+            return prev;
+        }, { replace: true });
+    }, [setSearchParams]);
+
+    return [layers, toggleLayer];
+};
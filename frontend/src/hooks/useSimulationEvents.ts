@@ -0,0 +1,110 @@
+import { useEffect, useRef } from 'react';
+import {
+    parseOrThrow,
+    validateAnalyticsChangedPayload,
+    validateClaimEventPayload,
+    validateZoneConfigChangedPayload,
+    type AnalyticsChangedPayload,
+    type ClaimEventPayload,
+    type ZoneConfigChangedPayload
+} from 'fra-shared';
+import { useAuth } from '../context/AuthContext';
+
+export interface SimulationEventHandlers {
+    // Fired on every (re)connect so subscribers can resync anything missed while offline
+    ready?: () => void;
+    'claim-created'?: (payload: ClaimEventPayload) => void;
+    'claim-reviewed'?: (payload: ClaimEventPayload) => void;
+    'analytics-changed'?: (payload: AnalyticsChangedPayload) => void;
+    'zone-config-changed'?: (payload: ZoneConfigChangedPayload) => void;
+}
+
+type HandlersRef = { current: SimulationEventHandlers };
+
+const EVENTS_URL = 'http://localhost:5000/api/simulation/events';
+
+// One EventSource is shared by every subscribed component
+const subscribers = new Set<HandlersRef>();
+let source: EventSource | null = null;
+let sourceToken: string | null = null;
+
+const dispatch = <K extends keyof SimulationEventHandlers>(type: K, payload?: unknown) => {
+    subscribers.forEach(ref => {
+        const handler = ref.current[type] as ((p?: unknown) => void) | undefined;
+        if (handler) handler(payload);
+    });
+};
+
+const openSource = (token: string | null) => {
+    if (source && sourceToken === token) return;
+    source?.close();
+
+    sourceToken = token;
+    source = new EventSource(token ? `${EVENTS_URL}?token=${encodeURIComponent(token)}` : EVENTS_URL);
+
+    source.addEventListener('ready', () => dispatch('ready'));
+
+    const claimListener = (type: 'claim-created' | 'claim-reviewed') => (e: MessageEvent) => {
+        try {
+            dispatch(type, parseOrThrow(validateClaimEventPayload, JSON.parse(e.data), type));
+        } catch (err) {
+            console.error("Dropped malformed live event:", err);
+        }
+    };
+    source.addEventListener('claim-created', claimListener('claim-created'));
+    source.addEventListener('claim-reviewed', claimListener('claim-reviewed'));
+
+    source.addEventListener('analytics-changed', (e: MessageEvent) => {
+        try {
+            dispatch('analytics-changed', parseOrThrow(validateAnalyticsChangedPayload, JSON.parse(e.data), 'analytics-changed'));
+        } catch (err) {
+            console.error("Dropped malformed live event:", err);
+        }
+    });
+
+    source.addEventListener('zone-config-changed', (e: MessageEvent) => {
+        try {
+            dispatch('zone-config-changed', parseOrThrow(validateZoneConfigChangedPayload, JSON.parse(e.data), 'zone-config-changed'));
+        } catch (err) {
+            console.error("Dropped malformed live event:", err);
+        }
+    });
+};
+
+const closeSourceIfUnused = () => {
+    if (subscribers.size === 0 && source) {
+        source.close();
+        source = null;
+        sourceToken = null;
+    }
+};
+
+/**
+ * Subscribes a component to live Simulation Layer events.
+ * Handlers may change between renders; the latest ones are always used.
+ */
+export const useSimulationEvents = (handlers: SimulationEventHandlers) => {
+    const { token } = useAuth();
+    const handlersRef = useRef(handlers);
+    handlersRef.current = handlers;
+
+    useEffect(() => {
+        subscribers.add(handlersRef);
+        openSource(token);
+        return () => {
+            subscribers.delete(handlersRef);
+            closeSourceIfUnused();
+        };
+    }, [token]);
+};
+
+/**
+ * Replaces a claim in a list by ID, or prepends it if new
+ */
+export const upsertClaim = <T extends { claimId: string }>(claims: T[], claim: T): T[] => {
+    const idx = claims.findIndex(c => c.claimId === claim.claimId);
+    if (idx === -1) return [claim, ...claims];
+    const next = [...claims];
+    next[idx] = claim;
+    return next;
+};
@@ -1,11 +1,20 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
 import App from './App.tsx'
+import { AuthProvider } from './context/AuthContext.tsx'
+import { ClaimFilterProvider } from './context/ClaimFilterContext.tsx'
 import './index.css'
 import 'leaflet/dist/leaflet.css';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
     <React.StrictMode>
-        <App />
+        <BrowserRouter>
+            <AuthProvider>
+                <ClaimFilterProvider>
+                    <App />
+                </ClaimFilterProvider>
+            </AuthProvider>
+        </BrowserRouter>
     </React.StrictMode>,
 )
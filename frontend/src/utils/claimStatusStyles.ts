@@ -0,0 +1,17 @@
+import type { ClaimStatus } from 'fra-shared';
+
+// Tailwind classes of the status pill shown with a claim ID
+export const STATUS_BADGE_CLASS: Record<ClaimStatus, string> = {
+    "Submitted": "bg-slate-100 text-slate-700",
+    "Under Review": "bg-slate-100 text-slate-700",
+    "Moderate Conflict": "bg-yellow-100 text-yellow-700",
+    "Flagged": "bg-orange-100 text-orange-700 animate-pulse",
+    "Reserved Violation": "bg-red-100 text-red-700",
+    "Gram Sabha Verified": "bg-indigo-100 text-indigo-700",
+    "SDLC Recommended": "bg-indigo-100 text-indigo-700",
+    "Approved": "bg-emerald-100 text-emerald-700",
+    "Rejected": "bg-red-100 text-red-700",
+    "Returned": "bg-amber-100 text-amber-700",
+    "Appealed": "bg-amber-100 text-amber-700",
+    "Superseded": "bg-slate-100 text-slate-500 line-through"
+};
@@ -0,0 +1,33 @@
+import axios from 'axios';
+
+/**
+ * Downloads an authenticated export and saves it under the server's file name.
+ * A plain <a href> cannot send the bearer token, so the file is fetched as a blob first.
+ */
+export const downloadExport = async (url: string, fallbackName: string) => {
+    const res = await axios.get(url, { responseType: 'blob' });
+    const disposition: string = res.headers['content-disposition'] || '';
+    const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+
+    const objectUrl = URL.createObjectURL(res.data);
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(objectUrl);
+};
+
+/**
+ * Error message from a failed blob request (the JSON error body arrives as a Blob)
+ */
+export const exportErrorMessage = async (err: any): Promise<string> => {
+    const data = err.response?.data;
+    if (data instanceof Blob) {
+        try {
+            return JSON.parse(await data.text()).error || "Export failed.";
+        } catch {
+            return "Export failed.";
+        }
+    }
+    return data?.error || "Export failed.";
+};
@@ -0,0 +1,49 @@
+import type { ClaimStatus, LegacyClaimStatus } from 'fra-shared';
+
+// Independently switchable map layers. Claim layers follow the legacy layer's status classes.
+export const MAP_LAYERS = [
+    { id: 'approved', label: 'Approved', group: 'Claims' },
+    { id: 'pending', label: 'Pending', group: 'Claims' },
+    { id: 'conflict', label: 'Conflict', group: 'Claims' },
+    { id: 'protected', label: 'Protected zone', group: 'Claims' },
+    { id: 'rejected', label: 'Rejected', group: 'Claims' },
+    { id: 'forest', label: 'Forest zones', group: 'Zones' },
+    { id: 'reserved', label: 'Reserved forests', group: 'Zones' },
+    { id: 'overlaps', label: 'Claim overlaps', group: 'Zones' },
+    { id: 'risk', label: 'District risk', group: 'Analysis' },
+    { id: 'heatmap', label: 'Conflict heatmap', group: 'Analysis' }
+] as const;
+
+export type MapLayerId = typeof MAP_LAYERS[number]['id'];
+
+const LAYER_IDS: readonly string[] = MAP_LAYERS.map(l => l.id);
+
+export const isMapLayerId = (value: string): value is MapLayerId => LAYER_IDS.includes(value);
+
+// Everything except the analysis overlays, which cost extra requests
+export const DEFAULT_LAYERS: readonly MapLayerId[] = ['approved', 'pending', 'conflict', 'protected', 'rejected', 'forest', 'reserved', 'overlaps'];
+
+export const STATUS_LAYER: Record<LegacyClaimStatus, MapLayerId> = {
+    Approved: 'approved',
+    Pending: 'pending',
+    Conflict: 'conflict',
+    Protected: 'protected',
+    Rejected: 'rejected'
+};
+
+// Status class of a stored claim, matching how the backend classifies the legacy layer
+// (which can additionally mark a pending claim as Conflict when it overlaps another)
+export const CLAIM_STATUS_LAYER: Record<ClaimStatus, MapLayerId> = {
+    "Submitted": 'pending',
+    "Under Review": 'pending',
+    "Moderate Conflict": 'conflict',
+    "Flagged": 'conflict',
+    "Reserved Violation": 'protected',
+    "Gram Sabha Verified": 'pending',
+    "SDLC Recommended": 'pending',
+    "Approved": 'approved',
+    "Rejected": 'rejected',
+    "Returned": 'pending',
+    "Appealed": 'pending',
+    "Superseded": 'rejected'
+};
@@ -0,0 +1,57 @@
+// Reading a JSON object while a model is still writing it. The streamed text is cut
+// back to the last point where every member so far is complete, then the open
+// objects and arrays are closed, so only finished values are ever shown.
+
+const CLOSER: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * The completed part of a partly streamed JSON object, or null before there is any.
+ * Text before the first "{" (a markdown fence, a preamble) is ignored.
+ */
+export const parsePartialJson = (text: string): unknown => {
+    const start = text.indexOf('{');
+    if (start === -1) return null;
+
+    const open: string[] = [];
+    let inString = false;
+    let escaped = false;
+    // End of the longest prefix that holds only complete members, and the brackets open there
+    let safeEnd = -1;
+    let safeOpen: string[] = [];
+
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            open.push(ch);
+            safeEnd = i + 1;
+            safeOpen = [...open];
+        } else if (ch === '}' || ch === ']') {
+            open.pop();
+            if (open.length === 0) return tryParse(text.slice(start, i + 1));
+        } else if (ch === ',') {
+            // Everything before a separator is a finished member
+            safeEnd = i;
+            safeOpen = [...open];
+        }
+    }
+
+    if (safeEnd === -1) return null;
+    const closers = safeOpen.reverse().map(bracket => CLOSER[bracket]).join('');
+    return tryParse(text.slice(start, safeEnd) + closers);
+};
+
+const tryParse = (json: string): unknown => {
+    try {
+        return JSON.parse(json);
+    } catch {
+        return null;
+    }
+};
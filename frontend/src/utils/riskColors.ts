@@ -0,0 +1,17 @@
+// Colour scale shared by the risk choropleth and its legend
+export const RISK_SCALE: { min: number; color: string }[] = [
+    { min: 80, color: '#b91c1c' },
+    { min: 60, color: '#ea580c' },
+    { min: 40, color: '#f59e0b' },
+    { min: 20, color: '#facc15' },
+    { min: 0, color: '#86efac' }
+];
+
+// Districts with zones but no claims yet
+export const NO_RISK_COLOR = '#cbd5e1';
+
+export const riskColor = (score: number | null): string =>
+    score === null ? NO_RISK_COLOR : (RISK_SCALE.find(step => score >= step.min) ?? RISK_SCALE[RISK_SCALE.length - 1]).color;
+
+// Heatmap ramp from sparse to dense conflict
+export const HEAT_GRADIENT: Record<number, string> = { 0.2: '#3b82f6', 0.4: '#22d3ee', 0.6: '#facc15', 0.8: '#f97316', 1: '#dc2626' };
@@ -7,6 +7,10 @@ export default defineConfig({
   plugins: [react(), tailwindcss()],
   server: {
     port: 5173,
-    host: true
+    host: true,
+    fs: {
+      // fra-shared is linked from ../shared and served from source
+      allow: ['..']
+    }
   }
 });
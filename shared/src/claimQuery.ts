@@ -0,0 +1,76 @@
+// Query-string form of a claim search: the frontend builds it with
+// claimQueryToParams and the backend reads it back with claimQueryFromParams.
+
+import type { ClaimQuery } from './domain';
+import { validateClaimQuery, type ValidationResult } from './validators';
+
+const PARAM_NAMES: Record<keyof ClaimQuery, string> = {
+    text: 'q',
+    statuses: 'status',
+    district: 'district',
+    submittedFrom: 'from',
+    submittedTo: 'to',
+    minAreaAcres: 'minArea',
+    maxAreaAcres: 'maxArea',
+    minSeverity: 'minSeverity',
+    maxSeverity: 'maxSeverity',
+    bbox: 'bbox',
+    sort: 'sort',
+    order: 'order',
+    page: 'page',
+    pageSize: 'pageSize'
+};
+
+const NUMBER_FIELDS: (keyof ClaimQuery)[] = ['minAreaAcres', 'maxAreaAcres', 'minSeverity', 'maxSeverity', 'page', 'pageSize'];
+
+const FIELDS = Object.keys(PARAM_NAMES) as (keyof ClaimQuery)[];
+
+// Text that is not a number is passed on as-is so the validator reports it
+const toNumber = (value: string): number | string => {
+    const parsed = Number(value);
+    return value.trim() !== '' && Number.isFinite(parsed) ? parsed : value;
+};
+
+/**
+ * Query parameters for a claim search; empty fields are left out
+ */
+export const claimQueryToParams = (query: ClaimQuery): Record<string, string> => {
+    const params: Record<string, string> = {};
+    for (const field of FIELDS) {
+        const value = query[field];
+        if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+        params[PARAM_NAMES[field]] = Array.isArray(value) ? value.join(',') : String(value);
+    }
+    return params;
+};
+
+/**
+ * Parses and validates claim search parameters (e.g. Express's req.query)
+ */
+export const claimQueryFromParams = (params: Record<string, unknown>): ValidationResult<ClaimQuery> => {
+    const raw: Record<string, unknown> = {};
+    for (const field of FIELDS) {
+        const value = params[PARAM_NAMES[field]];
+        if (value === undefined || value === '') continue;
+        if (typeof value !== 'string') {
+            raw[field] = value;
+        } else if (field === 'statuses') {
+            raw[field] = value.split(',').map(s => s.trim()).filter(Boolean);
+        } else if (field === 'bbox') {
+            raw[field] = value.split(',').map(toNumber);
+        } else {
+            raw[field] = NUMBER_FIELDS.includes(field) ? toNumber(value) : value;
+        }
+    }
+    const result = validateClaimQuery(raw);
+    if (result.ok) return result;
+    // Report problems under the parameter names the caller used
+    return {
+        ok: false,
+        issues: result.issues.map(issue => {
+            const [field, ...rest] = issue.path.split(/(?=[.[])/);
+            const name = PARAM_NAMES[field as keyof ClaimQuery];
+            return name ? { ...issue, path: [name, ...rest].join('') } : issue;
+        })
+    };
+};
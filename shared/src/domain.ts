@@ -0,0 +1,817 @@
+// Domain model shared by the frontend and the backend.
+// Adding a status here (or in the spatial engine) makes every exhaustive
+// Record<ClaimStatus, ...> and assertNever() switch fail to compile until handled.
+
+import type { AreaUnit } from './units';
+
+// --- Claim statuses ---
+
+// Verdicts the spatial conflict engine assigns at intake
+export const INTAKE_STATUSES = ["Submitted", "Under Review", "Moderate Conflict", "Flagged", "Reserved Violation"] as const;
+export type IntakeStatus = typeof INTAKE_STATUSES[number];
+
+// FRA review stages after intake (Gram Sabha -> SDLC -> DLC)
+// Superseded: replaced by the citizen's resubmission of its permitted portion; final, and holds no land
+export const REVIEW_STATUSES = ["Gram Sabha Verified", "SDLC Recommended", "Approved", "Rejected", "Returned", "Appealed", "Superseded"] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+export const CLAIM_STATUSES = [...INTAKE_STATUSES, ...REVIEW_STATUSES] as const;
+export type ClaimStatus = typeof CLAIM_STATUSES[number];
+
+// Status values of the legacy map layer (/api/claims), derived from each claim's status and flags
+export const LEGACY_CLAIM_STATUSES = ["Approved", "Pending", "Conflict", "Protected", "Rejected"] as const;
+export type LegacyClaimStatus = typeof LEGACY_CLAIM_STATUSES[number];
+
+// --- Districts ---
+
+// Districts the simulation accepts claims for
+export const KNOWN_DISTRICTS = ["Kandhamal", "Bastar", "Mandla", "Gadchiroli", "Sundargarh", "Koraput"] as const;
+export type District = typeof KNOWN_DISTRICTS[number];
+
+// --- Users ---
+
+export const USER_ROLES = ["citizen", "district_officer", "state_admin"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export interface AuthUser {
+    userId: string;
+    username: string;
+    name: string;
+    role: UserRole;
+    district: string | null;
+    createdAt: string;
+}
+
+// --- Claims ---
+
+export interface ClaimHistoryEntry {
+    from: ClaimStatus | null;
+    to: ClaimStatus;
+    actor: string;
+    remark: string;
+    timestamp: string;
+    // Review assistant advisory the officer had open when recording this change
+    advisory?: ClaimAdvisoryRecord;
+}
+
+export type PolygonCoordinates = number[][][];
+export type MultiPolygonCoordinates = number[][][][];
+export type ClaimGeometryType = "Polygon" | "MultiPolygon";
+
+export interface SimulatedClaim {
+    claimId: string;
+    citizenName: string;
+    ownerId: string | null;
+    district: string;
+    // Village of the claimed land when the source recorded one (legacy and imported claims)
+    village: string | null;
+    areaRequested: number;
+    geometryType: ClaimGeometryType | null;
+    coordinates: PolygonCoordinates | MultiPolygonCoordinates | null;
+    status: ClaimStatus;
+    conflictPercentage: number;
+    timestamp: string;
+    history: ClaimHistoryEntry[];
+    // Zones the drawn boundary touched; null for area-only claims
+    zoneBreakdown: ZoneBreakdown | null;
+    // Declared vs measured area; null for area-only claims
+    areaCheck: AreaCheck | null;
+    // Permitted portion offered at intake; a resubmission must stay inside it. Absent on older records
+    suggestion?: ClipSuggestion | null;
+    // Links between a claim and the resubmission of its permitted portion
+    resubmissionOf?: string | null;
+    supersededBy?: string | null;
+}
+
+// Drawn area measured in a projected CRS, compared with the area the citizen declared
+export interface AreaCheck {
+    drawnAcres: number;
+    declaredAcres: number;
+    discrepancyPct: number;
+    withinTolerance: boolean;
+    crs: string;
+}
+
+// A forest zone touched by a claim, graded with that zone's own rules
+export interface ForestZoneHit {
+    zoneId: string;
+    district: string;
+    intersectAcres: number;
+    severity: number;
+    status: IntakeStatus;
+}
+
+// A reserved-forest polygon touched by a claim
+export interface ReservedZoneHit {
+    zoneId: string;
+    district: string;
+    intersectAcres: number;
+}
+
+export interface ZoneBreakdown {
+    forestZones: ForestZoneHit[];
+    reservedZones: ReservedZoneHit[];
+}
+
+// Properties of a feature in the /api/claims FeatureCollection: the legacy map
+// layer's format, generated from the claims store with recomputed flags
+export interface LegacyClaimProperties {
+    claimId: string;
+    district: string;
+    village: string | null;
+    status: LegacyClaimStatus;
+    area: number;
+    overlap: boolean;
+    protected_zone: boolean;
+}
+
+// Overlap between a newly drawn polygon and one stored claim
+export interface ClaimOverlap {
+    claimId: string;
+    overlapAcres: number;
+    geometry: GeoJSONPolygon | GeoJSONMultiPolygon;
+}
+
+// Result of running a new claim through the spatial conflict engine
+export interface ConflictResult {
+    status: IntakeStatus;
+    conflictSeverity: number;
+    reason?: string;
+    overlaps: ClaimOverlap[];
+    zoneBreakdown: ZoneBreakdown | null;
+    suggestion: ClipSuggestion | null;
+}
+
+// The part of a claim that could be accepted: the drawn boundary minus reserved
+// forest and already-approved parcels
+export interface ClipSuggestion {
+    geometry: GeoJSONPolygon | GeoJSONMultiPolygon;
+    acres: number;
+    removedReservedAcres: number;
+    removedApprovedAcres: number;
+}
+
+// --- Conflict graph: which claims overlap which, and by how much ---
+
+// Undirected edge; claimIds are stored in ascending order
+export interface ConflictEdge {
+    claimIds: [string, string];
+    overlapAcres: number;
+    geometry: GeoJSONPolygon | GeoJSONMultiPolygon;
+    detectedAt: string;
+}
+
+// One edge seen from a single claim, with the other claim's current status
+export interface ClaimConflict {
+    claimId: string;
+    status: ClaimStatus;
+    district: string;
+    overlapAcres: number;
+    geometry: GeoJSONPolygon | GeoJSONMultiPolygon;
+    detectedAt: string;
+}
+
+// --- Zones ---
+
+// Severity cut-offs, as a percentage of zone capacity
+export interface ZoneThresholds {
+    moderateAbovePct: number;
+    flaggedAbovePct: number;
+}
+
+// Intake status assigned for each conflict-engine outcome
+export interface ZoneStatusRules {
+    withinLimits: IntakeStatus;
+    moderate: IntakeStatus;
+    high: IntakeStatus;
+    outsideZone: IntakeStatus;
+    reservedForest: IntakeStatus;
+}
+
+export interface ZoneRules {
+    capacityAcres: number;
+    thresholds: ZoneThresholds;
+    statusRules: ZoneStatusRules;
+}
+
+// Per-zone overrides on top of the default rules
+export interface ZoneRulesOverride {
+    capacityAcres?: number;
+    thresholds?: Partial<ZoneThresholds>;
+    statusRules?: Partial<ZoneStatusRules>;
+}
+
+export interface ResolvedZoneRules extends ZoneRules {
+    zoneId: string;
+    district: string;
+}
+
+export interface ForestZoneProperties {
+    zoneId: string;
+    district: string;
+    totalArea: number;
+}
+
+// Approximate district outline for the risk choropleth (hull of its zones and claims)
+export interface DistrictExtentProperties {
+    district: string;
+    zoneCount: number;
+    claimCount: number;
+}
+
+export interface ReservedZoneProperties {
+    zoneId: string;
+    district: string;
+    type: string;
+}
+
+// --- Bulk import (GeoJSON, zipped Shapefile, KML) ---
+
+export const IMPORT_KINDS = ["claims", "forest-zones", "reserved-zones"] as const;
+export type ImportKind = typeof IMPORT_KINDS[number];
+
+export const IMPORT_FORMATS = ["geojson", "shapefile", "kml"] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+// Outcome of one source feature; claim fields are set for claims, zoneId for zones
+export interface ImportFeatureResult {
+    index: number;
+    label: string;
+    outcome: "imported" | "failed";
+    claimId: string | null;
+    zoneId: string | null;
+    status: ClaimStatus | null;
+    conflictPercentage: number | null;
+    repairs: string[];
+    issues: { path: string; message: string }[];
+}
+
+export interface ImportReport {
+    fileName: string;
+    format: ImportFormat;
+    kind: ImportKind;
+    // CRS the source coordinates were read in, before reprojection to WGS 84
+    sourceCrs: string;
+    total: number;
+    imported: number;
+    failed: number;
+    features: ImportFeatureResult[];
+}
+
+// --- Analytics ---
+
+export type RiskLevel = "Low" | "Moderate" | "High";
+
+export interface AnalyticsSummary {
+    total_claims: number;
+    approved_claims: number;
+    pending_claims: number;
+    conflict_claims: number;
+    approved_pct: number;
+    pending_pct: number;
+}
+
+export interface DistrictRisk {
+    district: string;
+    total_claims: number;
+    pending: number;
+    conflicts: number;
+    risk_score: number;
+    risk_level: RiskLevel;
+    // How each risk factor added up to risk_score, largest first
+    explanation: RiskFactorContribution[];
+}
+
+// One weighted factor's part of a district's risk score
+export interface RiskFactorContribution {
+    factorId: string;
+    label: string;
+    weight: number;
+    // Factor reading on a 0-100 scale, before weighting
+    value: number;
+    // weight x value: the points this factor adds to risk_score
+    points: number;
+    detail: string;
+}
+
+// Scores up to lowMax are Low, up to moderateMax Moderate, anything above High
+export interface RiskThresholds {
+    lowMax: number;
+    moderateMax: number;
+}
+
+export interface RiskConfig {
+    // Weight per factor ID; a factor with weight 0 is reported but adds nothing
+    weights: Record<string, number>;
+    thresholds: RiskThresholds;
+    // Mean days open at which the pending-age factor reaches 100
+    pendingAgeFullDays: number;
+}
+
+export interface RiskFactorInfo {
+    factorId: string;
+    label: string;
+    description: string;
+}
+
+export interface AnalyticsData {
+    summary: AnalyticsSummary;
+    districts: DistrictRisk[];
+}
+
+// --- Claim search (GET /api/simulation/claims/query) ---
+
+// "priority" puts Flagged claims first, then newest first
+export const CLAIM_SORT_FIELDS = ["priority", "submitted", "area", "severity", "applicant"] as const;
+export type ClaimSortField = typeof CLAIM_SORT_FIELDS[number];
+
+export type SortOrder = "asc" | "desc";
+
+// Every bound is inclusive; an absent field does not filter
+export interface ClaimFilter {
+    // Case-insensitive match on claim ID, applicant name or village
+    text?: string;
+    statuses?: ClaimStatus[];
+    district?: string;
+    // Submission dates, YYYY-MM-DD
+    submittedFrom?: string;
+    submittedTo?: string;
+    minAreaAcres?: number;
+    maxAreaAcres?: number;
+    // Conflict severity (conflictPercentage)
+    minSeverity?: number;
+    maxSeverity?: number;
+    // [minLon, minLat, maxLon, maxLat]; claims without a boundary never match
+    bbox?: [number, number, number, number];
+}
+
+export interface ClaimQuery extends ClaimFilter {
+    sort?: ClaimSortField;
+    order?: SortOrder;
+    // 1-based
+    page?: number;
+    pageSize?: number;
+}
+
+export interface ClaimQueryResponse {
+    claims: SimulatedClaim[];
+    total: number;
+    page: number;
+    pageSize: number;
+    // Every match, not just this page, so the map can show them all
+    matchedIds: string[];
+    // Counts over every match, as the dashboard KPIs show them
+    summary: AnalyticsSummary;
+}
+
+export const CLAIM_QUERY_LIMITS = {
+    defaultPageSize: 20,
+    maxPageSize: 100
+};
+
+// --- Claim review assistant (advisory only; officers decide) ---
+
+export const ADVISORY_CONFIDENCE_LEVELS = ["Low", "Moderate", "High"] as const;
+export type AdvisoryConfidence = typeof ADVISORY_CONFIDENCE_LEVELS[number];
+
+// Another claim whose boundary overlaps the reviewed one
+export interface AdvisoryOverlap {
+    claimId: string;
+    status: ClaimStatus;
+    overlapAcres: number;
+}
+
+// A forest zone the claim falls in, and what approving it would do to the zone's capacity
+export interface AdvisoryCapacityImpact {
+    zoneId: string;
+    capacityAcres: number;
+    // Approved land already in the zone, not counting this claim
+    approvedAcres: number;
+    claimAcres: number;
+    usedPctIfApproved: number;
+}
+
+// An earlier review decision on another claim in the same zone
+export interface AdvisoryPrecedent {
+    claimId: string;
+    decision: ClaimStatus;
+    remark: string;
+    decidedAt: string;
+    severityPct: number;
+    reservedEncroachment: boolean;
+}
+
+// What the assistant is given about a claim; an advisory may only cite claim IDs and numbers from here
+export interface ClaimReviewFacts {
+    claimId: string;
+    district: string;
+    village: string | null;
+    status: ClaimStatus;
+    areaRequestedAcres: number;
+    drawnAcres: number | null;
+    severityPct: number;
+    overlaps: AdvisoryOverlap[];
+    reservedEncroachment: ReservedZoneHit[];
+    capacity: AdvisoryCapacityImpact[];
+    // Same forest zones, or the same district for claims without a boundary; newest first
+    precedents: AdvisoryPrecedent[];
+    // The decisions open to the officer; the recommendation is one of these
+    allowedTransitions: ClaimStatus[];
+}
+
+export interface ClaimAdvisory {
+    advisoryId: string;
+    claimId: string;
+    // Status the claim was in; the advisory lapses once the claim moves on
+    forStatus: ClaimStatus;
+    recommendation: ClaimStatus;
+    confidence: AdvisoryConfidence;
+    rationale: string;
+    considerations: string[];
+    // Claim IDs and numbers the server could not trace back to the facts
+    issues: string[];
+    facts: ClaimReviewFacts;
+    provider: string;
+    generatedAt: string;
+}
+
+// The part of an advisory kept in the claim history
+export interface ClaimAdvisoryRecord {
+    advisoryId: string;
+    recommendation: ClaimStatus;
+    confidence: AdvisoryConfidence;
+    rationale: string;
+    provider: string;
+    generatedAt: string;
+    // Whether the officer's decision matched the recommendation
+    followed: boolean;
+}
+
+// --- API requests ---
+
+export interface LoginRequest {
+    username: string;
+    password: string;
+}
+
+export interface RegisterRequest {
+    username: string;
+    name: string;
+    password: string;
+}
+
+// The claim is filed under the signed-in citizen's account name
+export interface SubmitClaimRequest {
+    district: string;
+    areaRequested?: number;
+    geojson?: GeoJSONClaimFeature | null;
+    // Unit of areaRequested; acres when omitted
+    areaUnit?: AreaUnit;
+    // Set when resubmitting the permitted portion of an earlier claim by the same citizen
+    resubmissionOf?: string;
+}
+
+// Form fields sent alongside the uploaded file
+export interface ImportRequest {
+    kind: ImportKind;
+    // Used for features that carry no district property
+    district?: string;
+    // Overrides the CRS declared by the file (e.g. "EPSG:32644")
+    sourceCrs?: string;
+}
+
+export interface ReviewClaimRequest {
+    status: ClaimStatus;
+    remark: string;
+    // Advisory from POST /api/simulation/claims/:id/advisory the officer consulted
+    advisoryId?: string;
+}
+
+// --- API responses ---
+
+export interface AuthResponse {
+    token: string;
+    user: AuthUser;
+}
+
+export interface MeResponse {
+    user: AuthUser;
+}
+
+export interface SubmitClaimResponse {
+    message: string;
+    claim: SimulatedClaim;
+    reason: string;
+    geometryRepairs: string[];
+    suggestion: ClipSuggestion | null;
+    // Set when the declared area disagrees with the drawn boundary beyond tolerance
+    areaWarning: string | null;
+}
+
+export interface ClaimResponse {
+    claim: SimulatedClaim;
+}
+
+export interface ReviewClaimResponse {
+    message: string;
+    claim: SimulatedClaim;
+}
+
+export interface ClaimHistoryResponse {
+    claimId: string;
+    status: ClaimStatus;
+    allowedTransitions: ClaimStatus[];
+    history: ClaimHistoryEntry[];
+}
+
+export interface ClaimAdvisoryResponse {
+    advisory: ClaimAdvisory;
+}
+
+export interface MeasureAreaRequest {
+    geojson: GeoJSONClaimFeature;
+    district?: string;
+    unit?: AreaUnit;
+}
+
+export interface MeasureAreaResponse {
+    area: number;
+    unit: AreaUnit;
+    crs: string;
+}
+
+export interface ClaimConflictsResponse {
+    claimId: string;
+    conflicts: ClaimConflict[];
+}
+
+export interface OverlapQueryRequest {
+    geojson: GeoJSONClaimFeature;
+}
+
+export interface OverlapQueryResponse {
+    // Only claims the caller may view; citizens see their own
+    overlaps: ClaimOverlap[];
+    // Overlaps with claims the caller may not view, as totals without IDs or geometry
+    otherClaims: { count: number; overlapAcres: number };
+}
+
+export interface ConflictGraphResponse {
+    edges: ConflictEdge[];
+}
+
+export interface ZoneConfigResponse {
+    defaults: ZoneRules;
+    zones: ResolvedZoneRules[];
+}
+
+export type UpdateZoneRulesRequest = ZoneRulesOverride;
+
+export interface RiskConfigResponse {
+    config: RiskConfig;
+    factors: RiskFactorInfo[];
+}
+
+export interface UpdateRiskConfigRequest {
+    weights?: Record<string, number>;
+    thresholds?: Partial<RiskThresholds>;
+    pendingAgeFullDays?: number;
+}
+
+export interface LifecycleTable {
+    intakeStatuses: ClaimStatus[];
+    transitions: Partial<Record<ClaimStatus, ClaimStatus[]>>;
+}
+
+// A number a finding rests on, e.g. { label: "Claims in conflict", value: 4, source: "counts.conflicts" }
+export interface ReportFigure {
+    label: string;
+    value: number;
+    // Path of the cited field in the report's data; absent on reports archived before figures named one
+    source?: string;
+    // False when the cited field does not exist or holds a different number
+    verified: boolean;
+}
+
+export interface ReportFinding {
+    statement: string;
+    // Claims the finding cites; IDs not in the district's data are removed and listed in issues
+    claimIds: string[];
+    figures: ReportFigure[];
+    // What the server could not trace back to the data; empty when the finding checks out
+    issues: string[];
+}
+
+// Compliance report written against a fixed schema and checked against the district's data
+export interface StructuredReport {
+    summary: string;
+    riskLevel: RiskLevel;
+    findings: ReportFinding[];
+    recommendedActions: string[];
+    legalReferences: string[];
+    // Report-wide problems, e.g. a risk level that disagrees with the risk engine
+    issues: string[];
+}
+
+export interface ReportResponse {
+    district: string;
+    report: StructuredReport;
+    // The report rendered as markdown, for the PDF dossier and plain clients
+    reportText: string;
+    reportType: "reserved_violation" | "conflict";
+    // Provider that wrote the report, e.g. "ollama:llama3" or "template"
+    provider: string;
+    // Where the report was saved in the archive; null when it was written without being archived (the dossier)
+    archived: ArchivedReportSummary | null;
+}
+
+// Report archive: every generated report is kept with the data it was written from
+
+export interface ReportStats {
+    total: number;
+    approved: number;
+    pending: number;
+    conflicts: number;
+    reservedViolations: number;
+    conflictPct: number;
+}
+
+// One claim as the report saw it
+export interface ReportEvidenceClaim {
+    claimId: string;
+    status: ClaimStatus;
+    village: string | null;
+    areaRequestedAcres: number;
+    drawnAcres: number | null;
+    severityPct: number;
+    reservedZones: string[];
+    overlapsWith: string[];
+}
+
+// The district's figures at the time a report was generated
+export interface ReportSnapshot {
+    stats: ReportStats;
+    risk: DistrictRisk;
+    claims: ReportEvidenceClaim[];
+}
+
+export interface ArchivedReportSummary {
+    reportId: string;
+    district: string;
+    // 1 for a district's first report, counting up
+    version: number;
+    generatedAt: string;
+    // Username of who generated the report; null only on reports archived before generating required a login
+    generatedBy: string | null;
+    provider: string;
+    // Bumped whenever the prompt or report schema changes, so differences can be told apart from model drift
+    promptVersion: string;
+    reportType: ReportResponse["reportType"];
+    riskScore: number;
+    riskLevel: RiskLevel;
+}
+
+export interface ArchivedReport extends ArchivedReportSummary {
+    snapshot: ReportSnapshot;
+    report: StructuredReport;
+    reportText: string;
+}
+
+export interface ReportArchiveResponse {
+    reports: ArchivedReportSummary[];
+}
+
+export interface ArchivedReportResponse {
+    report: ArchivedReport;
+}
+
+export interface ValueChange {
+    label: string;
+    from: number;
+    to: number;
+}
+
+export interface ReportTextChange {
+    op: "same" | "added" | "removed";
+    line: string;
+}
+
+// GET /api/reports/compare: two archived reports, or one against the district's current figures
+export interface ReportComparison {
+    district: string;
+    from: ArchivedReportSummary;
+    // null when compared with the current figures
+    to: ArchivedReportSummary | null;
+    stats: ValueChange[];
+    riskScore: ValueChange;
+    riskLevel: { from: RiskLevel; to: RiskLevel };
+    // Points per risk factor
+    drivers: ValueChange[];
+    claims: {
+        added: string[];
+        removed: string[];
+        statusChanged: { claimId: string; from: ClaimStatus; to: ClaimStatus }[];
+    };
+    // Finding statements and report lines; null when compared with the current figures
+    findings: { added: string[]; removed: string[] } | null;
+    text: ReportTextChange[] | null;
+}
+
+// "token" event of /api/report/:district/stream: the next piece of the markdown report
+export interface ReportStreamToken {
+    text: string;
+}
+
+export interface ErrorResponse {
+    error: string;
+    issues?: { path: string; message: string }[];
+}
+
+// --- Live events (Server-Sent Events on /api/simulation/events) ---
+
+export const SIMULATION_EVENT_TYPES = ["claim-created", "claim-reviewed", "analytics-changed", "zone-config-changed"] as const;
+export type SimulationEventType = typeof SIMULATION_EVENT_TYPES[number];
+
+export interface ClaimEventPayload {
+    claim: SimulatedClaim;
+    timestamp: string;
+}
+
+// district is null when every district's figures changed (e.g. new risk weights)
+export interface AnalyticsChangedPayload {
+    district: string | null;
+    timestamp: string;
+}
+
+// zoneId is null when the default rules changed
+export interface ZoneConfigChangedPayload {
+    zoneId: string | null;
+    timestamp: string;
+}
+
+// Limits applied to every claim submission
+export const CLAIM_LIMITS = {
+    maxAreaAcres: 2000,
+    maxVertices: 500,
+    // Declared vs drawn area may differ by this much (percent of drawn area) before a warning
+    areaTolerancePct: 10,
+    // Bounding box of mainland India plus islands, [minLon, minLat, maxLon, maxLat]
+    bounds: [68.0, 6.0, 98.0, 37.5] as const
+};
+
+// Limits applied to imported forest and reserved-forest zones. Surveyed zone boundaries are far
+// more detailed than a drawn claim, and only need to be valid WGS 84 positions
+export const ZONE_LIMITS = {
+    maxVertices: 50000,
+    bounds: [-180, -90, 180, 90] as const
+};
+
+// Geometry limits a boundary is checked against; CLAIM_LIMITS and ZONE_LIMITS both fit
+export interface GeometryLimits {
+    maxVertices: number;
+    bounds: readonly [number, number, number, number];
+}
+
+// Limits applied to every bulk import upload
+export const IMPORT_LIMITS = {
+    maxFileBytes: 20 * 1024 * 1024,
+    // Total size of the entries read out of a zipped Shapefile, however small the zip itself
+    maxUncompressedBytes: 100 * 1024 * 1024,
+    maxFeatures: 1000
+};
+
+// --- GeoJSON (only the parts this system exchanges) ---
+
+export interface GeoJSONPolygon {
+    type: "Polygon";
+    coordinates: PolygonCoordinates;
+}
+
+export interface GeoJSONMultiPolygon {
+    type: "MultiPolygon";
+    coordinates: MultiPolygonCoordinates;
+}
+
+export interface GeoJSONClaimFeature {
+    type: "Feature";
+    geometry: GeoJSONPolygon | GeoJSONMultiPolygon;
+    properties: Record<string, unknown> | null;
+}
+
+export interface GeoJSONFeature<P = Record<string, unknown>> {
+    type: "Feature";
+    geometry: { type: string; coordinates: unknown };
+    properties: P;
+}
+
+export interface GeoJSONFeatureCollection<P = Record<string, unknown>> {
+    type: "FeatureCollection";
+    features: GeoJSONFeature<P>[];
+}
+
+/**
+ * Compile-time exhaustiveness check for switches over the unions above
+ */
+export function assertNever(value: never): never {
+    throw new Error(`Unhandled value: ${JSON.stringify(value)}`);
+}
@@ -0,0 +1,4 @@
+export * from './domain';
+export * from './units';
+export * from './validators';
+export * from './claimQuery';
@@ -0,0 +1,31 @@
+// Area units shared by the API and the UI.
+// Everything is stored in acres; these helpers convert at the edges.
+
+export const AREA_UNITS = ["acres", "hectares", "sq_km"] as const;
+export type AreaUnit = typeof AREA_UNITS[number];
+
+export const AREA_UNIT_LABELS: Record<AreaUnit, string> = {
+    acres: "acres",
+    hectares: "ha",
+    sq_km: "sq km"
+};
+
+// Square metres in one unit (international acre)
+export const SQ_METERS_PER_UNIT: Record<AreaUnit, number> = {
+    acres: 4046.8564224,
+    hectares: 10000,
+    sq_km: 1000000
+};
+
+export const convertArea = (value: number, from: AreaUnit, to: AreaUnit): number =>
+    from === to ? value : (value * SQ_METERS_PER_UNIT[from]) / SQ_METERS_PER_UNIT[to];
+
+export const sqMetersTo = (sqMeters: number, unit: AreaUnit): number => sqMeters / SQ_METERS_PER_UNIT[unit];
+
+/**
+ * Formats an area held in acres for display in the given unit, e.g. "12.4 ha"
+ */
+export const formatArea = (acres: number, unit: AreaUnit, maxDigits = 2): string => {
+    const value = convertArea(acres, "acres", unit);
+    return `${value.toLocaleString(undefined, { maximumFractionDigits: maxDigits })} ${AREA_UNIT_LABELS[unit]}`;
+};
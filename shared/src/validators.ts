@@ -0,0 +1,860 @@
+// Minimal runtime validators for API payloads.
+// Each validator checks an unknown value and either returns it typed or lists
+// every problem found, with a dotted path to the offending field.
+
+import {
+    ADVISORY_CONFIDENCE_LEVELS,
+    CLAIM_QUERY_LIMITS,
+    CLAIM_SORT_FIELDS,
+    CLAIM_STATUSES,
+    IMPORT_FORMATS,
+    IMPORT_KINDS,
+    INTAKE_STATUSES,
+    KNOWN_DISTRICTS,
+    USER_ROLES,
+    LEGACY_CLAIM_STATUSES,
+    type AdvisoryCapacityImpact,
+    type AdvisoryOverlap,
+    type AdvisoryPrecedent,
+    type AnalyticsChangedPayload,
+    type AnalyticsData,
+    type AnalyticsSummary,
+    type ArchivedReport,
+    type ArchivedReportResponse,
+    type ArchivedReportSummary,
+    type AreaCheck,
+    type AuthResponse,
+    type AuthUser,
+    type ClaimAdvisory,
+    type ClaimAdvisoryRecord,
+    type ClaimAdvisoryResponse,
+    type ClaimConflict,
+    type ClaimConflictsResponse,
+    type ClaimOverlap,
+    type ClaimQuery,
+    type ClaimQueryResponse,
+    type ClaimResponse,
+    type ClaimReviewFacts,
+    type ClipSuggestion,
+    type ClaimEventPayload,
+    type ClaimHistoryEntry,
+    type ClaimHistoryResponse,
+    type ClaimStatus,
+    type ConflictEdge,
+    type ConflictGraphResponse,
+    type DistrictExtentProperties,
+    type DistrictRisk,
+    type ErrorResponse,
+    type ForestZoneHit,
+    type GeoJSONFeatureCollection,
+    type GeoJSONClaimFeature,
+    type GeoJSONMultiPolygon,
+    type GeoJSONPolygon,
+    type ImportFeatureResult,
+    type ImportReport,
+    type ImportRequest,
+    type LegacyClaimProperties,
+    type LifecycleTable,
+    type LoginRequest,
+    type MeasureAreaRequest,
+    type MeasureAreaResponse,
+    type MeResponse,
+    type OverlapQueryRequest,
+    type OverlapQueryResponse,
+    type RegisterRequest,
+    type ReportArchiveResponse,
+    type ReportComparison,
+    type ReportEvidenceClaim,
+    type ReportFigure,
+    type ReportFinding,
+    type ReportResponse,
+    type ReportSnapshot,
+    type ReportStats,
+    type ReportStreamToken,
+    type ReportTextChange,
+    type ReviewClaimRequest,
+    type ReservedZoneHit,
+    type ResolvedZoneRules,
+    type RiskConfig,
+    type RiskConfigResponse,
+    type RiskFactorContribution,
+    type RiskThresholds,
+    type ReviewClaimResponse,
+    type SimulatedClaim,
+    type StructuredReport,
+    type SubmitClaimRequest,
+    type SubmitClaimResponse,
+    type UpdateRiskConfigRequest,
+    type UpdateZoneRulesRequest,
+    type ValueChange,
+    type ZoneBreakdown,
+    type ZoneConfigChangedPayload,
+    type ZoneConfigResponse,
+    type ZoneRules,
+    type ZoneStatusRules,
+    type ZoneThresholds
+} from './domain';
+import { AREA_UNITS } from './units';
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export type ValidationResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; issues: ValidationIssue[] };
+
+export type Validator<T> = (input: unknown, path?: string) => ValidationResult<T>;
+
+const pass = <T>(value: T): ValidationResult<T> => ({ ok: true, value });
+const fail = <T>(path: string, message: string): ValidationResult<T> => ({ ok: false, issues: [{ path: path || '(root)', message }] });
+
+const describe = (input: unknown) => (input === null ? 'null' : Array.isArray(input) ? 'array' : typeof input);
+
+// --- Primitive validators ---
+
+export const string = (opts: { nonEmpty?: boolean } = {}): Validator<string> => (input, path = '') => {
+    if (typeof input !== 'string') return fail(path, `Expected a string, received ${describe(input)}.`);
+    if (opts.nonEmpty && !input.trim()) return fail(path, 'Must not be empty.');
+    return pass(input);
+};
+
+export const number = (opts: { min?: number; max?: number; positive?: boolean } = {}): Validator<number> => (input, path = '') => {
+    if (typeof input !== 'number' || !Number.isFinite(input)) return fail(path, `Expected a finite number, received ${describe(input)}.`);
+    if (opts.positive && input <= 0) return fail(path, 'Must be greater than 0.');
+    if (opts.min !== undefined && input < opts.min) return fail(path, `Must be at least ${opts.min}.`);
+    if (opts.max !== undefined && input > opts.max) return fail(path, `Must be at most ${opts.max}.`);
+    return pass(input);
+};
+
+export const boolean = (): Validator<boolean> => (input, path = '') =>
+    typeof input === 'boolean' ? pass(input) : fail(path, `Expected a boolean, received ${describe(input)}.`);
+
+export const oneOf = <T extends string>(values: readonly T[]): Validator<T> => (input, path = '') =>
+    typeof input === 'string' && (values as readonly string[]).includes(input)
+        ? pass(input as T)
+        : fail(path, `Expected one of ${values.map(v => `'${v}'`).join(', ')}.`);
+
+export const unknownValue = (): Validator<unknown> => (input) => pass(input);
+
+// --- Composite validators ---
+
+/**
+ * Accepts the first alternative that validates; reports the issues of the last one otherwise
+ */
+export const anyOf = <A, B>(first: Validator<A>, second: Validator<B>): Validator<A | B> => (input, path = '') => {
+    const firstResult = first(input, path);
+    if (firstResult.ok) return firstResult;
+    return second(input, path);
+};
+
+export const optional = <T>(inner: Validator<T>): Validator<T | undefined> => (input, path = '') =>
+    input === undefined ? pass(undefined) : inner(input, path);
+
+export const nullable = <T>(inner: Validator<T>): Validator<T | null> => (input, path = '') =>
+    input === null ? pass(null) : inner(input, path);
+
+export const array = <T>(item: Validator<T>): Validator<T[]> => (input, path = '') => {
+    if (!Array.isArray(input)) return fail(path, `Expected an array, received ${describe(input)}.`);
+    const issues: ValidationIssue[] = [];
+    const values: T[] = [];
+    input.forEach((entry, idx) => {
+        const result = item(entry, `${path}[${idx}]`);
+        if (result.ok) values.push(result.value);
+        else issues.push(...result.issues);
+    });
+    return issues.length ? { ok: false, issues } : pass(values);
+};
+
+export const record = <T>(item: Validator<T>): Validator<Record<string, T>> => (input, path = '') => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return fail(path, `Expected an object, received ${describe(input)}.`);
+    }
+    const issues: ValidationIssue[] = [];
+    for (const [key, entry] of Object.entries(input)) {
+        const result = item(entry, path ? `${path}.${key}` : key);
+        if (!result.ok) issues.push(...result.issues);
+    }
+    return issues.length ? { ok: false, issues } : pass(input as Record<string, T>);
+};
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+/**
+ * Validates an object against a field-by-field shape. Unknown keys are kept as-is.
+ */
+export const object = <T>(shape: Shape<T>): Validator<T> => (input, path = '') => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return fail(path, `Expected an object, received ${describe(input)}.`);
+    }
+    const issues: ValidationIssue[] = [];
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        const result = shape[key]((input as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+        if (!result.ok) issues.push(...result.issues);
+    }
+    return issues.length ? { ok: false, issues } : pass(input as T);
+};
+
+// --- Domain validators ---
+
+const claimStatus = oneOf<ClaimStatus>(CLAIM_STATUSES);
+const intakeStatus = oneOf(INTAKE_STATUSES);
+
+const coordinatePair = array(number());
+const polygonCoordinates = array(array(coordinatePair));
+const multiPolygonCoordinates = array(polygonCoordinates);
+
+const areaGeometry = anyOf(
+    object<GeoJSONPolygon>({
+        type: oneOf(["Polygon"] as const),
+        coordinates: polygonCoordinates
+    }),
+    object<GeoJSONMultiPolygon>({
+        type: oneOf(["MultiPolygon"] as const),
+        coordinates: multiPolygonCoordinates
+    })
+);
+
+const claimFeature = object<GeoJSONClaimFeature>({
+    type: oneOf(["Feature"] as const),
+    geometry: areaGeometry,
+    properties: nullable(record(unknownValue()))
+});
+
+const advisoryConfidence = oneOf(ADVISORY_CONFIDENCE_LEVELS);
+
+const advisoryRecord = object<ClaimAdvisoryRecord>({
+    advisoryId: string(),
+    recommendation: claimStatus,
+    confidence: advisoryConfidence,
+    rationale: string(),
+    provider: string(),
+    generatedAt: string(),
+    followed: boolean()
+});
+
+const historyEntry = object<ClaimHistoryEntry>({
+    from: nullable(claimStatus),
+    to: claimStatus,
+    actor: string(),
+    remark: string(),
+    timestamp: string(),
+    advisory: optional(advisoryRecord)
+});
+
+const reservedZoneHit = object<ReservedZoneHit>({
+    zoneId: string(),
+    district: string(),
+    intersectAcres: number({ min: 0 })
+});
+
+const zoneBreakdown = object<ZoneBreakdown>({
+    forestZones: array(object<ForestZoneHit>({
+        zoneId: string(),
+        district: string(),
+        intersectAcres: number({ min: 0 }),
+        severity: number({ min: 0 }),
+        status: intakeStatus
+    })),
+    reservedZones: array(reservedZoneHit)
+});
+
+const areaCheck = object<AreaCheck>({
+    drawnAcres: number({ min: 0 }),
+    declaredAcres: number({ min: 0 }),
+    discrepancyPct: number({ min: 0 }),
+    withinTolerance: boolean(),
+    crs: string()
+});
+
+const areaUnit = oneOf(AREA_UNITS);
+
+const clipSuggestion = object<ClipSuggestion>({
+    geometry: areaGeometry,
+    acres: number({ min: 0 }),
+    removedReservedAcres: number({ min: 0 }),
+    removedApprovedAcres: number({ min: 0 })
+});
+
+export const validateSimulatedClaim = object<SimulatedClaim>({
+    claimId: string({ nonEmpty: true }),
+    citizenName: string(),
+    ownerId: nullable(string()),
+    district: string(),
+    village: nullable(string()),
+    areaRequested: number(),
+    geometryType: nullable(oneOf(["Polygon", "MultiPolygon"] as const)),
+    coordinates: nullable(anyOf(polygonCoordinates, multiPolygonCoordinates)),
+    status: claimStatus,
+    conflictPercentage: number(),
+    timestamp: string(),
+    history: array(historyEntry),
+    zoneBreakdown: nullable(zoneBreakdown),
+    areaCheck: nullable(areaCheck),
+    suggestion: optional(nullable(clipSuggestion)),
+    resubmissionOf: optional(nullable(string())),
+    supersededBy: optional(nullable(string()))
+});
+
+export const validateSimulatedClaimList = array(validateSimulatedClaim);
+
+export const validateAuthUser = object<AuthUser>({
+    userId: string({ nonEmpty: true }),
+    username: string({ nonEmpty: true }),
+    name: string(),
+    role: oneOf(USER_ROLES),
+    district: nullable(string()),
+    createdAt: string()
+});
+
+const riskFactorContribution = object<RiskFactorContribution>({
+    factorId: string({ nonEmpty: true }),
+    label: string(),
+    weight: number({ min: 0 }),
+    value: number({ min: 0, max: 100 }),
+    points: number({ min: 0 }),
+    detail: string()
+});
+
+const districtRisk = object<DistrictRisk>({
+    district: string(),
+    total_claims: number(),
+    pending: number(),
+    conflicts: number(),
+    risk_score: number(),
+    risk_level: oneOf(["Low", "Moderate", "High"] as const),
+    explanation: array(riskFactorContribution)
+});
+
+const analyticsSummary = object<AnalyticsSummary>({
+    total_claims: number(),
+    approved_claims: number(),
+    pending_claims: number(),
+    conflict_claims: number(),
+    approved_pct: number(),
+    pending_pct: number()
+});
+
+export const validateAnalyticsData = object<AnalyticsData>({
+    summary: analyticsSummary,
+    districts: array(districtRisk)
+});
+
+export const validateFeatureCollection = object<GeoJSONFeatureCollection>({
+    type: oneOf(["FeatureCollection"] as const),
+    features: array(object({
+        type: oneOf(["Feature"] as const),
+        geometry: object({
+            type: string(),
+            coordinates: unknownValue()
+        }),
+        properties: record(unknownValue())
+    }))
+});
+
+export const validateDistrictExtents = object<GeoJSONFeatureCollection<DistrictExtentProperties>>({
+    type: oneOf(["FeatureCollection"] as const),
+    features: array(object({
+        type: oneOf(["Feature"] as const),
+        geometry: object({
+            type: string(),
+            coordinates: unknownValue()
+        }),
+        properties: object<DistrictExtentProperties>({
+            district: string({ nonEmpty: true }),
+            zoneCount: number({ min: 0 }),
+            claimCount: number({ min: 0 })
+        })
+    }))
+});
+
+export const validateLegacyClaimProperties = object<LegacyClaimProperties>({
+    claimId: string({ nonEmpty: true }),
+    district: string(),
+    village: nullable(string()),
+    status: oneOf(LEGACY_CLAIM_STATUSES),
+    area: number(),
+    overlap: boolean(),
+    protected_zone: boolean()
+});
+
+const percentage = number({ min: 0, max: 100 });
+
+const zoneThresholds = object<ZoneThresholds>({
+    moderateAbovePct: percentage,
+    flaggedAbovePct: percentage
+});
+
+const zoneStatusRules = object<ZoneStatusRules>({
+    withinLimits: intakeStatus,
+    moderate: intakeStatus,
+    high: intakeStatus,
+    outsideZone: intakeStatus,
+    reservedForest: intakeStatus
+});
+
+const zoneRules = object<ZoneRules>({
+    capacityAcres: number({ positive: true }),
+    thresholds: zoneThresholds,
+    statusRules: zoneStatusRules
+});
+
+// Requests
+
+export const validateLoginRequest = object<LoginRequest>({
+    username: string({ nonEmpty: true }),
+    password: string({ nonEmpty: true })
+});
+
+export const validateRegisterRequest = object<RegisterRequest>({
+    username: string({ nonEmpty: true }),
+    name: string({ nonEmpty: true }),
+    password: string({ nonEmpty: true })
+});
+
+export const validateSubmitClaimRequest = object<SubmitClaimRequest>({
+    district: oneOf(KNOWN_DISTRICTS),
+    // The acre limit is checked by the server after unit conversion
+    areaRequested: optional(number({ positive: true })),
+    geojson: optional(nullable(claimFeature)),
+    areaUnit: optional(areaUnit),
+    resubmissionOf: optional(string({ nonEmpty: true }))
+});
+
+export const validateMeasureAreaRequest = object<MeasureAreaRequest>({
+    geojson: claimFeature,
+    district: optional(string()),
+    unit: optional(areaUnit)
+});
+
+export const validateOverlapQueryRequest = object<OverlapQueryRequest>({
+    geojson: claimFeature
+});
+
+// One polygon feature, as read from an import file
+export const validateClaimFeature = claimFeature;
+
+export const validateImportRequest = object<ImportRequest>({
+    kind: oneOf(IMPORT_KINDS),
+    district: optional(oneOf(KNOWN_DISTRICTS)),
+    sourceCrs: optional(string({ nonEmpty: true }))
+});
+
+export const validateUpdateZoneRulesRequest = object<UpdateZoneRulesRequest>({
+    capacityAcres: optional(number({ positive: true })),
+    thresholds: optional(object<Partial<ZoneThresholds>>({
+        moderateAbovePct: optional(percentage),
+        flaggedAbovePct: optional(percentage)
+    })),
+    statusRules: optional(object<Partial<ZoneStatusRules>>({
+        withinLimits: optional(intakeStatus),
+        moderate: optional(intakeStatus),
+        high: optional(intakeStatus),
+        outsideZone: optional(intakeStatus),
+        reservedForest: optional(intakeStatus)
+    }))
+});
+
+export const validateUpdateRiskConfigRequest = object<UpdateRiskConfigRequest>({
+    weights: optional(record(number({ min: 0 }))),
+    thresholds: optional(object<Partial<RiskThresholds>>({
+        lowMax: optional(number({ min: 0 })),
+        moderateMax: optional(number({ min: 0 }))
+    })),
+    pendingAgeFullDays: optional(number({ positive: true }))
+});
+
+const calendarDate: Validator<string> = (input, path = '') => {
+    const result = string()(input, path);
+    if (!result.ok) return result;
+    return /^\d{4}-\d{2}-\d{2}$/.test(result.value) && !Number.isNaN(Date.parse(result.value))
+        ? result
+        : fail(path, 'Expected a date as YYYY-MM-DD.');
+};
+
+const claimQueryShape = object<ClaimQuery>({
+    text: optional(string()),
+    statuses: optional(array(claimStatus)),
+    district: optional(oneOf(KNOWN_DISTRICTS)),
+    submittedFrom: optional(calendarDate),
+    submittedTo: optional(calendarDate),
+    minAreaAcres: optional(number({ min: 0 })),
+    maxAreaAcres: optional(number({ min: 0 })),
+    minSeverity: optional(number({ min: 0 })),
+    maxSeverity: optional(number({ min: 0 })),
+    bbox: optional(array(number()) as Validator<[number, number, number, number]>),
+    sort: optional(oneOf(CLAIM_SORT_FIELDS)),
+    order: optional(oneOf(["asc", "desc"] as const)),
+    page: optional(number({ min: 1 })),
+    pageSize: optional(number({ min: 1, max: CLAIM_QUERY_LIMITS.maxPageSize }))
+});
+
+// Lower bound must not exceed the upper bound, for each range the query may carry
+const CLAIM_QUERY_RANGES: [keyof ClaimQuery, keyof ClaimQuery][] = [
+    ['submittedFrom', 'submittedTo'],
+    ['minAreaAcres', 'maxAreaAcres'],
+    ['minSeverity', 'maxSeverity']
+];
+
+export const validateClaimQuery: Validator<ClaimQuery> = (input, path = '') => {
+    const result = claimQueryShape(input, path);
+    if (!result.ok) return result;
+    const query = result.value;
+    const issues: ValidationIssue[] = [];
+    const at = (key: string) => (path ? `${path}.${key}` : key);
+
+    if (query.bbox && (query.bbox.length !== 4 || query.bbox[0] > query.bbox[2] || query.bbox[1] > query.bbox[3])) {
+        issues.push({ path: at('bbox'), message: 'Expected [minLon, minLat, maxLon, maxLat].' });
+    }
+    for (const [low, high] of CLAIM_QUERY_RANGES) {
+        const from = query[low];
+        const to = query[high];
+        if (from !== undefined && to !== undefined && from > to) {
+            issues.push({ path: at(low), message: 'Must not be greater than the upper bound.' });
+        }
+    }
+    return issues.length ? { ok: false, issues } : result;
+};
+
+export const validateReviewClaimRequest = object<ReviewClaimRequest>({
+    status: claimStatus,
+    remark: string({ nonEmpty: true }),
+    advisoryId: optional(string({ nonEmpty: true }))
+});
+
+// Responses
+
+export const validateAuthResponse = object<AuthResponse>({
+    token: string({ nonEmpty: true }),
+    user: validateAuthUser
+});
+
+export const validateMeResponse = object<MeResponse>({
+    user: validateAuthUser
+});
+
+export const validateSubmitClaimResponse = object<SubmitClaimResponse>({
+    message: string(),
+    claim: validateSimulatedClaim,
+    reason: string(),
+    geometryRepairs: array(string()),
+    suggestion: nullable(clipSuggestion),
+    areaWarning: nullable(string())
+});
+
+export const validateClaimResponse = object<ClaimResponse>({
+    claim: validateSimulatedClaim
+});
+
+export const validateReviewClaimResponse = object<ReviewClaimResponse>({
+    message: string(),
+    claim: validateSimulatedClaim
+});
+
+export const validateClaimHistoryResponse = object<ClaimHistoryResponse>({
+    claimId: string(),
+    status: claimStatus,
+    allowedTransitions: array(claimStatus),
+    history: array(historyEntry)
+});
+
+export const validateClaimAdvisoryResponse = object<ClaimAdvisoryResponse>({
+    advisory: object<ClaimAdvisory>({
+        advisoryId: string(),
+        claimId: string(),
+        forStatus: claimStatus,
+        recommendation: claimStatus,
+        confidence: advisoryConfidence,
+        rationale: string(),
+        considerations: array(string()),
+        issues: array(string()),
+        facts: object<ClaimReviewFacts>({
+            claimId: string(),
+            district: string(),
+            village: nullable(string()),
+            status: claimStatus,
+            areaRequestedAcres: number(),
+            drawnAcres: nullable(number()),
+            severityPct: number(),
+            overlaps: array(object<AdvisoryOverlap>({
+                claimId: string(),
+                status: claimStatus,
+                overlapAcres: number()
+            })),
+            reservedEncroachment: array(reservedZoneHit),
+            capacity: array(object<AdvisoryCapacityImpact>({
+                zoneId: string(),
+                capacityAcres: number(),
+                approvedAcres: number(),
+                claimAcres: number(),
+                usedPctIfApproved: number()
+            })),
+            precedents: array(object<AdvisoryPrecedent>({
+                claimId: string(),
+                decision: claimStatus,
+                remark: string(),
+                decidedAt: string(),
+                severityPct: number(),
+                reservedEncroachment: boolean()
+            })),
+            allowedTransitions: array(claimStatus)
+        }),
+        provider: string(),
+        generatedAt: string()
+    })
+});
+
+export const validateClaimQueryResponse = object<ClaimQueryResponse>({
+    claims: validateSimulatedClaimList,
+    total: number({ min: 0 }),
+    page: number({ min: 1 }),
+    pageSize: number({ min: 1 }),
+    matchedIds: array(string()),
+    summary: analyticsSummary
+});
+
+const conflictEdge = object<ConflictEdge>({
+    claimIds: array(string()) as Validator<[string, string]>,
+    overlapAcres: number({ min: 0 }),
+    geometry: areaGeometry,
+    detectedAt: string()
+});
+
+const claimOverlap = object<ClaimOverlap>({
+    claimId: string({ nonEmpty: true }),
+    overlapAcres: number({ min: 0 }),
+    geometry: areaGeometry
+});
+
+export const validateOverlapQueryResponse = object<OverlapQueryResponse>({
+    overlaps: array(claimOverlap),
+    otherClaims: object({ count: number({ min: 0 }), overlapAcres: number({ min: 0 }) })
+});
+
+const claimConflict = object<ClaimConflict>({
+    claimId: string({ nonEmpty: true }),
+    status: claimStatus,
+    district: string(),
+    overlapAcres: number({ min: 0 }),
+    geometry: areaGeometry,
+    detectedAt: string()
+});
+
+export const validateClaimConflictsResponse = object<ClaimConflictsResponse>({
+    claimId: string(),
+    conflicts: array(claimConflict)
+});
+
+export const validateConflictGraphResponse = object<ConflictGraphResponse>({
+    edges: array(conflictEdge)
+});
+
+export const validateZoneConfigResponse = object<ZoneConfigResponse>({
+    defaults: zoneRules,
+    zones: array(object<ResolvedZoneRules>({
+        zoneId: string({ nonEmpty: true }),
+        district: string(),
+        capacityAcres: number({ positive: true }),
+        thresholds: zoneThresholds,
+        statusRules: zoneStatusRules
+    }))
+});
+
+export const validateRiskConfigResponse = object<RiskConfigResponse>({
+    config: object<RiskConfig>({
+        weights: record(number({ min: 0 })),
+        thresholds: object<RiskThresholds>({
+            lowMax: number({ min: 0 }),
+            moderateMax: number({ min: 0 })
+        }),
+        pendingAgeFullDays: number({ positive: true })
+    }),
+    factors: array(object({
+        factorId: string({ nonEmpty: true }),
+        label: string(),
+        description: string()
+    }))
+});
+
+export const validateMeasureAreaResponse = object<MeasureAreaResponse>({
+    area: number({ min: 0 }),
+    unit: areaUnit,
+    crs: string()
+});
+
+const importFeatureResult = object<ImportFeatureResult>({
+    index: number({ min: 0 }),
+    label: string(),
+    outcome: oneOf(["imported", "failed"] as const),
+    claimId: nullable(string()),
+    zoneId: nullable(string()),
+    status: nullable(claimStatus),
+    conflictPercentage: nullable(number()),
+    repairs: array(string()),
+    issues: array(object<ValidationIssue>({ path: string(), message: string() }))
+});
+
+export const validateImportReport = object<ImportReport>({
+    fileName: string(),
+    format: oneOf(IMPORT_FORMATS),
+    kind: oneOf(IMPORT_KINDS),
+    sourceCrs: string(),
+    total: number({ min: 0 }),
+    imported: number({ min: 0 }),
+    failed: number({ min: 0 }),
+    features: array(importFeatureResult)
+});
+
+export const validateLifecycleTable = object<LifecycleTable>({
+    intakeStatuses: array(claimStatus),
+    transitions: record(array(claimStatus))
+});
+
+const reportFinding = object<ReportFinding>({
+    statement: string(),
+    claimIds: array(string()),
+    figures: array(object<ReportFigure>({ label: string(), value: number(), source: optional(string()), verified: boolean() })),
+    issues: array(string())
+});
+
+export const validateStructuredReport = object<StructuredReport>({
+    summary: string(),
+    riskLevel: oneOf(["Low", "Moderate", "High"] as const),
+    findings: array(reportFinding),
+    recommendedActions: array(string()),
+    legalReferences: array(string()),
+    issues: array(string())
+});
+
+const reportType = oneOf(["reserved_violation", "conflict"] as const);
+const riskLevel = oneOf(["Low", "Moderate", "High"] as const);
+
+const archivedReportSummaryShape = {
+    reportId: string({ nonEmpty: true }),
+    district: string(),
+    version: number({ min: 1 }),
+    generatedAt: string(),
+    generatedBy: nullable(string()),
+    provider: string(),
+    promptVersion: string(),
+    reportType,
+    riskScore: number(),
+    riskLevel
+};
+
+const archivedReportSummary = object<ArchivedReportSummary>(archivedReportSummaryShape);
+
+export const validateReportResponse = object<ReportResponse>({
+    district: string(),
+    report: validateStructuredReport,
+    reportText: string(),
+    reportType,
+    provider: string(),
+    archived: nullable(archivedReportSummary)
+});
+
+const reportSnapshot = object<ReportSnapshot>({
+    stats: object<ReportStats>({
+        total: number(),
+        approved: number(),
+        pending: number(),
+        conflicts: number(),
+        reservedViolations: number(),
+        conflictPct: number()
+    }),
+    risk: districtRisk,
+    claims: array(object<ReportEvidenceClaim>({
+        claimId: string(),
+        status: claimStatus,
+        village: nullable(string()),
+        areaRequestedAcres: number(),
+        drawnAcres: nullable(number()),
+        severityPct: number(),
+        reservedZones: array(string()),
+        overlapsWith: array(string())
+    }))
+});
+
+export const validateReportArchiveResponse = object<ReportArchiveResponse>({
+    reports: array(archivedReportSummary)
+});
+
+export const validateArchivedReportResponse = object<ArchivedReportResponse>({
+    report: object<ArchivedReport>({
+        ...archivedReportSummaryShape,
+        snapshot: reportSnapshot,
+        report: validateStructuredReport,
+        reportText: string()
+    })
+});
+
+const valueChange = object<ValueChange>({ label: string(), from: number(), to: number() });
+
+export const validateReportComparison = object<ReportComparison>({
+    district: string(),
+    from: archivedReportSummary,
+    to: nullable(archivedReportSummary),
+    stats: array(valueChange),
+    riskScore: valueChange,
+    riskLevel: object({ from: riskLevel, to: riskLevel }),
+    drivers: array(valueChange),
+    claims: object({
+        added: array(string()),
+        removed: array(string()),
+        statusChanged: array(object({ claimId: string(), from: claimStatus, to: claimStatus }))
+    }),
+    findings: nullable(object({ added: array(string()), removed: array(string()) })),
+    text: nullable(array(object<ReportTextChange>({
+        op: oneOf(["same", "added", "removed"] as const),
+        line: string()
+    })))
+});
+
+export const validateReportStreamToken = object<ReportStreamToken>({
+    text: string()
+});
+
+export const validateErrorResponse = object<ErrorResponse>({
+    error: string(),
+    issues: optional(array(object({ path: string(), message: string() })))
+});
+
+// Live events
+
+export const validateClaimEventPayload = object<ClaimEventPayload>({
+    claim: validateSimulatedClaim,
+    timestamp: string()
+});
+
+export const validateAnalyticsChangedPayload = object<AnalyticsChangedPayload>({
+    district: nullable(string()),
+    timestamp: string()
+});
+
+export const validateZoneConfigChangedPayload = object<ZoneConfigChangedPayload>({
+    zoneId: nullable(string()),
+    timestamp: string()
+});
+
+/**
+ * Thrown by parseOrThrow when a payload does not match its validator
+ */
+export class ValidationError extends Error {
+    issues: ValidationIssue[];
+
+    constructor(issues: ValidationIssue[], label = 'payload') {
+        super(`Invalid ${label}: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}`);
+        this.name = 'ValidationError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Runs a validator and returns the typed value, throwing a ValidationError otherwise
+ */
+export const parseOrThrow = <T>(validator: Validator<T>, input: unknown, label?: string): T => {
+    const result = validator(input);
+    if (!result.ok) throw new ValidationError(result.issues, label);
+    return result.value;
+};